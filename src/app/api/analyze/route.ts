@@ -1,9 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getEmbeddingCache } from '@/lib/embedding-cache'
 import { IssueAnalysisService } from '@/lib/issue-analysis'
+import { createServerCodeStorage } from '@/lib/server-code-storage'
+import { SyncedCommitRefSchema, SyncedIssueRefSchema, SyncedPullRequestRefSchema, SyncedReleaseRefSchema, SyncedRepositoryRefSchema } from '@/lib/types'
 
 export async function POST(req: NextRequest) {
   try {
-    const { statement } = await req.json()
+    const { statement, integrations, repositories, issues, pullRequests, commits, releases, reportedAt, reportedVersion } = await req.json()
 
     if (!statement || typeof statement !== 'string') {
       return NextResponse.json(
@@ -12,8 +16,30 @@ export async function POST(req: NextRequest) {
       )
     }
 
-    const analysisService = new IssueAnalysisService()
-    const analysis = await analysisService.analyzeUserStatement(statement)
+    const activeIntegrations = Array.isArray(integrations) ? integrations : []
+    const syncedRepositories = SyncedRepositoryRefSchema.array().safeParse(repositories)
+    const syncedIssues = SyncedIssueRefSchema.array().safeParse(issues)
+    const syncedPullRequests = SyncedPullRequestRefSchema.array().safeParse(pullRequests)
+    const syncedCommits = SyncedCommitRefSchema.array().safeParse(commits)
+    const syncedReleases = SyncedReleaseRefSchema.array().safeParse(releases)
+    const analysisService = new IssueAnalysisService(
+      activeIntegrations,
+      createServerCodeStorage(syncedRepositories.success ? syncedRepositories.data : [], activeIntegrations),
+      {
+        issues: syncedIssues.success ? syncedIssues.data : [],
+        pullRequests: syncedPullRequests.success ? syncedPullRequests.data : [],
+        commits: syncedCommits.success ? syncedCommits.data : [],
+        releases: syncedReleases.success ? syncedReleases.data : [],
+      },
+      getEmbeddingCache()
+    )
+    // When the issue was reported, to correlate it with the commits that preceded it
+    const reportedDate = z.coerce.date().safeParse(reportedAt)
+    const analysis = await analysisService.analyzeUserStatement(statement, {
+      reportedAt: reportedAt && reportedDate.success ? reportedDate.data : undefined,
+      // The release the customer runs, to tell whether a fix already shipped after it
+      reportedVersion: typeof reportedVersion === 'string' ? reportedVersion : undefined,
+    })
 
     return NextResponse.json(analysis)
   } catch (error) {
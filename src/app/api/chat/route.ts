@@ -1,21 +1,46 @@
-import { openai } from '@ai-sdk/openai';
-import { streamText, UIMessage, convertToModelMessages } from 'ai';
+import { streamText, UIMessage, convertToModelMessages, stepCountIs } from 'ai';
+import { z } from 'zod';
 import { IssueAnalysisService } from '@/lib/issue-analysis';
-import { ServerCodeContextService } from '@/lib/server-code-context-service';
+import { CodeContextService } from '@/lib/code-context-service';
+import { createServerCodeStorage } from '@/lib/server-code-storage';
+import { getEmbeddingCache } from '@/lib/embedding-cache';
+import { createIntegrationTools, describeIntegrationTools } from '@/lib/chat-tools';
+import { getLanguageModel, getProviderConfigError, resolveLLMSettings } from '@/lib/llm-providers';
+import { ContextManager } from '@/lib/context-manager';
+import { ConversationSummarySchema, Integration, SyncedCommitRefSchema, SyncedIssueRefSchema, SyncedPullRequestRefSchema, SyncedReleaseRefSchema, SyncedRepositoryRefSchema } from '@/lib/types';
 
 // Allow streaming responses up to 30 seconds
 export const maxDuration = 30;
 
+// Upper bound on model/tool round trips for a single chat turn
+const MAX_AGENT_STEPS = 5;
+
+// Text used to size a message against the token budget
+const getMessageText = (message: UIMessage) =>
+  message.parts.map(part => (part.type === 'text' ? part.text : JSON.stringify(part))).join(' ');
+
 // Removed edge runtime to support Dexie/IndexedDB for code context
 // export const runtime = 'edge';
 
 export async function POST(req: Request) {
   try {
     const body = await req.json();
-    console.log('Request body:', JSON.stringify(body, null, 2));
+    // Integrations carry credentials, so only the messages are logged
+    console.log('Request messages:', JSON.stringify(body.messages, null, 2));
     let { messages }: { messages: UIMessage[] } = body;
+    const integrations: Integration[] = Array.isArray(body.integrations) ? body.integrations : [];
+    // Repositories synced in the browser are searched through the server's cache of them
+    const repositories = SyncedRepositoryRefSchema.array().safeParse(body.repositories);
+    const codeStorage = createServerCodeStorage(repositories.success ? repositories.data : [], integrations);
+    // Synced issues are ranked against the statement; IndexedDB is only readable in the browser
+    const issues = SyncedIssueRefSchema.array().safeParse(body.issues);
+    // Recently synced pull requests, commits and releases, matched against the files code search finds
+    const pullRequests = SyncedPullRequestRefSchema.array().safeParse(body.pullRequests);
+    const commits = SyncedCommitRefSchema.array().safeParse(body.commits);
+    const releases = SyncedReleaseRefSchema.array().safeParse(body.releases);
+    const reportedAt = z.coerce.date().safeParse(body.reportedAt);
     
-    // Fix message format - convert parts-based messages to proper format
+    // Fix message format - derive text content from parts, keeping tool parts for multi-step history
     messages = messages.map((message: any) => {
       if (message.parts && Array.isArray(message.parts)) {
         // Extract text content from parts
@@ -25,7 +50,7 @@ export async function POST(req: Request) {
           id: message.id,
           role: message.role,
           content,
-          parts: [{ type: 'text', text: content }]
+          parts: message.parts.length > 0 ? message.parts : [{ type: 'text', text: content }]
         } as UIMessage;
       }
       // Ensure message has proper structure
@@ -39,9 +64,12 @@ export async function POST(req: Request) {
     
     console.log('Extracted messages:', messages);
 
-    if (!process.env.OPENAI_API_KEY) {
+    // Session settings override the workspace settings, which override the server defaults
+    const llmSettings = resolveLLMSettings(body.llm?.workspace, body.llm?.session);
+    const providerConfigError = getProviderConfigError(llmSettings.provider);
+    if (providerConfigError) {
       return new Response(
-        JSON.stringify({ error: 'OpenAI API key not configured' }),
+        JSON.stringify({ error: providerConfigError }),
         { 
           status: 500,
           headers: { 'Content-Type': 'application/json' }
@@ -65,14 +93,22 @@ export async function POST(req: Request) {
       const latestMessage = messages[messages.length - 1];
       let enhancedSystemPrompt = 'You are an intelligent L2/L3 Support Assistant specializing in technical troubleshooting, code analysis, and issue resolution. Provide clear, actionable, and technically accurate responses.';
       let analysisContext = '';
+      let codeContextPrompt = '';
 
       // Analyze user statement for relevant issues and code suggestions
       if (latestMessage?.role === 'user') {
         const messageContent = (latestMessage as any)?.content;
         if (messageContent && typeof messageContent === 'string') {
           try {
-            const analysisService = new IssueAnalysisService();
-            const analysis = await analysisService.analyzeUserStatement(messageContent);
+            const analysisService = new IssueAnalysisService(integrations, codeStorage, {
+              issues: issues.success ? issues.data : [],
+              pullRequests: pullRequests.success ? pullRequests.data : [],
+              commits: commits.success ? commits.data : [],
+              releases: releases.success ? releases.data : [],
+            }, getEmbeddingCache());
+            const analysis = await analysisService.analyzeUserStatement(messageContent, {
+              reportedAt: body.reportedAt && reportedAt.success ? reportedAt.data : undefined,
+            });
           
           if (analysis.confidence > 0.3) {
             // Include analysis results in the system prompt for better context
@@ -102,18 +138,49 @@ CONTEXT FROM ISSUE ANALYSIS:
               });
             }
             
+            if (analysis.relatedPullRequests.length > 0) {
+              analysisContext += `\nRecent Pull Requests Touching These Files:\n`;
+              analysis.relatedPullRequests.forEach(pr => {
+                const linked = pr.linkedIssues.length > 0 ? `, fixes ${pr.linkedIssues.map(issue => `#${issue}`).join(', ')}` : '';
+                analysisContext += `- ${pr.reference} "${pr.title}" (${pr.state}, updated ${pr.updatedAt.toISOString().slice(0, 10)}${linked}): changed ${pr.files.join(', ')} - ${pr.url}\n`;
+              });
+            }
+            
+            if (analysis.recentChanges.length > 0) {
+              analysisContext += `\nRecent Commits Touching These Files:\n`;
+              analysis.recentChanges.forEach(change => {
+                analysisContext += `- ${change.sha.slice(0, 7)} "${change.message}" by ${change.author} on ${change.date.toISOString().slice(0, 10)}: changed ${change.files.join(', ')} - ${change.url}\n`;
+              });
+            }
+
+            const { versionTriage } = analysis;
+            if (versionTriage.fileOrigins.length > 0 || versionTriage.reportedVersion) {
+              analysisContext += `\nRelease History of These Files:\n`;
+              versionTriage.fileOrigins.forEach(origin => {
+                const unreleased = origin.unreleasedCommits > 0 ? `, ${origin.unreleasedCommits} unreleased commit(s) since` : '';
+                analysisContext += `- ${origin.filePath} (${origin.repository}): last changed in ${origin.release.name} (${origin.release.publishedAt.toISOString().slice(0, 10)})${unreleased}\n`;
+              });
+              if (versionTriage.reportedVersion && versionTriage.reportedReleases.length === 0) {
+                analysisContext += `- The reported version ${versionTriage.reportedVersion} matches no synced release\n`;
+              }
+              versionTriage.laterReleases.forEach(release => {
+                const fixes = release.fixes.length > 0 ? `; likely fixes: ${release.fixes.join('; ')}` : '';
+                analysisContext += `- Released after the reported version ${versionTriage.reportedVersion}: ${release.name} (${release.publishedAt.toISOString().slice(0, 10)}) changed ${release.files.join(', ')}${fixes} - ${release.url}\n`;
+              });
+            }
+
             analysisContext += `\nAnalysis Summary: ${analysis.summary}\nConfidence: ${(analysis.confidence * 100).toFixed(1)}%\n`;
             
             enhancedSystemPrompt += analysisContext;
             
             // Add detailed code context if available
             if (analysis.codeContexts && analysis.codeContexts.length > 0) {
-              const serverCodeContextService = new ServerCodeContextService();
-              const formattedCodeContext = serverCodeContextService.formatContextsForPrompt(analysis.codeContexts);
-              enhancedSystemPrompt += `\n${formattedCodeContext}`;
+              const codeContextService = new CodeContextService(codeStorage);
+              const formattedCodeContext = codeContextService.formatContextsForPrompt(analysis.codeContexts);
+              codeContextPrompt = formattedCodeContext;
             }
             
-            enhancedSystemPrompt += `\n\nBased on this analysis and repository context, provide a comprehensive response that:\n1. Addresses the user's specific question or problem\n2. References relevant code files and their content when applicable\n3. Suggests concrete solutions and code improvements based on the actual repository structure\n4. Provides actionable next steps that are specific to their codebase\n5. Uses the provided code context to give precise, repository-aware recommendations\n\nWhen referencing code, use the actual file paths and content from the repository context above.`;
+            enhancedSystemPrompt += `\n\nBased on this analysis and repository context, provide a comprehensive response that:\n1. Addresses the user's specific question or problem\n2. References relevant code files and their content when applicable\n3. Suggests concrete solutions and code improvements based on the actual repository structure\n4. Provides actionable next steps that are specific to their codebase\n5. Uses the provided code context to give precise, repository-aware recommendations\n\nWhen referencing code, use the actual file paths and content from the repository context below.`;
           }
           } catch (analysisError) {
             console.warn('Issue analysis failed:', analysisError);
@@ -122,20 +189,41 @@ CONTEXT FROM ISSUE ANALYSIS:
         }
       }
 
-      // Use AI SDK's convertToModelMessages for proper message conversion
-      console.log('Messages before conversion:', messages);
-      const modelMessages = convertToModelMessages(messages);
-      console.log('Converted model messages:', modelMessages);
+      // Register integration operations as tools the model can call across steps
+      const tools = createIntegrationTools(integrations);
+      enhancedSystemPrompt += describeIntegrationTools(tools);
+
+      // Fit prompt, code context and history into the model's context window,
+      // folding turns that no longer fit into the session's rolling summary
+      const contextManager = new ContextManager(llmSettings, { summarizer: getLanguageModel(llmSettings) });
+      const previousSummary = ConversationSummarySchema.safeParse(body.summary);
+      const packed = await contextManager.pack({
+        systemPrompt: enhancedSystemPrompt,
+        codeContext: codeContextPrompt,
+        messages: messages as UIMessage[],
+        getText: getMessageText,
+        summary: previousSummary.success ? previousSummary.data : null,
+      });
+      console.log('Packed context usage:', packed.usage);
+
+      const modelMessages = convertToModelMessages(packed.messages);
       
       const result = await streamText({
-        model: openai('gpt-4-turbo-preview'),
+        model: getLanguageModel(llmSettings),
         messages: modelMessages,
-        system: enhancedSystemPrompt,
+        system: packed.system,
         temperature: 0.7,
+        tools,
+        stopWhen: stepCountIs(MAX_AGENT_STEPS),
       });
 
-      // Return the streaming response directly
-      return result.toUIMessageStreamResponse();
+      // Hand an updated summary back to the client so it can be stored on the session
+      return result.toUIMessageStreamResponse({
+        messageMetadata: ({ part }) =>
+          part.type === 'start' && packed.summaryUpdated
+            ? { conversationSummary: packed.summary }
+            : undefined,
+      });
       
     } catch (error) {
       console.error('Error in chat processing:', error);
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCodeIndex } from '@/lib/code-index'
+
+// Index stats for the project the chat route searches; refreshes the index first
+export async function GET() {
+  try {
+    const index = getCodeIndex()
+    await index.ensureFresh()
+    return NextResponse.json(await index.getStats())
+  } catch (error) {
+    console.error('Error reading code index stats:', error)
+    return NextResponse.json({ error: 'Failed to read code index stats' }, { status: 500 })
+  }
+}
+
+// { "rebuild": true } discards the index and re-reads every file
+export async function POST(req: NextRequest) {
+  try {
+    const { rebuild } = await req.json().catch(() => ({}))
+    const index = getCodeIndex()
+
+    if (rebuild) {
+      await index.rebuild()
+    } else {
+      await index.ensureFresh()
+    }
+
+    return NextResponse.json(await index.getStats())
+  } catch (error) {
+    console.error('Error refreshing code index:', error)
+    return NextResponse.json({ error: 'Failed to refresh code index' }, { status: 500 })
+  }
+}
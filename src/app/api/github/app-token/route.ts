@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getGitHubAppApiUrl, getGitHubAppAuth } from '@/lib/github-app'
+import { getGitHubApiUrl } from '@/lib/integration-utils'
+import { verifyBearerSecret } from '@/lib/server-utils'
+
+// { "repository": "owner/repo", "baseUrl": "..." } returns an installation token that can access only
+// the repository; without one, a token of the default installation that can only read metadata.
+// Callers present GITHUB_APP_TOKEN_SECRET as a bearer token.
+export async function POST(req: NextRequest) {
+  const secret = process.env.GITHUB_APP_TOKEN_SECRET
+  if (!secret) {
+    console.error('GITHUB_APP_TOKEN_SECRET is not set, refusing to hand out GitHub App tokens')
+    return NextResponse.json({ error: 'GITHUB_APP_TOKEN_SECRET is not set' }, { status: 500 })
+  }
+  if (!verifyBearerSecret(req.headers.get('authorization'), secret)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { repository, baseUrl: requestedBaseUrl } = await req.json().catch(() => ({}))
+  const baseUrl = typeof requestedBaseUrl === 'string' ? requestedBaseUrl : undefined
+  if (repository !== undefined && (typeof repository !== 'string' || !/^[\w.-]+\/[\w.-]+$/.test(repository))) {
+    return NextResponse.json({ error: 'repository must be owner/repo' }, { status: 400 })
+  }
+  if (getGitHubApiUrl(baseUrl) !== getGitHubAppApiUrl()) {
+    return NextResponse.json({ error: `The GitHub App is configured for ${getGitHubAppApiUrl()}` }, { status: 400 })
+  }
+
+  const app = getGitHubAppAuth(baseUrl)
+  if (!app) {
+    return NextResponse.json({ error: 'GITHUB_APP_ID and GITHUB_APP_PRIVATE_KEY are not set' }, { status: 500 })
+  }
+
+  try {
+    const { token, expiresAt } = await app.getToken(repository, { metadataOnly: !repository })
+    return NextResponse.json({ token, expiresAt })
+  } catch (error) {
+    console.error('Error creating GitHub App token:', error)
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Failed to create GitHub App token' }, { status: 502 })
+  }
+}
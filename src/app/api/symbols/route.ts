@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { FileSystemCodeStorage } from '@/lib/server-code-storage'
+
+const MAX_RELATED = 20
+
+// ?name=SymbolName[&file=src/lib/x.ts] returns where a symbol is defined, referenced,
+// who calls it and what it calls, from the project's symbol graph
+export async function GET(req: NextRequest) {
+  const name = req.nextUrl.searchParams.get('name')
+  const filePath = req.nextUrl.searchParams.get('file') || undefined
+
+  if (!name) {
+    return NextResponse.json({ error: 'A symbol name is required' }, { status: 400 })
+  }
+
+  try {
+    const graph = await new FileSystemCodeStorage().getSymbolGraph()
+    if (!graph) {
+      return NextResponse.json({ error: 'Symbol graph is unavailable' }, { status: 503 })
+    }
+
+    const definitions = graph.findDefinitions(name, filePath)
+    const related = definitions.flatMap(definition =>
+      graph.getRelated(definition.filePath, definition.startLine, definition.endLine, MAX_RELATED)
+    )
+
+    return NextResponse.json({
+      definitions,
+      references: graph.findReferences(name, filePath),
+      callers: related.filter(symbol => symbol.relation === 'caller'),
+      callees: related.filter(symbol => symbol.relation === 'callee'),
+    })
+  } catch (error) {
+    console.error('Error querying symbol graph:', error)
+    return NextResponse.json({ error: 'Failed to query symbol graph' }, { status: 500 })
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerGitHubAuth } from '@/lib/github-app'
+import { IntegrationFactory } from '@/lib/integrations'
+import { Integration } from '@/lib/types'
+
+// { "integration": {...}, "reference": "INC0012345", "body": "..." } adds a comment to the
+// ticket. ServiceNow and Zendesk take it as an internal note unless "public" is true
+export async function POST(req: NextRequest) {
+  try {
+    const { integration, reference, body, public: isPublic }: { integration?: Integration; reference?: unknown; body?: unknown; public?: unknown } = await req.json()
+    if (!integration || typeof reference !== 'string' || typeof body !== 'string' || !body.trim()) {
+      return NextResponse.json({ error: 'An integration, a ticket reference and a comment are required' }, { status: 400 })
+    }
+
+    const provider = IntegrationFactory.createTicketProvider(integration, { githubAuth: getServerGitHubAuth(integration) })
+    if (!provider) {
+      return NextResponse.json({ error: `${integration.name} has incomplete credentials` }, { status: 400 })
+    }
+
+    await provider.addComment(reference, body, { public: isPublic === true })
+    return NextResponse.json({ reference, commented: true })
+  } catch (error) {
+    console.error('Error in ticket comment API:', error)
+    return NextResponse.json({ error: 'An error occurred while commenting on the ticket' }, { status: 500 })
+  }
+}
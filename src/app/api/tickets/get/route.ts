@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerGitHubAuth } from '@/lib/github-app'
+import { IntegrationFactory } from '@/lib/integrations'
+import { Integration, Ticket } from '@/lib/types'
+
+// { "integrations": [...], "reference": "INC0012345" } returns the ticket from the first
+// integration's tracker that has it, with its comment history when the tracker returns it
+export async function POST(req: NextRequest) {
+  try {
+    const { integrations, reference } = await req.json()
+    if (typeof reference !== 'string' || !reference.trim()) {
+      return NextResponse.json({ error: 'A ticket reference is required' }, { status: 400 })
+    }
+    const active: Integration[] = Array.isArray(integrations)
+      ? integrations.filter((integration: Integration) => integration.isActive)
+      : []
+
+    for (const integration of active) {
+      const provider = IntegrationFactory.createTicketProvider(integration, { githubAuth: getServerGitHubAuth(integration) })
+      if (!provider) continue
+
+      // References in another tracker's format fail to parse, which only means it is not this one
+      let ticket: Ticket | null = null
+      try {
+        ticket = await provider.getTicket(reference.trim())
+      } catch (error) {
+        console.warn(`Ticket lookup failed for ${integration.name}:`, error)
+      }
+      if (ticket) {
+        return NextResponse.json({ ticket, integrationId: integration.id })
+      }
+    }
+
+    return NextResponse.json({ error: `Ticket ${reference} not found in the connected trackers` }, { status: 404 })
+  } catch (error) {
+    console.error('Error in ticket API:', error)
+    return NextResponse.json({ error: 'An error occurred while fetching the ticket' }, { status: 500 })
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerGitHubAuth } from '@/lib/github-app'
+import { IntegrationFactory } from '@/lib/integrations'
+import { Integration } from '@/lib/types'
+
+// { "integrations": [...], "terms": ["timeout"] } returns the tickets of each integration's tracker
+// that match any of the terms, or its recently updated ones without terms
+export async function POST(req: NextRequest) {
+  try {
+    const { integrations, terms } = await req.json()
+    const active: Integration[] = Array.isArray(integrations)
+      ? integrations.filter((integration: Integration) => integration.isActive)
+      : []
+    const searchTerms: string[] = Array.isArray(terms) ? terms.filter(term => typeof term === 'string') : []
+
+    // A failing tracker is reported without hiding the tickets of the others
+    const errors: Array<{ integrationId: string; error: string }> = []
+    const results = await Promise.all(active.map(async integration => {
+      const provider = IntegrationFactory.createTicketProvider(integration, { githubAuth: getServerGitHubAuth(integration) })
+      if (!provider) return []
+
+      try {
+        return await provider.searchTickets(searchTerms)
+      } catch (error) {
+        console.warn(`Ticket search failed for ${integration.name}:`, error)
+        errors.push({ integrationId: integration.id, error: error instanceof Error ? error.message : String(error) })
+        return []
+      }
+    }))
+
+    return NextResponse.json({ tickets: results.flat(), errors })
+  } catch (error) {
+    console.error('Error in tickets API:', error)
+    return NextResponse.json({ error: 'An error occurred while searching tickets' }, { status: 500 })
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getWebhookEventLog, normalizeWebhookEvent, SUPPORTED_WEBHOOK_EVENTS, verifyWebhookSignature } from '@/lib/github-webhooks'
+import { getSyncedRepoCache } from '@/lib/server-code-storage'
+import { verifyBearerSecret } from '@/lib/server-utils'
+
+// Deliveries from GitHub, verified against GITHUB_WEBHOOK_SECRET and recorded for the browser to apply
+export async function POST(req: NextRequest) {
+  const secret = process.env.GITHUB_WEBHOOK_SECRET
+  if (!secret) {
+    console.error('GITHUB_WEBHOOK_SECRET is not set, rejecting webhook delivery')
+    return NextResponse.json({ error: 'Webhook secret is not configured' }, { status: 500 })
+  }
+
+  // The signature covers the exact bytes GitHub sent, so the body is read as text
+  const payload = await req.text()
+  if (!verifyWebhookSignature(payload, req.headers.get('x-hub-signature-256'), secret)) {
+    return NextResponse.json({ error: 'Invalid signature' }, { status: 401 })
+  }
+
+  const event = req.headers.get('x-github-event') || ''
+  const deliveryId = req.headers.get('x-github-delivery') || ''
+  if (event === 'ping') {
+    return NextResponse.json({ ok: true })
+  }
+  if (!(SUPPORTED_WEBHOOK_EVENTS as readonly string[]).includes(event)) {
+    return NextResponse.json({ ignored: event }, { status: 202 })
+  }
+
+  try {
+    const body = JSON.parse(payload)
+    const normalized = normalizeWebhookEvent(event, deliveryId, body)
+    if (!normalized) {
+      return NextResponse.json({ ignored: event }, { status: 202 })
+    }
+
+    // The next chat request refetches the files the push changed
+    if (normalized.event === 'push') {
+      // The repository's web URL tells a GitHub Enterprise Server apart from github.com
+      await getSyncedRepoCache(normalized.repository.fullName, normalized.branch, 'github', body.repository?.html_url).markStale()
+    }
+
+    const logged = await getWebhookEventLog().append(normalized)
+    return NextResponse.json({ sequence: logged.sequence })
+  } catch (error) {
+    console.error('Error handling GitHub webhook:', error)
+    return NextResponse.json({ error: 'Failed to handle webhook' }, { status: 500 })
+  }
+}
+
+// ?after=<sequence> lists the events recorded since; without it only the current cursor is returned.
+// Events name private repositories and issues, so readers present GITHUB_WEBHOOK_READ_TOKEN as a bearer token.
+// It is kept apart from the signing secret, which never leaves the server, so no reader can forge deliveries
+export async function GET(req: NextRequest) {
+  const readToken = process.env.GITHUB_WEBHOOK_READ_TOKEN
+  if (!readToken) {
+    return NextResponse.json({ error: 'Webhook read token is not configured' }, { status: 500 })
+  }
+  if (readToken === process.env.GITHUB_WEBHOOK_SECRET) {
+    console.error('GITHUB_WEBHOOK_READ_TOKEN equals GITHUB_WEBHOOK_SECRET, refusing to list webhook events')
+    return NextResponse.json({ error: 'Webhook read token must differ from the webhook secret' }, { status: 500 })
+  }
+  if (!verifyBearerSecret(req.headers.get('authorization'), readToken)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const after = req.nextUrl.searchParams.get('after')
+    const { events, cursor } = await getWebhookEventLog().list(after === null ? Infinity : Number(after) || 0)
+    return NextResponse.json({ events, cursor })
+  } catch (error) {
+    console.error('Error listing GitHub webhook events:', error)
+    return NextResponse.json({ error: 'Failed to list webhook events' }, { status: 500 })
+  }
+}
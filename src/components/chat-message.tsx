@@ -16,7 +16,7 @@ type AIMessage = UIMessage & {
   role: 'user' | 'assistant' | 'system'
   content: string | Array<{ type: string; text: string }>
   metadata?: {
-    source?: 'github' | 'jira' | 'ado' | 'manual'
+    source?: 'github' | 'gitlab' | 'jira' | 'ado' | 'servicenow' | 'zendesk' | 'manual'
     ticketId?: string
     repositoryUrl?: string
     fileReferences?: string[]
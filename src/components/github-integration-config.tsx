@@ -1,13 +1,20 @@
 'use client'
 
-import { useState, useEffect } from 'react'
-import { Integration, GitHubRepository } from '@/lib/types'
+import { useState, useEffect, useRef } from 'react'
+import { Integration, GitHubRepository, GitHubSyncConfig, RepoSyncConfig } from '@/lib/types'
 import { useAppStore } from '@/lib/store'
-import { GitHubService } from '@/lib/integrations'
-import { GitHubSyncService, SyncProgress } from '@/lib/github-sync'
+import { createCodeHostService } from '@/lib/integrations'
+import { formatSyncChanges, GitHubSyncService, SyncChangeSummary, SyncProgress } from '@/lib/github-sync'
 import { GitHubIssuesSyncService } from '@/lib/github-issues-sync'
+import { GitHubPullRequestsSyncService, PullRequestsSyncProgress } from '@/lib/github-pull-requests-sync'
+import { GitHubCommitsSyncService, CommitsSyncProgress } from '@/lib/github-commits-sync'
+import { GitHubReleasesSyncService, ReleasesSyncProgress } from '@/lib/github-releases-sync'
 import { githubDB } from '@/lib/github-db'
-import { GitHubIssuesViewer } from '@/components/github-issues-viewer'
+import { getGitHubWebUrl, getGitLabWebUrl, splitRepositoryName } from '@/lib/integration-utils'
+import { getCodeHostAuth } from '@/lib/github-auth'
+import { omitKey } from '@/lib/utils'
+import { IssuesViewer } from '@/components/issues-viewer'
+import { GitHubPullRequestsViewer } from '@/components/github-pull-requests-viewer'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
@@ -20,6 +27,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Checkbox } from '@/components/ui/checkbox'
 import { 
   Github, 
+  Gitlab,
   Star, 
   GitFork, 
   Search, 
@@ -39,51 +47,42 @@ import {
   Activity,
   Download,
   Loader2,
-  Bug
+  Bug,
+  GitPullRequest,
+  GitCommit,
+  Tag
 } from 'lucide-react'
 
 interface GitHubIntegrationConfigProps {
   integration: Integration
-  onSave: (config: any) => void
+  onSave: (config: Integration['config']) => void
   onClose: () => void
 }
 
-interface RepoSyncConfig {
-  repoId: string
-  enabled: boolean
-  syncBranches: string[]
-  syncIssues: boolean
-  syncPRs: boolean
-  syncCommits: boolean
-  syncReleases: boolean
-  syncInterval: 'realtime' | '5min' | '15min' | '1hour' | '6hour' | '24hour'
-  lastSync?: Date
-}
-
-interface GitHubConfig {
-  selectedRepos: string[]
-  repoConfigs: Record<string, RepoSyncConfig>
-  globalSettings: {
-    autoSync: boolean
-    defaultSyncInterval: string
-    maxRepos: number
-    webhookEnabled: boolean
-  }
-}
-
-
-
 export function GitHubIntegrationConfig({ integration, onSave, onClose }: GitHubIntegrationConfigProps) {
+  // GitLab integrations share this configuration; their projects sync into the same tables
+  const isGitLab = integration.type === 'gitlab'
+  const hostName = isGitLab ? 'GitLab' : 'GitHub'
+  // github.com or gitlab.com, or the Enterprise Server or self-managed instance in the integration's base URL
+  const webUrl = isGitLab ? getGitLabWebUrl(integration.config.baseUrl) : getGitHubWebUrl(integration.config.baseUrl)
+  const auth = getCodeHostAuth(integration)
   const [repositories, setRepositories] = useState<GitHubRepository[]>([])
   const [loading, setLoading] = useState(false)
   const [searchQuery, setSearchQuery] = useState('')
   const [syncingRepos, setSyncingRepos] = useState<Set<string>>(new Set())
   const [syncProgress, setSyncProgress] = useState<Record<string, SyncProgress>>({})
   const [repoSyncStatus, setRepoSyncStatus] = useState<Record<string, 'synced' | 'not_synced' | 'error' | 'syncing'>>({})
+  const [syncChanges, setSyncChanges] = useState<Record<string, SyncChangeSummary>>({})
   const [syncingIssues, setSyncingIssues] = useState<Set<string>>(new Set())
   const [issuesSyncProgress, setIssuesSyncProgress] = useState<Record<string, import('../lib/github-issues-sync').IssuesSyncProgress>>({})
+  const [syncingPullRequests, setSyncingPullRequests] = useState<Set<string>>(new Set())
+  const [pullRequestsSyncProgress, setPullRequestsSyncProgress] = useState<Record<string, PullRequestsSyncProgress>>({})
+  const [syncingCommits, setSyncingCommits] = useState<Set<string>>(new Set())
+  const [commitsSyncProgress, setCommitsSyncProgress] = useState<Record<string, CommitsSyncProgress>>({})
+  const [syncingReleases, setSyncingReleases] = useState<Set<string>>(new Set())
+  const [releasesSyncProgress, setReleasesSyncProgress] = useState<Record<string, ReleasesSyncProgress>>({})
   const [issuesSyncStats, setIssuesSyncStats] = useState<Record<string, { totalIssues: number; openIssues: number; closedIssues: number; lastSynced: Date | null }>>({})
-  const [config, setConfig] = useState<GitHubConfig>({
+  const [config, setConfig] = useState<GitHubSyncConfig>(integration.config.githubConfig ?? {
     selectedRepos: [],
     repoConfigs: {},
     globalSettings: {
@@ -97,6 +96,7 @@ export function GitHubIntegrationConfig({ integration, onSave, onClose }: GitHub
   const [repoUrl, setRepoUrl] = useState('')
   const [urlProcessing, setUrlProcessing] = useState(false)
   const [showIssuesViewer, setShowIssuesViewer] = useState(false)
+  const [showPullRequestsViewer, setShowPullRequestsViewer] = useState(false)
 
   const filteredRepositories = repositories.filter(repo =>
     repo.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -108,8 +108,10 @@ export function GitHubIntegrationConfig({ integration, onSave, onClose }: GitHub
     config.selectedRepos.includes(repo.id.toString())
   )
 
+  // Work done once when the dialog opens, with the handlers of the latest render
+  const onOpenRef = useRef<() => void>(undefined)
   useEffect(() => {
-    loadPreviouslySyncedRepos()
+    onOpenRef.current?.()
   }, [])
 
   useEffect(() => {
@@ -123,8 +125,8 @@ export function GitHubIntegrationConfig({ integration, onSave, onClose }: GitHub
 
   const loadPreviouslySyncedRepos = async () => {
     try {
-      // Get all previously synced repositories from database
-      const syncedRepos = await githubDB.repos.toArray()
+      // Get all previously synced repositories of this host from database
+      const syncedRepos = (await githubDB.repos.toArray()).filter(repo => (repo.host === 'gitlab') === isGitLab)
       
       if (syncedRepos.length > 0) {
         // Convert database repos to GitHubRepository format
@@ -133,12 +135,13 @@ export function GitHubIntegrationConfig({ integration, onSave, onClose }: GitHub
           name: repo.name,
           full_name: repo.fullName,
           description: `Previously synced repository (${repo.totalFiles} files)`,
-          html_url: `https://github.com/${repo.fullName}`,
-          clone_url: `https://github.com/${repo.fullName}.git`,
+          html_url: `${webUrl}/${repo.fullName}`,
+          clone_url: `${webUrl}/${repo.fullName}.git`,
           default_branch: repo.defaultBranch,
           private: false, // We'll assume public for now since we don't store this
           stargazers_count: 0,
-          forks_count: 0
+          forks_count: 0,
+          host: repo.host
         }))
         
         // Add to repositories list (avoid duplicates)
@@ -152,28 +155,35 @@ export function GitHubIntegrationConfig({ integration, onSave, onClose }: GitHub
         const repoConfigs: Record<string, RepoSyncConfig> = {}
         const selectedIds: string[] = []
         
+        // Keep syncing the branches synced before
+        const syncedBranches = await githubDB.branches.toArray()
+
         syncedRepos.forEach(repo => {
           const repoId = repo.id
+          const branches = syncedBranches.filter(branch => branch.repoId === repoId).map(branch => branch.name)
           selectedIds.push(repoId)
           repoConfigs[repoId] = {
             repoId,
+            fullName: repo.fullName,
             enabled: true,
-            syncBranches: [repo.defaultBranch],
+            syncBranches: branches.length > 0 ? branches : [repo.defaultBranch],
             syncIssues: true,
             syncPRs: true,
             syncCommits: true,
             syncReleases: true,
+            prefetchContent: true,
             syncInterval: config.globalSettings.defaultSyncInterval as any,
             lastSync: repo.lastSynced
           }
         })
         
+        // Saved settings win over the defaults for repositories configured before
         setConfig(prev => ({
           ...prev,
-          selectedRepos: [...prev.selectedRepos, ...selectedIds],
+          selectedRepos: [...new Set([...prev.selectedRepos, ...selectedIds])],
           repoConfigs: {
-            ...prev.repoConfigs,
-            ...repoConfigs
+            ...repoConfigs,
+            ...prev.repoConfigs
           }
         }))
       }
@@ -182,12 +192,51 @@ export function GitHubIntegrationConfig({ integration, onSave, onClose }: GitHub
     }
   }
 
+  // Pick up content prefetches that were interrupted by closing or reloading the page
+  const resumeContentPrefetches = async () => {
+    if (!auth) return
+
+    const pendingRepoIds = new Set(
+      (await githubDB.branches.toArray())
+        .filter(branch => branch.prefetch?.status === 'running')
+        .map(branch => branch.repoId)
+    )
+    const pendingRepos = (await githubDB.repos.toArray()).filter(repo => pendingRepoIds.has(repo.id))
+    for (const repo of pendingRepos) {
+      setSyncingRepos(prev => new Set([...prev, repo.id]))
+      try {
+        const syncService = new GitHubSyncService(
+          auth,
+          (progress: SyncProgress) => {
+            setSyncProgress(prev => ({ ...prev, [repo.id]: progress }))
+          },
+          integration.config.baseUrl
+        )
+        await syncService.resumeContentPrefetch(repo.id)
+      } catch (error) {
+        console.error(`Failed to resume content prefetch for ${repo.fullName}:`, error)
+      } finally {
+        setSyncingRepos(prev => {
+          const newSet = new Set(prev)
+          newSet.delete(repo.id)
+          return newSet
+        })
+        setSyncProgress(prev => omitKey(prev, repo.id))
+      }
+    }
+  }
+
+  onOpenRef.current = () => {
+    loadPreviouslySyncedRepos()
+    resumeContentPrefetches()
+  }
+
   const fetchRepositories = async () => {
-    if (!integration.config.token) return
+    if (!auth) return
 
     setLoading(true)
     try {
-      const githubService = new GitHubService(integration.config.token)
+      const githubService = createCodeHostService(auth, integration.config.baseUrl)
       const apiRepos = await githubService.getRepositories()
       
       // Merge with existing repositories (from database), avoiding duplicates
@@ -237,8 +286,8 @@ export function GitHubIntegrationConfig({ integration, onSave, onClose }: GitHub
   }
 
   const syncRepository = async (repo: GitHubRepository) => {
-    if (!integration.config?.token) {
-      console.error('GitHub token not found')
+    if (!auth) {
+      console.error(`${hostName} token not found`)
       return
     }
     
@@ -250,16 +299,23 @@ export function GitHubIntegrationConfig({ integration, onSave, onClose }: GitHub
     
     try {
       const syncService = new GitHubSyncService(
-        integration.config.token,
+        auth,
         (progress: SyncProgress) => {
           setSyncProgress(prev => ({ ...prev, [repoId]: progress }))
-        }
+        },
+        integration.config.baseUrl
       )
 
-      await syncService.syncRepository(repo)
+      const repoConfig = config.repoConfigs[repoId]
+      const prefetch = repoConfig?.prefetchContent ?? true
+      const changes = await syncService.syncRepository(repo, {
+        branches: repoConfig?.syncBranches,
+        prefetch: prefetch ? {} : undefined
+      })
       
-      // Update sync status to completed
+      // Update sync status to completed, keeping the change summary once progress clears
       setRepoSyncStatus(prev => ({ ...prev, [repoId]: 'synced' }))
+      setSyncChanges(prev => ({ ...prev, [repoId]: changes }))
       
     } catch (error) {
       console.error('Sync failed:', error)
@@ -270,10 +326,7 @@ export function GitHubIntegrationConfig({ integration, onSave, onClose }: GitHub
         newSet.delete(repoId)
         return newSet
       })
-      setSyncProgress(prev => {
-        const { [repoId]: removed, ...rest } = prev
-        return rest
-      })
+      setSyncProgress(prev => omitKey(prev, repoId))
     }
   }
 
@@ -283,7 +336,7 @@ export function GitHubIntegrationConfig({ integration, onSave, onClose }: GitHub
     
     for (const repo of repositories) {
       try {
-        const issuesSyncService = new GitHubIssuesSyncService(integration.config.token || '')
+        const issuesSyncService = new GitHubIssuesSyncService(auth || '', undefined, integration.config.baseUrl)
         const stats = await issuesSyncService.getSyncStats(repo.id.toString())
         statsRecord[repo.id.toString()] = stats
       } catch (error) {
@@ -307,10 +360,11 @@ export function GitHubIntegrationConfig({ integration, onSave, onClose }: GitHub
     
     try {
       const issuesSyncService = new GitHubIssuesSyncService(
-        integration.config.token || '',
+        auth || '',
         (progress: import('../lib/github-issues-sync').IssuesSyncProgress) => {
           setIssuesSyncProgress(prev => ({ ...prev, [repoId]: progress }))
-        }
+        },
+        integration.config.baseUrl
       )
 
       const repoConfig = config.repoConfigs[repoId] || {
@@ -336,10 +390,97 @@ export function GitHubIntegrationConfig({ integration, onSave, onClose }: GitHub
         newSet.delete(repoId)
         return newSet
       })
-      setIssuesSyncProgress(prev => {
-        const { [repoId]: removed, ...rest } = prev
-        return rest
+      setIssuesSyncProgress(prev => omitKey(prev, repoId))
+    }
+  }
+
+  // Sync recent pull requests with their changed files and reviews
+  const syncRepositoryPullRequests = async (repo: GitHubRepository) => {
+    const repoId = repo.id.toString()
+    setSyncingPullRequests(prev => new Set([...prev, repoId]))
+
+    try {
+      const pullRequestsSyncService = new GitHubPullRequestsSyncService(
+        auth || '',
+        (progress: PullRequestsSyncProgress) => {
+          setPullRequestsSyncProgress(prev => ({ ...prev, [repoId]: progress }))
+        },
+        integration.config.baseUrl
+      )
+
+      await pullRequestsSyncService.syncRepositoryPullRequests(repo, {
+        state: 'all',
+        maxPullRequests: 50
+      })
+    } catch (error) {
+      console.error('Pull requests sync failed:', error)
+    } finally {
+      setSyncingPullRequests(prev => {
+        const newSet = new Set(prev)
+        newSet.delete(repoId)
+        return newSet
+      })
+      setPullRequestsSyncProgress(prev => omitKey(prev, repoId))
+    }
+  }
+
+  // Sync recent commit history of each synced branch with the paths every commit changed
+  const syncRepositoryCommits = async (repo: GitHubRepository) => {
+    const repoId = repo.id.toString()
+    setSyncingCommits(prev => new Set([...prev, repoId]))
+
+    try {
+      const commitsSyncService = new GitHubCommitsSyncService(
+        auth || '',
+        (progress: CommitsSyncProgress) => {
+          setCommitsSyncProgress(prev => ({ ...prev, [repoId]: progress }))
+        },
+        integration.config.baseUrl
+      )
+
+      const branches = (await githubDB.getBranches(repoId)).map(branch => branch.name)
+      await commitsSyncService.syncRepositoryCommits(repo, {
+        branches,
+        maxCommits: 100
+      })
+    } catch (error) {
+      console.error('Commits sync failed:', error)
+    } finally {
+      setSyncingCommits(prev => {
+        const newSet = new Set(prev)
+        newSet.delete(repoId)
+        return newSet
+      })
+      setCommitsSyncProgress(prev => omitKey(prev, repoId))
+    }
+  }
+
+  // Sync recent releases and tags with the commits and paths each one shipped
+  const syncRepositoryReleases = async (repo: GitHubRepository) => {
+    const repoId = repo.id.toString()
+    setSyncingReleases(prev => new Set([...prev, repoId]))
+
+    try {
+      const releasesSyncService = new GitHubReleasesSyncService(
+        auth || '',
+        (progress: ReleasesSyncProgress) => {
+          setReleasesSyncProgress(prev => ({ ...prev, [repoId]: progress }))
+        },
+        integration.config.baseUrl
+      )
+
+      await releasesSyncService.syncRepositoryReleases(repo, {
+        maxReleases: 20
+      })
+    } catch (error) {
+      console.error('Releases sync failed:', error)
+    } finally {
+      setSyncingReleases(prev => {
+        const newSet = new Set(prev)
+        newSet.delete(repoId)
+        return newSet
       })
+      setReleasesSyncProgress(prev => omitKey(prev, repoId))
     }
   }
 
@@ -371,7 +512,7 @@ export function GitHubIntegrationConfig({ integration, onSave, onClose }: GitHub
     
     switch (status) {
       case 'synced':
-        return 'Synced'
+        return syncChanges[repoId] ? `Synced (${formatSyncChanges(syncChanges[repoId])})` : 'Synced'
       case 'error':
         return 'Error'
       default:
@@ -398,12 +539,14 @@ export function GitHubIntegrationConfig({ integration, onSave, onClose }: GitHub
       // Add repository with default config
       const defaultConfig: RepoSyncConfig = {
         repoId,
+        fullName: repo.full_name,
         enabled: true,
         syncBranches: [repo.default_branch],
         syncIssues: true,
         syncPRs: true,
         syncCommits: true,
         syncReleases: true,
+        prefetchContent: true,
         syncInterval: config.globalSettings.defaultSyncInterval as any
       }
       
@@ -427,12 +570,14 @@ export function GitHubIntegrationConfig({ integration, onSave, onClose }: GitHub
       const repoId = repo.id.toString()
       newConfigs[repoId] = {
         repoId,
+        fullName: repo.full_name,
         enabled: true,
         syncBranches: [repo.default_branch],
         syncIssues: true,
         syncPRs: true,
         syncCommits: true,
         syncReleases: true,
+        prefetchContent: true,
         syncInterval: config.globalSettings.defaultSyncInterval as any
       }
     })
@@ -448,7 +593,7 @@ export function GitHubIntegrationConfig({ integration, onSave, onClose }: GitHub
   }
 
   const syncAllSelectedRepos = async () => {
-    if (!integration.config.token) return
+    if (!auth) return
     
     const selectedRepos = repositories.filter(repo => 
       config.selectedRepos.includes(repo.id.toString())
@@ -462,6 +607,15 @@ export function GitHubIntegrationConfig({ integration, onSave, onClose }: GitHub
         if (config.repoConfigs[repo.id.toString()]?.syncIssues) {
           await syncRepositoryIssues(repo)
         }
+        if (config.repoConfigs[repo.id.toString()]?.syncPRs) {
+          await syncRepositoryPullRequests(repo)
+        }
+        if (config.repoConfigs[repo.id.toString()]?.syncCommits) {
+          await syncRepositoryCommits(repo)
+        }
+        if (config.repoConfigs[repo.id.toString()]?.syncReleases) {
+          await syncRepositoryReleases(repo)
+        }
       } catch (error) {
         console.error(`Failed to sync ${repo.name}:`, error)
       }
@@ -472,9 +626,10 @@ export function GitHubIntegrationConfig({ integration, onSave, onClose }: GitHub
 
   const parseGitHubUrl = (url: string): { owner: string; repo: string } | null => {
     try {
-      // Handle various GitHub URL formats
+      // Handle various GitHub URL formats, on github.com or the configured Enterprise Server
+      const host = new URL(webUrl).host.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
       const patterns = [
-        /github\.com\/([^/]+)\/([^/]+)(?:\/.*)?$/,  // https://github.com/owner/repo or https://github.com/owner/repo/...
+        new RegExp(`^(?:www\\.)?${host}/([^/]+)/([^/]+)(?:/.*)?$`),  // https://host/owner/repo or https://host/owner/repo/...
         /^([^/]+)\/([^/]+)$/  // owner/repo format
       ]
       
@@ -482,6 +637,13 @@ export function GitHubIntegrationConfig({ integration, onSave, onClose }: GitHub
       if (cleanUrl.startsWith('http')) {
         cleanUrl = cleanUrl.replace(/^https?:\/\//, '')
       }
+
+      // GitLab projects can sit in nested groups, and their pages follow /-/
+      if (isGitLab) {
+        const projectPath = cleanUrl.replace(/\/-\/.*$/, '').replace(/\/$/, '').replace(/\.git$/, '')
+        const match = projectPath.match(new RegExp(`^(?:(?:www\\.)?${host}/)?([^/]+(?:/[^/]+)+)$`))
+        return match ? splitRepositoryName(match[1]) : null
+      }
       
       for (const pattern of patterns) {
         const match = cleanUrl.match(pattern)
@@ -497,18 +659,18 @@ export function GitHubIntegrationConfig({ integration, onSave, onClose }: GitHub
   }
 
   const addRepositoryFromUrl = async () => {
-    if (!repoUrl.trim() || !integration.config.token) return
+    if (!repoUrl.trim() || !auth) return
     
     const parsed = parseGitHubUrl(repoUrl)
     if (!parsed) {
-      alert('Invalid GitHub URL. Please use format: https://github.com/owner/repo or owner/repo')
+      alert(`Invalid ${hostName} URL. Please use format: ${webUrl}/owner/repo or owner/repo`)
       return
     }
     
     setUrlProcessing(true)
     
     try {
-      const githubService = new GitHubService(integration.config.token)
+      const githubService = createCodeHostService(auth, integration.config.baseUrl)
       const repo = await githubService.getRepository(parsed.owner, parsed.repo)
       
       if (!repo) {
@@ -530,12 +692,14 @@ export function GitHubIntegrationConfig({ integration, onSave, onClose }: GitHub
       const repoId = repo.id.toString()
       const defaultConfig: RepoSyncConfig = {
         repoId,
+        fullName: repo.full_name,
         enabled: true,
         syncBranches: [repo.default_branch],
         syncIssues: true,
         syncPRs: true,
         syncCommits: true,
         syncReleases: true,
+        prefetchContent: true,
         syncInterval: config.globalSettings.defaultSyncInterval as any
       }
       
@@ -574,7 +738,7 @@ export function GitHubIntegrationConfig({ integration, onSave, onClose }: GitHub
     }))
   }
 
-  const updateGlobalSettings = (updates: Partial<GitHubConfig['globalSettings']>) => {
+  const updateGlobalSettings = (updates: Partial<GitHubSyncConfig['globalSettings']>) => {
     setConfig(prev => ({
       ...prev,
       globalSettings: {
@@ -610,10 +774,10 @@ export function GitHubIntegrationConfig({ integration, onSave, onClose }: GitHub
       <div className="flex items-center justify-between">
         <div className="flex items-center gap-3">
           <div className="p-2 bg-primary/10 rounded-lg">
-            <Github className="w-5 h-5 text-primary" />
+            {isGitLab ? <Gitlab className="w-5 h-5 text-primary" /> : <Github className="w-5 h-5 text-primary" />}
           </div>
           <div>
-            <h3 className="text-lg font-semibold">GitHub Integration</h3>
+            <h3 className="text-lg font-semibold">{hostName} Integration</h3>
             <p className="text-sm text-muted-foreground">Configure repository sync and monitoring</p>
           </div>
         </div>
@@ -626,6 +790,14 @@ export function GitHubIntegrationConfig({ integration, onSave, onClose }: GitHub
             <Bug className="w-4 h-4 mr-2" />
             View All Issues
           </Button>
+          <Button 
+            variant="outline" 
+            onClick={() => setShowPullRequestsViewer(true)}
+            className="bg-purple-50 hover:bg-purple-100 border-purple-200 text-purple-700"
+          >
+            <GitPullRequest className="w-4 h-4 mr-2" />
+            View Pull Requests
+          </Button>
           <Button variant="outline" onClick={onClose}>Cancel</Button>
           <Button onClick={handleSave}>Save Configuration</Button>
         </div>
@@ -672,13 +844,13 @@ export function GitHubIntegrationConfig({ integration, onSave, onClose }: GitHub
                       Add Repository by URL
                     </p>
                     <p className="text-xs text-green-700 dark:text-green-300">
-                      Enter a GitHub URL to add and sync all issues from any repository
+                      Enter a {hostName} URL to add and sync all issues from any repository
                     </p>
                   </div>
                 </div>
                 <div className="flex gap-2 items-center">
                   <Input
-                    placeholder="https://github.com/owner/repo or owner/repo"
+                    placeholder={`${webUrl}/owner/repo or owner/repo`}
                     value={repoUrl}
                     onChange={(e) => setRepoUrl(e.target.value)}
                     className="w-64"
@@ -828,8 +1000,8 @@ export function GitHubIntegrationConfig({ integration, onSave, onClose }: GitHub
                           {isCurrentlySyncing && progress && (
                             <div className="mt-2">
                               <div className="flex items-center justify-between mb-1">
-                                <span className="text-xs text-muted-foreground">
-                                  {progress.currentFile}
+                                <span className="text-xs text-muted-foreground truncate">
+                                  {progress.branch && `${progress.branch}: `}{progress.stage === 'content' && 'Contents: '}{progress.currentFile}
                                 </span>
                                 <span className="text-xs text-muted-foreground">
                                   {progress.completed}/{progress.total}
@@ -849,7 +1021,9 @@ export function GitHubIntegrationConfig({ integration, onSave, onClose }: GitHub
                             <div className="mt-2">
                               <div className="flex items-center justify-between mb-1">
                                 <span className="text-xs text-muted-foreground">
-                                  Syncing {issuesSyncProgress[repoId].currentState} issues
+                                  {issuesSyncProgress[repoId].currentState === 'comments'
+                                    ? 'Syncing issue comments'
+                                    : `Syncing ${issuesSyncProgress[repoId].currentState} issues`}
                                 </span>
                                 <span className="text-xs text-muted-foreground">
                                   {issuesSyncProgress[repoId].issuesProcessed}/{issuesSyncProgress[repoId].totalIssues || '?'}
@@ -867,8 +1041,80 @@ export function GitHubIntegrationConfig({ integration, onSave, onClose }: GitHub
                               </div>
                             </div>
                           )}
+
+                          {/* Pull Requests Sync Progress */}
+                          {syncingPullRequests.has(repoId) && pullRequestsSyncProgress[repoId] && (
+                            <div className="mt-2">
+                              <div className="flex items-center justify-between mb-1">
+                                <span className="text-xs text-muted-foreground">
+                                  Syncing pull requests
+                                </span>
+                                <span className="text-xs text-muted-foreground">
+                                  {pullRequestsSyncProgress[repoId].pullRequestsProcessed}/{pullRequestsSyncProgress[repoId].totalPullRequests || '?'}
+                                </span>
+                              </div>
+                              <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-1">
+                                <div
+                                  className="bg-purple-500 h-1 rounded-full transition-all duration-300"
+                                  style={{
+                                    width: `${pullRequestsSyncProgress[repoId].totalPullRequests > 0
+                                      ? (pullRequestsSyncProgress[repoId].pullRequestsProcessed / pullRequestsSyncProgress[repoId].totalPullRequests) * 100
+                                      : 0}%`
+                                  }}
+                                />
+                              </div>
+                            </div>
+                          )}
+
+                          {/* Commits Sync Progress */}
+                          {syncingCommits.has(repoId) && commitsSyncProgress[repoId] && (
+                            <div className="mt-2">
+                              <div className="flex items-center justify-between mb-1">
+                                <span className="text-xs text-muted-foreground">
+                                  Syncing commits on {commitsSyncProgress[repoId].branch}
+                                </span>
+                                <span className="text-xs text-muted-foreground">
+                                  {commitsSyncProgress[repoId].commitsProcessed}/{commitsSyncProgress[repoId].totalCommits || '?'}
+                                </span>
+                              </div>
+                              <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-1">
+                                <div
+                                  className="bg-emerald-500 h-1 rounded-full transition-all duration-300"
+                                  style={{
+                                    width: `${commitsSyncProgress[repoId].totalCommits > 0
+                                      ? (commitsSyncProgress[repoId].commitsProcessed / commitsSyncProgress[repoId].totalCommits) * 100
+                                      : 0}%`
+                                  }}
+                                />
+                              </div>
+                            </div>
+                          )}
+
+                          {/* Releases Sync Progress */}
+                          {syncingReleases.has(repoId) && releasesSyncProgress[repoId] && (
+                            <div className="mt-2">
+                              <div className="flex items-center justify-between mb-1">
+                                <span className="text-xs text-muted-foreground">
+                                  Syncing releases
+                                </span>
+                                <span className="text-xs text-muted-foreground">
+                                  {releasesSyncProgress[repoId].releasesProcessed}/{releasesSyncProgress[repoId].totalReleases || '?'}
+                                </span>
+                              </div>
+                              <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-1">
+                                <div
+                                  className="bg-amber-500 h-1 rounded-full transition-all duration-300"
+                                  style={{
+                                    width: `${releasesSyncProgress[repoId].totalReleases > 0
+                                      ? (releasesSyncProgress[repoId].releasesProcessed / releasesSyncProgress[repoId].totalReleases) * 100
+                                      : 0}%`
+                                  }}
+                                />
+                              </div>
+                            </div>
+                          )}
                         </div>
-                        
+
                         <div className="flex items-center gap-2">
                           <Button
                             size="sm"
@@ -906,6 +1152,60 @@ export function GitHubIntegrationConfig({ integration, onSave, onClose }: GitHub
                               {syncingIssues.has(repoId) ? 'Syncing' : 'Issues'}
                             </span>
                           </Button>
+
+                          {/* Pull Requests Sync Button */}
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="h-7 px-2"
+                            onClick={() => syncRepositoryPullRequests(repo)}
+                            disabled={syncingPullRequests.has(repoId)}
+                          >
+                            {syncingPullRequests.has(repoId) ? (
+                              <Loader2 className="w-3 h-3 animate-spin" />
+                            ) : (
+                              <GitPullRequest className="w-3 h-3" />
+                            )}
+                            <span className="ml-1 text-xs">
+                              {syncingPullRequests.has(repoId) ? 'Syncing' : 'PRs'}
+                            </span>
+                          </Button>
+
+                          {/* Commits Sync Button */}
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="h-7 px-2"
+                            onClick={() => syncRepositoryCommits(repo)}
+                            disabled={syncingCommits.has(repoId)}
+                          >
+                            {syncingCommits.has(repoId) ? (
+                              <Loader2 className="w-3 h-3 animate-spin" />
+                            ) : (
+                              <GitCommit className="w-3 h-3" />
+                            )}
+                            <span className="ml-1 text-xs">
+                              {syncingCommits.has(repoId) ? 'Syncing' : 'Commits'}
+                            </span>
+                          </Button>
+
+                          {/* Releases Sync Button */}
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="h-7 px-2"
+                            onClick={() => syncRepositoryReleases(repo)}
+                            disabled={syncingReleases.has(repoId)}
+                          >
+                            {syncingReleases.has(repoId) ? (
+                              <Loader2 className="w-3 h-3 animate-spin" />
+                            ) : (
+                              <Tag className="w-3 h-3" />
+                            )}
+                            <span className="ml-1 text-xs">
+                              {syncingReleases.has(repoId) ? 'Syncing' : 'Releases'}
+                            </span>
+                          </Button>
                         </div>
                       </div>
                     )
@@ -998,6 +1298,18 @@ export function GitHubIntegrationConfig({ integration, onSave, onClose }: GitHub
                             disabled={!repoConfig?.enabled}
                           />
                         </div>
+
+                        <div className="flex items-center justify-between">
+                          <div className="flex items-center gap-2">
+                            <Database className="w-4 h-4" />
+                            <Label className="text-sm">File Contents</Label>
+                          </div>
+                          <Switch
+                            checked={repoConfig?.prefetchContent}
+                            onCheckedChange={(prefetchContent) => updateRepoConfig(repoId, { prefetchContent })}
+                            disabled={!repoConfig?.enabled}
+                          />
+                        </div>
                       </div>
                       
                       {/* Sync Interval */}
@@ -1106,19 +1418,36 @@ export function GitHubIntegrationConfig({ integration, onSave, onClose }: GitHub
                 </p>
               </div>
               
-              {/* Webhook Support */}
-              <div className="flex items-center justify-between">
-                <div>
-                  <Label className="text-sm font-medium">Webhook Support</Label>
+              {/* Webhook Support; GitLab projects are kept current by the scheduled syncs alone */}
+              {!isGitLab && (
+                <div className="flex items-center justify-between">
+                  <div>
+                    <Label className="text-sm font-medium">Webhook Support</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Apply GitHub webhook deliveries to /api/webhooks/github as they arrive (requires GITHUB_WEBHOOK_SECRET and GITHUB_WEBHOOK_READ_TOKEN)
+                    </p>
+                  </div>
+                  <Switch
+                    checked={config.globalSettings.webhookEnabled}
+                    onCheckedChange={(webhookEnabled) => updateGlobalSettings({ webhookEnabled })}
+                  />
+                </div>
+              )}
+
+              {!isGitLab && config.globalSettings.webhookEnabled && (
+                <div className="space-y-2">
+                  <Label className="text-sm font-medium">Webhook Read Token</Label>
+                  <Input
+                    type="password"
+                    value={config.globalSettings.webhookReadToken || ''}
+                    onChange={(e) => updateGlobalSettings({ webhookReadToken: e.target.value })}
+                    placeholder="The value of GITHUB_WEBHOOK_READ_TOKEN"
+                  />
                   <p className="text-xs text-muted-foreground">
-                    Enable real-time updates via GitHub webhooks (requires server setup)
+                    Required to read the deliveries the server recorded
                   </p>
                 </div>
-                <Switch
-                  checked={config.globalSettings.webhookEnabled}
-                  onCheckedChange={(webhookEnabled) => updateGlobalSettings({ webhookEnabled })}
-                />
-              </div>
+              )}
             </CardContent>
           </Card>
         </TabsContent>
@@ -1126,7 +1455,11 @@ export function GitHubIntegrationConfig({ integration, onSave, onClose }: GitHub
       
       {/* Issues Viewer Modal */}
       {showIssuesViewer && (
-        <GitHubIssuesViewer onClose={() => setShowIssuesViewer(false)} />
+        <IssuesViewer onClose={() => setShowIssuesViewer(false)} />
+      )}
+
+      {showPullRequestsViewer && (
+        <GitHubPullRequestsViewer onClose={() => setShowPullRequestsViewer(false)} />
       )}
     </div>
   )
@@ -0,0 +1,390 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { GitHubPullRequestDB, githubDB } from '@/lib/github-db'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  Search,
+  ExternalLink,
+  Calendar,
+  User,
+  Filter,
+  GitPullRequest,
+  GitMerge,
+  GitPullRequestClosed,
+  GitBranch,
+  FileCode,
+  CheckCircle2,
+  XCircle,
+  MessageSquare,
+  RefreshCw,
+  X
+} from 'lucide-react'
+
+interface GitHubPullRequestsViewerProps {
+  onClose: () => void
+}
+
+type StateFilter = 'all' | GitHubPullRequestDB['state']
+
+export function GitHubPullRequestsViewer({ onClose }: GitHubPullRequestsViewerProps) {
+  const [pullRequests, setPullRequests] = useState<GitHubPullRequestDB[]>([])
+  const [loading, setLoading] = useState(false)
+  const [searchQuery, setSearchQuery] = useState('')
+  const [fileQuery, setFileQuery] = useState('')
+  const [stateFilter, setStateFilter] = useState<StateFilter>('all')
+  const [repoFilter, setRepoFilter] = useState<string>('all')
+  const [repositories, setRepositories] = useState<Array<{ id: string; name: string; fullName: string }>>([])
+  const [selected, setSelected] = useState<GitHubPullRequestDB | null>(null)
+
+  useEffect(() => {
+    loadAllPullRequests()
+  }, [])
+
+  const loadAllPullRequests = async () => {
+    setLoading(true)
+    try {
+      const repos = await githubDB.repos.toArray()
+      setRepositories(repos.map(repo => ({
+        id: repo.id,
+        name: repo.name,
+        fullName: repo.fullName
+      })))
+
+      // Sorted by updated date (newest first)
+      setPullRequests(await githubDB.getPullRequests())
+    } catch (error) {
+      console.error('Failed to load pull requests:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const query = searchQuery.trim().toLowerCase()
+  const file = fileQuery.trim().toLowerCase()
+  const filteredPullRequests = pullRequests.filter(pr =>
+    (!query ||
+      pr.title.toLowerCase().includes(query) ||
+      (pr.body && pr.body.toLowerCase().includes(query)) ||
+      pr.authorLogin.toLowerCase().includes(query) ||
+      `#${pr.number}` === query) &&
+    (!file || pr.filesChanged.some(changed => changed.path.toLowerCase().includes(file))) &&
+    (stateFilter === 'all' || pr.state === stateFilter) &&
+    (repoFilter === 'all' || pr.repoId === repoFilter)
+  )
+
+  const getRepoName = (repoId: string) => {
+    const repo = repositories.find(r => r.id === repoId)
+    return repo ? repo.name : repoId
+  }
+
+  const formatDate = (date: Date | string) => {
+    const d = new Date(date)
+    return d.toLocaleDateString() + ' ' + d.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+  }
+
+  const getStateIcon = (state: GitHubPullRequestDB['state']) => {
+    switch (state) {
+      case 'merged':
+        return <GitMerge className="w-4 h-4 text-purple-600" />
+      case 'closed':
+        return <GitPullRequestClosed className="w-4 h-4 text-red-600" />
+      default:
+        return <GitPullRequest className="w-4 h-4 text-green-600" />
+    }
+  }
+
+  const getStateBadgeColor = (state: GitHubPullRequestDB['state']) => {
+    switch (state) {
+      case 'merged':
+        return 'bg-purple-100 text-purple-800 border-purple-200'
+      case 'closed':
+        return 'bg-red-100 text-red-800 border-red-200'
+      default:
+        return 'bg-green-100 text-green-800 border-green-200'
+    }
+  }
+
+  const getReviewBadge = (pr: GitHubPullRequestDB) => {
+    switch (pr.reviewState) {
+      case 'approved':
+        return (
+          <Badge variant="outline" className="text-xs text-green-700 border-green-200">
+            <CheckCircle2 className="w-3 h-3 mr-1" />
+            Approved
+          </Badge>
+        )
+      case 'changes_requested':
+        return (
+          <Badge variant="outline" className="text-xs text-red-700 border-red-200">
+            <XCircle className="w-3 h-3 mr-1" />
+            Changes requested
+          </Badge>
+        )
+      case 'commented':
+        return (
+          <Badge variant="outline" className="text-xs">
+            <MessageSquare className="w-3 h-3 mr-1" />
+            Reviewed
+          </Badge>
+        )
+      default:
+        return null
+    }
+  }
+
+  // Linked issues live in the same repository as the pull request
+  const getIssueUrl = (pr: GitHubPullRequestDB, issueNumber: number) =>
+    pr.htmlUrl.replace(/\/pull\/\d+$/, `/issues/${issueNumber}`)
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-background rounded-lg shadow-xl w-[95vw] h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-purple-100 dark:bg-purple-900 rounded-lg">
+              <GitPullRequest className="w-5 h-5 text-purple-600" />
+            </div>
+            <div>
+              <h2 className="text-xl font-semibold">Pull Requests</h2>
+              <p className="text-sm text-muted-foreground">
+                Browse synced pull requests and the files they changed
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Badge variant="secondary">
+              {filteredPullRequests.length} of {pullRequests.length} pull requests
+            </Badge>
+            <Button variant="ghost" size="sm" onClick={onClose}>
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+
+        {/* Filters */}
+        <div className="p-6 border-b space-y-4">
+          <div className="flex items-center gap-4">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Input
+                placeholder="Search by title, description, author or #number..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                className="pl-9"
+              />
+            </div>
+            <div className="relative flex-1">
+              <FileCode className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Input
+                placeholder="Changed file, e.g. src/lib/auth.ts"
+                value={fileQuery}
+                onChange={(e) => setFileQuery(e.target.value)}
+                className="pl-9"
+              />
+            </div>
+            <Button variant="outline" size="sm" onClick={loadAllPullRequests} disabled={loading}>
+              <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+          </div>
+
+          <div className="flex items-center gap-4">
+            <div className="flex items-center gap-2">
+              <Filter className="w-4 h-4 text-muted-foreground" />
+              <Select value={stateFilter} onValueChange={(value: StateFilter) => setStateFilter(value)}>
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All States</SelectItem>
+                  <SelectItem value="open">Open</SelectItem>
+                  <SelectItem value="merged">Merged</SelectItem>
+                  <SelectItem value="closed">Closed</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <Select value={repoFilter} onValueChange={setRepoFilter}>
+              <SelectTrigger className="w-48">
+                <SelectValue placeholder="All Repositories" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Repositories</SelectItem>
+                {repositories.map(repo => (
+                  <SelectItem key={repo.id} value={repo.id}>
+                    {repo.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="flex flex-1 overflow-hidden">
+          {/* Pull Request List */}
+          <ScrollArea className="w-1/2 h-full border-r">
+            <div className="p-4 space-y-2">
+              {loading ? (
+                <div className="flex items-center justify-center py-12">
+                  <RefreshCw className="w-6 h-6 animate-spin text-muted-foreground" />
+                  <span className="ml-2 text-muted-foreground">Loading pull requests...</span>
+                </div>
+              ) : filteredPullRequests.length === 0 ? (
+                <div className="flex flex-col items-center justify-center py-12 text-center">
+                  <GitPullRequest className="w-12 h-12 text-muted-foreground mb-4" />
+                  <h3 className="text-lg font-medium mb-2">No pull requests found</h3>
+                  <p className="text-muted-foreground max-w-md">
+                    {pullRequests.length === 0
+                      ? "No pull requests have been synced yet. Try syncing some repositories first."
+                      : "No pull requests match your current filters. Try adjusting your search or filters."
+                    }
+                  </p>
+                </div>
+              ) : (
+                filteredPullRequests.map((pr) => (
+                  <button
+                    key={`${pr.repoId}-${pr.number}`}
+                    onClick={() => setSelected(pr)}
+                    className={`w-full text-left p-3 rounded-lg border transition-colors hover:bg-muted/50 ${
+                      selected?.prId === pr.prId ? 'border-primary bg-muted/50' : 'border-border'
+                    }`}
+                  >
+                    <div className="flex items-center gap-2 mb-1">
+                      {getStateIcon(pr.state)}
+                      <span className="font-medium text-sm truncate flex-1">{pr.title}</span>
+                      {pr.draft && <Badge variant="outline" className="text-xs">Draft</Badge>}
+                    </div>
+                    <div className="flex items-center gap-4 text-xs text-muted-foreground">
+                      <span className="font-mono">{getRepoName(pr.repoId)}#{pr.number}</span>
+                      <div className="flex items-center gap-1">
+                        <User className="w-3 h-3" />
+                        {pr.authorLogin}
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <Calendar className="w-3 h-3" />
+                        {formatDate(pr.updatedAt)}
+                      </div>
+                      <span>{pr.filesChanged.length} files</span>
+                    </div>
+                  </button>
+                ))
+              )}
+            </div>
+          </ScrollArea>
+
+          {/* Pull Request Detail */}
+          <ScrollArea className="w-1/2 h-full">
+            {selected ? (
+              <div className="p-6 space-y-6">
+                <div>
+                  <div className="flex items-start justify-between gap-4">
+                    <h3 className="text-lg font-semibold">{selected.title}</h3>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 w-6 p-0 shrink-0"
+                      onClick={() => window.open(selected.htmlUrl, '_blank')}
+                    >
+                      <ExternalLink className="w-3 h-3" />
+                    </Button>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2 mt-2">
+                    <Badge variant="outline" className={getStateBadgeColor(selected.state)}>
+                      {selected.state}
+                    </Badge>
+                    {getReviewBadge(selected)}
+                    <span className="text-xs text-muted-foreground font-mono">
+                      {getRepoName(selected.repoId)}#{selected.number}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-1 mt-2 text-xs text-muted-foreground">
+                    <GitBranch className="w-3 h-3" />
+                    <span className="font-mono">{selected.headRef}</span>
+                    <span>→</span>
+                    <span className="font-mono">{selected.baseRef}</span>
+                    <span className="ml-2">
+                      by {selected.authorLogin}, {selected.mergedAt ? `merged ${formatDate(selected.mergedAt)}` : `updated ${formatDate(selected.updatedAt)}`}
+                    </span>
+                  </div>
+                </div>
+
+                {selected.linkedIssues.length > 0 && (
+                  <div>
+                    <h4 className="text-sm font-medium mb-2">Linked Issues</h4>
+                    <div className="flex flex-wrap gap-2">
+                      {selected.linkedIssues.map(issueNumber => (
+                        <a
+                          key={issueNumber}
+                          href={getIssueUrl(selected, issueNumber)}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-xs font-mono text-primary hover:underline"
+                        >
+                          #{issueNumber}
+                        </a>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {selected.reviewers.length > 0 && (
+                  <div>
+                    <h4 className="text-sm font-medium mb-2">Reviews</h4>
+                    <div className="space-y-1">
+                      {selected.reviewers.map(reviewer => (
+                        <div key={reviewer.login} className="flex items-center justify-between text-xs">
+                          <span>{reviewer.login}</span>
+                          <span className="text-muted-foreground">{reviewer.state.toLowerCase().replace('_', ' ')}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                <div>
+                  <h4 className="text-sm font-medium mb-2">
+                    Files Changed ({selected.filesChanged.length})
+                    <span className="ml-2 text-xs font-normal">
+                      <span className="text-green-600">+{selected.additions}</span>{' '}
+                      <span className="text-red-600">-{selected.deletions}</span>
+                    </span>
+                  </h4>
+                  <div className="space-y-1">
+                    {selected.filesChanged.map(changed => (
+                      <div key={changed.path} className="flex items-center justify-between gap-2 text-xs">
+                        <span className="font-mono truncate" title={changed.previousPath ? `${changed.previousPath} → ${changed.path}` : changed.path}>
+                          {changed.path}
+                        </span>
+                        <span className="shrink-0">
+                          <span className="text-green-600">+{changed.additions}</span>{' '}
+                          <span className="text-red-600">-{changed.deletions}</span>
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                {selected.body && (
+                  <div>
+                    <h4 className="text-sm font-medium mb-2">Description</h4>
+                    <p className="text-sm text-muted-foreground whitespace-pre-wrap">{selected.body}</p>
+                  </div>
+                )}
+              </div>
+            ) : (
+              <div className="flex items-center justify-center h-full text-sm text-muted-foreground">
+                Select a pull request to see its details
+              </div>
+            )}
+          </ScrollArea>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,6 +1,6 @@
 'use client'
 
-import { Integration } from '@/lib/types'
+import { Integration, SyncRun } from '@/lib/types'
 import { Badge } from '@/components/ui/badge'
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip'
 import { 
@@ -12,17 +12,26 @@ import {
   WifiOff,
   Loader2,
   AlertTriangle,
-  Activity
+  Activity,
+  History
 } from 'lucide-react'
 import { formatDistanceToNow } from 'date-fns'
 
+const SYNC_KIND_LABELS: Record<SyncRun['kind'], string> = {
+  tree: 'Files',
+  issues: 'Issues',
+  pullRequests: 'Pull requests',
+  commits: 'Commits',
+  releases: 'Releases'
+}
+
 interface IntegrationStatusProps {
   integration: Integration
   showDetails?: boolean
 }
 
 export function IntegrationStatus({ integration, showDetails = false }: IntegrationStatusProps) {
-  const { health, activity, lastSync } = integration
+  const { health, activity, lastSync, syncHistory } = integration
   
   // Handle cases where health data might be missing (for backward compatibility)
   if (!health) {
@@ -219,6 +228,32 @@ export function IntegrationStatus({ integration, showDetails = false }: Integrat
         </div>
       )}
 
+      {/* Sync History */}
+      {syncHistory && syncHistory.length > 0 && (
+        <div className="space-y-1">
+          <div className="flex items-center gap-1 text-xs font-medium">
+            <History className="w-3 h-3" />
+            Sync History
+          </div>
+          <div className="space-y-1">
+            {syncHistory.slice(0, 5).map((run) => (
+              <div key={run.id} className="text-xs text-muted-foreground pl-4 border-l-2 border-muted">
+                <div className="flex justify-between gap-2">
+                  <span className="truncate">{run.repoName} · {SYNC_KIND_LABELS[run.kind]}</span>
+                  <span className={run.status === 'success' ? 'text-green-600 dark:text-green-400' : run.status === 'rate_limited' ? 'text-yellow-600 dark:text-yellow-400' : 'text-red-600 dark:text-red-400'}>
+                    {run.status === 'success' ? 'Synced' : run.status === 'rate_limited' ? 'Rate limited' : 'Failed'}
+                  </span>
+                </div>
+                <div>{formatDistanceToNow(new Date(run.finishedAt), { addSuffix: true })}</div>
+                {run.error && (
+                  <div className="truncate" title={run.error}>{run.error}</div>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Recent Activity */}
       {activity?.recentActions && activity.recentActions.length > 0 && (
         <div className="space-y-1">
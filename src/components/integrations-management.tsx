@@ -16,6 +16,7 @@ import {
   Plus, 
   Filter, 
   Github, 
+  Gitlab,
   ExternalLink, 
   Settings, 
   Play, 
@@ -26,7 +27,9 @@ import {
   Activity,
   Users,
   Code,
-  MessageSquare
+  MessageSquare,
+  LifeBuoy,
+  Headset
 } from 'lucide-react'
 
 interface IntegrationsManagementProps {
@@ -35,7 +38,7 @@ interface IntegrationsManagementProps {
 }
 
 export function IntegrationsManagement({ open, onOpenChange }: IntegrationsManagementProps) {
-  const { integrations, setActiveIntegration } = useAppStore()
+  const { integrations, setActiveIntegration, updateIntegration } = useAppStore()
   const [searchQuery, setSearchQuery] = useState('')
   const [filterType, setFilterType] = useState<string>('all')
   const [filterStatus, setFilterStatus] = useState<string>('all')
@@ -68,10 +71,16 @@ export function IntegrationsManagement({ open, onOpenChange }: IntegrationsManag
     switch (type) {
       case 'github':
         return <Github className="w-4 h-4" />
+      case 'gitlab':
+        return <Gitlab className="w-4 h-4" />
       case 'jira':
         return <ExternalLink className="w-4 h-4" />
       case 'ado':
         return <ExternalLink className="w-4 h-4" />
+      case 'servicenow':
+        return <LifeBuoy className="w-4 h-4" />
+      case 'zendesk':
+        return <Headset className="w-4 h-4" />
       default:
         return <ExternalLink className="w-4 h-4" />
     }
@@ -80,11 +89,16 @@ export function IntegrationsManagement({ open, onOpenChange }: IntegrationsManag
   const getTypeLabel = (type: string) => {
     switch (type) {
       case 'github':
+      case 'gitlab':
         return 'Code Repository'
       case 'jira':
         return 'Project Management'
       case 'ado':
         return 'Azure DevOps'
+      case 'servicenow':
+        return 'IT Service Management'
+      case 'zendesk':
+        return 'Customer Support'
       default:
         return type.charAt(0).toUpperCase() + type.slice(1)
     }
@@ -93,9 +107,12 @@ export function IntegrationsManagement({ open, onOpenChange }: IntegrationsManag
   const getCategoryIcon = (type: string) => {
     switch (type) {
       case 'github':
+      case 'gitlab':
         return <Code className="w-5 h-5" />
       case 'jira':
       case 'ado':
+      case 'servicenow':
+      case 'zendesk':
         return <Users className="w-5 h-5" />
       default:
         return <MessageSquare className="w-5 h-5" />
@@ -166,6 +183,14 @@ export function IntegrationsManagement({ open, onOpenChange }: IntegrationsManag
                   <Github className="w-3 h-3 mr-1" />
                   GitHub
                 </Button>
+                <Button
+                  size="sm"
+                  variant={filterType === 'gitlab' ? 'default' : 'outline'}
+                  onClick={() => setFilterType('gitlab')}
+                >
+                  <Gitlab className="w-3 h-3 mr-1" />
+                  GitLab
+                </Button>
                 <Button
                   size="sm"
                   variant={filterType === 'jira' ? 'default' : 'outline'}
@@ -180,6 +205,20 @@ export function IntegrationsManagement({ open, onOpenChange }: IntegrationsManag
                 >
                   Azure
                 </Button>
+                <Button
+                  size="sm"
+                  variant={filterType === 'servicenow' ? 'default' : 'outline'}
+                  onClick={() => setFilterType('servicenow')}
+                >
+                  ServiceNow
+                </Button>
+                <Button
+                  size="sm"
+                  variant={filterType === 'zendesk' ? 'default' : 'outline'}
+                  onClick={() => setFilterType('zendesk')}
+                >
+                  Zendesk
+                </Button>
               </div>
 
               {/* Status Filter */}
@@ -320,16 +359,15 @@ export function IntegrationsManagement({ open, onOpenChange }: IntegrationsManag
         onOpenChange={setSetupDialogOpen} 
       />
       
-      {/* GitHub Integration Configuration */}
-      {configIntegration?.type === 'github' && (
+      {/* GitHub and GitLab Integration Configuration */}
+      {(configIntegration?.type === 'github' || configIntegration?.type === 'gitlab') && (
         <div className="fixed inset-0 z-60 bg-background/80 backdrop-blur-sm">
           <div className="fixed inset-y-0 right-0 w-full max-w-5xl bg-background border-l shadow-lg">
             <div className="h-full overflow-auto p-6">
               <GitHubIntegrationConfig
                 integration={configIntegration}
                 onSave={(config) => {
-                  // Update integration configuration
-                  console.log('Saving GitHub config:', config)
+                  updateIntegration(configIntegration.id, { config })
                   setConfigIntegration(null)
                 }}
                 onClose={() => setConfigIntegration(null)}
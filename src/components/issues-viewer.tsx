@@ -1,7 +1,11 @@
 'use client'
 
-import { useState, useEffect } from 'react'
-import { GitHubIssueDB, githubDB } from '@/lib/github-db'
+import { useState, useEffect, useCallback } from 'react'
+import { githubDB } from '@/lib/github-db'
+import { toTicket } from '@/lib/github-issues-sync'
+import { useAppStore } from '@/lib/store'
+import { Ticket } from '@/lib/types'
+import { fetchTicket, isTicketTracker } from '@/lib/ticket-sessions'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
@@ -20,46 +24,70 @@ import {
   Bug,
   RefreshCw,
   Eye,
-  X
+  X,
+  Milestone,
+  Bot,
+  Loader2
 } from 'lucide-react'
 
-interface GitHubIssuesViewerProps {
+interface IssuesViewerProps {
   onClose: () => void
 }
 
-export function GitHubIssuesViewer({ onClose }: GitHubIssuesViewerProps) {
-  const [issues, setIssues] = useState<GitHubIssueDB[]>([])
-  const [filteredIssues, setFilteredIssues] = useState<GitHubIssueDB[]>([])
+const TRACKER_NAMES: Record<Ticket['source'], string> = {
+  github: 'GitHub',
+  gitlab: 'GitLab',
+  jira: 'JIRA',
+  ado: 'Azure DevOps',
+  servicenow: 'ServiceNow',
+  zendesk: 'Zendesk',
+}
+
+export function IssuesViewer({ onClose }: IssuesViewerProps) {
+  const { integrations, createTicketSession } = useAppStore()
+  const [issues, setIssues] = useState<Ticket[]>([])
+  const [filteredIssues, setFilteredIssues] = useState<Ticket[]>([])
   const [loading, setLoading] = useState(false)
   const [searchQuery, setSearchQuery] = useState('')
   const [stateFilter, setStateFilter] = useState<'all' | 'open' | 'closed'>('all')
-  const [repoFilter, setRepoFilter] = useState<string>('all')
-  const [repositories, setRepositories] = useState<Array<{ id: string; name: string; fullName: string }>>([])
+  const [trackerFilter, setTrackerFilter] = useState<'all' | Ticket['source']>('all')
+  const [projectFilter, setProjectFilter] = useState<string>('all')
+  const [openingTicket, setOpeningTicket] = useState<string | null>(null)
 
-  useEffect(() => {
-    loadAllIssues()
-  }, [])
+  const trackers = [...new Set(issues.map(issue => issue.source))]
+  const projects = [...new Set(issues.map(issue => issue.project))].sort()
 
   useEffect(() => {
     filterIssues()
-  }, [issues, searchQuery, stateFilter, repoFilter])
+  }, [issues, searchQuery, stateFilter, trackerFilter, projectFilter])
 
-  const loadAllIssues = async () => {
+  // Reads the integrations when called, so health updates to them don't reload the list
+  const loadAllIssues = useCallback(async () => {
     setLoading(true)
     try {
-      // Get all repositories from database
+      // Issues of synced repositories come from the database
       const repos = await githubDB.repos.toArray()
-      setRepositories(repos.map(repo => ({
-        id: repo.id,
-        name: repo.name,
-        fullName: repo.fullName
-      })))
-
-      // Get all issues from all repositories
-      const allIssues: GitHubIssueDB[] = []
+      const allIssues: Ticket[] = []
       for (const repo of repos) {
         const repoIssues = await githubDB.getIssues(repo.id)
-        allIssues.push(...repoIssues)
+        allIssues.push(...repoIssues.map(issue => toTicket(issue, repo)))
+      }
+
+      // Other trackers' recent tickets are fetched by the server; the request carries the
+      // integrations with their credentials, as the server keeps none of its own
+      const trackerIntegrations = useAppStore.getState().integrations.filter(isTicketTracker)
+      if (trackerIntegrations.length > 0) {
+        const response = await fetch('/api/tickets', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ integrations: trackerIntegrations }),
+        })
+        if (response.ok) {
+          const { tickets }: { tickets: Ticket[] } = await response.json()
+          allIssues.push(...tickets)
+        } else {
+          console.warn('Failed to load tickets from connected trackers:', response.status)
+        }
       }
 
       // Sort by updated date (newest first)
@@ -71,7 +99,11 @@ export function GitHubIssuesViewer({ onClose }: GitHubIssuesViewerProps) {
     } finally {
       setLoading(false)
     }
-  }
+  }, [])
+
+  useEffect(() => {
+    loadAllIssues()
+  }, [loadAllIssues])
 
   const filterIssues = () => {
     let filtered = issues
@@ -81,8 +113,11 @@ export function GitHubIssuesViewer({ onClose }: GitHubIssuesViewerProps) {
       const query = searchQuery.toLowerCase()
       filtered = filtered.filter(issue =>
         issue.title.toLowerCase().includes(query) ||
-        (issue.body && issue.body.toLowerCase().includes(query)) ||
-        issue.authorLogin.toLowerCase().includes(query) ||
+        issue.reference.toLowerCase().includes(query) ||
+        issue.body.toLowerCase().includes(query) ||
+        issue.author?.toLowerCase().includes(query) ||
+        issue.assignees.some(assignee => assignee.toLowerCase().includes(query)) ||
+        issue.milestone?.toLowerCase().includes(query) ||
         issue.labels.some(label => label.name.toLowerCase().includes(query))
       )
     }
@@ -92,22 +127,31 @@ export function GitHubIssuesViewer({ onClose }: GitHubIssuesViewerProps) {
       filtered = filtered.filter(issue => issue.state === stateFilter)
     }
 
-    // Filter by repository
-    if (repoFilter !== 'all') {
-      filtered = filtered.filter(issue => issue.repoId === repoFilter)
+    // Filter by tracker
+    if (trackerFilter !== 'all') {
+      filtered = filtered.filter(issue => issue.source === trackerFilter)
     }
 
-    setFilteredIssues(filtered)
-  }
+    // Filter by repository or project
+    if (projectFilter !== 'all') {
+      filtered = filtered.filter(issue => issue.project === projectFilter)
+    }
 
-  const getRepoName = (repoId: string) => {
-    const repo = repositories.find(r => r.id === repoId)
-    return repo ? repo.name : repoId
+    setFilteredIssues(filtered)
   }
 
-  const getRepoFullName = (repoId: string) => {
-    const repo = repositories.find(r => r.id === repoId)
-    return repo ? repo.fullName : repoId
+  // Opens a chat session seeded with the ticket; trackers' tickets are fetched again for their history
+  const handleInvestigate = async (issue: Ticket) => {
+    setOpeningTicket(`${issue.source}-${issue.reference}`)
+    try {
+      const trackers = integrations.filter(integration => isTicketTracker(integration) && integration.type === issue.source)
+      createTicketSession(trackers.length > 0 ? await fetchTicket(trackers, issue.reference) : issue)
+      onClose()
+    } catch (error) {
+      console.error('Failed to open ticket:', error)
+    } finally {
+      setOpeningTicket(null)
+    }
   }
 
   const formatDate = (date: Date | string) => {
@@ -137,9 +181,9 @@ export function GitHubIssuesViewer({ onClose }: GitHubIssuesViewerProps) {
               <Bug className="w-5 h-5 text-blue-600" />
             </div>
             <div>
-              <h2 className="text-xl font-semibold">GitHub Issues Viewer</h2>
+              <h2 className="text-xl font-semibold">Issues Viewer</h2>
               <p className="text-sm text-muted-foreground">
-                View and search all issues from synced repositories
+                View and search issues from synced repositories and connected trackers
               </p>
             </div>
           </div>
@@ -186,15 +230,31 @@ export function GitHubIssuesViewer({ onClose }: GitHubIssuesViewerProps) {
               </Select>
             </div>
             
-            <Select value={repoFilter} onValueChange={setRepoFilter}>
+            {trackers.length > 1 && (
+              <Select value={trackerFilter} onValueChange={(value: 'all' | Ticket['source']) => setTrackerFilter(value)}>
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Trackers</SelectItem>
+                  {trackers.map(tracker => (
+                    <SelectItem key={tracker} value={tracker}>
+                      {TRACKER_NAMES[tracker]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+
+            <Select value={projectFilter} onValueChange={setProjectFilter}>
               <SelectTrigger className="w-48">
-                <SelectValue placeholder="All Repositories" />
+                <SelectValue placeholder="All Projects" />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="all">All Repositories</SelectItem>
-                {repositories.map(repo => (
-                  <SelectItem key={repo.id} value={repo.id}>
-                    {repo.name}
+                <SelectItem value="all">All Projects</SelectItem>
+                {projects.map(project => (
+                  <SelectItem key={project} value={project}>
+                    {project}
                   </SelectItem>
                 ))}
               </SelectContent>
@@ -217,14 +277,14 @@ export function GitHubIssuesViewer({ onClose }: GitHubIssuesViewerProps) {
                   <h3 className="text-lg font-medium mb-2">No issues found</h3>
                   <p className="text-muted-foreground max-w-md">
                     {issues.length === 0 
-                      ? "No issues have been synced yet. Try syncing some repositories first."
+                      ? "No issues have been synced or found in connected trackers yet. Try syncing some repositories first."
                       : "No issues match your current filters. Try adjusting your search or filters."
                     }
                   </p>
                 </div>
               ) : (
                 filteredIssues.map((issue) => (
-                  <Card key={`${issue.repoId}-${issue.number}`} className="hover:shadow-md transition-shadow">
+                  <Card key={`${issue.source}-${issue.reference}`} className="hover:shadow-md transition-shadow">
                     <CardHeader className="pb-3">
                       <div className="flex items-start justify-between">
                         <div className="flex items-center gap-2 flex-1 min-w-0">
@@ -235,25 +295,43 @@ export function GitHubIssuesViewer({ onClose }: GitHubIssuesViewerProps) {
                                 {issue.title}
                               </h3>
                               <Badge variant="outline" className={getStateBadgeColor(issue.state)}>
-                                {issue.state}
+                                {issue.status}
                               </Badge>
+                              {issue.type && (
+                                <Badge variant="outline" className="text-xs">
+                                  {issue.type}
+                                </Badge>
+                              )}
                             </div>
                             <div className="flex items-center gap-4 text-xs text-muted-foreground">
                               <span className="font-mono">
-                                {getRepoName(issue.repoId)}#{issue.number}
+                                {issue.reference}
                               </span>
-                              <div className="flex items-center gap-1">
-                                <User className="w-3 h-3" />
-                                {issue.authorLogin}
-                              </div>
+                              {issue.author && (
+                                <div className="flex items-center gap-1">
+                                  <User className="w-3 h-3" />
+                                  {issue.author}
+                                </div>
+                              )}
                               <div className="flex items-center gap-1">
                                 <Calendar className="w-3 h-3" />
                                 {formatDate(issue.createdAt)}
                               </div>
-                              {issue.comments > 0 && (
+                              {!!issue.commentCount && (
                                 <div className="flex items-center gap-1">
                                   <MessageSquare className="w-3 h-3" />
-                                  {issue.comments}
+                                  {issue.commentCount}
+                                </div>
+                              )}
+                              {issue.assignees.length > 0 && (
+                                <span className="truncate">
+                                  Assigned to {issue.assignees.join(', ')}
+                                </span>
+                              )}
+                              {issue.milestone && (
+                                <div className="flex items-center gap-1">
+                                  <Milestone className="w-3 h-3" />
+                                  {issue.milestone}
                                 </div>
                               )}
                             </div>
@@ -261,13 +339,27 @@ export function GitHubIssuesViewer({ onClose }: GitHubIssuesViewerProps) {
                         </div>
                         <div className="flex items-center gap-2 ml-4">
                           <Badge variant="secondary" className="text-xs">
-                            {getRepoFullName(issue.repoId)}
+                            {issue.project}
                           </Badge>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-6 px-2 text-xs"
+                            onClick={() => handleInvestigate(issue)}
+                            disabled={openingTicket !== null}
+                          >
+                            {openingTicket === `${issue.source}-${issue.reference}` ? (
+                              <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+                            ) : (
+                              <Bot className="w-3 h-3 mr-1" />
+                            )}
+                            Investigate
+                          </Button>
                           <Button
                             variant="ghost"
                             size="sm"
                             className="h-6 w-6 p-0"
-                            onClick={() => window.open(issue.htmlUrl, '_blank')}
+                            onClick={() => window.open(issue.url, '_blank')}
                           >
                             <ExternalLink className="w-3 h-3" />
                           </Button>
@@ -290,11 +382,11 @@ export function GitHubIssuesViewer({ onClose }: GitHubIssuesViewerProps) {
                                 key={index}
                                 variant="outline"
                                 className="text-xs"
-                                style={{
+                                style={label.color ? {
                                   backgroundColor: `#${label.color}20`,
                                   borderColor: `#${label.color}60`,
                                   color: `#${label.color}`
-                                }}
+                                } : undefined}
                               >
                                 {label.name}
                               </Badge>
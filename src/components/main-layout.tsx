@@ -1,9 +1,14 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { useAppStore } from '@/lib/store'
+import { GitHubSyncScheduler } from '@/lib/github-sync-scheduler'
+import { getCodeHostAuth } from '@/lib/github-auth'
+import { GitHubWebhookPoller } from '@/lib/github-webhook-sync'
+import { watchHttpMetrics } from '@/lib/http-client'
 import { Sidebar } from './sidebar'
 import { SplitChatInterface } from './split-chat-interface'
+import { ModelSelector } from './model-selector'
 import { Button } from '@/components/ui/button'
 import { 
   PanelLeftClose, 
@@ -12,8 +17,10 @@ import {
   Moon,
 } from 'lucide-react'
 
+const HTTP_METRICS_INTERVAL = 5000
+
 export function MainLayout() {
-  const { sidebarOpen, setSidebarOpen, theme, setTheme } = useAppStore()
+  const { sidebarOpen, setSidebarOpen, theme, setTheme, integrations, recordSyncRun, recordWebhookActivity, recordApiMetrics } = useAppStore()
   const [activeTab, setActiveTab] = useState<'chat' | 'editor'>('chat')
   const [mounted, setMounted] = useState(false)
   const [fileTree, setFileTree] = useState<any[]>([])
@@ -27,6 +34,52 @@ export function MainLayout() {
       .catch(() => setFileTree([]))
   }, [])
 
+  // Keep integration health current with the latency and quota of their API calls
+  useEffect(() => watchHttpMetrics(recordApiMetrics, HTTP_METRICS_INTERVAL), [recordApiMetrics])
+
+  // Restart scheduled syncs only when a GitHub or GitLab integration's credentials or sync settings
+  // change, not when a finished run is recorded on it
+  const scheduledIntegrations = integrations.filter(integration =>
+    (integration.type === 'github' || integration.type === 'gitlab') &&
+    integration.isActive && getCodeHostAuth(integration) && integration.config.githubConfig
+  )
+  const schedulesKey = JSON.stringify(scheduledIntegrations.map(integration => [integration.id, integration.config]))
+  const scheduledIntegrationsRef = useRef(scheduledIntegrations)
+  scheduledIntegrationsRef.current = scheduledIntegrations
+
+  useEffect(() => {
+    const schedulers = scheduledIntegrationsRef.current.map(integration => {
+      const scheduler = new GitHubSyncScheduler(
+        getCodeHostAuth(integration)!,
+        integration.config.githubConfig!,
+        run => recordSyncRun(integration.id, run),
+        integration.config.baseUrl
+      )
+      scheduler.start()
+      return scheduler
+    })
+
+    return () => schedulers.forEach(scheduler => scheduler.stop())
+  }, [schedulesKey, recordSyncRun])
+
+  // Apply webhook deliveries to the synced data of GitHub integrations that enabled webhooks
+  useEffect(() => {
+    const webhookIntegrations = scheduledIntegrationsRef.current.filter(integration =>
+      integration.type === 'github' && integration.config.githubConfig!.globalSettings.webhookEnabled
+    )
+    const pollers = webhookIntegrations.map(integration => {
+      const poller = new GitHubWebhookPoller(
+        integration.config.githubConfig!,
+        integration.activity?.webhookCursor,
+        (events, cursor) => recordWebhookActivity(integration.id, events, cursor)
+      )
+      poller.start()
+      return poller
+    })
+
+    return () => pollers.forEach(poller => poller.stop())
+  }, [schedulesKey, recordWebhookActivity])
+
   if (!mounted) {
     return (
       <div className="h-screen w-full flex items-center justify-center">
@@ -72,6 +125,7 @@ export function MainLayout() {
           </Button>
           
           <div className="flex items-center gap-1">
+            <ModelSelector scope="workspace" />
             <Button size="sm" variant="ghost" onClick={toggleTheme} className="h-8 w-8 p-0">
               {theme === 'light' ? (
                 <Moon className="w-3 h-3" />
@@ -0,0 +1,67 @@
+'use client'
+
+import { useAppStore } from '@/lib/store'
+import { LLM_PROVIDERS } from '@/lib/llm-provider-catalog'
+import { LLMSettings } from '@/lib/types'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Cpu } from 'lucide-react'
+
+interface ModelSelectorProps {
+  // 'session' overrides the model for the current chat; 'workspace' sets the default for all chats
+  scope: 'session' | 'workspace'
+}
+
+const INHERIT_VALUE = 'inherit'
+
+const toValue = (settings?: LLMSettings | null) =>
+  settings ? `${settings.provider}:${settings.model || LLM_PROVIDERS[settings.provider].defaultModel}` : INHERIT_VALUE
+
+const fromValue = (value: string): LLMSettings | null => {
+  if (value === INHERIT_VALUE) return null
+  const [provider, ...model] = value.split(':')
+  return { provider: provider as LLMSettings['provider'], model: model.join(':') }
+}
+
+export function ModelSelector({ scope }: ModelSelectorProps) {
+  const { currentSession, updateSession, llmSettings, setLLMSettings } = useAppStore()
+
+  const current = scope === 'session' ? currentSession?.metadata?.llm : llmSettings
+
+  const handleChange = (value: string) => {
+    const settings = fromValue(value)
+
+    if (scope === 'workspace') {
+      setLLMSettings(settings)
+      return
+    }
+
+    if (!currentSession) return
+    updateSession(currentSession.id, {
+      metadata: {
+        ...currentSession.metadata,
+        llm: settings || undefined,
+      },
+    })
+  }
+
+  return (
+    <Select value={toValue(current)} onValueChange={handleChange}>
+      <SelectTrigger className="h-7 w-auto gap-1 text-xs">
+        <Cpu className="w-3 h-3" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={INHERIT_VALUE} className="text-xs">
+          {scope === 'session' ? 'Workspace default' : 'Server default'}
+        </SelectItem>
+        {Object.values(LLM_PROVIDERS).flatMap(provider =>
+          provider.models.map(model => (
+            <SelectItem key={`${provider.id}:${model}`} value={`${provider.id}:${model}`} className="text-xs">
+              {provider.label} · {model}
+            </SelectItem>
+          ))
+        )}
+      </SelectContent>
+    </Select>
+  )
+}
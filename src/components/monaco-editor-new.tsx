@@ -5,7 +5,7 @@ import Editor, { OnMount } from '@monaco-editor/react'
 import { useAppStore } from '@/lib/store'
 import { getFileLanguage } from '@/lib/utils'
 import { GitHubSyncService } from '@/lib/github-sync'
-import { githubDB } from '@/lib/github-db'
+import { githubDB, GitHubCommitDB } from '@/lib/github-db'
 import { toast } from 'sonner'
 import { Button } from '@/components/ui/button'
 import { 
@@ -20,7 +20,10 @@ import {
   Image,
   Settings,
   RefreshCw,
-  Database
+  Database,
+  GitBranch,
+  History,
+  ExternalLink
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 
@@ -181,6 +184,8 @@ export function MonacoEditor() {
     theme, 
     selectedRepo, 
     setSelectedRepo,
+    selectedBranches,
+    setSelectedBranch,
     updateFile
   } = useAppStore()
   
@@ -193,10 +198,19 @@ export function MonacoEditor() {
     language: string
     repoId: string
     repoFullName: string
+    branch: string
   } | null>(null)
   const [isLoading, setIsLoading] = useState(false)
   const [isSaving, setIsSaving] = useState(false)
-  const [availableRepos, setAvailableRepos] = useState<Array<{id: string, name: string, fullName: string}>>([])
+  const [availableRepos, setAvailableRepos] = useState<Array<{id: string, name: string, fullName: string, defaultBranch: string}>>([])
+  const [availableBranches, setAvailableBranches] = useState<string[]>([])
+  const [showHistory, setShowHistory] = useState(false)
+  const [fileHistory, setFileHistory] = useState<GitHubCommitDB[]>([])
+
+  // Branch browsed for the selected repository; the default branch unless another was picked
+  const defaultBranch = availableRepos.find(repo => repo.id === selectedRepo)?.defaultBranch
+  const storedBranch = selectedRepo ? selectedBranches[selectedRepo] : undefined
+  const selectedBranch = storedBranch && availableBranches.includes(storedBranch) ? storedBranch : defaultBranch
   
   // Set editor theme based on app theme
   const editorTheme = theme === 'dark' ? 'vs-dark' : 'vs-light'
@@ -206,20 +220,28 @@ export function MonacoEditor() {
     loadAvailableRepos()
   }, [])
 
-  // Load file tree when repo is selected
+  // Load synced branches when repo is selected
   useEffect(() => {
     if (selectedRepo) {
-      loadFileTree(selectedRepo)
+      loadBranches(selectedRepo)
     }
   }, [selectedRepo])
 
+  // Load file tree when repo or branch is selected
+  useEffect(() => {
+    if (selectedRepo && selectedBranch) {
+      loadFileTree(selectedRepo, selectedBranch)
+    }
+  }, [selectedRepo, selectedBranch])
+
   const loadAvailableRepos = async () => {
     try {
       const repos = await githubDB.repos.toArray()
       setAvailableRepos(repos.map(repo => ({
         id: repo.id,
         name: repo.name,
-        fullName: repo.fullName
+        fullName: repo.fullName,
+        defaultBranch: repo.defaultBranch
       })))
       
       // Auto-select first repo if available
@@ -232,10 +254,41 @@ export function MonacoEditor() {
     }
   }
 
-  const loadFileTree = async (repoId: string) => {
+  // Load the open file's commit history while the history panel is shown; edits to its content don't reload it
+  const historyRepoId = currentFile?.repoId
+  const historyBranch = currentFile?.branch
+  const historyPath = currentFile?.path
+  useEffect(() => {
+    if (showHistory && historyRepoId && historyBranch && historyPath) {
+      loadFileHistory(historyRepoId, historyBranch, historyPath)
+    } else {
+      setFileHistory([])
+    }
+  }, [showHistory, historyRepoId, historyBranch, historyPath])
+
+  const loadFileHistory = async (repoId: string, branch: string, filePath: string) => {
+    try {
+      setFileHistory(await githubDB.getFileHistory(repoId, branch, filePath))
+    } catch (error) {
+      console.error('Failed to load file history:', error)
+      toast.error('Failed to load file history')
+    }
+  }
+
+  const loadBranches = async (repoId: string) => {
+    try {
+      const branches = await githubDB.getBranches(repoId)
+      setAvailableBranches(branches.map(branch => branch.name))
+    } catch (error) {
+      console.error('Failed to load branches:', error)
+      toast.error('Failed to load branches')
+    }
+  }
+
+  const loadFileTree = async (repoId: string, branch: string) => {
     try {
       setIsLoading(true)
-      const tree = await githubDB.getFileTree(repoId)
+      const tree = await githubDB.getFileTree(repoId, branch)
       setFileTree(tree)
     } catch (error) {
       console.error('Failed to load file tree:', error)
@@ -247,7 +300,7 @@ export function MonacoEditor() {
 
   // Handle file selection - fetch content from GitHub API
   const handleFileSelect = async (filePath: string) => {
-    if (!selectedRepo) {
+    if (!selectedRepo || !selectedBranch) {
       console.error('No repository selected')
       return
     }
@@ -264,17 +317,17 @@ export function MonacoEditor() {
       }
 
       // Try to get cached content first
-      let content = await githubDB.getFileContent(selectedRepo, filePath)
+      let content = await githubDB.getFileContent(selectedRepo, selectedBranch, filePath)
       
       if (!content) {
         // Fetch from GitHub API if not cached
         const syncService = new GitHubSyncService('')
-        const file = await githubDB.getFile(selectedRepo, filePath)
+        const file = await githubDB.getFile(selectedRepo, selectedBranch, filePath)
         
         if (file && file.sha) {
           content = await syncService.getFileContent(repo.fullName, filePath, file.sha)
           // Cache the content
-          await githubDB.saveFileContent(selectedRepo, filePath, content)
+          await githubDB.saveFileContent(selectedRepo, selectedBranch, filePath, content)
         }
       }
 
@@ -285,7 +338,8 @@ export function MonacoEditor() {
           content,
           language: getFileLanguage(fileName),
           repoId: selectedRepo,
-          repoFullName: repo.fullName
+          repoFullName: repo.fullName,
+          branch: selectedBranch
         })
       }
     } catch (error) {
@@ -455,11 +509,36 @@ export function MonacoEditor() {
               </option>
             ))}
           </select>
+
+          {availableBranches.length > 1 && (
+            <div className="flex items-center space-x-1">
+              <GitBranch className="w-4 h-4 text-muted-foreground" />
+              <select
+                value={selectedBranch || ''}
+                onChange={(e) => {
+                  if (!selectedRepo) return
+                  setSelectedBranch(selectedRepo, e.target.value)
+                  setCurrentFile(null)
+                }}
+                className="px-3 py-2 text-sm border border-border/40 dark:border-border/30 rounded-lg bg-background dark:bg-background text-foreground dark:text-foreground focus:border-primary/50 dark:focus:border-primary/60 focus:ring-2 focus:ring-primary/20 dark:focus:ring-primary/30 transition-all duration-200"
+              >
+                {availableBranches.map((branch) => (
+                  <option key={branch} value={branch} className="bg-background dark:bg-background text-foreground dark:text-foreground">
+                    {branch}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
           
           <Button
             variant="ghost"
             size="sm"
-            onClick={() => selectedRepo && loadFileTree(selectedRepo)}
+            onClick={() => {
+              if (!selectedRepo || !selectedBranch) return
+              loadBranches(selectedRepo)
+              loadFileTree(selectedRepo, selectedBranch)
+            }}
             disabled={!selectedRepo || isLoading}
           >
             <RefreshCw className={`w-4 h-4 mr-1 ${isLoading ? 'animate-spin' : ''}`} />
@@ -468,6 +547,16 @@ export function MonacoEditor() {
         </div>
         
         <div className="flex items-center space-x-2">
+          <Button
+            variant={showHistory ? 'secondary' : 'ghost'}
+            size="sm"
+            onClick={() => setShowHistory(!showHistory)}
+            disabled={!currentFile}
+          >
+            <History className="w-4 h-4 mr-1" />
+            History
+          </Button>
+
           <Button
             variant="ghost"
             size="sm"
@@ -539,6 +628,41 @@ export function MonacoEditor() {
             </div>
           )}
         </div>
+
+        {/* File history */}
+        {showHistory && currentFile && (
+          <div className="w-72 h-full overflow-y-auto border-l border-border/50 dark:border-border/30 bg-card/40 dark:bg-card/20">
+            <div className="p-3 border-b border-border/50 dark:border-border/30">
+              <p className="text-sm font-medium">History</p>
+              <p className="text-xs text-muted-foreground truncate" title={currentFile.path}>{currentFile.path}</p>
+            </div>
+            {fileHistory.length > 0 ? (
+              fileHistory.map((commit) => (
+                <div key={commit.sha} className="p-3 border-b border-border/30 text-xs space-y-1">
+                  <p className="text-sm line-clamp-2" title={commit.message}>{commit.message.split('\n')[0]}</p>
+                  <div className="flex items-center justify-between text-muted-foreground">
+                    <span className="truncate">
+                      {commit.authorLogin || commit.authorName} · {new Date(commit.date).toLocaleDateString()}
+                    </span>
+                    <a
+                      href={commit.htmlUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center gap-1 font-mono hover:text-foreground"
+                    >
+                      {commit.sha.slice(0, 7)}
+                      <ExternalLink className="w-3 h-3" />
+                    </a>
+                  </div>
+                </div>
+              ))
+            ) : (
+              <div className="p-4 text-center text-xs text-muted-foreground">
+                No synced commits touch this file. Sync commits for this repository to see its history.
+              </div>
+            )}
+          </div>
+        )}
       </div>
     </div>
   )
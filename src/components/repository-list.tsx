@@ -2,9 +2,11 @@
 
 import { useState, useEffect } from 'react'
 import { useAppStore } from '@/lib/store'
-import { GitHubService } from '@/lib/integrations'
-import { GitHubSyncService, SyncProgress } from '@/lib/github-sync'
+import { createCodeHostService } from '@/lib/integrations'
+import { formatSyncChanges, GitHubSyncService, SyncChangeSummary, SyncProgress } from '@/lib/github-sync'
 import { githubDB } from '@/lib/github-db'
+import { getCodeHostAuth } from '@/lib/github-auth'
+import { getGitLabWebUrl } from '@/lib/integration-utils'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
@@ -13,6 +15,7 @@ import { ScrollArea } from '@/components/ui/scroll-area'
 import { Progress } from '@/components/ui/progress'
 import { 
   Github, 
+  Gitlab,
   Star, 
   GitFork, 
   ExternalLink, 
@@ -40,8 +43,13 @@ export function RepositoryList({ className }: RepositoryListProps) {
   const [syncingRepos, setSyncingRepos] = useState<Set<string>>(new Set())
   const [syncProgress, setSyncProgress] = useState<Map<string, SyncProgress>>(new Map())
   const [repoSyncStatus, setRepoSyncStatus] = useState<Map<string, 'synced' | 'pending' | 'error'>>(new Map())
+  const [syncChanges, setSyncChanges] = useState<Map<string, SyncChangeSummary>>(new Map())
 
-  const isGitHubActive = activeIntegration?.type === 'github' && activeIntegration?.isActive
+  const isGitLab = activeIntegration?.type === 'gitlab'
+  const isCodeHostActive = (activeIntegration?.type === 'github' || isGitLab) && activeIntegration?.isActive
+  const auth = activeIntegration && getCodeHostAuth(activeIntegration)
+  const hostName = isGitLab ? 'GitLab' : 'GitHub'
+  const HostIcon = isGitLab ? Gitlab : Github
 
   const filteredRepositories = repositories.filter(repo =>
     repo.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -50,7 +58,7 @@ export function RepositoryList({ className }: RepositoryListProps) {
   )
 
   const fetchRepositories = async () => {
-    if (!isGitHubActive || !activeIntegration?.config.token) {
+    if (!isCodeHostActive || !auth) {
       return
     }
 
@@ -58,7 +66,7 @@ export function RepositoryList({ className }: RepositoryListProps) {
     setError(null)
 
     try {
-      const githubService = new GitHubService(activeIntegration.config.token)
+      const githubService = createCodeHostService(auth, activeIntegration.config.baseUrl)
       const repos = await githubService.getRepositories()
       setRepositories(repos)
       
@@ -66,7 +74,7 @@ export function RepositoryList({ className }: RepositoryListProps) {
       await loadSyncStatus(repos)
     } catch (err) {
       console.error('Error fetching repositories:', err)
-      setError('Failed to fetch repositories. Please check your GitHub token.')
+      setError(`Failed to fetch repositories. Please check your ${hostName} token.`)
     } finally {
       setLoading(false)
     }
@@ -102,8 +110,8 @@ export function RepositoryList({ className }: RepositoryListProps) {
   }
 
   const syncRepository = async (repo: GitHubRepository) => {
-    if (!activeIntegration?.config?.token) {
-      setError('GitHub token not found')
+    if (!activeIntegration || !auth) {
+      setError(`${hostName} credentials not found`)
       return
     }
     
@@ -115,16 +123,18 @@ export function RepositoryList({ className }: RepositoryListProps) {
     
     try {
       const syncService = new GitHubSyncService(
-        activeIntegration.config.token,
+        auth,
         (progress: SyncProgress) => {
           setSyncProgress(prev => new Map([...prev, [repoId, progress]]))
-        }
+        },
+        activeIntegration.config.baseUrl
       )
 
-      await syncService.syncRepository(repo)
+      const changes = await syncService.syncRepository(repo, { prefetch: {} })
       
-      // Update sync status
+      // Update sync status and keep the change summary visible after the progress clears
       setRepoSyncStatus(prev => new Map([...prev, [repoId, 'synced']]))
+      setSyncChanges(prev => new Map([...prev, [repoId, changes]]))
       
     } catch (error) {
       console.error('Sync failed:', error)
@@ -171,8 +181,10 @@ export function RepositoryList({ className }: RepositoryListProps) {
     }
     
     switch (status) {
-      case 'synced':
-        return 'Synced'
+      case 'synced': {
+        const changes = syncChanges.get(repoId)
+        return changes ? `Synced (${formatSyncChanges(changes)})` : 'Synced'
+      }
       case 'error':
         return 'Error'
       default:
@@ -181,15 +193,15 @@ export function RepositoryList({ className }: RepositoryListProps) {
   }
 
   useEffect(() => {
-    if (isGitHubActive) {
+    if (isCodeHostActive) {
       fetchRepositories()
     } else {
       setRepositories([])
       setError(null)
     }
-  }, [isGitHubActive, activeIntegration])
+  }, [isCodeHostActive, activeIntegration])
 
-  if (!isGitHubActive) {
+  if (!isCodeHostActive) {
     return (
       <Card className={className}>
         <CardHeader>
@@ -198,7 +210,7 @@ export function RepositoryList({ className }: RepositoryListProps) {
             GitHub Repositories
           </CardTitle>
           <CardDescription>
-            No GitHub integration active. Set up GitHub integration to view repositories.
+            No GitHub or GitLab integration active. Set up an integration to view repositories.
           </CardDescription>
         </CardHeader>
       </Card>
@@ -211,14 +223,14 @@ export function RepositoryList({ className }: RepositoryListProps) {
         <div className="flex items-center justify-between">
           <div>
             <CardTitle className="flex items-center gap-2">
-              <Github className="w-5 h-5" />
-              GitHub Repositories
+              <HostIcon className="w-5 h-5" />
+              {hostName} Repositories
               <Badge variant="secondary" className="ml-2">
                 {activeIntegration.name}
               </Badge>
             </CardTitle>
             <CardDescription>
-              Browse and manage your GitHub repositories
+              Browse and manage your {hostName} repositories
             </CardDescription>
           </div>
           <div className="flex items-center gap-2">
@@ -240,12 +252,12 @@ export function RepositoryList({ className }: RepositoryListProps) {
               variant="default"
               size="sm"
               onClick={() => {
-                // Open GitHub to add repositories
-                window.open('https://github.com/new', '_blank')
+                // Open GitHub or GitLab to add repositories
+                window.open(isGitLab ? `${getGitLabWebUrl(activeIntegration.config.baseUrl)}/projects/new` : 'https://github.com/new', '_blank')
               }}
               className="h-8"
             >
-              <Github className="w-4 h-4" />
+              <HostIcon className="w-4 h-4" />
               <span className="ml-1">Add Repo</span>
             </Button>
           </div>
@@ -326,8 +338,8 @@ export function RepositoryList({ className }: RepositoryListProps) {
                           {isCurrentlySyncing && progress && (
                             <div className="mb-3">
                               <div className="flex items-center justify-between mb-1">
-                                <span className="text-xs text-muted-foreground">
-                                  {progress.currentFile}
+                                <span className="text-xs text-muted-foreground truncate">
+                                  {progress.stage === 'content' && 'Contents: '}{progress.currentFile}
                                 </span>
                                 <span className="text-xs text-muted-foreground">
                                   {progress.completed}/{progress.total}
@@ -11,6 +11,7 @@ import { IntegrationSetupDialog } from '@/components/integration-setup-dialog'
 import { GithubRepoDrawer } from '@/components/github-repo-drawer'
 import { IntegrationsManagement } from '@/components/integrations-management'
 import { formatDate } from '@/lib/utils'
+import { fetchTicket, isTicketTracker } from '@/lib/ticket-sessions'
 import { 
   Plus, 
   Search, 
@@ -24,7 +25,9 @@ import {
   Tag,
   ChevronLeft,
   ChevronRight,
-  Menu
+  Menu,
+  Ticket,
+  Loader2
 } from 'lucide-react'
 
 export function Sidebar() {
@@ -32,6 +35,7 @@ export function Sidebar() {
     sessions, 
     currentSession, 
     createSession, 
+    createTicketSession,
     deleteSession, 
     updateSession,
     setCurrentSession,
@@ -47,6 +51,11 @@ export function Sidebar() {
   const [setupDialogOpen, setSetupDialogOpen] = useState(false)
   const [githubDrawerOpen, setGithubDrawerOpen] = useState(false)
   const [integrationsManagementOpen, setIntegrationsManagementOpen] = useState(false)
+  const [ticketReference, setTicketReference] = useState('')
+  const [ticketLoading, setTicketLoading] = useState(false)
+  const [ticketError, setTicketError] = useState<string | null>(null)
+
+  const ticketTrackers = integrations.filter(isTicketTracker)
 
   const filteredSessions = sessions.filter(session => {
     const matchesSearch = session.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -62,6 +71,23 @@ export function Sidebar() {
     createSession(title)
   }
 
+  // Opens a session seeded with a ticket, e.g. a ServiceNow incident number
+  const handleOpenTicket = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!ticketReference.trim()) return
+
+    setTicketLoading(true)
+    setTicketError(null)
+    try {
+      createTicketSession(await fetchTicket(ticketTrackers, ticketReference.trim()))
+      setTicketReference('')
+    } catch (error) {
+      setTicketError(error instanceof Error ? error.message : 'Failed to open ticket')
+    } finally {
+      setTicketLoading(false)
+    }
+  }
+
   const handleDeleteSession = (sessionId: string, e: React.MouseEvent) => {
     e.stopPropagation()
     if (confirm('Are you sure you want to delete this session?')) {
@@ -120,6 +146,25 @@ export function Sidebar() {
             New Session
           </Button>
         </div>
+
+        {/* Open a ticket */}
+        {ticketTrackers.length > 0 && (
+          <form onSubmit={handleOpenTicket} className="mb-3">
+            <div className="flex gap-2">
+              <Input
+                placeholder="Incident or ticket, e.g. INC0012345"
+                value={ticketReference}
+                onChange={(e) => setTicketReference(e.target.value)}
+              />
+              <Button type="submit" size="sm" variant="outline" disabled={ticketLoading || !ticketReference.trim()}>
+                {ticketLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Ticket className="w-4 h-4" />}
+              </Button>
+            </div>
+            {ticketError && (
+              <p className="text-xs text-destructive mt-1">{ticketError}</p>
+            )}
+          </form>
+        )}
         
         {/* Search */}
         <div className="relative mb-3">
@@ -2,12 +2,16 @@
 
 import { useState, useRef, useEffect } from 'react'
 import { useChat } from '@ai-sdk/react'
-import { DefaultChatTransport } from 'ai'
+import { DefaultChatTransport, getToolName, isToolUIPart } from 'ai'
 import { useAppStore } from '@/lib/store'
+import { githubDB } from '@/lib/github-db'
 import { ChatMessage } from './chat-message'
 import { ChatInput } from './chat-input'
 import { MonacoEditor } from './monaco-editor-new'
 import { MonacoDiffEditor } from './monaco-diff-editor'
+import { ToolCallCard } from './tool-call-card'
+import { TicketReplyDraft, TicketReplyDraftValue } from './ticket-reply-draft'
+import { ModelSelector } from './model-selector'
 import { ScrollArea } from '@/components/ui/scroll-area'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
@@ -23,17 +27,26 @@ import {
   User,
   Send,
   GitBranch,
-  FileCode
+  FileCode,
+  MessageSquareShare
 } from 'lucide-react'
 import { Input } from '@/components/ui/input'
 import { generateId } from '@/lib/utils'
-import { File } from '@/lib/types'
+import { ConversationSummarySchema, File } from '@/lib/types'
 import { parseCodeSuggestions, hasCodeSuggestions, CodeSuggestion } from '@/lib/code-suggestion-parser'
+import { postTicketComment } from '@/lib/ticket-sessions'
 
 interface SplitChatInterfaceProps {
   onSendMessage?: (message: string, metadata?: any) => Promise<void>
 }
 
+// Recently updated synced issues and pull requests and recent commits sent with each chat request
+const MAX_CHAT_ISSUES = 200
+const MAX_CHAT_PULL_REQUESTS = 50
+const MAX_CHAT_COMMITS = 100
+const CHAT_COMMIT_HISTORY_DAYS = 90
+const MAX_CHAT_RELEASES = 30
+
 export function SplitChatInterface({ onSendMessage }: SplitChatInterfaceProps) {
   const { 
     currentSession, 
@@ -51,13 +64,62 @@ export function SplitChatInterface({ onSendMessage }: SplitChatInterfaceProps) {
   const [currentCodeSuggestion, setCurrentCodeSuggestion] = useState<CodeSuggestion | null>(null)
   const [showDiffView, setShowDiffView] = useState(false)
   const [originalFileContent, setOriginalFileContent] = useState<string>('')
+  const [ticketPostStatus, setTicketPostStatus] = useState<'idle' | 'posting' | 'posted' | 'error'>('idle')
   const messagesEndRef = useRef<HTMLDivElement>(null)
+  // Ticket sessions whose ticket was already sent as the first message
+  const seededSessionsRef = useRef(new Set<string>())
   
-  // Use the AI SDK 5.0 useChat hook with DefaultChatTransport
+  // Use the AI SDK 5.0 useChat hook with DefaultChatTransport, one chat per session
   const { messages, sendMessage, status } = useChat({
+    id: currentSession?.id,
     transport: new DefaultChatTransport({
-      api: '/api/chat'
-    })
+      api: '/api/chat',
+      // Send the configured integrations so the server can register them as agent tools,
+      // plus the workspace and session model selection, the rolling history summary and
+      // the synced repositories the server should search, each on the branch selected for it,
+      // and recent pull requests, commits and releases it can cite when they touched the files it finds,
+      // plus the synced issues it ranks against the user's statement
+      body: async () => {
+        const { integrations, llmSettings, currentSession, selectedBranches } = useAppStore.getState()
+        const syncedRepos = await githubDB.repos.where('syncStatus').equals('completed').toArray().catch(() => [])
+        const issues = await githubDB.getIssueRefs(MAX_CHAT_ISSUES).catch(() => [])
+        const pullRequests = await githubDB.getPullRequestRefs(MAX_CHAT_PULL_REQUESTS).catch(() => [])
+        const commitsSince = new Date(Date.now() - CHAT_COMMIT_HISTORY_DAYS * 24 * 60 * 60 * 1000)
+        const commits = await githubDB.getCommitRefs(MAX_CHAT_COMMITS, commitsSince).catch(() => [])
+        const releases = await githubDB.getReleaseRefs(MAX_CHAT_RELEASES).catch(() => [])
+        return {
+          integrations,
+          llm: { workspace: llmSettings, session: currentSession?.metadata?.llm },
+          summary: currentSession?.metadata?.conversationSummary,
+          repositories: syncedRepos.map(repo => ({
+            id: repo.id,
+            fullName: repo.fullName,
+            branch: selectedBranches[repo.id] ?? repo.defaultBranch,
+            host: repo.host,
+          })),
+          issues,
+          pullRequests,
+          commits,
+          releases,
+          // The session opened with the issue, so commits before it are the candidates
+          reportedAt: currentSession?.createdAt,
+        }
+      }
+    }),
+    // The server attaches an updated summary when older turns were folded into it
+    onFinish: ({ message }) => {
+      const metadata = message.metadata as { conversationSummary?: unknown } | undefined
+      const summary = ConversationSummarySchema.safeParse(metadata?.conversationSummary)
+      const { currentSession, updateSession } = useAppStore.getState()
+      if (!summary.success || !currentSession) return
+
+      updateSession(currentSession.id, {
+        metadata: {
+          ...currentSession.metadata,
+          conversationSummary: summary.data,
+        },
+      })
+    }
   })
 
   const isLoading = status === 'submitted' || status === 'streaming' || storeLoading
@@ -94,6 +156,21 @@ export function SplitChatInterface({ onSendMessage }: SplitChatInterfaceProps) {
     }
   }, [currentSession, createSession])
 
+  // A session opened from a ticket starts by sending the ticket's description and history
+  useEffect(() => {
+    const seed = currentSession?.messages[0]
+    if (!currentSession?.metadata?.ticketId || !seed || messages.length > 0 || status !== 'ready') return
+    if (seededSessionsRef.current.has(currentSession.id)) return
+
+    seededSessionsRef.current.add(currentSession.id)
+    sendMessage({ text: seed.content })
+  }, [currentSession, messages.length, status, sendMessage])
+
+  // A new answer can be posted again
+  useEffect(() => {
+    setTicketPostStatus('idle')
+  }, [currentSession?.id, messages.length])
+
   const toggleCodeEditor = () => {
     setIsAnimating(true)
     setIsCodeEditorCollapsed(!isCodeEditorCollapsed)
@@ -120,6 +197,24 @@ export function SplitChatInterface({ onSendMessage }: SplitChatInterfaceProps) {
     }
   }
 
+  // Posts the latest answer to the ticket the session was opened from, as a work note on ServiceNow
+  const handlePostToTicket = async () => {
+    const { ticketId, ticketSource } = currentSession?.metadata ?? {}
+    const integration = useAppStore.getState().integrations.find(candidate => candidate.isActive && candidate.type === ticketSource)
+    const answer = [...messages].reverse().find(message => message.role === 'assistant')
+    const text = answer?.parts.map(part => part.type === 'text' ? part.text : '').join('').trim()
+    if (!ticketId || !integration || !text) return
+
+    setTicketPostStatus('posting')
+    try {
+      await postTicketComment(integration, ticketId, text)
+      setTicketPostStatus('posted')
+    } catch (error) {
+      console.error('Error posting to ticket:', error)
+      setTicketPostStatus('error')
+    }
+  }
+
   const handleCopyCode = (code: string) => {
     navigator.clipboard.writeText(code)
   }
@@ -254,18 +349,34 @@ export function SplitChatInterface({ onSendMessage }: SplitChatInterfaceProps) {
               </Badge>
             )}
           </div>
-          <Button
-            variant="ghost"
-            size="sm"
-            onClick={toggleCodeEditor}
-            className="h-7 w-7 p-0"
-          >
-            {isCodeEditorCollapsed ? (
-              <ChevronLeft className="w-3 h-3" />
-            ) : (
-              <ChevronRight className="w-3 h-3" />
+          <div className="flex items-center gap-1">
+            {currentSession.metadata?.ticketId && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handlePostToTicket}
+                disabled={isLoading || ticketPostStatus === 'posting' || !messages.some(message => message.role === 'assistant')}
+                className="h-7 text-xs"
+                title={`Post the latest answer to ${currentSession.metadata.ticketId}`}
+              >
+                <MessageSquareShare className="w-3 h-3 mr-1" />
+                {ticketPostStatus === 'posted' ? 'Posted' : ticketPostStatus === 'error' ? 'Retry post' : `Post to ${currentSession.metadata.ticketId}`}
+              </Button>
             )}
-          </Button>
+            <ModelSelector scope="session" />
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={toggleCodeEditor}
+              className="h-7 w-7 p-0"
+            >
+              {isCodeEditorCollapsed ? (
+                <ChevronLeft className="w-3 h-3" />
+              ) : (
+                <ChevronRight className="w-3 h-3" />
+              )}
+            </Button>
+          </div>
         </div>
 
         {/* Messages Area */}
@@ -299,10 +410,17 @@ export function SplitChatInterface({ onSendMessage }: SplitChatInterfaceProps) {
                       <div className="whitespace-pre-wrap text-sm">
                         {message.parts?.map((part, index) => {
                           if (part.type === 'text') {
-                            return part.text
+                            return <span key={index}>{part.text}</span>
+                          }
+                          // Drafted Zendesk replies are shown for review rather than as raw output
+                          if (isToolUIPart(part) && getToolName(part) === 'zendesk_draft_reply' && part.state === 'output-available') {
+                            return <TicketReplyDraft key={part.toolCallId} draft={part.output as TicketReplyDraftValue} />
+                          }
+                          if (isToolUIPart(part) || part.type === 'dynamic-tool') {
+                            return <ToolCallCard key={part.toolCallId} part={part} />
                           }
                           return null
-                        }).join('') || ''}
+                        })}
                       </div>
                     </Card>
                   </div>
@@ -0,0 +1,112 @@
+'use client'
+
+import { useState } from 'react'
+import { useAppStore } from '@/lib/store'
+import { postTicketComment } from '@/lib/ticket-sessions'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Textarea } from '@/components/ui/textarea'
+import { Loader2, Lock, Send } from 'lucide-react'
+
+export interface TicketReplyDraftValue {
+  reference: string
+  publicReply: string
+  internalNote: string
+}
+
+interface TicketReplyDraftProps {
+  draft: TicketReplyDraftValue
+}
+
+type PostStatus = 'idle' | 'posting' | 'posted' | 'error'
+
+// A reply and internal note the assistant drafted for a Zendesk ticket, edited and posted by the agent
+export function TicketReplyDraft({ draft }: TicketReplyDraftProps) {
+  const integration = useAppStore(state => state.integrations.find(candidate => candidate.isActive && candidate.type === 'zendesk'))
+  const [publicReply, setPublicReply] = useState(draft.publicReply)
+  const [internalNote, setInternalNote] = useState(draft.internalNote)
+  const [replyStatus, setReplyStatus] = useState<PostStatus>('idle')
+  const [noteStatus, setNoteStatus] = useState<PostStatus>('idle')
+
+  const post = async (body: string, isPublic: boolean, setStatus: (status: PostStatus) => void) => {
+    if (!integration || !body.trim()) return
+
+    setStatus('posting')
+    try {
+      await postTicketComment(integration, draft.reference, body, { public: isPublic })
+      setStatus('posted')
+    } catch (error) {
+      console.error('Error posting to Zendesk ticket:', error)
+      setStatus('error')
+    }
+  }
+
+  const getButtonLabel = (status: PostStatus, label: string) => {
+    switch (status) {
+      case 'posting':
+        return 'Posting...'
+      case 'posted':
+        return 'Posted'
+      case 'error':
+        return 'Retry'
+      default:
+        return label
+    }
+  }
+
+  return (
+    <div className="my-2 space-y-3 rounded-md border bg-background/60 p-3 text-xs text-foreground whitespace-normal">
+      <div className="flex items-center justify-between">
+        <span className="font-medium">Draft for Zendesk ticket #{draft.reference}</span>
+        {!integration && (
+          <Badge variant="destructive" className="text-xs">No active Zendesk integration</Badge>
+        )}
+      </div>
+
+      <div className="space-y-1">
+        <div className="flex items-center gap-1 font-medium text-muted-foreground">
+          <Send className="w-3 h-3" />
+          Public reply to the requester
+        </div>
+        <Textarea
+          value={publicReply}
+          onChange={(e) => setPublicReply(e.target.value)}
+          disabled={replyStatus === 'posted'}
+          className="min-h-[120px] text-xs"
+        />
+        <Button
+          size="sm"
+          className="h-7 text-xs"
+          onClick={() => post(publicReply, true, setReplyStatus)}
+          disabled={!integration || !publicReply.trim() || replyStatus === 'posting' || replyStatus === 'posted'}
+        >
+          {replyStatus === 'posting' && <Loader2 className="w-3 h-3 mr-1 animate-spin" />}
+          {getButtonLabel(replyStatus, 'Send reply')}
+        </Button>
+      </div>
+
+      <div className="space-y-1">
+        <div className="flex items-center gap-1 font-medium text-muted-foreground">
+          <Lock className="w-3 h-3" />
+          Internal note
+        </div>
+        <Textarea
+          value={internalNote}
+          onChange={(e) => setInternalNote(e.target.value)}
+          disabled={noteStatus === 'posted'}
+          className="min-h-[100px] text-xs"
+        />
+        <Button
+          size="sm"
+          variant="outline"
+          className="h-7 text-xs"
+          onClick={() => post(internalNote, false, setNoteStatus)}
+          disabled={!integration || !internalNote.trim() || noteStatus === 'posting' || noteStatus === 'posted'}
+        >
+          {noteStatus === 'posting' && <Loader2 className="w-3 h-3 mr-1 animate-spin" />}
+          {getButtonLabel(noteStatus, 'Add internal note')}
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,82 @@
+'use client'
+
+import { useState } from 'react'
+import { DynamicToolUIPart, ToolUIPart, getToolName, isToolUIPart } from 'ai'
+import { Badge } from '@/components/ui/badge'
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible'
+import { ChevronDown, ChevronRight, Loader2, Wrench } from 'lucide-react'
+
+interface ToolCallCardProps {
+  part: ToolUIPart | DynamicToolUIPart
+}
+
+export function ToolCallCard({ part }: ToolCallCardProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const toolName = isToolUIPart(part) ? String(getToolName(part)) : part.toolName
+
+  const getStateBadge = () => {
+    switch (part.state) {
+      case 'input-streaming':
+      case 'input-available':
+        return (
+          <Badge variant="info" className="text-xs gap-1">
+            <Loader2 className="w-3 h-3 animate-spin" />
+            Running
+          </Badge>
+        )
+      case 'output-available':
+        return <Badge variant="success" className="text-xs">Done</Badge>
+      case 'output-error':
+        return <Badge variant="destructive" className="text-xs">Failed</Badge>
+    }
+  }
+
+  const getResultSummary = () => {
+    if (part.state === 'output-error') {
+      return part.errorText
+    }
+    if (part.state !== 'output-available') {
+      return null
+    }
+    if (Array.isArray(part.output)) {
+      return `${part.output.length} result${part.output.length !== 1 ? 's' : ''}`
+    }
+    return 'Result received'
+  }
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+      <div className="my-2 rounded-md border bg-background/60 text-xs">
+        <CollapsibleTrigger className="flex w-full items-center gap-2 px-3 py-2 text-left">
+          {isOpen ? (
+            <ChevronDown className="w-3 h-3 text-muted-foreground" />
+          ) : (
+            <ChevronRight className="w-3 h-3 text-muted-foreground" />
+          )}
+          <Wrench className="w-3 h-3 text-primary" />
+          <span className="font-mono font-medium">{toolName}</span>
+          <span className="flex-1 truncate text-muted-foreground">{getResultSummary()}</span>
+          {getStateBadge()}
+        </CollapsibleTrigger>
+        <CollapsibleContent>
+          <div className="space-y-2 border-t px-3 py-2">
+            <div>
+              <div className="mb-1 font-medium text-muted-foreground">Input</div>
+              <pre className="max-h-40 overflow-auto whitespace-pre-wrap rounded bg-muted p-2 font-mono">
+                {JSON.stringify(part.input ?? {}, null, 2)}
+              </pre>
+            </div>
+            {part.state === 'output-available' && (
+              <div>
+                <div className="mb-1 font-medium text-muted-foreground">Output</div>
+                <pre className="max-h-60 overflow-auto whitespace-pre-wrap rounded bg-muted p-2 font-mono">
+                  {JSON.stringify(part.output, null, 2)}
+                </pre>
+              </div>
+            )}
+          </div>
+        </CollapsibleContent>
+      </div>
+    </Collapsible>
+  )
+}
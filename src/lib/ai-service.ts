@@ -1,21 +1,32 @@
 import { generateText, streamText } from 'ai'
-import { openai } from '@ai-sdk/openai'
-import { Message, ChatSession, Integration } from './types'
+import { ChatSession, Integration, LLMProviderId } from './types'
 import { GitHubService, JiraService, AdoService, IntegrationFactory } from './integrations'
+import { getServerGitHubAuth } from './github-app'
+import { getLanguageModel, resolveLLMSettings } from './llm-providers'
+import { ContextManager } from './context-manager'
 
 export interface AIServiceConfig {
-  apiKey: string
+  apiKey?: string
+  provider?: LLMProviderId // Defaults to the server's configured provider
   model?: string
 }
 
 export class AIService {
   private config: AIServiceConfig
 
-  constructor(config: AIServiceConfig) {
-    this.config = {
-      model: 'gpt-4-turbo-preview',
-      ...config,
-    }
+  constructor(config: AIServiceConfig = {}) {
+    this.config = config
+  }
+
+  private getSettings(session: ChatSession) {
+    return resolveLLMSettings(
+      this.config.provider ? { provider: this.config.provider, model: this.config.model } : null,
+      session.metadata?.llm
+    )
+  }
+
+  private getModel(session: ChatSession) {
+    return getLanguageModel(this.getSettings(session), { apiKey: this.config.apiKey })
   }
 
   async generateResponse(
@@ -27,14 +38,13 @@ export class AIService {
     }
   ): Promise<string> {
     try {
-      const systemPrompt = this.buildSystemPrompt(context)
-      const conversationHistory = this.buildConversationHistory(context.session.messages)
+      const { system, history } = await this.buildConversationContext(this.buildSystemPrompt(context), context.session)
 
       const { text } = await generateText({
-        model: openai(this.config.model!),
+        model: this.getModel(context.session),
         messages: [
-          { role: 'system', content: systemPrompt },
-          ...conversationHistory,
+          { role: 'system', content: system },
+          ...history,
           { role: 'user', content: message },
         ],
         temperature: 0.7,
@@ -56,14 +66,13 @@ export class AIService {
     }
   ) {
     try {
-      const systemPrompt = this.buildSystemPrompt(context)
-      const conversationHistory = this.buildConversationHistory(context.session.messages)
+      const { system, history } = await this.buildConversationContext(this.buildSystemPrompt(context), context.session)
 
       return streamText({
-        model: openai(this.config.model!),
+        model: this.getModel(context.session),
         messages: [
-          { role: 'system', content: systemPrompt },
-          ...conversationHistory,
+          { role: 'system', content: system },
+          ...history,
           { role: 'user', content: message },
         ],
         temperature: 0.7,
@@ -141,21 +150,35 @@ ${context.activeIntegration.name} (${context.activeIntegration.type})` : ''}
     return basePrompt
   }
 
-  private buildConversationHistory(messages: Message[]): Array<{ role: 'user' | 'assistant'; content: string }> {
-    return messages
-      .slice(-10) // Keep last 10 messages for context
-      .map(msg => ({
+  /**
+   * Fit the session history into the model's token budget. The session's stored summary
+   * stands in for older turns; refreshing it is left to the chat route, which persists it.
+   */
+  private async buildConversationContext(systemPrompt: string, session: ChatSession) {
+    const contextManager = new ContextManager(this.getSettings(session))
+    const packed = await contextManager.pack({
+      systemPrompt,
+      messages: session.messages,
+      getText: message => message.content,
+      summary: session.metadata?.conversationSummary,
+    })
+
+    return {
+      system: packed.system,
+      history: packed.messages.map(msg => ({
         role: msg.role === 'user' ? 'user' as const : 'assistant' as const,
         content: msg.content,
-      }))
+      })),
+    }
   }
 
   private async processGitHubAction(message: string, integration: Integration, action: string): Promise<any> {
-    if (!integration.config.token) {
+    const auth = getServerGitHubAuth(integration)
+    if (!auth) {
       throw new Error('GitHub token not configured')
     }
 
-    const github = IntegrationFactory.createGitHubService(integration.config.token)
+    const github = IntegrationFactory.createGitHubService(auth, integration.config.baseUrl)
 
     switch (action) {
       case 'list-repos':
@@ -0,0 +1,145 @@
+// Words too common in support conversations to help ranking
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'could', 'do', 'does', 'for',
+  'from', 'get', 'getting', 'has', 'have', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its',
+  'me', 'my', 'no', 'not', 'of', 'on', 'or', 'our', 'so', 'that', 'the', 'their', 'them',
+  'then', 'there', 'these', 'they', 'this', 'to', 'was', 'we', 'were', 'what', 'when',
+  'where', 'which', 'while', 'who', 'why', 'will', 'with', 'would', 'you', 'your',
+])
+
+/**
+ * Split text into lowercase search terms. camelCase and snake_case identifiers are
+ * broken into their parts and simple plural/verb suffixes are stripped, so
+ * "tokenTimeouts" and "token timeout" produce the same terms.
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(term => term.length > 1 && !STOP_WORDS.has(term))
+    .map(stem)
+}
+
+function stem(term: string): string {
+  if (term.length > 5 && term.endsWith('ing')) return term.slice(0, -3)
+  if (term.length > 4 && term.endsWith('ed')) return term.slice(0, -2)
+  if (term.length > 4 && term.endsWith('ies')) return term.slice(0, -3) + 'y'
+  if (term.length > 3 && term.endsWith('s') && !term.endsWith('ss')) return term.slice(0, -1)
+  return term
+}
+
+/**
+ * BM25 contribution of one query term to one document. `relativeLength` is the
+ * document's length divided by the average document length.
+ */
+export function bm25TermScore(
+  frequency: number,
+  documentFrequency: number,
+  documentCount: number,
+  relativeLength: number,
+  k1: number = 1.2,
+  b: number = 0.75
+): number {
+  const idf = Math.log(1 + (documentCount - documentFrequency + 0.5) / (documentFrequency + 0.5))
+  return idf * (frequency * (k1 + 1)) / (frequency + k1 * (1 - b + b * relativeLength))
+}
+
+export interface BM25Field<T> {
+  name: string
+  weight: number // Term frequencies in this field count `weight` times
+  get: (document: T) => string
+}
+
+export interface BM25Match<T> {
+  document: T
+  score: number
+  matchedTerms: string[]
+}
+
+interface IndexedDocument<T> {
+  document: T
+  termFrequencies: Map<string, number>
+  length: number
+}
+
+/**
+ * In-memory BM25 index with per-field weights (a light BM25F): a term in a title can
+ * count for more than the same term in a long body or comment thread.
+ */
+export class BM25Index<T> {
+  private documents: IndexedDocument<T>[] = []
+  private documentFrequencies = new Map<string, number>()
+  private totalLength = 0
+
+  constructor(
+    private fields: BM25Field<T>[],
+    private options: { k1?: number; b?: number } = {}
+  ) {}
+
+  get size(): number {
+    return this.documents.length
+  }
+
+  add(documents: T[]): void {
+    for (const document of documents) {
+      const termFrequencies = new Map<string, number>()
+      let length = 0
+
+      for (const field of this.fields) {
+        for (const term of tokenize(field.get(document) || '')) {
+          termFrequencies.set(term, (termFrequencies.get(term) || 0) + field.weight)
+          length += field.weight
+        }
+      }
+
+      termFrequencies.forEach((_, term) => {
+        this.documentFrequencies.set(term, (this.documentFrequencies.get(term) || 0) + 1)
+      })
+
+      this.documents.push({ document, termFrequencies, length })
+      this.totalLength += length
+    }
+  }
+
+  search(query: string, limit: number = 10): BM25Match<T>[] {
+    const queryTerms = [...new Set(tokenize(query))]
+    if (queryTerms.length === 0 || this.documents.length === 0) {
+      return []
+    }
+
+    const k1 = this.options.k1 ?? 1.2
+    const b = this.options.b ?? 0.75
+    const averageLength = this.totalLength / this.documents.length || 1
+    const documentCount = this.documents.length
+
+    const matches: BM25Match<T>[] = []
+    for (const indexed of this.documents) {
+      let score = 0
+      const matchedTerms: string[] = []
+
+      for (const term of queryTerms) {
+        const frequency = indexed.termFrequencies.get(term)
+        if (!frequency) continue
+
+        score += bm25TermScore(
+          frequency,
+          this.documentFrequencies.get(term) || 0,
+          documentCount,
+          indexed.length / averageLength,
+          k1,
+          b
+        )
+        matchedTerms.push(term)
+      }
+
+      if (score > 0) {
+        matches.push({ document: indexed.document, score, matchedTerms })
+      }
+    }
+
+    return matches
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+  }
+}
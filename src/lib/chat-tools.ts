@@ -0,0 +1,225 @@
+import { tool, ToolSet } from 'ai'
+import { z } from 'zod'
+import { Integration, Ticket, TicketProvider } from './types'
+import { CodeHostService, IntegrationFactory, ServiceNowService } from './integrations'
+import { getServerGitHubAuth } from './github-app'
+
+/**
+ * Build the AI SDK tool set for the chat agent from the user's active integrations.
+ * Only integrations with complete credentials contribute tools, so the model never
+ * sees operations it cannot actually perform.
+ */
+export function createIntegrationTools(integrations: Integration[]): ToolSet {
+  const active = integrations.filter(integration => integration.isActive)
+  const github = active.find(integration => integration.type === 'github' && getServerGitHubAuth(integration))
+  const gitlab = active.find(integration => integration.type === 'gitlab' && integration.config.token)
+  const servicenow = active.find(integration =>
+    integration.type === 'servicenow' && integration.config.baseUrl && integration.config.username && integration.config.apiKey
+  )
+
+  // The first integration of each tracker serves its tickets
+  const providers = new Map<Ticket['source'], TicketProvider>()
+  for (const integration of active) {
+    if (providers.has(integration.type)) continue
+    const provider = IntegrationFactory.createTicketProvider(integration, { githubAuth: getServerGitHubAuth(integration) })
+    if (provider) {
+      providers.set(integration.type, provider)
+    }
+  }
+
+  return {
+    ...(github ? createCodeHostTools('github', IntegrationFactory.createGitHubService(getServerGitHubAuth(github)!, github.config.baseUrl)) : {}),
+    ...(gitlab ? createCodeHostTools('gitlab', IntegrationFactory.createGitLabService(gitlab.config.token!, gitlab.config.baseUrl)) : {}),
+    ...(servicenow ? createServiceNowTools(IntegrationFactory.createServiceNowService(servicenow.config.baseUrl!, servicenow.config.username!, servicenow.config.apiKey!)) : {}),
+    ...(providers.has('zendesk') ? createZendeskTools() : {}),
+    ...createTicketTools([...providers.values()]),
+  }
+}
+
+/**
+ * Describe the registered tools for the system prompt
+ */
+export function describeIntegrationTools(tools: ToolSet): string {
+  const names = Object.keys(tools)
+  if (names.length === 0) {
+    return ''
+  }
+
+  return `\n\nAVAILABLE TOOLS:\nYou can call the following integration tools to look up live data before answering: ${names.join(', ')}.\nPrefer calling a tool over guessing about issues, pull requests, work items or file contents.`
+}
+
+// Repository tools of a code host, named after it: github_list_repositories, gitlab_list_repositories, ...
+function createCodeHostTools(host: 'github' | 'gitlab', service: CodeHostService): ToolSet {
+  const name = host === 'github' ? 'GitHub' : 'GitLab'
+  const owner = z.string().describe(host === 'github' ? 'Repository owner or organization' : 'Group path, including any subgroups')
+  const repo = z.string().describe(host === 'github' ? 'Repository name' : 'Project name')
+
+  return {
+    [`${host}_list_repositories`]: tool({
+      description: `List repositories accessible to the connected ${name} account, most recently updated first.`,
+      inputSchema: z.object({}),
+      execute: async () => service.getRepositories(),
+    }),
+    [`${host}_list_pull_requests`]: tool({
+      description: `List ${host === 'github' ? 'pull requests' : 'merge requests'} in a ${name} repository.`,
+      inputSchema: z.object({
+        owner,
+        repo,
+        state: z.enum(['open', 'closed', 'all']).default('open'),
+      }),
+      execute: async ({ owner, repo, state }) => service.getPullRequests(owner, repo, state),
+    }),
+    [`${host}_get_file_content`]: tool({
+      description: `Read the content of a file from a ${name} repository.`,
+      inputSchema: z.object({
+        owner,
+        repo,
+        path: z.string().describe('File path relative to the repository root'),
+        ref: z.string().optional().describe('Branch, tag or commit SHA; defaults to the default branch'),
+      }),
+      execute: async ({ owner, repo, path, ref }) => ({
+        path,
+        content: await service.getFileContent(`${owner}/${repo}`, path, ref),
+      }),
+    }),
+    [`${host}_get_repository_tree`]: tool({
+      description: `List every file path in a ${name} repository branch.`,
+      inputSchema: z.object({
+        owner,
+        repo,
+        branch: z.string().default('main'),
+      }),
+      execute: async ({ owner, repo, branch }) => {
+        const tree = await service.getRepositoryTree(`${owner}/${repo}`, branch)
+        return tree
+          .filter(item => item.type === 'blob')
+          .map(item => ({ path: item.path, size: item.size }))
+      },
+    }),
+  }
+}
+
+// Incident routing, which the ticket tools do not cover
+function createServiceNowTools(servicenow: ServiceNowService): ToolSet {
+  return {
+    servicenow_list_assignment_groups: tool({
+      description: 'List active ServiceNow assignment groups an incident can be routed to.',
+      inputSchema: z.object({
+        query: z.string().optional().describe('Part of the group name'),
+      }),
+      execute: async ({ query }) => servicenow.getAssignmentGroups(query),
+    }),
+    servicenow_assign_incident: tool({
+      description: 'Route a ServiceNow incident to an assignment group, clearing its assignee.',
+      inputSchema: z.object({
+        number: z.string().describe('Incident number, e.g. INC0012345'),
+        group: z.string().describe('Assignment group name, as servicenow_list_assignment_groups returns it'),
+      }),
+      execute: async ({ number, group }) => {
+        const incident = await servicenow.getIncident(number)
+        if (!incident) {
+          throw new Error(`Incident ${number} not found`)
+        }
+        return servicenow.assignToGroup(incident.sysId, group)
+      },
+    }),
+  }
+}
+
+/**
+ * Customer replies are only drafted: the chat shows the draft to an agent, who edits and
+ * posts it, since a public reply is emailed to the requester
+ */
+function createZendeskTools(): ToolSet {
+  return {
+    zendesk_draft_reply: tool({
+      description: 'Draft a public reply to the requester of a Zendesk ticket and an internal note for the support team. Nothing is posted; an agent reviews the drafts and posts them.',
+      inputSchema: z.object({
+        reference: z.string().describe('Zendesk ticket ID'),
+        publicReply: z.string().describe('Reply to the requester: plain, friendly language without internal details such as code paths'),
+        internalNote: z.string().describe('Note for agents: findings, likely cause, affected code and next steps'),
+      }),
+      execute: async draft => ({ ...draft, posted: false }),
+    }),
+  }
+}
+
+/**
+ * Tools over the tickets of every connected tracker, so GitHub and GitLab issues, JIRA
+ * issues, Azure DevOps work items, ServiceNow incidents and Zendesk tickets are looked up and updated the same way
+ */
+function createTicketTools(providers: TicketProvider[]): ToolSet {
+  if (providers.length === 0) {
+    return {}
+  }
+
+  const tracker = z.enum(providers.map(provider => provider.source) as [Ticket['source'], ...Ticket['source'][]])
+    .describe('Issue tracker: github, gitlab, jira, ado (Azure DevOps), servicenow or zendesk')
+  const reference = z.string().describe('Ticket reference: owner/repo#12 on GitHub, group/project#12 on GitLab, PROJ-123 on JIRA, the work item ID on Azure DevOps, the incident number on ServiceNow, the ticket ID on Zendesk')
+  const getProvider = (source: Ticket['source']) => providers.find(provider => provider.source === source)!
+
+  return {
+    ticket_search: tool({
+      description: 'Search tickets (issues, work items or incidents) in an issue tracker, most relevant or recently updated first.',
+      inputSchema: z.object({
+        tracker,
+        terms: z.array(z.string()).default([]).describe('Words to look for; tickets matching any of them are returned. Leave empty for recently updated tickets.'),
+        project: z.string().optional().describe('owner/repo or owner on GitHub, group/project on GitLab, a project key on JIRA, a project name on Azure DevOps, an assignment group on ServiceNow, a group on Zendesk'),
+      }),
+      execute: async ({ tracker, terms, project }) => getProvider(tracker).searchTickets(terms, { project, limit: 20 }),
+    }),
+    ticket_get: tool({
+      description: 'Get a single ticket with its description and status.',
+      inputSchema: z.object({ tracker, reference }),
+      execute: async ({ tracker, reference }) => {
+        const ticket = await getProvider(tracker).getTicket(reference)
+        if (!ticket) {
+          throw new Error(`Ticket ${reference} not found`)
+        }
+        return ticket
+      },
+    }),
+    ticket_create: tool({
+      description: 'Create a new ticket.',
+      inputSchema: z.object({
+        tracker,
+        project: z.string().describe('owner/repo on GitHub, group/project on GitLab, a project key on JIRA, a project name on Azure DevOps, an assignment group on ServiceNow, a group on Zendesk'),
+        title: z.string(),
+        body: z.string(),
+        type: z.string().optional().describe('JIRA issue type or Azure DevOps work item type; Task by default'),
+        labels: z.array(z.string()).optional(),
+      }),
+      execute: async ({ tracker, ...draft }) => getProvider(tracker).createTicket(draft),
+    }),
+    ticket_comment: tool({
+      description: 'Add a comment to a ticket. On ServiceNow and Zendesk it is posted as an internal note that the requester does not see.',
+      inputSchema: z.object({ tracker, reference, body: z.string() }),
+      execute: async ({ tracker, reference, body }) => {
+        await getProvider(tracker).addComment(reference, body)
+        return { reference, commented: true }
+      },
+    }),
+    ticket_transition: tool({
+      description: 'Move a ticket to another state.',
+      inputSchema: z.object({
+        tracker,
+        reference,
+        state: z.string().describe('open or closed on GitHub and GitLab; a status or transition name such as "In Progress" on JIRA and Azure DevOps; New, In Progress, On Hold, Resolved, Closed or Canceled on ServiceNow; open, pending, hold or solved on Zendesk'),
+      }),
+      execute: async ({ tracker, reference, state }) => getProvider(tracker).transitionTicket(reference, state),
+    }),
+    ticket_link: tool({
+      description: 'Link a ticket to another ticket in the same tracker.',
+      inputSchema: z.object({
+        tracker,
+        reference,
+        target: z.string().describe('Reference of the other ticket'),
+        type: z.enum(['relates', 'duplicates', 'blocks']).describe('The ticket relates to, duplicates or blocks the target'),
+      }),
+      execute: async ({ tracker, reference, target, type }) => {
+        await getProvider(tracker).linkTickets(reference, target, type)
+        return { reference, target, type }
+      },
+    }),
+  }
+}
@@ -0,0 +1,465 @@
+import type * as TS from 'typescript'
+
+export type CodeSymbolKind =
+  | 'function'
+  | 'class'
+  | 'interface'
+  | 'type'
+  | 'enum'
+  | 'component'
+  | 'variable'
+  | 'module'
+  | 'section' // Markdown heading section
+  | 'block' // Imports and other top-level code outside any symbol
+
+export interface CodeChunk {
+  content: string
+  startLine: number // 1-based, inclusive
+  endLine: number
+  kind: CodeSymbolKind
+  symbolName?: string // e.g. "ContextManager.pack" for a method split out of a large class
+}
+
+const MAX_SYMBOL_LINES = 150 // Longer symbols are split into members or line windows
+const MAX_BLOCK_LINES = 60
+
+const TYPESCRIPT_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs']
+
+/**
+ * Split a source file into chunks that follow its symbols: whole functions, classes,
+ * interfaces and React components for TypeScript/JavaScript (via the compiler API),
+ * pattern-detected declarations for other languages, and heading sections for Markdown.
+ * Falls back to line windows when no structure is found.
+ */
+export async function chunkCode(content: string, filePath: string): Promise<CodeChunk[]> {
+  const extension = getExtension(filePath)
+
+  if (TYPESCRIPT_EXTENSIONS.includes(extension)) {
+    const ts = await loadTypeScript()
+    if (ts) {
+      try {
+        const chunks = chunkTypeScript(ts, content, filePath)
+        if (chunks.length > 0) return chunks
+      } catch (error) {
+        console.warn(`Could not parse ${filePath}, falling back to pattern chunking:`, error)
+      }
+    }
+  }
+
+  if (extension === '.md') {
+    return chunkMarkdown(content)
+  }
+
+  return chunkByPatterns(content, extension)
+}
+
+/**
+ * Split a file into overlapping windows of lines
+ */
+export function chunkByLines(
+  content: string,
+  maxLines: number = MAX_BLOCK_LINES,
+  overlap: number = 10,
+  lineOffset: number = 0,
+  symbol: Pick<CodeChunk, 'kind' | 'symbolName'> = { kind: 'block' }
+): CodeChunk[] {
+  const lines = content.split('\n')
+  if (lines.length <= maxLines) {
+    return [{ content, startLine: lineOffset + 1, endLine: lineOffset + lines.length, ...symbol }]
+  }
+
+  const chunks: CodeChunk[] = []
+  const step = Math.max(1, maxLines - overlap)
+  for (let start = 0; start < lines.length; start += step) {
+    const end = Math.min(lines.length, start + maxLines)
+    chunks.push({
+      content: lines.slice(start, end).join('\n'),
+      startLine: lineOffset + start + 1,
+      endLine: lineOffset + end,
+      ...symbol,
+    })
+    if (end === lines.length) break
+  }
+
+  return chunks
+}
+
+// === TypeScript / JavaScript ===
+
+// The compiler is large, so it is only loaded once a TS/JS file needs parsing
+let typescriptModule: Promise<typeof TS | null> | null = null
+
+export function loadTypeScript(): Promise<typeof TS | null> {
+  typescriptModule ||= import('typescript')
+    .then(module => ('default' in module ? module.default : module) as typeof TS)
+    .catch(error => {
+      console.warn('TypeScript compiler unavailable, falling back to pattern matching:', error)
+      return null
+    })
+  return typescriptModule
+}
+
+interface SymbolInfo {
+  name: string
+  kind: CodeSymbolKind
+  classNode?: TS.ClassLikeDeclaration // Set for classes, which can be split into members
+}
+
+function chunkTypeScript(ts: typeof TS, content: string, filePath: string): CodeChunk[] {
+  const extension = getExtension(filePath)
+  const scriptKind = extension === '.tsx' ? ts.ScriptKind.TSX
+    : extension === '.jsx' ? ts.ScriptKind.JSX
+    : extension === '.ts' ? ts.ScriptKind.TS
+    : ts.ScriptKind.JS
+  const sourceFile = ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true, scriptKind)
+  const lines = content.split('\n')
+  const lineOf = (position: number) => sourceFile.getLineAndCharacterOfPosition(position).line
+
+  const chunks: CodeChunk[] = []
+  const collector = new GapCollector(lines, chunks)
+
+  for (const statement of sourceFile.statements) {
+    const start = lineOf(statement.getStart(sourceFile, true)) // Includes the JSDoc comment
+    const end = lineOf(statement.getEnd())
+    const symbol = describeStatement(ts, statement, sourceFile)
+
+    if (!symbol) {
+      collector.extend(start, end)
+      continue
+    }
+
+    collector.flush()
+    if (symbol.classNode && end - start + 1 > MAX_SYMBOL_LINES) {
+      chunks.push(...chunkClassMembers(ts, symbol, symbol.classNode, sourceFile, lines, start, end))
+    } else {
+      chunks.push(...symbolChunks(lines, start, end, symbol))
+    }
+  }
+
+  collector.flush()
+  return chunks
+}
+
+function describeStatement(ts: typeof TS, statement: TS.Statement, sourceFile: TS.SourceFile): SymbolInfo | null {
+  if (ts.isFunctionDeclaration(statement)) {
+    const name = statement.name?.text || 'default'
+    return { name, kind: isComponent(ts, name, statement) ? 'component' : 'function' }
+  }
+
+  if (ts.isClassDeclaration(statement)) {
+    const name = statement.name?.text || 'default'
+    const extendsComponent = statement.heritageClauses?.some(clause =>
+      clause.types.some(type => /(^|\.)(Pure)?Component$/.test(type.expression.getText(sourceFile)))
+    )
+    return { name, kind: extendsComponent ? 'component' : 'class', classNode: statement }
+  }
+
+  if (ts.isInterfaceDeclaration(statement)) return { name: statement.name.text, kind: 'interface' }
+  if (ts.isTypeAliasDeclaration(statement)) return { name: statement.name.text, kind: 'type' }
+  if (ts.isEnumDeclaration(statement)) return { name: statement.name.text, kind: 'enum' }
+  if (ts.isModuleDeclaration(statement)) return { name: statement.name.getText(sourceFile), kind: 'module' }
+
+  if (ts.isVariableStatement(statement)) {
+    const declaration = statement.declarationList.declarations[0]
+    if (!declaration || !ts.isIdentifier(declaration.name)) return null
+
+    const name = declaration.name.text
+    const initializer = declaration.initializer && unwrapWrapperCalls(ts, declaration.initializer)
+    if (initializer && (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer))) {
+      return { name, kind: isComponent(ts, name, initializer) ? 'component' : 'function' }
+    }
+    if (initializer && ts.isClassExpression(initializer)) {
+      return { name, kind: 'class', classNode: initializer }
+    }
+
+    // Small constants stay with the surrounding block; large ones (config objects, maps) stand alone
+    const lineCount = sourceFile.getLineAndCharacterOfPosition(statement.getEnd()).line -
+      sourceFile.getLineAndCharacterOfPosition(statement.getStart(sourceFile)).line + 1
+    return lineCount > 5 ? { name, kind: 'variable' } : null
+  }
+
+  if (ts.isExportAssignment(statement)) {
+    const expression = unwrapWrapperCalls(ts, statement.expression)
+    if (ts.isArrowFunction(expression) || ts.isFunctionExpression(expression)) {
+      return { name: 'default', kind: isComponent(ts, 'Default', expression) ? 'component' : 'function' }
+    }
+  }
+
+  return null
+}
+
+// Look through wrappers like memo(...), forwardRef(...) and useCallback(...)
+function unwrapWrapperCalls(ts: typeof TS, expression: TS.Expression): TS.Expression {
+  let current = expression
+  while (ts.isCallExpression(current) && current.arguments.length > 0) {
+    const [first] = current.arguments
+    if (!ts.isArrowFunction(first) && !ts.isFunctionExpression(first) && !ts.isCallExpression(first)) break
+    current = first
+  }
+  return current
+}
+
+function isComponent(ts: typeof TS, name: string, node: TS.Node): boolean {
+  if (!/^[A-Z]/.test(name)) return false
+
+  const containsJsx = (current: TS.Node): boolean =>
+    ts.isJsxElement(current) ||
+    ts.isJsxSelfClosingElement(current) ||
+    ts.isJsxFragment(current) ||
+    ts.forEachChild(current, containsJsx) === true
+  return containsJsx(node)
+}
+
+function chunkClassMembers(
+  ts: typeof TS,
+  symbol: SymbolInfo,
+  classNode: TS.ClassLikeDeclaration,
+  sourceFile: TS.SourceFile,
+  lines: string[],
+  classStart: number,
+  classEnd: number
+): CodeChunk[] {
+  const lineOf = (position: number) => sourceFile.getLineAndCharacterOfPosition(position).line
+  const chunks: CodeChunk[] = []
+  // Fields and the class header stay together, attributed to the class itself
+  const collector = new GapCollector(lines, chunks, { kind: symbol.kind, symbolName: symbol.name })
+  collector.extend(classStart, lineOf(classNode.members.pos))
+
+  for (const member of classNode.members) {
+    const start = lineOf(member.getStart(sourceFile, true))
+    const end = lineOf(member.getEnd())
+    const isCallable = ts.isMethodDeclaration(member) ||
+      ts.isConstructorDeclaration(member) ||
+      ts.isGetAccessorDeclaration(member) ||
+      ts.isSetAccessorDeclaration(member) ||
+      (ts.isPropertyDeclaration(member) && !!member.initializer &&
+        (ts.isArrowFunction(member.initializer) || ts.isFunctionExpression(member.initializer)))
+
+    if (!isCallable) {
+      collector.extend(start, end)
+      continue
+    }
+
+    collector.flush()
+    const memberName = ts.isConstructorDeclaration(member) ? 'constructor' : member.name?.getText(sourceFile) || 'anonymous'
+    chunks.push(...symbolChunks(lines, start, end, { name: `${symbol.name}.${memberName}`, kind: 'function' }))
+  }
+
+  collector.extend(lineOf(classNode.members.end), classEnd)
+  collector.flush()
+  return chunks
+}
+
+// === Other languages ===
+
+interface DeclarationPattern {
+  pattern: RegExp // Group 1 is the keyword (if any), group 2 the symbol name
+  blockStyle: 'braces' | 'indent' | 'end'
+}
+
+const PATTERNS_BY_EXTENSION: Record<string, DeclarationPattern[]> = {
+  '.py': [{ pattern: /^\s*(?:async\s+)?(def|class)\s+([A-Za-z_]\w*)/, blockStyle: 'indent' }],
+  '.rb': [{ pattern: /^\s*(def|class|module)\s+([\w.:?!]+)/, blockStyle: 'end' }],
+  '.go': [{ pattern: /^(func|type)\s+(?:\([^)]*\)\s*)?([A-Za-z_]\w*)/, blockStyle: 'braces' }],
+  '.rs': [{ pattern: /^\s*(?:pub(?:\([^)]*\))?\s+)?(?:async\s+)?(fn|struct|enum|trait|impl|mod)\s+(?:<[^>]*>\s*)?([A-Za-z_]\w*)/, blockStyle: 'braces' }],
+}
+
+// Java, C#, C/C++, PHP and similar: keyword declarations plus `Type name(args) {` methods
+const BRACE_PATTERNS: DeclarationPattern[] = [
+  {
+    pattern: /^\s*(?:(?:public|private|protected|internal|static|final|abstract|sealed|partial|export|readonly)\s+)*(class|interface|struct|enum|record|trait|namespace|function)\s+([A-Za-z_]\w*)/,
+    blockStyle: 'braces',
+  },
+  {
+    pattern: /^\s*(?:(?:public|private|protected|internal|static|final|abstract|virtual|override|async|inline|const)\s+)*()(?!(?:if|for|while|switch|catch|return|else|new|using|lock)\b)[\w<>[\],.*&:]+\s+([A-Za-z_]\w*)\s*\([^;]*$/,
+    blockStyle: 'braces',
+  },
+]
+
+/**
+ * Fallback for languages without a parser: find top-level declarations with simple
+ * patterns and take their extent from braces, indentation or `end` keywords
+ */
+function chunkByPatterns(content: string, extension: string): CodeChunk[] {
+  const patterns = PATTERNS_BY_EXTENSION[extension] || BRACE_PATTERNS
+  const lines = content.split('\n')
+  const chunks: CodeChunk[] = []
+  const collector = new GapCollector(lines, chunks)
+
+  let index = 0
+  while (index < lines.length) {
+    const declaration = matchDeclaration(lines[index], patterns)
+    const end = declaration ? findBlockEnd(lines, index, declaration.blockStyle) : -1
+
+    if (!declaration || end < 0) {
+      collector.extend(index, index)
+      index++
+      continue
+    }
+
+    collector.flush()
+    chunks.push(...symbolChunks(lines, index, end, { name: declaration.name, kind: declaration.kind }))
+    index = end + 1
+  }
+
+  collector.flush()
+  return chunks.length > 0 ? chunks : chunkByLines(content)
+}
+
+function matchDeclaration(
+  line: string,
+  patterns: DeclarationPattern[]
+): { name: string; kind: CodeSymbolKind; blockStyle: DeclarationPattern['blockStyle'] } | null {
+  for (const { pattern, blockStyle } of patterns) {
+    const match = line.match(pattern)
+    if (match) {
+      return { name: match[2], kind: keywordToKind(match[1]), blockStyle }
+    }
+  }
+  return null
+}
+
+function keywordToKind(keyword: string): CodeSymbolKind {
+  switch (keyword) {
+    case 'class':
+    case 'struct':
+    case 'record':
+    case 'impl':
+      return 'class'
+    case 'interface':
+    case 'trait':
+      return 'interface'
+    case 'enum':
+      return 'enum'
+    case 'type':
+      return 'type'
+    case 'module':
+    case 'mod':
+    case 'namespace':
+      return 'module'
+    default:
+      return 'function'
+  }
+}
+
+/**
+ * Find the last line of the block opened at `start`, or -1 if it doesn't open one
+ */
+function findBlockEnd(lines: string[], start: number, blockStyle: DeclarationPattern['blockStyle']): number {
+  const indentOf = (line: string) => line.length - line.trimStart().length
+  const baseIndent = indentOf(lines[start])
+
+  if (blockStyle === 'indent') {
+    let end = start
+    for (let i = start + 1; i < lines.length; i++) {
+      if (lines[i].trim() === '') continue
+      if (indentOf(lines[i]) <= baseIndent) break
+      end = i
+    }
+    return end > start ? end : -1
+  }
+
+  if (blockStyle === 'end') {
+    for (let i = start + 1; i < lines.length; i++) {
+      if (indentOf(lines[i]) === baseIndent && /^\s*end\b/.test(lines[i])) return i
+    }
+    return -1
+  }
+
+  let depth = 0
+  let opened = false
+  for (let i = start; i < lines.length; i++) {
+    // Ignore braces inside strings and line comments
+    const code = lines[i]
+      .replace(/"(?:\\.|[^"\\])*"|'(?:\\.|[^'\\])*'|`(?:\\.|[^`\\])*`/g, '""')
+      .replace(/\/\/.*$/, '')
+    for (const char of code) {
+      if (char === '{') {
+        depth++
+        opened = true
+      } else if (char === '}') {
+        depth--
+      }
+    }
+    if (opened && depth <= 0) return i
+    // A declaration without a body (e.g. `int size();`) never opens a block
+    if (!opened && (code.includes(';') || i - start > 3)) return -1
+  }
+  return -1
+}
+
+// === Markdown ===
+
+function chunkMarkdown(content: string): CodeChunk[] {
+  const lines = content.split('\n')
+  const chunks: CodeChunk[] = []
+  let sectionStart = 0
+  let heading: string | undefined
+
+  const flush = (end: number) => {
+    if (end < sectionStart) return
+    const section = lines.slice(sectionStart, end + 1).join('\n')
+    if (section.trim()) {
+      chunks.push(...chunkByLines(section, MAX_BLOCK_LINES, 10, sectionStart, { kind: 'section', symbolName: heading }))
+    }
+  }
+
+  let inCodeFence = false
+  lines.forEach((line, index) => {
+    if (/^\s*```/.test(line)) inCodeFence = !inCodeFence
+    const match = !inCodeFence && line.match(/^#{1,6}\s+(.+)$/)
+    if (match && index > 0) {
+      flush(index - 1)
+      sectionStart = index
+    }
+    if (match) heading = match[1].trim()
+  })
+  flush(lines.length - 1)
+
+  return chunks.length > 0 ? chunks : chunkByLines(content)
+}
+
+// === Shared helpers ===
+
+/**
+ * Accumulates consecutive lines that belong to no symbol (imports, small constants)
+ * and emits them as block chunks
+ */
+class GapCollector {
+  private start: number | null = null
+  private end = 0
+
+  constructor(
+    private lines: string[],
+    private chunks: CodeChunk[],
+    private symbol: Pick<CodeChunk, 'kind' | 'symbolName'> = { kind: 'block' }
+  ) {}
+
+  extend(start: number, end: number): void {
+    if (this.start === null) {
+      this.start = start
+      this.end = end
+    }
+    this.end = Math.max(this.end, end)
+  }
+
+  flush(): void {
+    if (this.start === null) return
+    const content = this.lines.slice(this.start, this.end + 1).join('\n')
+    if (content.trim()) {
+      this.chunks.push(...chunkByLines(content, MAX_BLOCK_LINES, 10, this.start, this.symbol))
+    }
+    this.start = null
+  }
+}
+
+function symbolChunks(lines: string[], start: number, end: number, symbol: Pick<SymbolInfo, 'name' | 'kind'>): CodeChunk[] {
+  const content = lines.slice(start, end + 1).join('\n')
+  const maxLines = end - start + 1 > MAX_SYMBOL_LINES ? MAX_BLOCK_LINES : MAX_SYMBOL_LINES
+  return chunkByLines(content, maxLines, 10, start, { kind: symbol.kind, symbolName: symbol.name })
+}
+
+function getExtension(filePath: string): string {
+  const match = filePath.toLowerCase().match(/\.[^./\\]+$/)
+  return match ? match[0] : ''
+}
@@ -1,4 +1,6 @@
-import { githubDB } from './github-db'
+import { CodeRelation, expandWithRelatedSymbols, getContextType, getSymbolSource, rankCodeContexts } from './code-search'
+import { CodeCandidate, CodeStorageAdapter } from './code-storage'
+import { EmbeddingCache } from './vector-index'
 
 export interface CodeContext {
   filePath: string
@@ -7,6 +9,8 @@ export interface CodeContext {
   content: string
   relevanceScore: number
   lineNumbers?: { start: number; end: number }
+  symbolName?: string // Function, class or component the content belongs to
+  relation?: CodeRelation // Set for callers and callees pulled in alongside a search hit
   language: string
   contextType: 'function' | 'class' | 'interface' | 'component' | 'config' | 'test' | 'documentation'
 }
@@ -18,31 +22,37 @@ export interface CodeSearchResult {
   confidence: number
 }
 
+// Only repositories among the strongest hits pull in related symbols
+const EXPANDED_REPOSITORIES = 3
+
+/**
+ * Code search over one or more storage adapters: candidates from every adapter are
+ * ranked together, then the top hits are expanded with their callers and callees.
+ * Servers pass a persistent embedding cache, so chunks are not embedded again after a restart.
+ */
 export class CodeContextService {
+  constructor(private storage: CodeStorageAdapter[], private embeddingCache?: EmbeddingCache) {}
+
   /**
    * Search for relevant code context based on user query
    */
   async searchCodeContext(query: string, maxResults: number = 10): Promise<CodeSearchResult> {
     const searchTerms = this.extractSearchTerms(query)
-    const contexts: CodeContext[] = []
     
     try {
-      // Check if we're in a compatible environment for IndexedDB
-      if (typeof window === 'undefined' && typeof global !== 'undefined') {
-        // We're in a server environment, IndexedDB won't work
-        console.warn('CodeContextService: IndexedDB not available in server environment')
-        return {
-          contexts: [],
-          totalMatches: 0,
-          searchTerms,
-          confidence: 0
+      // A failing adapter (e.g. an expired GitHub token) should not hide the others' results
+      const candidates = await Promise.all(this.storage.map(async adapter => {
+        try {
+          const chunks = await adapter.findCandidates()
+          return chunks.map(chunk => this.toCodeContext(adapter.repository, chunk))
+        } catch (adapterError) {
+          console.warn(`Code search failed for ${adapter.repository}:`, adapterError)
+          return []
         }
-      }
-      
-      // Get all synced files from the database
-      const files = await githubDB.files.toArray()
-      
-      if (files.length === 0) {
+      }))
+      const chunks = candidates.flat()
+
+      if (chunks.length === 0) {
         return {
           contexts: [],
           totalMatches: 0,
@@ -51,48 +61,43 @@ export class CodeContextService {
         }
       }
 
-      // Search through files for relevant content
-      for (const file of files) {
-        // Skip files without content or required fields
-        if (!file.content || !file.path || !file.name) {
-          continue
-        }
-        
-        const relevanceScore = this.calculateFileRelevance(file, searchTerms, query)
-        
-        if (relevanceScore > 0.1) { // Only include files with some relevance
-          const context: CodeContext = {
-            filePath: file.path,
-            fileName: file.name,
-            repository: file.repoId || 'unknown', // Use repoId as repository identifier
-            content: file.content,
-            relevanceScore,
-            language: this.detectLanguage(file.name),
-            contextType: this.determineContextType(file.path, file.content)
-          }
-          
-          // Extract relevant code sections if the file is large
-          if (file.content.length > 2000) {
-            const relevantSection = this.extractRelevantSection(file.content, searchTerms)
-            if (relevantSection) {
-              context.content = relevantSection.content
-              context.lineNumbers = relevantSection.lineNumbers
-            }
+      // Rank candidates from every repository with the hybrid keyword and vector ranker
+      const ranked = await rankCodeContexts(chunks, query, maxResults, this.embeddingCache)
+      const totalMatches = ranked.totalMatches
+      let limitedContexts = ranked.contexts
+
+      // Pull in callers and callees of the top hits from each hit's own repository
+      const repositories = [...new Set(limitedContexts.slice(0, EXPANDED_REPOSITORIES).map(context => context.repository))]
+      for (const repository of repositories) {
+        const adapter = this.storage.find(candidate => candidate.repository === repository)
+        const graph = await adapter?.getSymbolGraph()
+        if (!adapter || !graph) continue
+
+        const repoContexts = limitedContexts.filter(context => context.repository === repository)
+        const expanded = await expandWithRelatedSymbols(repoContexts, graph, async related => {
+          const content = await adapter.readFile(related.symbol.filePath)
+          if (!content) return null
+
+          return {
+            ...this.toCodeContext(repository, {
+              filePath: related.symbol.filePath,
+              content: '',
+              startLine: related.symbol.startLine,
+              endLine: related.symbol.endLine,
+              kind: related.symbol.kind,
+              symbolName: related.symbol.name,
+            }),
+            ...getSymbolSource(content, related.symbol),
           }
-          
-          contexts.push(context)
-        }
+        })
+        limitedContexts = [...limitedContexts, ...expanded.slice(repoContexts.length)]
       }
 
-      // Sort by relevance score and limit results
-      contexts.sort((a, b) => b.relevanceScore - a.relevanceScore)
-      const limitedContexts = contexts.slice(0, maxResults)
-
       const confidence = this.calculateSearchConfidence(limitedContexts, searchTerms)
 
       return {
         contexts: limitedContexts,
-        totalMatches: contexts.length,
+        totalMatches,
         searchTerms,
         confidence
       }
@@ -107,6 +112,21 @@ export class CodeContextService {
     }
   }
 
+  private toCodeContext(repository: string, chunk: CodeCandidate): CodeContext {
+    const fileName = chunk.filePath.split('/').pop() || chunk.filePath
+    return {
+      filePath: chunk.filePath,
+      fileName,
+      repository,
+      content: chunk.content,
+      relevanceScore: 0,
+      lineNumbers: { start: chunk.startLine, end: chunk.endLine },
+      symbolName: chunk.symbolName,
+      language: this.detectLanguage(fileName),
+      contextType: getContextType(chunk.filePath, chunk.kind)
+    }
+  }
+
   /**
    * Extract search terms from user query
    */
@@ -153,89 +173,6 @@ export class CodeContextService {
     return [...new Set(searchTerms)]
   }
 
-  /**
-   * Calculate relevance score for a file based on search terms
-   */
-  private calculateFileRelevance(file: any, searchTerms: string[], originalQuery: string): number {
-    let score = 0
-    const content = file.content.toLowerCase()
-    const fileName = file.name.toLowerCase()
-    const filePath = file.path.toLowerCase()
-
-    // Check for exact matches in file name (high weight)
-    searchTerms.forEach(term => {
-      if (fileName.includes(term)) {
-        score += 0.3
-      }
-      if (filePath.includes(term)) {
-        score += 0.2
-      }
-    })
-
-    // Check for matches in file content
-    searchTerms.forEach(term => {
-      const regex = new RegExp(`\\b${term}\\b`, 'gi')
-      const matches = content.match(regex)
-      if (matches) {
-        score += Math.min(matches.length * 0.05, 0.2) // Cap contribution per term
-      }
-    })
-
-    // Boost score for certain file types based on query context
-    if (originalQuery.includes('test') && (fileName.includes('test') || fileName.includes('spec'))) {
-      score += 0.2
-    }
-    if (originalQuery.includes('config') && (fileName.includes('config') || fileName.includes('env'))) {
-      score += 0.2
-    }
-    if (originalQuery.includes('component') && fileName.includes('component')) {
-      score += 0.2
-    }
-
-    return Math.min(score, 1.0)
-  }
-
-  /**
-   * Extract relevant section from large files
-   */
-  private extractRelevantSection(content: string, searchTerms: string[]): { content: string; lineNumbers: { start: number; end: number } } | null {
-    const lines = content.split('\n')
-    const relevantLines: { line: string; index: number; score: number }[] = []
-
-    // Score each line based on search terms
-    lines.forEach((line, index) => {
-      let lineScore = 0
-      const lowerLine = line.toLowerCase()
-      
-      searchTerms.forEach(term => {
-        if (lowerLine.includes(term)) {
-          lineScore += 1
-        }
-      })
-
-      if (lineScore > 0) {
-        relevantLines.push({ line, index, score: lineScore })
-      }
-    })
-
-    if (relevantLines.length === 0) return null
-
-    // Find the best section (around the highest scoring lines)
-    relevantLines.sort((a, b) => b.score - a.score)
-    const bestLine = relevantLines[0]
-    
-    // Extract context around the best line (±15 lines)
-    const start = Math.max(0, bestLine.index - 15)
-    const end = Math.min(lines.length - 1, bestLine.index + 15)
-    
-    const sectionLines = lines.slice(start, end + 1)
-    
-    return {
-      content: sectionLines.join('\n'),
-      lineNumbers: { start: start + 1, end: end + 1 }
-    }
-  }
-
   /**
    * Detect programming language from file extension
    */
@@ -273,38 +210,6 @@ export class CodeContextService {
     return languageMap[extension || ''] || 'text'
   }
 
-  /**
-   * Determine the type of code context
-   */
-  private determineContextType(filePath: string, content: string): CodeContext['contextType'] {
-    const fileName = filePath.toLowerCase()
-    const contentLower = content.toLowerCase()
-
-    if (fileName.includes('test') || fileName.includes('spec')) {
-      return 'test'
-    }
-    if (fileName.includes('config') || fileName.includes('.env') || fileName.includes('package.json')) {
-      return 'config'
-    }
-    if (fileName.includes('readme') || fileName.includes('.md')) {
-      return 'documentation'
-    }
-    if (contentLower.includes('class ') || contentLower.includes('export class')) {
-      return 'class'
-    }
-    if (contentLower.includes('interface ') || contentLower.includes('export interface')) {
-      return 'interface'
-    }
-    if (contentLower.includes('function ') || contentLower.includes('const ') || contentLower.includes('export function')) {
-      return 'function'
-    }
-    if (fileName.includes('component') || contentLower.includes('react') || contentLower.includes('jsx')) {
-      return 'component'
-    }
-
-    return 'function' // Default fallback
-  }
-
   /**
    * Calculate confidence score for search results
    */
@@ -340,6 +245,12 @@ export class CodeContextService {
     contexts.forEach((context, index) => {
       formatted += `**${index + 1}. ${context.fileName}** (${context.repository})\n`
       formatted += `Path: ${context.filePath}\n`
+      if (context.symbolName) {
+        formatted += `Symbol: ${context.symbolName}\n`
+      }
+      if (context.relation) {
+        formatted += `Related: ${context.relation.type === 'caller' ? 'calls' : 'called by'} ${context.relation.symbol}\n`
+      }
       formatted += `Type: ${context.contextType} | Language: ${context.language} | Relevance: ${(context.relevanceScore * 100).toFixed(1)}%\n`
       
       if (context.lineNumbers) {
@@ -0,0 +1,506 @@
+import fs from 'fs/promises'
+import { watch, FSWatcher } from 'fs'
+import path from 'path'
+import { bm25TermScore, tokenize } from './bm25'
+import { chunkCode, CodeSymbolKind } from './code-chunker'
+import { isExcludedDirectory, isSearchableCodePath } from './code-search'
+import { writeJsonAtomic } from './server-utils'
+import { fnv1a } from './utils'
+
+const INDEX_VERSION = 2
+
+const MAX_INDEXED_FILE_SIZE = 1024 * 1024 // Larger files are usually generated or vendored
+const RESCAN_INTERVAL_MS = 10000 // Minimum time between full mtime scans without a watcher
+
+// Term weights mirror the in-memory code ranker: names count more than content
+const FILE_NAME_WEIGHT = 3
+const FILE_PATH_WEIGHT = 2
+const SYMBOL_NAME_WEIGHT = 3
+
+interface IndexedFile {
+  mtimeMs: number
+  size: number
+  chunkIds: number[]
+}
+
+interface IndexedChunk {
+  filePath: string
+  startLine: number
+  endLine: number
+  kind: CodeSymbolKind
+  symbolName?: string
+  length: number
+  terms: string[] // Distinct terms, so the chunk can be removed from the postings
+}
+
+interface PersistedCodeIndex {
+  version: number
+  projectPath: string
+  updatedAt: string | null
+  nextChunkId: number
+  totalLength: number
+  files: Record<string, IndexedFile>
+  chunks: Record<number, IndexedChunk>
+  postings: Record<string, Record<number, number>> // term -> chunk ID -> weighted frequency
+}
+
+export interface CodeIndexChunk {
+  filePath: string
+  startLine: number
+  endLine: number
+  kind: CodeSymbolKind
+  symbolName?: string
+}
+
+export interface CodeIndexMatch extends CodeIndexChunk {
+  score: number
+  matchedTerms: string[]
+}
+
+export interface CodeIndexRefresh {
+  at: string
+  durationMs: number
+  mode: 'scan' | 'watch' | 'rebuild'
+  added: number
+  updated: number
+  removed: number
+}
+
+export interface CodeIndexStats {
+  projectPath: string
+  indexPath: string
+  files: number
+  chunks: number
+  terms: number
+  sizeBytes: number
+  updatedAt: string | null
+  watching: boolean
+  lastRefresh: CodeIndexRefresh | null
+  filesByExtension: Record<string, number>
+}
+
+/**
+ * Inverted index over a project's source files, persisted to disk so it survives
+ * restarts. Only files whose mtime or size changed are re-read, either found by a
+ * throttled scan or reported by a filesystem watcher.
+ */
+export class CodeIndex {
+  readonly indexPath: string
+  private data: PersistedCodeIndex
+  private loaded = false
+  private lastScanAt = 0
+  private lastRefresh: CodeIndexRefresh | null = null
+  private pendingRefresh: Promise<void> | null = null
+  private watcher: FSWatcher | null = null
+  private changedPaths = new Set<string>()
+
+  constructor(readonly projectPath: string, indexDir?: string) {
+    const directory = indexDir || process.env.CODE_INDEX_DIR || path.join(process.cwd(), '.next', 'cache', 'code-index')
+    this.indexPath = path.join(directory, `${fnv1a(projectPath).toString(16)}.json`)
+    this.data = this.emptyIndex()
+  }
+
+  /**
+   * Load the persisted index and bring it up to date. Concurrent callers share one refresh.
+   */
+  async ensureFresh(): Promise<void> {
+    if (!this.pendingRefresh) {
+      this.pendingRefresh = this.refreshIfNeeded().finally(() => {
+        this.pendingRefresh = null
+      })
+    }
+    return this.pendingRefresh
+  }
+
+  /**
+   * Discard the index and re-read every file
+   */
+  async rebuild(): Promise<void> {
+    await this.pendingRefresh
+    this.data = this.emptyIndex()
+    this.loaded = true
+    this.pendingRefresh = this.scan('rebuild').finally(() => {
+      this.pendingRefresh = null
+    })
+    return this.pendingRefresh
+  }
+
+  /**
+   * Keep the index current from filesystem events instead of periodic mtime scans.
+   * Falls back to scanning if the platform cannot watch recursively.
+   */
+  startWatching(): boolean {
+    if (this.watcher) return true
+
+    try {
+      this.watcher = watch(this.projectPath, { recursive: true }, (_event, fileName) => {
+        if (fileName) this.changedPaths.add(fileName.toString())
+      })
+      this.watcher.on('error', error => {
+        console.warn('Code index watcher failed, falling back to mtime scans:', error)
+        this.stopWatching()
+      })
+      return true
+    } catch (error) {
+      console.warn('Could not watch project for code index updates:', error)
+      this.watcher = null
+      return false
+    }
+  }
+
+  stopWatching(): void {
+    this.watcher?.close()
+    this.watcher = null
+    this.lastScanAt = 0 // Events may have been missed, so the next refresh scans
+  }
+
+  /**
+   * BM25 search over indexed chunks
+   */
+  search(query: string, limit: number = 50): CodeIndexMatch[] {
+    const queryTerms = [...new Set(tokenize(query))]
+    const chunkCount = Object.keys(this.data.chunks).length
+    if (queryTerms.length === 0 || chunkCount === 0) {
+      return []
+    }
+
+    const averageLength = this.data.totalLength / chunkCount || 1
+    const scores = new Map<number, { score: number; matchedTerms: string[] }>()
+
+    for (const term of queryTerms) {
+      const postings = this.data.postings[term]
+      if (!postings) continue
+
+      const documentFrequency = Object.keys(postings).length
+      for (const [id, frequency] of Object.entries(postings)) {
+        const chunkId = Number(id)
+        const chunk = this.data.chunks[chunkId]
+        const entry = scores.get(chunkId) || { score: 0, matchedTerms: [] }
+        entry.score += bm25TermScore(frequency, documentFrequency, chunkCount, chunk.length / averageLength)
+        entry.matchedTerms.push(term)
+        scores.set(chunkId, entry)
+      }
+    }
+
+    return [...scores.entries()]
+      .sort((a, b) => b[1].score - a[1].score)
+      .slice(0, limit)
+      .map(([chunkId, { score, matchedTerms }]) => {
+        const chunk = this.data.chunks[chunkId]
+        return {
+          filePath: chunk.filePath,
+          startLine: chunk.startLine,
+          endLine: chunk.endLine,
+          kind: chunk.kind,
+          symbolName: chunk.symbolName,
+          score,
+          matchedTerms,
+        }
+      })
+  }
+
+  /**
+   * Indexed files with the mtime and size they were indexed at
+   */
+  listFiles(): { filePath: string; mtimeMs: number; size: number }[] {
+    return Object.entries(this.data.files).map(([filePath, file]) => ({
+      filePath,
+      mtimeMs: file.mtimeMs,
+      size: file.size,
+    }))
+  }
+
+  /**
+   * The chunks of an indexed file, in order, with the line ranges of the indexed version
+   */
+  getChunks(filePath: string): CodeIndexChunk[] {
+    return (this.data.files[filePath]?.chunkIds || []).map(chunkId => {
+      const chunk = this.data.chunks[chunkId]
+      return {
+        filePath: chunk.filePath,
+        startLine: chunk.startLine,
+        endLine: chunk.endLine,
+        kind: chunk.kind,
+        symbolName: chunk.symbolName,
+      }
+    })
+  }
+
+  async getStats(): Promise<CodeIndexStats> {
+    const filesByExtension: Record<string, number> = {}
+    Object.keys(this.data.files).forEach(filePath => {
+      const extension = path.extname(filePath).toLowerCase() || path.basename(filePath)
+      filesByExtension[extension] = (filesByExtension[extension] || 0) + 1
+    })
+
+    let sizeBytes = 0
+    try {
+      sizeBytes = (await fs.stat(this.indexPath)).size
+    } catch {
+      // Not persisted yet
+    }
+
+    return {
+      projectPath: this.projectPath,
+      indexPath: this.indexPath,
+      files: Object.keys(this.data.files).length,
+      chunks: Object.keys(this.data.chunks).length,
+      terms: Object.keys(this.data.postings).length,
+      sizeBytes,
+      updatedAt: this.data.updatedAt,
+      watching: this.watcher !== null,
+      lastRefresh: this.lastRefresh,
+      filesByExtension,
+    }
+  }
+
+  private async refreshIfNeeded(): Promise<void> {
+    if (!this.loaded) {
+      await this.load()
+    }
+
+    if (this.watcher && this.lastScanAt > 0) {
+      if (this.changedPaths.size > 0) {
+        await this.applyChanges()
+      }
+      return
+    }
+
+    if (Date.now() - this.lastScanAt >= RESCAN_INTERVAL_MS) {
+      await this.scan('scan')
+    }
+  }
+
+  /**
+   * Walk the project and re-index files whose mtime or size changed
+   */
+  private async scan(mode: CodeIndexRefresh['mode']): Promise<void> {
+    const startedAt = Date.now()
+    this.changedPaths.clear()
+    const files = await this.listCodeFiles()
+    const counts = { added: 0, updated: 0, removed: 0 }
+
+    for (const [relativePath, stats] of files) {
+      const existing = this.data.files[relativePath]
+      if (existing && existing.mtimeMs === stats.mtimeMs && existing.size === stats.size) continue
+
+      if (await this.indexFile(relativePath, stats)) {
+        counts[existing ? 'updated' : 'added']++
+      }
+    }
+
+    for (const relativePath of Object.keys(this.data.files)) {
+      if (!files.has(relativePath)) {
+        this.removeFile(relativePath)
+        counts.removed++
+      }
+    }
+
+    this.lastScanAt = Date.now()
+    await this.finishRefresh(mode, startedAt, counts)
+  }
+
+  /**
+   * Re-index only the paths reported by the watcher
+   */
+  private async applyChanges(): Promise<void> {
+    const startedAt = Date.now()
+    const changed = [...this.changedPaths]
+    this.changedPaths.clear()
+    const counts = { added: 0, updated: 0, removed: 0 }
+
+    for (const relativePath of changed) {
+      if (!this.isIndexable(relativePath)) continue
+
+      const existed = relativePath in this.data.files
+      try {
+        const stats = await fs.stat(path.join(this.projectPath, relativePath))
+        if (stats.isFile() && await this.indexFile(relativePath, stats)) {
+          counts[existed ? 'updated' : 'added']++
+        }
+      } catch {
+        if (existed) {
+          this.removeFile(relativePath)
+          counts.removed++
+        }
+      }
+    }
+
+    await this.finishRefresh('watch', startedAt, counts)
+  }
+
+  private async finishRefresh(
+    mode: CodeIndexRefresh['mode'],
+    startedAt: number,
+    counts: { added: number; updated: number; removed: number }
+  ): Promise<void> {
+    const changed = counts.added + counts.updated + counts.removed > 0
+    if (changed || mode === 'rebuild') {
+      this.data.updatedAt = new Date().toISOString()
+      await this.save()
+    }
+
+    this.lastRefresh = {
+      at: new Date().toISOString(),
+      durationMs: Date.now() - startedAt,
+      mode,
+      ...counts,
+    }
+  }
+
+  private async indexFile(relativePath: string, stats: { mtimeMs: number; size: number }): Promise<boolean> {
+    let content: string
+    try {
+      content = await fs.readFile(path.join(this.projectPath, relativePath), 'utf-8')
+    } catch (error) {
+      console.warn(`Could not read file ${relativePath} for the code index:`, error)
+      return false
+    }
+
+    this.removeFile(relativePath)
+
+    const nameTerms = tokenize(path.basename(relativePath))
+    const pathTerms = tokenize(path.dirname(relativePath))
+    const chunkIds: number[] = []
+
+    for (const chunk of await chunkCode(content, relativePath)) {
+      const frequencies = new Map<string, number>()
+      const addTerms = (terms: string[], weight: number) => {
+        terms.forEach(term => frequencies.set(term, (frequencies.get(term) || 0) + weight))
+        return terms.length * weight
+      }
+
+      const length = addTerms(nameTerms, FILE_NAME_WEIGHT) +
+        addTerms(pathTerms, FILE_PATH_WEIGHT) +
+        addTerms(tokenize(chunk.symbolName || ''), SYMBOL_NAME_WEIGHT) +
+        addTerms(tokenize(chunk.content), 1)
+
+      const chunkId = this.data.nextChunkId++
+      frequencies.forEach((frequency, term) => {
+        (this.data.postings[term] ||= {})[chunkId] = frequency
+      })
+
+      this.data.chunks[chunkId] = {
+        filePath: relativePath,
+        startLine: chunk.startLine,
+        endLine: chunk.endLine,
+        kind: chunk.kind,
+        symbolName: chunk.symbolName,
+        length,
+        terms: [...frequencies.keys()],
+      }
+      this.data.totalLength += length
+      chunkIds.push(chunkId)
+    }
+
+    this.data.files[relativePath] = { mtimeMs: stats.mtimeMs, size: stats.size, chunkIds }
+    return true
+  }
+
+  private removeFile(relativePath: string): void {
+    const file = this.data.files[relativePath]
+    if (!file) return
+
+    for (const chunkId of file.chunkIds) {
+      const chunk = this.data.chunks[chunkId]
+      if (!chunk) continue
+
+      for (const term of chunk.terms) {
+        const postings = this.data.postings[term]
+        if (!postings) continue
+        delete postings[chunkId]
+        if (Object.keys(postings).length === 0) {
+          delete this.data.postings[term]
+        }
+      }
+      this.data.totalLength -= chunk.length
+      delete this.data.chunks[chunkId]
+    }
+
+    delete this.data.files[relativePath]
+  }
+
+  private async listCodeFiles(): Promise<Map<string, { mtimeMs: number; size: number }>> {
+    const files = new Map<string, { mtimeMs: number; size: number }>()
+
+    const scanDirectory = async (dirPath: string, relativePath: string = ''): Promise<void> => {
+      try {
+        const entries = await fs.readdir(dirPath, { withFileTypes: true })
+
+        for (const entry of entries) {
+          const fullPath = path.join(dirPath, entry.name)
+          const relPath = path.join(relativePath, entry.name)
+
+          if (entry.isDirectory()) {
+            if (!isExcludedDirectory(entry.name)) {
+              await scanDirectory(fullPath, relPath)
+            }
+          } else if (entry.isFile() && this.isIndexable(relPath)) {
+            const stats = await fs.stat(fullPath)
+            if (stats.size <= MAX_INDEXED_FILE_SIZE) {
+              files.set(relPath, { mtimeMs: stats.mtimeMs, size: stats.size })
+            }
+          }
+        }
+      } catch (error) {
+        // Skip directories that can't be read
+        console.warn(`Could not scan directory ${dirPath}:`, error)
+      }
+    }
+
+    await scanDirectory(this.projectPath)
+    return files
+  }
+
+  private isIndexable(relativePath: string): boolean {
+    return isSearchableCodePath(relativePath)
+  }
+
+  private async load(): Promise<void> {
+    this.loaded = true
+    try {
+      const persisted = JSON.parse(await fs.readFile(this.indexPath, 'utf-8')) as PersistedCodeIndex
+      if (persisted.version === INDEX_VERSION && persisted.projectPath === this.projectPath) {
+        this.data = persisted
+      }
+    } catch {
+      // No usable index on disk yet; the first scan builds it
+    }
+  }
+
+  private async save(): Promise<void> {
+    try {
+      await writeJsonAtomic(this.indexPath, this.data)
+    } catch (error) {
+      console.error('Error saving code index:', error)
+    }
+  }
+
+  private emptyIndex(): PersistedCodeIndex {
+    return {
+      version: INDEX_VERSION,
+      projectPath: this.projectPath,
+      updatedAt: null,
+      nextChunkId: 0,
+      totalLength: 0,
+      files: {},
+      chunks: {},
+      postings: {},
+    }
+  }
+}
+
+// One index per project path and server process, shared across requests
+const indexes = new Map<string, CodeIndex>()
+
+export function getCodeIndex(projectPath: string = process.cwd()): CodeIndex {
+  let index = indexes.get(projectPath)
+  if (!index) {
+    index = new CodeIndex(projectPath)
+    if (process.env.CODE_INDEX_WATCH === 'true') {
+      index.startWatching()
+    }
+    indexes.set(projectPath, index)
+  }
+  return index
+}
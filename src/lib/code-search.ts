@@ -0,0 +1,182 @@
+import { BM25Field } from './bm25'
+import { CodeSymbolKind } from './code-chunker'
+import { HybridRanker } from './hybrid-ranker'
+import { RelatedSymbol, SymbolDefinition, SymbolGraph } from './symbol-graph'
+import { EmbeddingCache } from './vector-index'
+
+export interface CodeRelation {
+  type: 'caller' | 'callee'
+  symbol: string // The search hit this context calls or is called by
+}
+
+// The fields both code context services share
+interface RankableCodeContext {
+  filePath: string
+  repository: string
+  fileName: string
+  symbolName?: string
+  content: string
+  relevanceScore: number
+  lineNumbers?: { start: number; end: number }
+  relation?: CodeRelation
+}
+
+const CODE_EXTENSIONS = [
+  '.ts', '.tsx', '.js', '.jsx', '.py', '.java', '.cs', '.go', '.rs', '.php', '.rb',
+  '.cpp', '.c', '.h', '.css', '.scss', '.html', '.json', '.yaml', '.yml', '.md',
+  '.sql', '.sh', '.dockerfile'
+]
+
+const EXCLUDE_DIRS = [
+  'node_modules', '.git', '.next', 'dist', 'build', 'coverage', '.turbo',
+  'target', 'vendor', '__pycache__', '.vscode', '.idea'
+]
+
+type CodeContextType = 'function' | 'class' | 'interface' | 'component' | 'config' | 'test' | 'documentation'
+
+const CODE_FIELDS: BM25Field<RankableCodeContext>[] = [
+  { name: 'fileName', weight: 3, get: context => context.fileName },
+  { name: 'symbolName', weight: 3, get: context => context.symbolName || '' },
+  { name: 'filePath', weight: 2, get: context => context.filePath },
+  { name: 'content', weight: 1, get: context => context.content },
+]
+
+const MIN_CODE_RELEVANCE = 0.1
+const MAX_NEW_EMBEDDINGS = 256 // Chunks embedded per query; the rest are embedded by later searches
+
+const RELATED_EXPANDED_HITS = 3 // Only the strongest hits pull in their callers and callees
+const RELATED_PER_HIT = 2
+const RELATED_SCORE_FACTOR = 0.6
+const MAX_RELATED_LINES = 80
+
+/**
+ * Rank code chunks against a query with the hybrid keyword and vector ranker, keeping
+ * the best chunk per file. Chunk vectors are kept in embeddingCache, or else in memory.
+ */
+export async function rankCodeContexts<T extends RankableCodeContext>(
+  chunks: T[],
+  query: string,
+  maxResults: number,
+  embeddingCache?: EmbeddingCache
+): Promise<{ contexts: T[]; totalMatches: number }> {
+  if (chunks.length === 0) {
+    return { contexts: [], totalMatches: 0 }
+  }
+
+  const ranker = new HybridRanker<T>({
+    fields: CODE_FIELDS,
+    getText: context => `${context.filePath}\n${context.content}`,
+    embeddingCache,
+    maxNewEmbeddings: MAX_NEW_EMBEDDINGS,
+  })
+  await ranker.add(chunks)
+
+  const bestByFile = new Map<string, T>()
+  for (const match of await ranker.search(query, maxResults * 5)) {
+    const fileKey = `${match.document.repository}:${match.document.filePath}`
+    if (match.score <= MIN_CODE_RELEVANCE || bestByFile.has(fileKey)) continue
+    bestByFile.set(fileKey, { ...match.document, relevanceScore: match.score })
+  }
+
+  const contexts = [...bestByFile.values()]
+  return {
+    contexts: contexts.slice(0, maxResults),
+    totalMatches: contexts.length,
+  }
+}
+
+/**
+ * Add the callers and callees of the top-ranked contexts, so answers to "who calls
+ * this" questions have the surrounding code. All contexts must come from the graph's
+ * repository. `loadRelated` turns a graph symbol into a context (reading its source);
+ * related contexts score below the hit they came from.
+ */
+export async function expandWithRelatedSymbols<T extends RankableCodeContext>(
+  contexts: T[],
+  graph: SymbolGraph,
+  loadRelated: (related: RelatedSymbol) => Promise<T | null>
+): Promise<T[]> {
+  const expanded = [...contexts]
+  const isCovered = (related: RelatedSymbol, repository: string) => expanded.some(context =>
+    context.repository === repository &&
+    context.filePath === related.symbol.filePath &&
+    (!context.lineNumbers ||
+      (context.lineNumbers.start <= related.symbol.endLine && context.lineNumbers.end >= related.symbol.startLine))
+  )
+
+  for (const context of contexts.slice(0, RELATED_EXPANDED_HITS)) {
+    if (!context.lineNumbers) continue
+
+    let added = 0
+    for (const related of graph.getRelated(context.filePath, context.lineNumbers.start, context.lineNumbers.end)) {
+      if (added >= RELATED_PER_HIT) break
+      if (isCovered(related, context.repository)) continue
+
+      const relatedContext = await loadRelated(related)
+      if (!relatedContext) continue
+
+      expanded.push({
+        ...relatedContext,
+        relevanceScore: context.relevanceScore * RELATED_SCORE_FACTOR,
+        relation: { type: related.relation, symbol: related.via },
+      })
+      added++
+    }
+  }
+
+  return expanded
+}
+
+/**
+ * The source of a graph symbol within its file's content, capped for long symbols
+ */
+export function getSymbolSource(
+  fileContent: string,
+  symbol: SymbolDefinition
+): { content: string; lineNumbers: { start: number; end: number } } {
+  const end = Math.min(symbol.endLine, symbol.startLine + MAX_RELATED_LINES - 1)
+  return {
+    content: fileContent.split('\n').slice(symbol.startLine - 1, end).join('\n'),
+    lineNumbers: { start: symbol.startLine, end },
+  }
+}
+
+/**
+ * Whether a repository-relative path is source or docs worth searching, skipping
+ * dependency, build and hidden directories
+ */
+export function isSearchableCodePath(filePath: string): boolean {
+  const segments = filePath.split(/[\\/]/)
+  const inExcludedDir = segments.slice(0, -1).some(isExcludedDirectory)
+  const fileName = segments[segments.length - 1].toLowerCase()
+  const extension = fileName.includes('.') ? fileName.substring(fileName.lastIndexOf('.')) : ''
+  return !inExcludedDir && CODE_EXTENSIONS.includes(extension)
+}
+
+export function isExcludedDirectory(name: string): boolean {
+  return EXCLUDE_DIRS.includes(name) || name.startsWith('.')
+}
+
+/**
+ * Classify a chunk for prompts: test, config and docs by path, code by its parsed symbol kind
+ */
+export function getContextType(filePath: string, kind: CodeSymbolKind): CodeContextType {
+  const lowerPath = filePath.toLowerCase()
+
+  if (/(^|[\/._-])(test|spec)s?([\/._-]|$)/.test(lowerPath)) return 'test'
+  if (lowerPath.includes('config') || lowerPath.includes('.env') || /\.(json|ya?ml)$/.test(lowerPath)) return 'config'
+  if (lowerPath.endsWith('.md')) return 'documentation'
+
+  switch (kind) {
+    case 'class':
+      return 'class'
+    case 'interface':
+    case 'type':
+    case 'enum':
+      return 'interface'
+    case 'component':
+      return 'component'
+    default:
+      return 'function'
+  }
+}
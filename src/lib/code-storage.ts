@@ -0,0 +1,126 @@
+import { chunkCode, CodeChunk } from './code-chunker'
+import { isSearchableCodePath } from './code-search'
+import { githubDB } from './github-db'
+import { createSymbolGraph, SymbolGraph } from './symbol-graph'
+
+export interface CodeCandidate extends CodeChunk {
+  filePath: string
+}
+
+/**
+ * A source of files for code search: a local checkout, repositories synced into
+ * IndexedDB, or the server's cache of synced repositories
+ */
+export interface CodeStorageAdapter {
+  readonly repository: string // Shown with each result, e.g. "current-project" or "owner/repo"
+
+  /**
+   * Every chunk, leaving ranking to the search core: vector search can match chunks
+   * that share no term with the query, so adapters do not pre-filter by keywords
+   */
+  findCandidates(): Promise<CodeCandidate[]>
+
+  readFile(filePath: string): Promise<string | null>
+
+  getSymbolGraph(): Promise<SymbolGraph | null>
+}
+
+export interface StoredCodeFile {
+  path: string
+  content: string
+  version: string // Blob SHA or mtime; unchanged versions are not re-chunked or re-parsed
+}
+
+// Chunks by path and version, shared by every in-memory adapter in the process or tab
+const chunkCache = new Map<string, CodeChunk[]>()
+const MAX_CACHED_CHUNKED_FILES = 5000
+
+// Symbol graphs by storage key, updated file by file as versions change
+const symbolGraphs = new Map<string, Promise<SymbolGraph | null>>()
+
+/**
+ * Base for adapters that hold whole files in memory and have no index of their own.
+ * Files are loaded once per adapter instance, so create one per search.
+ */
+export abstract class InMemoryCodeStorage implements CodeStorageAdapter {
+  private files: Promise<Map<string, StoredCodeFile>> | null = null
+
+  constructor(
+    readonly repository: string,
+    private storageKey: string // Unique across adapters, e.g. "indexeddb:<repo ID>"
+  ) {}
+
+  protected abstract loadFiles(): Promise<StoredCodeFile[]>
+
+  async findCandidates(): Promise<CodeCandidate[]> {
+    const candidates: CodeCandidate[] = []
+    for (const file of (await this.getFiles()).values()) {
+      const cacheKey = `${this.storageKey}:${file.path}@${file.version}`
+      let chunks = chunkCache.get(cacheKey)
+      if (!chunks) {
+        chunks = await chunkCode(file.content, file.path)
+        if (chunkCache.size >= MAX_CACHED_CHUNKED_FILES) chunkCache.clear()
+        chunkCache.set(cacheKey, chunks)
+      }
+      candidates.push(...chunks.map(chunk => ({ ...chunk, filePath: file.path })))
+    }
+    return candidates
+  }
+
+  async readFile(filePath: string): Promise<string | null> {
+    return (await this.getFiles()).get(filePath)?.content ?? null
+  }
+
+  async getSymbolGraph(): Promise<SymbolGraph | null> {
+    if (!symbolGraphs.has(this.storageKey)) {
+      symbolGraphs.set(this.storageKey, createSymbolGraph())
+    }
+    const graph = await symbolGraphs.get(this.storageKey)
+    if (!graph) return null
+
+    const sourceFiles = [...(await this.getFiles()).values()].filter(file => SymbolGraph.isSourceFile(file.path))
+    for (const file of sourceFiles) {
+      if (graph.getVersion(file.path) !== file.version) {
+        graph.setFile(file.path, file.content, file.version)
+      }
+    }
+    graph.retainFiles(new Set(sourceFiles.map(file => file.path)))
+
+    return graph
+  }
+
+  private getFiles(): Promise<Map<string, StoredCodeFile>> {
+    this.files ||= this.loadFiles().then(files => new Map(files.map(file => [file.path, file])))
+    return this.files
+  }
+}
+
+/**
+ * Files of one branch of a repository synced into the browser's IndexedDB. Only files
+ * whose content has been fetched are searchable.
+ */
+export class IndexedDBCodeStorage extends InMemoryCodeStorage {
+  constructor(private repoId: string, private branch: string, repository: string) {
+    super(repository, `indexeddb:${repoId}@${branch}`)
+  }
+
+  protected async loadFiles(): Promise<StoredCodeFile[]> {
+    const files = await githubDB.getFiles(this.repoId, this.branch)
+    return files
+      .filter(file => file.type === 'file' && file.content && isSearchableCodePath(file.path))
+      .map(file => ({ path: file.path, content: file.content || '', version: file.sha }))
+  }
+}
+
+/**
+ * One adapter per repository synced into IndexedDB, on the branch selected for it or
+ * else its default branch; empty outside the browser
+ */
+export async function getIndexedDBCodeStorage(selectedBranches: Record<string, string> = {}): Promise<CodeStorageAdapter[]> {
+  if (typeof indexedDB === 'undefined') {
+    return []
+  }
+
+  const repos = await githubDB.repos.toArray()
+  return repos.map(repo => new IndexedDBCodeStorage(repo.id, selectedBranches[repo.id] ?? repo.defaultBranch, repo.fullName))
+}
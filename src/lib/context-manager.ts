@@ -0,0 +1,203 @@
+import { generateText, LanguageModel } from 'ai'
+import { ConversationSummary, LLMProviderId, LLMSettings } from './types'
+import { LLM_PROVIDERS } from './llm-provider-catalog'
+
+interface ModelLimits {
+  contextWindow: number
+  charsPerToken: number
+}
+
+// Provider-level defaults; individual models can override them below
+const PROVIDER_LIMITS: Record<LLMProviderId, ModelLimits> = {
+  'openai': { contextWindow: 128000, charsPerToken: 4 },
+  'anthropic': { contextWindow: 200000, charsPerToken: 3.5 },
+  'openai-compatible': { contextWindow: 8192, charsPerToken: 3.8 },
+  'mock': { contextWindow: 8192, charsPerToken: 4 },
+}
+
+const MODEL_LIMITS: Record<string, Partial<ModelLimits>> = {
+  'gpt-4': { contextWindow: 8192 },
+  'gpt-3.5-turbo': { contextWindow: 16385 },
+  'qwen2.5-coder': { contextWindow: 32768 },
+  'mistral': { contextWindow: 32768 },
+}
+
+export interface ContextManagerOptions {
+  reservedOutputTokens?: number // Room left for the model's reply
+  maxCodeContextShare?: number // Fraction of the input budget code context may use
+  maxSummaryTokens?: number
+  contextWindow?: number // Overrides the model's known context window
+  summarizer?: LanguageModel // Model used to fold dropped turns into the summary
+}
+
+export interface PackContextInput<T extends { id: string; role: string }> {
+  systemPrompt: string
+  codeContext?: string
+  messages: T[]
+  getText: (message: T) => string
+  summary?: ConversationSummary | null
+}
+
+export interface PackedContext<T> {
+  system: string
+  messages: T[]
+  summary: ConversationSummary | null
+  summaryUpdated: boolean
+  usage: {
+    system: number
+    codeContext: number
+    summary: number
+    history: number
+    total: number
+    budget: number
+  }
+}
+
+/**
+ * Packs the system prompt, code context and chat history into a model's token budget.
+ * Turns that no longer fit are folded into a rolling summary that is carried on the
+ * ChatSession, so each request only summarizes the turns dropped since the last one.
+ */
+export class ContextManager {
+  private limits: ModelLimits
+  private options: Required<Omit<ContextManagerOptions, 'summarizer' | 'contextWindow'>> & Pick<ContextManagerOptions, 'summarizer'>
+
+  constructor(settings: LLMSettings, options: ContextManagerOptions = {}) {
+    const model = settings.model || LLM_PROVIDERS[settings.provider].defaultModel
+    this.limits = {
+      ...PROVIDER_LIMITS[settings.provider],
+      ...MODEL_LIMITS[model],
+      ...(options.contextWindow ? { contextWindow: options.contextWindow } : {}),
+    }
+    this.options = {
+      reservedOutputTokens: options.reservedOutputTokens ?? Math.min(4096, Math.floor(this.limits.contextWindow / 4)),
+      maxCodeContextShare: options.maxCodeContextShare ?? 0.4,
+      maxSummaryTokens: options.maxSummaryTokens ?? 1024,
+      summarizer: options.summarizer,
+    }
+  }
+
+  /**
+   * Estimate the token count of text for the configured model
+   */
+  countTokens(text: string): number {
+    if (!text) return 0
+    return Math.ceil(text.length / this.limits.charsPerToken)
+  }
+
+  get inputBudget(): number {
+    return this.limits.contextWindow - this.options.reservedOutputTokens
+  }
+
+  async pack<T extends { id: string; role: string }>(input: PackContextInput<T>): Promise<PackedContext<T>> {
+    const budget = this.inputBudget
+    const systemTokens = this.countTokens(input.systemPrompt)
+    const codeContext = this.truncateToTokens(
+      input.codeContext || '',
+      Math.floor(budget * this.options.maxCodeContextShare)
+    )
+    const codeContextTokens = this.countTokens(codeContext)
+
+    // Messages already folded into a previous summary are represented by it alone
+    let summary = input.summary || null
+    let pending = input.messages
+    if (summary) {
+      const coveredIndex = input.messages.findIndex(message => message.id === summary!.summarizedThroughId)
+      if (coveredIndex === -1) {
+        summary = null // Summary belongs to a different or rewritten conversation
+      } else {
+        pending = input.messages.slice(coveredIndex + 1)
+      }
+    }
+
+    const messageTokens = pending.map(message => this.countTokens(input.getText(message)))
+    const historyBudget = budget - systemTokens - codeContextTokens - this.options.maxSummaryTokens
+
+    // Walk back from the newest turn; the latest message is always kept
+    let historyTokens = 0
+    let firstKept = pending.length
+    for (let i = pending.length - 1; i >= 0; i--) {
+      if (i < pending.length - 1 && historyTokens + messageTokens[i] > historyBudget) break
+      historyTokens += messageTokens[i]
+      firstKept = i
+    }
+
+    const dropped = pending.slice(0, firstKept)
+    let summaryUpdated = false
+    if (dropped.length > 0) {
+      const folded = await this.foldIntoSummary(summary, dropped, input.getText)
+      if (folded) {
+        summary = folded
+        summaryUpdated = true
+      }
+    }
+
+    const summaryTokens = summary ? this.countTokens(summary.text) : 0
+    const system = [
+      input.systemPrompt,
+      codeContext,
+      summary ? `\n=== SUMMARY OF EARLIER CONVERSATION (${summary.messageCount} messages) ===\n${summary.text}\n=== END SUMMARY ===` : '',
+    ].filter(Boolean).join('\n')
+
+    return {
+      system,
+      messages: pending.slice(firstKept),
+      summary,
+      summaryUpdated,
+      usage: {
+        system: systemTokens,
+        codeContext: codeContextTokens,
+        summary: summaryTokens,
+        history: historyTokens,
+        total: systemTokens + codeContextTokens + summaryTokens + historyTokens,
+        budget,
+      },
+    }
+  }
+
+  /**
+   * Fold newly dropped turns into the running summary. Returns null when no summarizer
+   * is configured or summarization fails, in which case the turns are simply dropped.
+   */
+  private async foldIntoSummary<T extends { id: string; role: string }>(
+    previous: ConversationSummary | null,
+    dropped: T[],
+    getText: (message: T) => string
+  ): Promise<ConversationSummary | null> {
+    if (!this.options.summarizer) {
+      return null
+    }
+
+    const transcript = dropped
+      .map(message => `${message.role}: ${getText(message)}`)
+      .join('\n\n')
+
+    try {
+      const { text } = await generateText({
+        model: this.options.summarizer,
+        system: 'You maintain a running summary of an L2/L3 support investigation. Preserve concrete facts: error messages, affected components, file paths, ticket and issue references, hypotheses ruled out, and decisions made. Be concise and use bullet points.',
+        prompt: `${previous ? `Current summary:\n${previous.text}\n\n` : ''}New conversation turns to fold in:\n${this.truncateToTokens(transcript, this.inputBudget - this.options.maxSummaryTokens)}\n\nWrite the updated summary.`,
+        maxOutputTokens: this.options.maxSummaryTokens,
+        temperature: 0,
+      })
+
+      const summaryText = this.truncateToTokens(text.trim(), this.options.maxSummaryTokens)
+      return {
+        text: summaryText,
+        summarizedThroughId: dropped[dropped.length - 1].id,
+        messageCount: (previous?.messageCount || 0) + dropped.length,
+        tokenCount: this.countTokens(summaryText),
+        updatedAt: new Date(),
+      }
+    } catch (error) {
+      console.warn('Conversation summarization failed, dropping older turns:', error)
+      return null
+    }
+  }
+
+  private truncateToTokens(text: string, maxTokens: number): string {
+    const maxChars = Math.max(0, Math.floor(maxTokens * this.limits.charsPerToken))
+    if (text.length <= maxChars) return text
+    return text.substring(0, maxChars) + '\n... (truncated to fit the context window)'
+  }
+}
@@ -0,0 +1,113 @@
+import fs from 'fs/promises'
+import path from 'path'
+import { writeJsonAtomic } from './server-utils'
+import { EmbeddingCache } from './vector-index'
+
+const CACHE_VERSION = 1
+const MAX_PERSISTED_EMBEDDINGS = 50000
+
+interface PersistedEmbeddings {
+  version: number
+  vectors: Record<string, string> // Cache key -> float32 vector, base64
+}
+
+/**
+ * Embeddings of issues and code chunks, persisted to disk next to the code index so a
+ * restart does not embed every chunk again. Keys name the provider and the content, so a
+ * changed chunk gets a new entry; the least recently used entries are dropped first.
+ */
+export class PersistedEmbeddingCache implements EmbeddingCache {
+  readonly cachePath: string
+  private vectors: Promise<Map<string, number[]>> | null = null
+  private pendingWrite: Promise<void> = Promise.resolve()
+  private writeQueued = false
+
+  constructor(cacheDir?: string) {
+    const directory = cacheDir || process.env.EMBEDDING_CACHE_DIR || path.join(process.cwd(), '.next', 'cache', 'embeddings')
+    this.cachePath = path.join(directory, 'vectors.json')
+  }
+
+  async get(keys: string[]): Promise<Array<number[] | undefined>> {
+    const vectors = await this.getVectors()
+    return keys.map(key => {
+      const vector = vectors.get(key)
+      if (vector) {
+        // Re-inserting keeps the map in order of last use
+        vectors.delete(key)
+        vectors.set(key, vector)
+      }
+      return vector
+    })
+  }
+
+  async set(entries: Array<[string, number[]]>): Promise<void> {
+    const vectors = await this.getVectors()
+    for (const [key, vector] of entries) {
+      vectors.delete(key)
+      if (vectors.size >= MAX_PERSISTED_EMBEDDINGS) {
+        vectors.delete(vectors.keys().next().value!)
+      }
+      vectors.set(key, vector)
+    }
+    // Saved in the background; a lost write only means embedding those chunks again
+    this.save(vectors)
+  }
+
+  // Concurrent searches share one load
+  private getVectors(): Promise<Map<string, number[]>> {
+    this.vectors ||= this.load()
+    return this.vectors
+  }
+
+  private async load(): Promise<Map<string, number[]>> {
+    try {
+      const persisted = JSON.parse(await fs.readFile(this.cachePath, 'utf-8')) as PersistedEmbeddings
+      if (persisted.version === CACHE_VERSION) {
+        return new Map(Object.entries(persisted.vectors).map(([key, encoded]) => [key, decodeVector(encoded)]))
+      }
+    } catch {
+      // Nothing embedded yet
+    }
+    return new Map()
+  }
+
+  // Writes are chained, and searches that finish while one is waiting share the next write
+  private save(vectors: Map<string, number[]>): Promise<void> {
+    if (this.writeQueued) return this.pendingWrite
+
+    this.writeQueued = true
+    this.pendingWrite = this.pendingWrite.then(async () => {
+      this.writeQueued = false
+      try {
+        const persisted: PersistedEmbeddings = {
+          version: CACHE_VERSION,
+          vectors: Object.fromEntries([...vectors].map(([key, vector]) => [key, encodeVector(vector)])),
+        }
+        await writeJsonAtomic(this.cachePath, persisted)
+      } catch (error) {
+        console.error('Error saving embedding cache:', error)
+      }
+    })
+    return this.pendingWrite
+  }
+}
+
+function encodeVector(vector: number[]): string {
+  return Buffer.from(new Float32Array(vector).buffer).toString('base64')
+}
+
+function decodeVector(encoded: string): number[] {
+  const bytes = Buffer.from(encoded, 'base64')
+  // Copied out, as a Float32Array view needs an aligned offset into the buffer
+  return Array.from(new Float32Array(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.length)))
+}
+
+// One cache per server process, shared across requests
+let embeddingCache: PersistedEmbeddingCache | null = null
+
+export function getEmbeddingCache(): PersistedEmbeddingCache {
+  if (!embeddingCache) {
+    embeddingCache = new PersistedEmbeddingCache()
+  }
+  return embeddingCache
+}
@@ -0,0 +1,129 @@
+import { embedMany, EmbeddingModel } from 'ai'
+import { createOpenAI } from '@ai-sdk/openai'
+import { createOpenAICompatible } from '@ai-sdk/openai-compatible'
+import { tokenize } from './bm25'
+import { fnv1a } from './utils'
+
+export type EmbeddingProviderId = 'openai' | 'local' | 'hashing'
+
+export interface EmbeddingProvider {
+  id: string // Includes the model, so cached vectors from different models never mix
+  embed(texts: string[]): Promise<number[][]>
+}
+
+/**
+ * Embeddings from a hosted or local model through the AI SDK
+ */
+export class ModelEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string
+
+  constructor(private model: EmbeddingModel<string>, id: string) {
+    this.id = id
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return []
+
+    try {
+      const { embeddings } = await embedMany({ model: this.model, values: texts, maxParallelCalls: 2 })
+      return embeddings
+    } catch (error) {
+      console.error('Error generating embeddings:', error)
+      throw new Error('Failed to generate embeddings')
+    }
+  }
+}
+
+/**
+ * Deterministic, network-free embeddings built by hashing words, word pairs and
+ * character trigrams into a fixed number of dimensions. Far weaker than a trained
+ * model, but trigrams still relate variants like "auth" and "authentication".
+ */
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string
+
+  constructor(private dimensions: number = 512) {
+    this.id = `hashing:${dimensions}`
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text))
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array(this.dimensions).fill(0)
+    const terms = tokenize(text)
+
+    const addFeature = (feature: string, weight: number) => {
+      const hash = fnv1a(feature)
+      // The hash's top bit picks the sign so collisions tend to cancel out
+      vector[hash % this.dimensions] += hash & 0x80000000 ? -weight : weight
+    }
+
+    terms.forEach((term, index) => {
+      addFeature(`w:${term}`, 1)
+      if (index > 0) {
+        addFeature(`b:${terms[index - 1]} ${term}`, 0.5)
+      }
+      for (let i = 0; i + 3 <= term.length; i++) {
+        addFeature(`c:${term.substring(i, i + 3)}`, 0.3)
+      }
+    })
+
+    return normalize(vector)
+  }
+}
+
+/**
+ * Pick the embedding backend from the environment:
+ * - EMBEDDING_PROVIDER=openai uses OPENAI_API_KEY (model from EMBEDDING_MODEL)
+ * - EMBEDDING_PROVIDER=local uses the OpenAI-compatible endpoint at LLM_BASE_URL
+ * - EMBEDDING_PROVIDER=hashing, or anything unconfigured, uses the offline hashing embedder
+ * Without EMBEDDING_PROVIDER, OpenAI is used when a key is present.
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  const requested = process.env.EMBEDDING_PROVIDER as EmbeddingProviderId | undefined
+  const providerId = requested || (process.env.OPENAI_API_KEY ? 'openai' : 'hashing')
+
+  if (providerId === 'openai' && process.env.OPENAI_API_KEY) {
+    const model = process.env.EMBEDDING_MODEL || 'text-embedding-3-small'
+    return new ModelEmbeddingProvider(
+      createOpenAI({ apiKey: process.env.OPENAI_API_KEY }).textEmbeddingModel(model),
+      `openai:${model}`
+    )
+  }
+
+  if (providerId === 'local' && process.env.LLM_BASE_URL) {
+    const model = process.env.EMBEDDING_MODEL || 'nomic-embed-text'
+    return new ModelEmbeddingProvider(
+      createOpenAICompatible({
+        name: 'local',
+        baseURL: process.env.LLM_BASE_URL,
+        apiKey: process.env.LLM_API_KEY,
+      }).textEmbeddingModel(model),
+      `local:${model}`
+    )
+  }
+
+  if (requested && requested !== 'hashing') {
+    console.warn(`Embedding provider "${requested}" is not configured, using hashing embeddings`)
+  }
+  return new HashingEmbeddingProvider()
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0))
+  return norm ? vector.map(value => value / norm) : vector
+}
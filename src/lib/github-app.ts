@@ -0,0 +1,183 @@
+import crypto from 'crypto'
+import { HttpClient } from './http-client'
+import { getGitHubApiUrl, splitRepositoryName } from './integration-utils'
+import { verifySecret } from './server-utils'
+import { GitHubAuth, Integration } from './types'
+
+const JWT_LIFETIME = 9 * 60 // Seconds; GitHub accepts at most 10 minutes
+const CLOCK_DRIFT = 60 // Seconds the JWT is backdated by
+const TOKEN_REFRESH_MARGIN = 5 * 60 * 1000 // Installation tokens are renewed this long before they expire
+
+export interface InstallationToken {
+  token: string
+  expiresAt: Date
+}
+
+export interface InstallationTokenOptions {
+  metadataOnly?: boolean // Only read repository metadata, e.g. to list the repositories of the installation
+}
+
+// JWT identifying the app itself, signed with its private key
+export function createAppJwt(appId: string, privateKey: string): string {
+  const now = Math.floor(Date.now() / 1000)
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url')
+  const unsigned = `${encode({ alg: 'RS256', typ: 'JWT' })}.${encode({ iat: now - CLOCK_DRIFT, exp: now + JWT_LIFETIME, iss: appId })}`
+  const signature = crypto.createSign('RSA-SHA256').update(unsigned).sign(privateKey, 'base64url')
+  return `${unsigned}.${signature}`
+}
+
+/**
+ * Installation access tokens of a GitHub App. The installation of each repository is
+ * looked up once, and tokens are reused until shortly before they expire. A token for a
+ * repository can access only that repository. Requests with no repository use
+ * GITHUB_APP_INSTALLATION_ID, or the app's first installation.
+ */
+export class GitHubAppAuth {
+  private apiUrl: string
+  private http = new HttpClient({ key: 'github:app' })
+  private installations = new Map<string, Promise<number>>() // By repository, '' for the default
+  private tokens = new Map<string, Promise<InstallationToken>>() // By installation, repository and options
+
+  constructor(private appId: string, private privateKey: string, baseUrl?: string, private defaultInstallationId?: number) {
+    this.apiUrl = getGitHubApiUrl(baseUrl)
+  }
+
+  async getToken(repository?: string, options: InstallationTokenOptions = {}): Promise<InstallationToken> {
+    const installationId = await this.getInstallationId(repository)
+    const key = `${installationId}|${repository || ''}|${options.metadataOnly ? 'metadata' : 'all'}`
+
+    let token = this.tokens.get(key)
+    const cached = token && await token.catch(() => null)
+    if (!token || !cached || cached.expiresAt.getTime() - Date.now() < TOKEN_REFRESH_MARGIN) {
+      token = this.createToken(installationId, repository, options)
+      this.tokens.set(key, token)
+    }
+    return token
+  }
+
+  private getInstallationId(repository?: string): Promise<number> {
+    const key = repository || ''
+    let installationId = this.installations.get(key)
+    if (!installationId) {
+      installationId = this.findInstallation(repository)
+      // Forget failed lookups, so an app installed later is found
+      installationId.catch(() => this.installations.delete(key))
+      this.installations.set(key, installationId)
+    }
+    return installationId
+  }
+
+  private async findInstallation(repository?: string): Promise<number> {
+    if (!repository && this.defaultInstallationId) return this.defaultInstallationId
+
+    try {
+      if (repository) {
+        const installation = await this.appRequest<{ id: number }>(`/repos/${repository}/installation`)
+        return installation.id
+      }
+
+      const [installation] = await this.appRequest<Array<{ id: number }>>('/app/installations?per_page=1')
+      if (!installation) {
+        throw new Error('The GitHub App is not installed anywhere')
+      }
+      return installation.id
+    } catch (error) {
+      console.error(`Error finding GitHub App installation${repository ? ` for ${repository}` : ''}:`, error)
+      throw new Error(`Failed to find GitHub App installation${repository ? ` for ${repository}` : ''}`)
+    }
+  }
+
+  private async createToken(installationId: number, repository: string | undefined, options: InstallationTokenOptions): Promise<InstallationToken> {
+    const scope: { repositories?: string[]; permissions?: Record<string, string> } = {}
+    if (repository) {
+      scope.repositories = [splitRepositoryName(repository).repo]
+    }
+    if (options.metadataOnly) {
+      scope.permissions = { metadata: 'read' }
+    }
+
+    try {
+      const data = await this.appRequest<{ token: string; expires_at: string }>(`/app/installations/${installationId}/access_tokens`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(scope),
+      })
+      return { token: data.token, expiresAt: new Date(data.expires_at) }
+    } catch (error) {
+      console.error('Error creating GitHub App installation token:', error)
+      throw new Error('Failed to create GitHub App installation token')
+    }
+  }
+
+  // Request authenticated as the app rather than an installation
+  private async appRequest<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+    const response = await this.http.fetch(`${this.apiUrl}${endpoint}`, {
+      ...options,
+      headers: {
+        'Authorization': `Bearer ${createAppJwt(this.appId, this.privateKey)}`,
+        'Accept': 'application/vnd.github+json',
+        ...options.headers,
+      },
+    })
+
+    if (!response.ok) {
+      throw new Error(`GitHub API error: ${response.status} ${response.statusText}`)
+    }
+
+    return response.json()
+  }
+}
+
+// The API of the one GitHub host the app is registered on: GITHUB_APP_BASE_URL, or github.com
+export function getGitHubAppApiUrl(): string {
+  return getGitHubApiUrl(process.env.GITHUB_APP_BASE_URL)
+}
+
+// The app configured by GITHUB_APP_ID and GITHUB_APP_PRIVATE_KEY, shared by the server process
+let githubApp: GitHubAppAuth | null = null
+
+/**
+ * The GitHub App, or null when it is not configured or baseUrl names another host than
+ * the app's. Base URLs come from clients, so the app's JWT is never sent anywhere else.
+ */
+export function getGitHubAppAuth(baseUrl?: string): GitHubAppAuth | null {
+  const appId = process.env.GITHUB_APP_ID
+  // Environment files usually hold the PEM key on one line with escaped newlines
+  const privateKey = process.env.GITHUB_APP_PRIVATE_KEY?.replace(/\\n/g, '\n')
+  if (!appId || !privateKey) return null
+  if (getGitHubApiUrl(baseUrl) !== getGitHubAppApiUrl()) return null
+
+  if (!githubApp) {
+    const installationId = Number(process.env.GITHUB_APP_INSTALLATION_ID) || undefined
+    githubApp = new GitHubAppAuth(appId, privateKey, process.env.GITHUB_APP_BASE_URL, installationId)
+  }
+  return githubApp
+}
+
+/**
+ * Credentials for server-side GitHub calls of an integration, or null when it has none.
+ * Integrations come from clients, so a GitHub App integration gets installation tokens
+ * only when it carries GITHUB_APP_TOKEN_SECRET.
+ */
+export function getServerGitHubAuth(integration: Integration): GitHubAuth | null {
+  if (integration.type !== 'github') return null
+  if (integration.config.authType === 'app') {
+    const secret = process.env.GITHUB_APP_TOKEN_SECRET
+    if (!secret) {
+      console.warn('GITHUB_APP_TOKEN_SECRET is not set, refusing to use the GitHub App')
+      return null
+    }
+    if (!verifySecret(integration.config.appTokenSecret || '', secret)) {
+      console.warn(`GitHub integration ${integration.name} does not carry GITHUB_APP_TOKEN_SECRET`)
+      return null
+    }
+
+    const app = getGitHubAppAuth(integration.config.baseUrl)
+    if (!app) {
+      console.warn(`No GitHub App is configured for ${getGitHubApiUrl(integration.config.baseUrl)}`)
+      return null
+    }
+    return async (repository?: string) => (await app.getToken(repository)).token
+  }
+  return integration.config.token || null
+}
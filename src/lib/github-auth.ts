@@ -0,0 +1,63 @@
+import { CodeHostAuth, GitLabService } from './integrations'
+import { GitHubAuth, Integration } from './types'
+
+const TOKEN_REFRESH_MARGIN = 60 * 1000 // Tokens are fetched again this long before they expire
+
+// Installation tokens handed out by the server, by GitHub host and repository
+const tokens = new Map<string, Promise<{ token: string; expiresAt: Date }>>()
+
+/**
+ * Credentials for browser-side GitHub calls of an integration, or null when it has none.
+ * GitHub App integrations get installation tokens from /api/github/app-token, since the
+ * app's private key stays on the server.
+ */
+export function getGitHubAuth(integration: Integration): GitHubAuth | null {
+  if (integration.type !== 'github') return null
+  if (integration.config.authType === 'app') {
+    const { baseUrl, appTokenSecret } = integration.config
+    return async (repository?: string) => (await getInstallationToken(appTokenSecret || '', baseUrl, repository)).token
+  }
+  return integration.config.token || null
+}
+
+// Credentials for browser-side syncs of a GitHub or GitLab integration, or null when it has none
+export function getCodeHostAuth(integration: Integration): CodeHostAuth | null {
+  if (integration.type === 'gitlab') {
+    return integration.config.token ? new GitLabService(integration.config.token, integration.config.baseUrl) : null
+  }
+  return getGitHubAuth(integration)
+}
+
+async function getInstallationToken(secret: string, baseUrl?: string, repository?: string): Promise<{ token: string; expiresAt: Date }> {
+  const key = `${baseUrl || ''}|${repository || ''}`
+  const entry = tokens.get(key)
+  if (entry) {
+    const cached = await entry.catch(() => null)
+    if (cached && cached.expiresAt.getTime() - Date.now() > TOKEN_REFRESH_MARGIN) {
+      return cached
+    }
+    // Another caller already started fetching a new one
+    const current = tokens.get(key)
+    if (current && current !== entry) return current
+  }
+
+  const pending = fetchInstallationToken(secret, baseUrl, repository)
+  tokens.set(key, pending)
+  return pending
+}
+
+export async function fetchInstallationToken(secret: string, baseUrl?: string, repository?: string): Promise<{ token: string; expiresAt: Date }> {
+  const response = await fetch('/api/github/app-token', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${secret}` },
+    body: JSON.stringify({ repository, baseUrl }),
+  })
+  const data = await response.json().catch(() => ({}))
+
+  if (!response.ok) {
+    console.error('Error fetching GitHub App token:', data.error)
+    throw new Error(data.error || 'Failed to fetch GitHub App token')
+  }
+
+  return { token: data.token, expiresAt: new Date(data.expiresAt) }
+}
@@ -0,0 +1,136 @@
+import { CodeHostAuth, CodeHostService, createCodeHostService } from './integrations'
+import { githubDB, GitHubCommitDB } from './github-db'
+import { GitHubRepository, GitHubCommit, GitHubCommitDetails } from './types'
+
+const COMMITS_PER_PAGE = 100 // GitHub API max is 100 per page
+const DETAIL_FETCH_CONCURRENCY = 4
+
+export interface CommitsSyncProgress {
+  repoId: string
+  repoName: string
+  branch: string
+  commitsProcessed: number
+  totalCommits: number
+  status: 'starting' | 'syncing' | 'completed' | 'error'
+  error?: string
+}
+
+export class GitHubCommitsSyncService {
+  private githubService: CodeHostService
+  private progressCallback?: (progress: CommitsSyncProgress) => void
+
+  constructor(auth: CodeHostAuth, progressCallback?: (progress: CommitsSyncProgress) => void, baseUrl?: string) {
+    this.githubService = createCodeHostService(auth, baseUrl)
+    this.progressCallback = progressCallback
+  }
+
+  /**
+   * Sync the recent history of each branch with the paths every commit changed. Only
+   * commits newer than the latest one stored for a branch are listed, and commits
+   * already stored from another branch are not fetched again.
+   */
+  async syncRepositoryCommits(
+    repo: GitHubRepository,
+    options: {
+      branches?: string[] // Defaults to the default branch
+      maxCommits?: number // Per branch
+    } = {}
+  ): Promise<void> {
+    const { maxCommits = 100 } = options
+    const branches = options.branches && options.branches.length > 0 ? options.branches : [repo.default_branch]
+    const repoId = repo.id.toString()
+
+    for (const branch of branches) {
+      const progress: CommitsSyncProgress = {
+        repoId,
+        repoName: repo.name,
+        branch,
+        commitsProcessed: 0,
+        totalCommits: 0,
+        status: 'starting'
+      }
+
+      try {
+        this.updateProgress(progress)
+
+        const [latest] = await githubDB.getCommits(repoId, { branch, limit: 1 })
+        const listed = await this.listCommits(repo.full_name, branch, maxCommits, latest?.date)
+
+        const stored = new Set((await githubDB.getCommitsBySha(repoId, listed.map(commit => commit.sha))).map(commit => commit.sha))
+        const queue = listed.filter(commit => !stored.has(commit.sha))
+        const commits: GitHubCommitDB[] = []
+
+        progress.status = 'syncing'
+        progress.totalCommits = queue.length
+        this.updateProgress(progress)
+
+        for (let i = 0; i < queue.length; i += DETAIL_FETCH_CONCURRENCY) {
+          const batch = await Promise.all(queue.slice(i, i + DETAIL_FETCH_CONCURRENCY).map(commit =>
+            this.githubService.getCommit(repo.full_name, commit.sha)
+          ))
+          commits.push(...batch.map(commit => this.convertToDBCommit(commit, repoId, branch)))
+
+          progress.commitsProcessed = commits.length
+          this.updateProgress(progress)
+        }
+
+        await githubDB.saveCommits(repoId, branch, commits)
+        // Listed commits stored before, possibly from another branch, are on this one too
+        await githubDB.tagCommits(repoId, branch, [...stored])
+
+        progress.status = 'completed'
+        this.updateProgress(progress)
+      } catch (error) {
+        progress.status = 'error'
+        progress.error = error instanceof Error ? error.message : 'Unknown error'
+        this.updateProgress(progress)
+        throw error
+      }
+    }
+  }
+
+  // Newest commits on a branch, stopping at the given date or after maxCommits
+  private async listCommits(fullName: string, branch: string, maxCommits: number, since?: Date): Promise<GitHubCommit[]> {
+    const commits: GitHubCommit[] = []
+
+    for (let page = 1; commits.length < maxCommits; page++) {
+      const pageCommits = await this.githubService.getCommits(fullName, branch, {
+        since,
+        perPage: Math.min(COMMITS_PER_PAGE, maxCommits),
+        page
+      })
+      commits.push(...pageCommits.slice(0, maxCommits - commits.length))
+
+      if (pageCommits.length < Math.min(COMMITS_PER_PAGE, maxCommits)) {
+        break // Last page
+      }
+    }
+
+    return commits
+  }
+
+  private convertToDBCommit(commit: GitHubCommitDetails, repoId: string, branch: string): GitHubCommitDB {
+    const paths = commit.files.flatMap(file => file.previousPath ? [file.path, file.previousPath] : [file.path])
+
+    return {
+      repoId,
+      sha: commit.sha,
+      branches: [branch],
+      message: commit.message,
+      authorName: commit.author.name,
+      authorLogin: commit.author.login,
+      date: new Date(commit.date),
+      htmlUrl: commit.html_url,
+      filesChanged: [...new Set(paths)],
+      additions: commit.additions,
+      deletions: commit.deletions,
+      lastSynced: new Date()
+    }
+  }
+
+  private updateProgress(progress: CommitsSyncProgress): void {
+    if (this.progressCallback) {
+      this.progressCallback({ ...progress })
+    }
+  }
+}
@@ -1,9 +1,11 @@
 import Dexie, { Table } from 'dexie'
+import { GitHubPullRequestFile, SyncedCommitRef, SyncedIssueRef, SyncedPullRequestRef, SyncedReleaseRef, SyncRun } from './types'
 
 // Database schema interfaces
 export interface GitHubFile {
   id?: number
   repoId: string
+  branch: string
   path: string
   name: string
   type: 'file' | 'dir'
@@ -11,6 +13,7 @@ export interface GitHubFile {
   size?: number
   downloadUrl?: string
   content?: string
+  etag?: string // From the contents API, to revalidate cached content with a conditional request
   parentPath: string
   lastSynced: Date
 }
@@ -23,6 +26,33 @@ export interface GitHubRepo {
   lastSynced: Date
   totalFiles: number
   syncStatus: 'pending' | 'syncing' | 'completed' | 'error'
+  host?: 'gitlab' // Unset on GitHub
+}
+
+// A synced branch of a repository; files are stored per branch
+export interface GitHubBranch {
+  repoId: string
+  name: string
+  totalFiles: number
+  lastSynced: Date
+  syncStatus: 'pending' | 'syncing' | 'completed' | 'error'
+  treeSha?: string // Root tree of the last sync; unchanged means nothing to re-sync
+  prefetch?: ContentPrefetchState
+}
+
+// Persisted so an interrupted content prefetch resumes after a reload
+export interface ContentPrefetchState {
+  status: 'running' | 'completed' | 'error'
+  options: ContentPrefetchOptions
+  updatedAt: Date
+}
+
+export interface ContentPrefetchOptions {
+  maxFileSize?: number // Bytes; larger files are left to be fetched when opened
+  extensions?: string[] // e.g. ['.ts', '.md']; defaults to the file types code search reads
+  concurrency?: number
+  maxFiles?: number
+  revalidate?: boolean // Re-check already cached content with conditional requests
 }
 
 export interface GitHubIssueDB {
@@ -54,11 +84,101 @@ export interface GitHubIssueDB {
   lastSynced: Date
 }
 
+export interface GitHubIssueCommentDB {
+  id?: number
+  commentId: number
+  repoId: string
+  issueNumber: number
+  authorLogin: string
+  body: string
+  htmlUrl: string
+  createdAt: Date
+  updatedAt: Date
+  lastSynced: Date
+}
+
+export interface GitHubPullRequestDB {
+  id?: number
+  prId: number
+  repoId: string
+  number: number
+  title: string
+  body: string | null
+  state: 'open' | 'closed' | 'merged'
+  draft: boolean
+  htmlUrl: string
+  authorLogin: string
+  headRef: string
+  baseRef: string
+  createdAt: Date
+  updatedAt: Date
+  mergedAt: Date | null
+  closedAt: Date | null
+  filesChanged: GitHubPullRequestFile[]
+  additions: number
+  deletions: number
+  reviewState: 'approved' | 'changes_requested' | 'commented' | 'none'
+  reviewers: Array<{
+    login: string
+    state: string // Latest review state, e.g. APPROVED
+  }>
+  linkedIssues: number[] // Issues in the same repository the description says it fixes
+  lastSynced: Date
+}
+
+export interface GitHubCommitDB {
+  id?: number
+  repoId: string
+  sha: string
+  branches: string[] // Synced branches the commit was found on
+  message: string
+  authorName: string
+  authorLogin: string | null
+  date: Date
+  htmlUrl: string
+  filesChanged: string[] // Changed paths, including the old path of renamed files
+  additions: number
+  deletions: number
+  lastSynced: Date
+}
+
+export interface GitHubReleaseDB {
+  id?: number
+  repoId: string
+  tagName: string
+  name: string
+  notes: string
+  sha: string // Commit the tag points at
+  isTagOnly: boolean // A tag with no GitHub release
+  prerelease: boolean
+  htmlUrl: string
+  publishedAt: Date // Tag commit date for tags with no release
+  previousTag: string | null // Start of the commit range; null for the oldest synced release
+  commitShas: string[] // Commits since previousTag
+  filesChanged: string[] // Paths changed since previousTag
+  lastSynced: Date
+}
+
+// When a scheduled sync of a repository last ran and is next due
+export interface GitHubSyncScheduleDB {
+  repoId: string
+  kind: SyncRun['kind']
+  lastRunAt: Date | null // Last successful run
+  nextRunAt: Date
+  failures: number // Consecutive failures, for backoff
+}
+
 // Dexie database class
 export class GitHubDatabase extends Dexie {
   repos!: Table<GitHubRepo>
+  branches!: Table<GitHubBranch>
   files!: Table<GitHubFile>
   issues!: Table<GitHubIssueDB>
+  issueComments!: Table<GitHubIssueCommentDB>
+  pullRequests!: Table<GitHubPullRequestDB>
+  commits!: Table<GitHubCommitDB>
+  releases!: Table<GitHubReleaseDB>
+  syncSchedule!: Table<GitHubSyncScheduleDB>
 
   constructor() {
     super('GitHubDatabase')
@@ -68,11 +188,57 @@ export class GitHubDatabase extends Dexie {
       files: '++id, repoId, path, name, type, sha, parentPath, lastSynced, [repoId+path]',
       issues: '++id, issueId, repoId, number, state, createdAt, updatedAt, authorLogin, lastSynced, [repoId+issueId]'
     })
+
+    // Files are keyed by branch; rows synced before belong to the repository's default branch
+    this.version(3).stores({
+      branches: '[repoId+name], repoId, syncStatus',
+      files: '++id, repoId, path, name, type, sha, parentPath, lastSynced, [repoId+branch], [repoId+branch+path]'
+    }).upgrade(async tx => {
+      const repos = await tx.table('repos').toArray()
+      const defaultBranches = new Map<string, string>(repos.map(repo => [repo.id, repo.defaultBranch]))
+
+      await tx.table('files').toCollection().modify(file => {
+        file.branch = defaultBranches.get(file.repoId) ?? 'main'
+      })
+      await tx.table('branches').bulkPut(repos.map(repo => ({
+        repoId: repo.id,
+        name: repo.defaultBranch,
+        totalFiles: repo.totalFiles,
+        lastSynced: repo.lastSynced,
+        syncStatus: repo.syncStatus,
+        treeSha: repo.treeSha,
+        prefetch: repo.prefetch && { status: repo.prefetch.status, options: repo.prefetch.options, updatedAt: repo.prefetch.updatedAt }
+      })))
+      await tx.table('repos').toCollection().modify(repo => {
+        delete repo.treeSha
+        delete repo.prefetch
+      })
+    })
+
+    this.version(4).stores({
+      pullRequests: '++id, prId, repoId, number, state, updatedAt, [repoId+number]'
+    })
+
+    this.version(5).stores({
+      commits: '++id, repoId, sha, date, [repoId+sha], *filesChanged, *branches'
+    })
+
+    this.version(6).stores({
+      releases: '++id, repoId, publishedAt, [repoId+tagName]'
+    })
+
+    this.version(7).stores({
+      issueComments: '++id, commentId, repoId, [repoId+issueNumber]'
+    })
+
+    this.version(8).stores({
+      syncSchedule: '[repoId+kind], repoId, nextRunAt'
+    })
   }
 
-  // Get all files for a repository in tree structure
-  async getFileTree(repoId: string): Promise<FileTreeNode[]> {
-    const files = await this.files.where('repoId').equals(repoId).toArray()
+  // Get all files for a branch in tree structure
+  async getFileTree(repoId: string, branch: string): Promise<FileTreeNode[]> {
+    const files = await this.getFiles(repoId, branch)
     return this.buildFileTree(files)
   }
 
@@ -118,15 +284,50 @@ export class GitHubDatabase extends Dexie {
     await this.repos.put(repo)
   }
 
-  // Save files for a repository
-  async saveFiles(repoId: string, files: GitHubFile[]): Promise<void> {
-    // Clear existing files for this repo
-    await this.files.where('repoId').equals(repoId).delete()
+  // Save files for a branch
+  async saveFiles(repoId: string, branch: string, files: GitHubFile[]): Promise<void> {
+    // Clear existing files for this branch
+    await this.files.where('[repoId+branch]').equals([repoId, branch]).delete()
     
     // Add new files
     await this.files.bulkAdd(files)
   }
 
+  // Apply a tree diff, keeping cached content for files whose blob SHA is unchanged
+  async applyFileChanges(repoId: string, branch: string, changes: {
+    added: GitHubFile[]
+    modified: GitHubFile[]
+    deleted: string[]
+  }): Promise<void> {
+    await this.transaction('rw', this.files, async () => {
+      if (changes.deleted.length > 0) {
+        await this.files.where('[repoId+branch+path]').anyOf(changes.deleted.map(path => [repoId, branch, path])).delete()
+      }
+
+      for (const file of changes.modified) {
+        await this.files.where('[repoId+branch+path]').equals([repoId, branch, file.path]).modify(stored => {
+          stored.type = file.type
+          stored.sha = file.sha
+          stored.size = file.size
+          stored.downloadUrl = file.downloadUrl
+          stored.lastSynced = file.lastSynced
+          // Stale; fetched again by the next prefetch or when the file is opened
+          delete stored.content
+          delete stored.etag
+        })
+      }
+
+      if (changes.added.length > 0) {
+        await this.files.bulkAdd(changes.added)
+      }
+    })
+  }
+
+  // Get all file rows for a branch
+  async getFiles(repoId: string, branch: string): Promise<GitHubFile[]> {
+    return await this.files.where('[repoId+branch]').equals([repoId, branch]).toArray()
+  }
+
   // Get repository sync status
   async getRepoSyncStatus(repoId: string): Promise<GitHubRepo | undefined> {
     return await this.repos.get(repoId)
@@ -146,40 +347,153 @@ export class GitHubDatabase extends Dexie {
     await this.repos.update(repoId, updates)
   }
 
+  // === BRANCH METHODS ===
+
+  // Save branch sync metadata
+  async saveBranch(branch: GitHubBranch): Promise<void> {
+    await this.branches.put(branch)
+  }
+
+  async getBranch(repoId: string, name: string): Promise<GitHubBranch | undefined> {
+    return await this.branches.get([repoId, name])
+  }
+
+  // Get the synced branches of a repository, by name
+  async getBranches(repoId: string): Promise<GitHubBranch[]> {
+    const branches = await this.branches.where('repoId').equals(repoId).toArray()
+    return branches.sort((a, b) => a.name.localeCompare(b.name))
+  }
+
+  // Update branch sync status
+  async updateBranchSyncStatus(repoId: string, name: string, status: GitHubBranch['syncStatus'], totalFiles?: number, treeSha?: string): Promise<void> {
+    const updates: Partial<GitHubBranch> = {
+      syncStatus: status,
+      lastSynced: new Date()
+    }
+
+    if (totalFiles !== undefined) {
+      updates.totalFiles = totalFiles
+    }
+
+    if (treeSha !== undefined) {
+      updates.treeSha = treeSha
+    }
+
+    await this.branches.update([repoId, name], updates)
+  }
+
+  // Record progress of a branch's content prefetch
+  async updatePrefetchState(repoId: string, branch: string, prefetch: ContentPrefetchState): Promise<void> {
+    await this.branches.update([repoId, branch], { prefetch })
+  }
+
+  // Remove a branch and its files
+  async clearBranch(repoId: string, branch: string): Promise<void> {
+    await this.transaction('rw', this.files, this.branches, async () => {
+      await this.files.where('[repoId+branch]').equals([repoId, branch]).delete()
+      await this.branches.delete([repoId, branch])
+    })
+  }
+
   // Get file content by path
-  async getFileContent(repoId: string, filePath: string): Promise<string | undefined> {
-    const file = await this.files.where('[repoId+path]').equals([repoId, filePath]).first()
+  async getFileContent(repoId: string, branch: string, filePath: string): Promise<string | undefined> {
+    const file = await this.getFile(repoId, branch, filePath)
     return file?.content
   }
 
   // Save file content
-  async saveFileContent(repoId: string, filePath: string, content: string): Promise<void> {
-    await this.files.where('[repoId+path]').equals([repoId, filePath]).modify({
-      content: content
+  async saveFileContent(repoId: string, branch: string, filePath: string, content: string, etag?: string): Promise<void> {
+    await this.files.where('[repoId+branch+path]').equals([repoId, branch, filePath]).modify({
+      content: content,
+      etag: etag
     })
   }
 
   // Get file by path (returns full file object)
-  async getFile(repoId: string, filePath: string): Promise<GitHubFile | undefined> {
-    return await this.files.where('[repoId+path]').equals([repoId, filePath]).first()
+  async getFile(repoId: string, branch: string, filePath: string): Promise<GitHubFile | undefined> {
+    return await this.files.where('[repoId+branch+path]').equals([repoId, branch, filePath]).first()
   }
 
   // Clear all data for a repository
   async clearRepo(repoId: string): Promise<void> {
     await this.files.where('repoId').equals(repoId).delete()
+    await this.branches.where('repoId').equals(repoId).delete()
     await this.issues.where('repoId').equals(repoId).delete()
+    await this.issueComments.where('repoId').equals(repoId).delete()
+    await this.pullRequests.where('repoId').equals(repoId).delete()
+    await this.commits.where('repoId').equals(repoId).delete()
+    await this.releases.where('repoId').equals(repoId).delete()
+    await this.syncSchedule.where('repoId').equals(repoId).delete()
     await this.repos.delete(repoId)
   }
 
   // === ISSUES METHODS ===
 
   // Save issues for a repository
+  // Insert or update issues of a repository; issues not in the list are kept
   async saveIssues(repoId: string, issues: GitHubIssueDB[]): Promise<void> {
-    // Clear existing issues for this repo
-    await this.issues.where('repoId').equals(repoId).delete()
-    
-    // Add new issues
-    await this.issues.bulkAdd(issues)
+    await this.transaction('rw', this.issues, async () => {
+      const stored = await this.issues
+        .where('[repoId+issueId]')
+        .anyOf(issues.map(issue => [repoId, issue.issueId]))
+        .toArray()
+      const storedIds = new Map(stored.map(issue => [issue.issueId, issue.id]))
+
+      await this.issues.bulkPut(issues.map(issue => storedIds.has(issue.issueId) ? { ...issue, id: storedIds.get(issue.issueId) } : issue))
+    })
+  }
+
+  // Replace the synced comments of an issue
+  async saveIssueComments(repoId: string, issueNumber: number, comments: GitHubIssueCommentDB[]): Promise<void> {
+    await this.transaction('rw', this.issueComments, async () => {
+      await this.issueComments.where('[repoId+issueNumber]').equals([repoId, issueNumber]).delete()
+      await this.issueComments.bulkAdd(comments)
+    })
+  }
+
+  // Insert or update a single comment, as delivered by a webhook
+  async saveIssueComment(comment: GitHubIssueCommentDB): Promise<void> {
+    await this.transaction('rw', this.issueComments, async () => {
+      const stored = await this.issueComments.where('commentId').equals(comment.commentId).first()
+      await this.issueComments.put(stored ? { ...comment, id: stored.id } : comment)
+    })
+  }
+
+  async deleteIssueComment(repoId: string, commentId: number): Promise<void> {
+    await this.issueComments.where('commentId').equals(commentId).filter(comment => comment.repoId === repoId).delete()
+  }
+
+  // Get the comments of an issue, oldest first
+  async getIssueComments(repoId: string, issueNumber: number): Promise<GitHubIssueCommentDB[]> {
+    const comments = await this.issueComments.where('[repoId+issueNumber]').equals([repoId, issueNumber]).toArray()
+    return comments.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+  }
+
+  // Most recently updated issues across repositories with their comments, in the compact form sent with chat requests
+  async getIssueRefs(limit: number): Promise<SyncedIssueRef[]> {
+    const [issues, repos] = await Promise.all([
+      this.issues.orderBy('updatedAt').reverse().limit(limit).toArray(),
+      this.repos.toArray()
+    ])
+    const reposById = new Map(repos.map(repo => [repo.id, repo]))
+
+    return Promise.all(issues
+      .filter(issue => reposById.has(issue.repoId))
+      .map(async issue => {
+        const repo = reposById.get(issue.repoId)!
+        const comments = await this.issueComments.where('[repoId+issueNumber]').equals([issue.repoId, issue.number]).toArray()
+        return {
+          repository: repo.fullName,
+          host: repo.host,
+          number: issue.number,
+          title: issue.title,
+          body: (issue.body || '').slice(0, 2000),
+          state: issue.state,
+          labels: issue.labels.map(label => label.name),
+          url: issue.htmlUrl,
+          comments: comments.slice(0, 10).map(comment => comment.body.slice(0, 500))
+        }
+      }))
   }
 
   // Get all issues for a repository
@@ -233,6 +547,15 @@ export class GitHubDatabase extends Dexie {
     })
   }
 
+  // Remove an issue and its comments, e.g. after it was deleted or transferred
+  async deleteIssue(repoId: string, issueId: number): Promise<void> {
+    const issue = await this.issues.where('[repoId+issueId]').equals([repoId, issueId]).first()
+    if (!issue) return
+
+    await this.issueComments.where('[repoId+issueNumber]').equals([repoId, issue.number]).delete()
+    await this.issues.delete(issue.id!)
+  }
+
   // Get issues count by state
   async getIssuesCount(repoId: string): Promise<{ open: number, closed: number, total: number }> {
     const allIssues = await this.issues.where('repoId').equals(repoId).toArray()
@@ -270,6 +593,250 @@ export class GitHubDatabase extends Dexie {
       .filter(issue => issue.updatedAt >= cutoffDate)
       .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
   }
+
+  // === PULL REQUEST METHODS ===
+
+  // Replace the synced pull requests of a repository
+  async savePullRequests(repoId: string, pullRequests: GitHubPullRequestDB[]): Promise<void> {
+    await this.transaction('rw', this.pullRequests, async () => {
+      await this.pullRequests.where('repoId').equals(repoId).delete()
+      await this.pullRequests.bulkAdd(pullRequests)
+    })
+  }
+
+  // Get pull requests, newest activity first
+  async getPullRequests(repoId?: string, filters?: {
+    state?: GitHubPullRequestDB['state']
+    limit?: number
+  }): Promise<GitHubPullRequestDB[]> {
+    let pullRequests = repoId
+      ? await this.pullRequests.where('repoId').equals(repoId).toArray()
+      : await this.pullRequests.toArray()
+
+    if (filters?.state) {
+      pullRequests = pullRequests.filter(pr => pr.state === filters.state)
+    }
+
+    pullRequests.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+
+    if (filters?.limit) {
+      pullRequests = pullRequests.slice(0, filters.limit)
+    }
+
+    return pullRequests
+  }
+
+  async getPullRequest(repoId: string, pullNumber: number): Promise<GitHubPullRequestDB | undefined> {
+    return await this.pullRequests.where('[repoId+number]').equals([repoId, pullNumber]).first()
+  }
+
+  async updatePullRequest(repoId: string, pullNumber: number, updates: Partial<GitHubPullRequestDB>): Promise<number> {
+    return await this.pullRequests.where('[repoId+number]').equals([repoId, pullNumber]).modify({
+      ...updates,
+      lastSynced: new Date()
+    })
+  }
+
+  // Pull requests of a repository that changed any of the given paths, newest activity first
+  async getPullRequestsTouchingFiles(repoId: string, paths: string[]): Promise<GitHubPullRequestDB[]> {
+    const wanted = new Set(paths)
+    const pullRequests = await this.getPullRequests(repoId)
+    return pullRequests.filter(pr =>
+      pr.filesChanged.some(file => wanted.has(file.path) || (file.previousPath && wanted.has(file.previousPath)))
+    )
+  }
+
+  // Most recently updated pull requests across repositories, in the compact form sent with chat requests
+  async getPullRequestRefs(limit: number): Promise<SyncedPullRequestRef[]> {
+    const [pullRequests, repos] = await Promise.all([this.getPullRequests(undefined, { limit }), this.repos.toArray()])
+    const repoNames = new Map(repos.map(repo => [repo.id, repo.fullName]))
+
+    return pullRequests
+      .filter(pr => repoNames.has(pr.repoId))
+      .map(pr => ({
+        repository: repoNames.get(pr.repoId) || pr.repoId,
+        number: pr.number,
+        title: pr.title,
+        url: pr.htmlUrl,
+        state: pr.state,
+        updatedAt: pr.updatedAt,
+        mergedAt: pr.mergedAt,
+        files: pr.filesChanged.map(file => file.path),
+        linkedIssues: pr.linkedIssues
+      }))
+  }
+
+  // Get pull request counts by state
+  async getPullRequestsCount(repoId: string): Promise<{ open: number, merged: number, closed: number, total: number }> {
+    const pullRequests = await this.pullRequests.where('repoId').equals(repoId).toArray()
+
+    return {
+      open: pullRequests.filter(pr => pr.state === 'open').length,
+      merged: pullRequests.filter(pr => pr.state === 'merged').length,
+      closed: pullRequests.filter(pr => pr.state === 'closed').length,
+      total: pullRequests.length
+    }
+  }
+
+  // === COMMIT METHODS ===
+
+  // Store commits found on a branch; commits already stored from another branch are tagged with this one instead
+  async saveCommits(repoId: string, branch: string, commits: GitHubCommitDB[]): Promise<void> {
+    await this.transaction('rw', this.commits, async () => {
+      const storedShas = new Set((await this.getCommitsBySha(repoId, commits.map(commit => commit.sha))).map(commit => commit.sha))
+      await this.tagCommits(repoId, branch, [...storedShas])
+      await this.commits.bulkAdd(commits.filter(commit => !storedShas.has(commit.sha)))
+    })
+  }
+
+  // Record that stored commits are also on a branch
+  async tagCommits(repoId: string, branch: string, shas: string[]): Promise<void> {
+    await this.commits
+      .where('[repoId+sha]')
+      .anyOf(shas.map(sha => [repoId, sha]))
+      .modify(commit => {
+        if (!commit.branches.includes(branch)) {
+          commit.branches.push(branch)
+        }
+      })
+  }
+
+  async getCommitsBySha(repoId: string, shas: string[]): Promise<GitHubCommitDB[]> {
+    return await this.commits.where('[repoId+sha]').anyOf(shas.map(sha => [repoId, sha])).toArray()
+  }
+
+  // Get commits, newest first
+  async getCommits(repoId: string, filters?: {
+    branch?: string
+    since?: Date
+    limit?: number
+  }): Promise<GitHubCommitDB[]> {
+    let commits = await this.commits.where('repoId').equals(repoId).toArray()
+
+    if (filters?.branch) {
+      commits = commits.filter(commit => commit.branches.includes(filters.branch!))
+    }
+
+    if (filters?.since) {
+      commits = commits.filter(commit => commit.date >= filters.since!)
+    }
+
+    commits.sort((a, b) => b.date.getTime() - a.date.getTime())
+
+    if (filters?.limit) {
+      commits = commits.slice(0, filters.limit)
+    }
+
+    return commits
+  }
+
+  // Commits on a branch that changed a file, newest first
+  async getFileHistory(repoId: string, branch: string, filePath: string, limit: number = 50): Promise<GitHubCommitDB[]> {
+    const commits = await this.commits
+      .where('filesChanged')
+      .equals(filePath)
+      .filter(commit => commit.repoId === repoId && commit.branches.includes(branch))
+      .toArray()
+
+    return commits
+      .sort((a, b) => b.date.getTime() - a.date.getTime())
+      .slice(0, limit)
+  }
+
+  // Most recent commits across repositories, in the compact form sent with chat requests
+  async getCommitRefs(limit: number, since: Date): Promise<SyncedCommitRef[]> {
+    const [commits, repos] = await Promise.all([
+      this.commits.where('date').aboveOrEqual(since).toArray(),
+      this.repos.toArray()
+    ])
+    const repoNames = new Map(repos.map(repo => [repo.id, repo.fullName]))
+
+    return commits
+      .filter(commit => repoNames.has(commit.repoId))
+      .sort((a, b) => b.date.getTime() - a.date.getTime())
+      .slice(0, limit)
+      .map(commit => ({
+        repository: repoNames.get(commit.repoId) || commit.repoId,
+        sha: commit.sha,
+        message: commit.message.split('\n')[0],
+        author: commit.authorLogin || commit.authorName,
+        date: commit.date,
+        url: commit.htmlUrl,
+        files: commit.filesChanged
+      }))
+  }
+
+  // === RELEASE METHODS ===
+
+  // Replace the synced releases of a repository
+  async saveReleases(repoId: string, releases: GitHubReleaseDB[]): Promise<void> {
+    await this.transaction('rw', this.releases, async () => {
+      await this.releases.where('repoId').equals(repoId).delete()
+      await this.releases.bulkAdd(releases)
+    })
+  }
+
+  // Get releases, newest first
+  async getReleases(repoId: string): Promise<GitHubReleaseDB[]> {
+    const releases = await this.releases.where('repoId').equals(repoId).toArray()
+    return releases.sort((a, b) => b.publishedAt.getTime() - a.publishedAt.getTime())
+  }
+
+  async updateRelease(repoId: string, tagName: string, updates: Partial<GitHubReleaseDB>): Promise<number> {
+    return await this.releases.where('[repoId+tagName]').equals([repoId, tagName]).modify({
+      ...updates,
+      lastSynced: new Date()
+    })
+  }
+
+  async deleteRelease(repoId: string, tagName: string): Promise<void> {
+    await this.releases.where('[repoId+tagName]').equals([repoId, tagName]).delete()
+  }
+
+  // Most recent releases across repositories, in the compact form sent with chat requests
+  async getReleaseRefs(limit: number): Promise<SyncedReleaseRef[]> {
+    const [releases, repos] = await Promise.all([
+      this.releases.orderBy('publishedAt').reverse().limit(limit).toArray(),
+      this.repos.toArray()
+    ])
+    const repoNames = new Map(repos.map(repo => [repo.id, repo.fullName]))
+
+    return releases
+      .filter(release => repoNames.has(release.repoId))
+      .map(release => ({
+        repository: repoNames.get(release.repoId) || release.repoId,
+        tag: release.tagName,
+        name: release.name,
+        url: release.htmlUrl,
+        publishedAt: release.publishedAt,
+        prerelease: release.prerelease,
+        notes: release.notes.slice(0, 500),
+        commits: release.commitShas,
+        files: release.filesChanged
+      }))
+  }
+
+  // === SYNC SCHEDULE METHODS ===
+
+  async getSyncSchedule(repoId: string, kind: SyncRun['kind']): Promise<GitHubSyncScheduleDB | undefined> {
+    return await this.syncSchedule.get([repoId, kind])
+  }
+
+  async saveSyncSchedule(schedule: GitHubSyncScheduleDB): Promise<void> {
+    await this.syncSchedule.put(schedule)
+  }
+
+  // Make a scheduled sync due on the scheduler's next tick
+  async requestSync(repoId: string, kind: SyncRun['kind']): Promise<void> {
+    const schedule = await this.getSyncSchedule(repoId, kind)
+    await this.saveSyncSchedule({
+      repoId,
+      kind,
+      lastRunAt: schedule?.lastRunAt ?? null,
+      nextRunAt: new Date(),
+      failures: schedule?.failures ?? 0
+    })
+  }
 }
 
 // File tree node interface for UI
@@ -1,6 +1,9 @@
-import { GitHubService } from './integrations'
-import { githubDB, GitHubIssueDB } from './github-db'
-import { GitHubRepository, GitHubIssue } from './types'
+import { CodeHostAuth, CodeHostService, createCodeHostService } from './integrations'
+import { splitRepositoryName } from './integration-utils'
+import { githubDB, GitHubIssueDB, GitHubIssueCommentDB, GitHubRepo } from './github-db'
+import { GitHubRepository, GitHubIssue, Ticket } from './types'
+
+const COMMENT_FETCH_CONCURRENCY = 4
 
 export interface IssuesSyncProgress {
   repoId: string
@@ -9,20 +12,26 @@ export interface IssuesSyncProgress {
   totalPages: number
   issuesProcessed: number
   totalIssues: number
-  currentState: 'open' | 'closed'
+  currentState: 'open' | 'closed' | 'updated' | 'comments' // What is being fetched
   status: 'starting' | 'syncing' | 'completed' | 'error'
   error?: string
 }
 
 export class GitHubIssuesSyncService {
-  private githubService: GitHubService
+  private githubService: CodeHostService
   private progressCallback?: (progress: IssuesSyncProgress) => void
 
-  constructor(token: string, progressCallback?: (progress: IssuesSyncProgress) => void) {
-    this.githubService = new GitHubService(token)
+  constructor(auth: CodeHostAuth, progressCallback?: (progress: IssuesSyncProgress) => void, baseUrl?: string) {
+    this.githubService = createCodeHostService(auth, baseUrl)
     this.progressCallback = progressCallback
   }
 
+  /**
+   * Sync the issues of a repository with their comments. The first sync fetches the most
+   * recent open (and optionally closed) issues; later syncs fetch only issues updated since
+   * the latest stored update, in any state, and keep the rest. Comments are fetched again
+   * only for issues whose update time changed.
+   */
   async syncRepositoryIssues(
     repo: GitHubRepository, 
     options: {
@@ -48,49 +57,73 @@ export class GitHubIssuesSyncService {
     try {
       this.updateProgress(progress)
       
-      const [owner, repoName] = repo.full_name.split('/')
-      const allIssues: GitHubIssueDB[] = []
+      const { owner, repo: repoName } = splitRepositoryName(repo.full_name)
+      const storedIssues = await githubDB.getIssues(repoId)
+      const stored = new Map(storedIssues.map(issue => [issue.issueId, issue]))
+      const fetched: GitHubIssue[] = []
 
-      // Sync open issues
-      if (syncOpen) {
-        progress.currentState = 'open'
+      if (storedIssues.length > 0) {
+        // getIssues lists the most recently updated first
+        const since = storedIssues[0].updatedAt
+        progress.currentState = 'updated'
         progress.status = 'syncing'
         this.updateProgress(progress)
-        
-        const openIssues = await this.fetchIssuesWithPagination(
-          owner, 
-          repoName, 
-          'open', 
-          maxIssues / (syncClosed ? 2 : 1),
-          progress
-        )
-        
-        allIssues.push(...openIssues.map(issue => this.convertToDBIssue(issue, repoId)))
+
+        fetched.push(...await this.fetchIssuesWithPagination(owner, repoName, { state: 'all', since }, maxIssues, progress))
+      } else {
+        // Sync open issues
+        if (syncOpen) {
+          progress.currentState = 'open'
+          progress.status = 'syncing'
+          this.updateProgress(progress)
+
+          fetched.push(...await this.fetchIssuesWithPagination(
+            owner,
+            repoName,
+            { state: 'open' },
+            maxIssues / (syncClosed ? 2 : 1),
+            progress
+          ))
+        }
+
+        // Sync closed issues
+        if (syncClosed) {
+          progress.currentState = 'closed'
+          progress.status = 'syncing'
+          this.updateProgress(progress)
+
+          fetched.push(...await this.fetchIssuesWithPagination(
+            owner,
+            repoName,
+            { state: 'closed' },
+            maxIssues / 2,
+            progress
+          ))
+        }
       }
 
-      // Sync closed issues
-      if (syncClosed) {
-        progress.currentState = 'closed'
-        progress.status = 'syncing'
+      const issues = fetched.map(issue => toDBIssue(issue, repoId))
+      await githubDB.saveIssues(repoId, issues)
+
+      // Comments of new issues and of issues updated since the last sync
+      const changed = issues.filter(issue => stored.get(issue.issueId)?.updatedAt.getTime() !== issue.updatedAt.getTime())
+      progress.currentState = 'comments'
+      progress.issuesProcessed = 0
+      progress.totalIssues = changed.length
+      this.updateProgress(progress)
+
+      for (let i = 0; i < changed.length; i += COMMENT_FETCH_CONCURRENCY) {
+        await Promise.all(changed.slice(i, i + COMMENT_FETCH_CONCURRENCY).map(issue =>
+          this.syncIssueComments(owner, repoName, repoId, issue)
+        ))
+
+        progress.issuesProcessed = Math.min(i + COMMENT_FETCH_CONCURRENCY, changed.length)
         this.updateProgress(progress)
-        
-        const closedIssues = await this.fetchIssuesWithPagination(
-          owner, 
-          repoName, 
-          'closed', 
-          maxIssues / 2,
-          progress
-        )
-        
-        allIssues.push(...closedIssues.map(issue => this.convertToDBIssue(issue, repoId)))
       }
-
-      // Save to database
-      await githubDB.saveIssues(repoId, allIssues)
       
       progress.status = 'completed'
-      progress.totalIssues = allIssues.length
-      progress.issuesProcessed = allIssues.length
+      progress.totalIssues = issues.length
+      progress.issuesProcessed = issues.length
       this.updateProgress(progress)
 
     } catch (error) {
@@ -101,69 +134,53 @@ export class GitHubIssuesSyncService {
     }
   }
 
+  // Follow the Link header until maxIssues are fetched or no pages are left
   private async fetchIssuesWithPagination(
     owner: string,
     repo: string,
-    state: 'open' | 'closed',
+    filters: { state: 'open' | 'closed' | 'all'; since?: Date },
     maxIssues: number,
     progress: IssuesSyncProgress
   ): Promise<GitHubIssue[]> {
     const issues: GitHubIssue[] = []
-    let page = 1
-    const perPage = Math.min(100, maxIssues) // GitHub API max is 100 per page
+    let page: number | null = 1
     
-    while (issues.length < maxIssues) {
-      try {
-        const pageIssues = await this.githubService.getIssues(owner, repo, state)
-        
-        if (pageIssues.length === 0) {
-          break // No more issues
-        }
-        
-        issues.push(...pageIssues.slice(0, maxIssues - issues.length))
-        
-        progress.currentPage = page
-        progress.issuesProcessed = issues.length
-        this.updateProgress(progress)
-        
-        if (pageIssues.length < perPage) {
-          break // Last page
-        }
-        
-        page++
-      } catch (error) {
-        console.error(`Error fetching ${state} issues page ${page}:`, error)
-        break
-      }
+    while (page !== null && issues.length < maxIssues) {
+      const result = await this.githubService.getIssuesPage(owner, repo, {
+        ...filters,
+        page,
+        perPage: 100 // GitHub API max is 100 per page
+      })
+
+      issues.push(...result.issues.slice(0, maxIssues - issues.length))
+
+      progress.currentPage = page
+      progress.totalPages = result.nextPage ?? page
+      progress.issuesProcessed = issues.length
+      this.updateProgress(progress)
+
+      page = result.nextPage
     }
     
     return issues
   }
 
-  private convertToDBIssue(issue: GitHubIssue, repoId: string): GitHubIssueDB {
-    return {
-      issueId: issue.id,
+  private async syncIssueComments(owner: string, repo: string, repoId: string, issue: GitHubIssueDB): Promise<void> {
+    const comments = issue.comments > 0
+      ? await this.githubService.getIssueComments(owner, repo, issue.number)
+      : []
+
+    await githubDB.saveIssueComments(repoId, issue.number, comments.map((comment): GitHubIssueCommentDB => ({
+      commentId: comment.id,
       repoId,
-      number: issue.number,
-      title: issue.title,
-      body: issue.body,
-      state: issue.state,
-      htmlUrl: issue.html_url,
-      createdAt: new Date(issue.created_at),
-      updatedAt: new Date(issue.updated_at),
-      closedAt: null, // Would need to fetch from GitHub API if needed
-      authorLogin: '', // Would need to fetch from GitHub API
-      authorAvatarUrl: '', // Would need to fetch from GitHub API
-      assignees: [], // Would need to fetch from GitHub API
-      labels: issue.labels.map(label => ({
-        name: label.name,
-        color: label.color,
-        description: null
-      })),
-      milestone: null, // Would need to fetch from GitHub API
-      comments: 0, // Would need to fetch from GitHub API
+      issueNumber: issue.number,
+      authorLogin: comment.author,
+      body: comment.body,
+      htmlUrl: comment.html_url,
+      createdAt: new Date(comment.created_at),
+      updatedAt: new Date(comment.updated_at),
       lastSynced: new Date()
-    }
+    })))
   }
 
   private updateProgress(progress: IssuesSyncProgress): void {
@@ -209,3 +226,59 @@ export class GitHubIssuesSyncService {
     }
   }
 }
+
+// Stored form of an issue, as fetched or delivered by a webhook
+export function toDBIssue(issue: GitHubIssue, repoId: string): GitHubIssueDB {
+  return {
+    issueId: issue.id,
+    repoId,
+    number: issue.number,
+    title: issue.title,
+    body: issue.body,
+    state: issue.state,
+    htmlUrl: issue.html_url,
+    createdAt: new Date(issue.created_at),
+    updatedAt: new Date(issue.updated_at),
+    closedAt: issue.closed_at ? new Date(issue.closed_at) : null,
+    authorLogin: issue.author?.login || '',
+    authorAvatarUrl: issue.author?.avatar_url || '',
+    assignees: issue.assignees || [],
+    labels: issue.labels.map(label => ({
+      name: label.name,
+      color: label.color,
+      description: label.description ?? null
+    })),
+    milestone: issue.milestone
+      ? {
+          title: issue.milestone.title,
+          description: issue.milestone.description,
+          dueOn: issue.milestone.due_on ? new Date(issue.milestone.due_on) : null
+        }
+      : null,
+    comments: issue.comments ?? 0,
+    lastSynced: new Date()
+  }
+}
+
+// A synced issue as a ticket, to be searched and shown like those of other trackers
+export function toTicket(issue: GitHubIssueDB, repo: Pick<GitHubRepo, 'fullName' | 'host'>, comments?: string[]): Ticket {
+  const repository = repo.fullName
+  return {
+    source: repo.host ?? 'github',
+    reference: `${repository}#${issue.number}`,
+    title: issue.title,
+    body: issue.body || '',
+    state: issue.state,
+    status: issue.state,
+    labels: issue.labels.map(label => ({ name: label.name, color: label.color || undefined })),
+    author: issue.authorLogin || undefined,
+    assignees: issue.assignees,
+    milestone: issue.milestone?.title,
+    project: repository,
+    url: issue.htmlUrl,
+    createdAt: new Date(issue.createdAt).toISOString(),
+    updatedAt: new Date(issue.updatedAt).toISOString(),
+    commentCount: issue.comments,
+    comments
+  }
+}
@@ -0,0 +1,190 @@
+import { CodeHostAuth, CodeHostService, createCodeHostService } from './integrations'
+import { splitRepositoryName } from './integration-utils'
+import { githubDB, GitHubPullRequestDB } from './github-db'
+import { GitHubRepository, GitHubPullRequest, GitHubPullRequestReview } from './types'
+
+const DETAIL_FETCH_CONCURRENCY = 4
+
+// "Fixes #12", "closes #3", "resolved: #40"; references to other repositories are ignored
+const CLOSING_REFERENCE = /\b(?:close[sd]?|fix(?:e[sd])?|resolve[sd]?)\b:?\s+#(\d+)/gi
+
+export interface PullRequestsSyncProgress {
+  repoId: string
+  repoName: string
+  pullRequestsProcessed: number
+  totalPullRequests: number
+  status: 'starting' | 'syncing' | 'completed' | 'error'
+  error?: string
+}
+
+export class GitHubPullRequestsSyncService {
+  private githubService: CodeHostService
+  private progressCallback?: (progress: PullRequestsSyncProgress) => void
+
+  constructor(auth: CodeHostAuth, progressCallback?: (progress: PullRequestsSyncProgress) => void, baseUrl?: string) {
+    this.githubService = createCodeHostService(auth, baseUrl)
+    this.progressCallback = progressCallback
+  }
+
+  /**
+   * Sync the most recently updated pull requests of a repository with their changed
+   * files and reviews. Pull requests not updated since the last sync keep their stored
+   * files and reviews instead of being fetched again.
+   */
+  async syncRepositoryPullRequests(
+    repo: GitHubRepository,
+    options: {
+      state?: 'open' | 'closed' | 'all'
+      maxPullRequests?: number
+    } = {}
+  ): Promise<void> {
+    const { state = 'all', maxPullRequests = 50 } = options
+    const repoId = repo.id.toString()
+
+    const progress: PullRequestsSyncProgress = {
+      repoId,
+      repoName: repo.name,
+      pullRequestsProcessed: 0,
+      totalPullRequests: 0,
+      status: 'starting'
+    }
+
+    try {
+      this.updateProgress(progress)
+
+      const { owner, repo: repoName } = splitRepositoryName(repo.full_name)
+      const pullRequests = await this.githubService.getPullRequests(owner, repoName, state, {
+        perPage: Math.min(100, maxPullRequests), // GitHub API max is 100 per page
+        sort: 'updated'
+      })
+
+      const stored = new Map((await githubDB.getPullRequests(repoId)).map(pr => [pr.prId, pr]))
+      const queue = pullRequests.slice(0, maxPullRequests)
+      const results: GitHubPullRequestDB[] = []
+
+      progress.status = 'syncing'
+      progress.totalPullRequests = queue.length
+      this.updateProgress(progress)
+
+      for (let i = 0; i < queue.length; i += DETAIL_FETCH_CONCURRENCY) {
+        const batch = await Promise.all(queue.slice(i, i + DETAIL_FETCH_CONCURRENCY).map(pr =>
+          this.convertToDBPullRequest(pr, repoId, owner, repoName, stored.get(pr.id))
+        ))
+        results.push(...batch)
+
+        progress.pullRequestsProcessed = results.length
+        this.updateProgress(progress)
+      }
+
+      await githubDB.savePullRequests(repoId, results)
+
+      progress.status = 'completed'
+      this.updateProgress(progress)
+    } catch (error) {
+      progress.status = 'error'
+      progress.error = error instanceof Error ? error.message : 'Unknown error'
+      this.updateProgress(progress)
+      throw error
+    }
+  }
+
+  private async convertToDBPullRequest(
+    pr: GitHubPullRequest,
+    repoId: string,
+    owner: string,
+    repoName: string,
+    stored?: GitHubPullRequestDB
+  ): Promise<GitHubPullRequestDB> {
+    const updatedAt = new Date(pr.updated_at)
+    let filesChanged = stored?.filesChanged ?? []
+    let review = stored
+      ? { reviewState: stored.reviewState, reviewers: stored.reviewers }
+      : summarizeReviews([])
+
+    if (!stored || stored.updatedAt.getTime() !== updatedAt.getTime()) {
+      const [files, reviews] = await Promise.all([
+        this.githubService.getPullRequestFiles(owner, repoName, pr.number),
+        this.githubService.getPullRequestReviews(owner, repoName, pr.number)
+      ])
+      filesChanged = files
+      review = summarizeReviews(reviews)
+    }
+
+    return {
+      prId: pr.id,
+      repoId,
+      number: pr.number,
+      title: pr.title,
+      body: pr.body,
+      state: pr.state,
+      draft: pr.draft ?? false,
+      htmlUrl: pr.html_url,
+      authorLogin: pr.author || '',
+      headRef: pr.head.ref,
+      baseRef: pr.base.ref,
+      createdAt: new Date(pr.created_at),
+      updatedAt,
+      mergedAt: pr.merged_at ? new Date(pr.merged_at) : null,
+      closedAt: pr.closed_at ? new Date(pr.closed_at) : null,
+      filesChanged,
+      additions: filesChanged.reduce((sum, file) => sum + file.additions, 0),
+      deletions: filesChanged.reduce((sum, file) => sum + file.deletions, 0),
+      ...review,
+      linkedIssues: parseLinkedIssues(`${pr.title}\n${pr.body || ''}`),
+      lastSynced: new Date()
+    }
+  }
+
+  private updateProgress(progress: PullRequestsSyncProgress): void {
+    if (this.progressCallback) {
+      this.progressCallback({ ...progress })
+    }
+  }
+
+  // Get sync statistics
+  async getSyncStats(repoId: string): Promise<{
+    totalPullRequests: number
+    openPullRequests: number
+    mergedPullRequests: number
+    lastSynced: Date | null
+  }> {
+    const counts = await githubDB.getPullRequestsCount(repoId)
+    const pullRequests = await githubDB.getPullRequests(repoId, { limit: 1 })
+
+    return {
+      totalPullRequests: counts.total,
+      openPullRequests: counts.open,
+      mergedPullRequests: counts.merged,
+      lastSynced: pullRequests.length > 0 ? pullRequests[0].lastSynced : null
+    }
+  }
+}
+
+// Issue numbers a pull request description says it closes
+export function parseLinkedIssues(text: string): number[] {
+  const numbers = [...text.matchAll(CLOSING_REFERENCE)].map(match => Number(match[1]))
+  return [...new Set(numbers)]
+}
+
+// Overall review state from each reviewer's latest approving or blocking review
+function summarizeReviews(reviews: GitHubPullRequestReview[]): Pick<GitHubPullRequestDB, 'reviewState' | 'reviewers'> {
+  const latest = new Map<string, string>()
+  for (const review of reviews) {
+    // A comment after an approval does not withdraw it
+    if (review.state === 'COMMENTED' && latest.has(review.reviewer)) continue
+    if (review.state === 'PENDING') continue
+    latest.set(review.reviewer, review.state)
+  }
+
+  const states = [...latest.values()]
+  const reviewState = states.includes('CHANGES_REQUESTED')
+    ? 'changes_requested'
+    : states.includes('APPROVED')
+      ? 'approved'
+      : states.length > 0 ? 'commented' : 'none'
+
+  return {
+    reviewState,
+    reviewers: [...latest.entries()].map(([login, state]) => ({ login, state }))
+  }
+}
@@ -0,0 +1,182 @@
+import { CodeHostAuth, CodeHostService, createCodeHostService } from './integrations'
+import { githubDB, GitHubReleaseDB } from './github-db'
+import { GitHubRepository, GitHubRelease, GitHubTag } from './types'
+
+const DETAIL_FETCH_CONCURRENCY = 4
+
+export interface ReleasesSyncProgress {
+  repoId: string
+  repoName: string
+  releasesProcessed: number
+  totalReleases: number
+  status: 'starting' | 'syncing' | 'completed' | 'error'
+  error?: string
+}
+
+// A release or bare tag before its commit range is known
+type ReleaseEntry = Omit<GitHubReleaseDB, 'previousTag' | 'commitShas' | 'filesChanged' | 'lastSynced'>
+
+export class GitHubReleasesSyncService {
+  private githubService: CodeHostService
+  private progressCallback?: (progress: ReleasesSyncProgress) => void
+
+  constructor(auth: CodeHostAuth, progressCallback?: (progress: ReleasesSyncProgress) => void, baseUrl?: string) {
+    this.githubService = createCodeHostService(auth, baseUrl)
+    this.progressCallback = progressCallback
+  }
+
+  /**
+   * Sync the most recent releases of a repository, and tags with no release, with the
+   * commits and changed paths since the release before each. Ranges whose endpoints have
+   * not moved since the last sync are not compared again.
+   */
+  async syncRepositoryReleases(
+    repo: GitHubRepository,
+    options: {
+      maxReleases?: number
+    } = {}
+  ): Promise<void> {
+    const { maxReleases = 20 } = options
+    const repoId = repo.id.toString()
+
+    const progress: ReleasesSyncProgress = {
+      repoId,
+      repoName: repo.name,
+      releasesProcessed: 0,
+      totalReleases: 0,
+      status: 'starting'
+    }
+
+    try {
+      this.updateProgress(progress)
+
+      const [releases, tags, stored] = await Promise.all([
+        this.githubService.getReleases(repo.full_name, { perPage: Math.min(100, maxReleases) }), // GitHub API max is 100 per page
+        this.githubService.getTags(repo.full_name),
+        githubDB.getReleases(repoId)
+      ])
+      const storedByTag = new Map(stored.map(release => [release.tagName, release]))
+
+      // Oldest first, so each release's range starts at the one before it
+      const entries = (await this.collectEntries(repo, releases, tags, storedByTag, maxReleases))
+        .sort((a, b) => a.publishedAt.getTime() - b.publishedAt.getTime())
+      const results: GitHubReleaseDB[] = []
+
+      progress.status = 'syncing'
+      progress.totalReleases = entries.length
+      this.updateProgress(progress)
+
+      for (let i = 0; i < entries.length; i += DETAIL_FETCH_CONCURRENCY) {
+        const batch = await Promise.all(entries.slice(i, i + DETAIL_FETCH_CONCURRENCY).map((entry, offset) =>
+          this.withCommitRange(repo.full_name, entry, entries[i + offset - 1], storedByTag.get(entry.tagName))
+        ))
+        results.push(...batch)
+
+        progress.releasesProcessed = results.length
+        this.updateProgress(progress)
+      }
+
+      await githubDB.saveReleases(repoId, results)
+
+      progress.status = 'completed'
+      this.updateProgress(progress)
+    } catch (error) {
+      progress.status = 'error'
+      progress.error = error instanceof Error ? error.message : 'Unknown error'
+      this.updateProgress(progress)
+      throw error
+    }
+  }
+
+  // Published releases plus tags with no release, the most recent maxReleases of them
+  private async collectEntries(
+    repo: GitHubRepository,
+    releases: GitHubRelease[],
+    tags: GitHubTag[],
+    storedByTag: Map<string, GitHubReleaseDB>,
+    maxReleases: number
+  ): Promise<ReleaseEntry[]> {
+    const tagShas = new Map(tags.map(tag => [tag.name, tag.sha]))
+    const repoId = repo.id.toString()
+
+    const entries: ReleaseEntry[] = releases
+      .filter(release => !release.draft)
+      .map(release => ({
+        repoId,
+        tagName: release.tag_name,
+        name: release.name || release.tag_name,
+        notes: release.body || '',
+        sha: tagShas.get(release.tag_name) || '',
+        isTagOnly: false,
+        prerelease: release.prerelease,
+        htmlUrl: release.html_url,
+        publishedAt: new Date(release.published_at || release.created_at)
+      }))
+
+    // Tags are listed newest first; a bare tag is dated by the commit it points at
+    const released = new Set(releases.map(release => release.tag_name))
+    const bareTags = tags.filter(tag => !released.has(tag.name)).slice(0, maxReleases)
+    for (let i = 0; i < bareTags.length; i += DETAIL_FETCH_CONCURRENCY) {
+      entries.push(...await Promise.all(bareTags.slice(i, i + DETAIL_FETCH_CONCURRENCY).map(async tag => {
+        const stored = storedByTag.get(tag.name)
+        const publishedAt = stored?.sha === tag.sha
+          ? stored.publishedAt
+          : new Date((await this.githubService.getCommit(repo.full_name, tag.sha)).date)
+
+        return {
+          repoId,
+          tagName: tag.name,
+          name: tag.name,
+          notes: '',
+          sha: tag.sha,
+          isTagOnly: true,
+          prerelease: false,
+          htmlUrl: `${repo.html_url}/releases/tag/${encodeURIComponent(tag.name)}`,
+          publishedAt
+        }
+      })))
+    }
+
+    return entries
+      .sort((a, b) => b.publishedAt.getTime() - a.publishedAt.getTime())
+      .slice(0, maxReleases)
+  }
+
+  private async withCommitRange(
+    fullName: string,
+    entry: ReleaseEntry,
+    previous: ReleaseEntry | undefined,
+    stored?: GitHubReleaseDB
+  ): Promise<GitHubReleaseDB> {
+    const previousTag = previous?.tagName ?? null
+    let commitShas = stored?.commitShas ?? []
+    let filesChanged = stored?.filesChanged ?? []
+
+    const unchanged = stored && stored.sha === entry.sha && stored.previousTag === previousTag
+    if (!unchanged) {
+      if (previous) {
+        const comparison = await this.githubService.compareCommits(fullName, previous.tagName, entry.tagName)
+        const paths = comparison.files.flatMap(file => file.previousPath ? [file.path, file.previousPath] : [file.path])
+        commitShas = comparison.commits.map(commit => commit.sha)
+        filesChanged = [...new Set(paths)]
+      } else {
+        commitShas = []
+        filesChanged = []
+      }
+    }
+
+    return {
+      ...entry,
+      previousTag,
+      commitShas,
+      filesChanged,
+      lastSynced: new Date()
+    }
+  }
+
+  private updateProgress(progress: ReleasesSyncProgress): void {
+    if (this.progressCallback) {
+      this.progressCallback({ ...progress })
+    }
+  }
+}
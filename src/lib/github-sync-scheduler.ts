@@ -0,0 +1,194 @@
+import { CodeHostAuth, CodeHostService, createCodeHostService } from './integrations'
+import { splitRepositoryName } from './integration-utils'
+import { githubDB, GitHubSyncScheduleDB } from './github-db'
+import { GitHubSyncService } from './github-sync'
+import { GitHubIssuesSyncService } from './github-issues-sync'
+import { GitHubPullRequestsSyncService } from './github-pull-requests-sync'
+import { GitHubCommitsSyncService } from './github-commits-sync'
+import { GitHubReleasesSyncService } from './github-releases-sync'
+import { generateId } from './utils'
+import { GitHubRepository, GitHubSyncConfig, RepoSyncConfig, SyncRun } from './types'
+
+const MINUTE = 60 * 1000
+
+// "realtime" polls every minute until webhooks deliver changes
+const SYNC_INTERVALS: Record<RepoSyncConfig['syncInterval'], number> = {
+  realtime: MINUTE,
+  '5min': 5 * MINUTE,
+  '15min': 15 * MINUTE,
+  '1hour': 60 * MINUTE,
+  '6hour': 6 * 60 * MINUTE,
+  '24hour': 24 * 60 * MINUTE
+}
+
+const TICK_INTERVAL = MINUTE
+const MAX_BACKOFF = 6 * 60 * MINUTE
+const RATE_LIMIT_RESERVE = 100 // Requests left for interactive use before scheduled syncs pause
+
+/**
+ * Runs the tree, issue, pull request, commit and release syncs of the selected repositories
+ * on their configured intervals while the app is open. When each sync is next due lives in
+ * IndexedDB, so reloading the page neither repeats nor skips runs. Failed syncs back off
+ * exponentially, and syncs pause until the quota resets when the rate limit runs low.
+ */
+export class GitHubSyncScheduler {
+  private auth: CodeHostAuth
+  private baseUrl?: string
+  private config: GitHubSyncConfig
+  private githubService: CodeHostService
+  private onRun?: (run: SyncRun) => void
+  private timer?: ReturnType<typeof setInterval>
+  private running = false
+
+  constructor(auth: CodeHostAuth, config: GitHubSyncConfig, onRun?: (run: SyncRun) => void, baseUrl?: string) {
+    this.auth = auth
+    this.baseUrl = baseUrl
+    this.config = config
+    this.githubService = createCodeHostService(auth, baseUrl)
+    this.onRun = onRun
+  }
+
+  start(): void {
+    if (this.timer) return
+
+    this.timer = setInterval(() => this.tick(), TICK_INTERVAL)
+    this.tick()
+  }
+
+  stop(): void {
+    clearInterval(this.timer)
+    this.timer = undefined
+  }
+
+  // Run the syncs that are due, one at a time
+  private async tick(): Promise<void> {
+    if (this.running || !this.config.globalSettings.autoSync) return
+    this.running = true
+
+    try {
+      for (const repoId of this.config.selectedRepos) {
+        const repoConfig = this.config.repoConfigs[repoId]
+        if (!repoConfig?.enabled) continue
+
+        for (const kind of getScheduledKinds(repoConfig)) {
+          if (!this.timer) return // Stopped
+
+          const schedule = await githubDB.getSyncSchedule(repoId, kind)
+          if (schedule && schedule.nextRunAt > new Date()) continue
+
+          await this.run(repoConfig, kind, schedule)
+        }
+      }
+    } catch (error) {
+      console.error('Scheduled sync failed:', error)
+    } finally {
+      this.running = false
+    }
+  }
+
+  private async run(repoConfig: RepoSyncConfig, kind: SyncRun['kind'], schedule?: GitHubSyncScheduleDB): Promise<void> {
+    const { repoId } = repoConfig
+    const interval = SYNC_INTERVALS[repoConfig.syncInterval] ?? SYNC_INTERVALS['15min']
+    const startedAt = new Date()
+    const lastRunAt = schedule?.lastRunAt ?? null
+    const failures = schedule?.failures ?? 0
+
+    const fullName = repoConfig.fullName || (await githubDB.repos.get(repoId))?.fullName
+    if (!fullName) return // Neither configured with its name nor synced before
+
+    // Claim the run first, so a scheduler started by a reload does not repeat it
+    await githubDB.saveSyncSchedule({ repoId, kind, lastRunAt, nextRunAt: new Date(startedAt.getTime() + interval), failures })
+
+    const report = (status: SyncRun['status'], error?: string) => this.onRun?.({
+      id: generateId(),
+      repoId,
+      repoName: fullName,
+      kind,
+      startedAt,
+      finishedAt: new Date(),
+      status,
+      error
+    })
+
+    try {
+      const rateLimit = await this.githubService.getRateLimit()
+      if (rateLimit.remaining < RATE_LIMIT_RESERVE) {
+        await githubDB.saveSyncSchedule({ repoId, kind, lastRunAt, nextRunAt: rateLimit.resetTime, failures })
+        report('rate_limited', `${rateLimit.remaining} of ${rateLimit.limit} requests left until ${rateLimit.resetTime.toLocaleTimeString()}`)
+        return
+      }
+
+      const { owner, repo: name } = splitRepositoryName(fullName)
+      const repo = await this.githubService.getRepository(owner, name)
+      if (!repo) {
+        throw new Error(`Repository ${fullName} not found or not accessible`)
+      }
+
+      await this.sync(repo, repoConfig, kind)
+
+      const finishedAt = new Date()
+      await githubDB.saveSyncSchedule({ repoId, kind, lastRunAt: finishedAt, nextRunAt: new Date(finishedAt.getTime() + interval), failures: 0 })
+      report('success')
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      // Sync services report failed requests generically; an exhausted quota tells a rate limit apart
+      const quota = await this.githubService.getRateLimit().catch(() => null)
+      const rateLimited = quota !== null && quota.remaining === 0
+      const backoff = Math.min(interval * 2 ** (failures + 1), MAX_BACKOFF)
+
+      await githubDB.saveSyncSchedule({
+        repoId,
+        kind,
+        lastRunAt,
+        nextRunAt: rateLimited ? quota.resetTime : new Date(Date.now() + backoff),
+        failures: failures + 1
+      })
+      report(rateLimited ? 'rate_limited' : 'error', message)
+    }
+  }
+
+  private async sync(repo: GitHubRepository, repoConfig: RepoSyncConfig, kind: SyncRun['kind']): Promise<void> {
+    switch (kind) {
+      case 'tree':
+        await new GitHubSyncService(this.auth, undefined, this.baseUrl).syncRepository(repo, {
+          branches: repoConfig.syncBranches,
+          prefetch: repoConfig.prefetchContent ? {} : undefined
+        })
+        break
+      case 'issues':
+        await new GitHubIssuesSyncService(this.auth, undefined, this.baseUrl).syncRepositoryIssues(repo, {
+          syncOpen: true,
+          syncClosed: false,
+          maxIssues: 100
+        })
+        break
+      case 'pullRequests':
+        await new GitHubPullRequestsSyncService(this.auth, undefined, this.baseUrl).syncRepositoryPullRequests(repo, {
+          state: 'all',
+          maxPullRequests: 50
+        })
+        break
+      case 'commits':
+        await new GitHubCommitsSyncService(this.auth, undefined, this.baseUrl).syncRepositoryCommits(repo, {
+          branches: (await githubDB.getBranches(repo.id.toString())).map(branch => branch.name),
+          maxCommits: 100
+        })
+        break
+      case 'releases':
+        await new GitHubReleasesSyncService(this.auth, undefined, this.baseUrl).syncRepositoryReleases(repo, {
+          maxReleases: 20
+        })
+        break
+    }
+  }
+}
+
+// The tree always syncs; the rest follow the repository's toggles
+function getScheduledKinds(repoConfig: RepoSyncConfig): SyncRun['kind'][] {
+  const kinds: SyncRun['kind'][] = ['tree']
+  if (repoConfig.syncIssues) kinds.push('issues')
+  if (repoConfig.syncPRs) kinds.push('pullRequests')
+  if (repoConfig.syncCommits) kinds.push('commits')
+  if (repoConfig.syncReleases) kinds.push('releases')
+  return kinds
+}
@@ -1,102 +1,112 @@
-import { GitHubService } from './integrations'
-import { githubDB, GitHubFile, GitHubRepo, FileTreeNode } from './github-db'
+import { CodeHostAuth, CodeHostService, createCodeHostService } from './integrations'
+import { isSearchableCodePath } from './code-search'
+import { ContentPrefetchOptions, githubDB, GitHubFile, GitHubRepo, FileTreeNode } from './github-db'
 import { GitHubRepository } from './types'
 
+const DEFAULT_PREFETCH_MAX_FILE_SIZE = 100 * 1024
+const DEFAULT_PREFETCH_CONCURRENCY = 4
+const DEFAULT_PREFETCH_MAX_FILES = 1000
+const PREFETCH_PROGRESS_INTERVAL = 10 // Files between progress updates
+
+export interface SyncChangeSummary {
+  added: number
+  modified: number
+  deleted: number
+  unchanged: number
+}
+
+export interface ContentPrefetchSummary {
+  fetched: number
+  notModified: number // Cached content confirmed current by a conditional request
+  failed: number
+}
+
 export interface SyncProgress {
   total: number
   completed: number
   currentFile: string
   status: 'syncing' | 'completed' | 'error'
+  stage?: 'tree' | 'content'
+  branch?: string // Branch being synced when several are
   error?: string
+  changes?: SyncChangeSummary // Set once the tree has been compared with the stored files
+  prefetch?: ContentPrefetchSummary // Set during the content stage
+}
+
+export interface SyncRepositoryOptions {
+  branches?: string[] // Names or patterns such as "release/*"; defaults to the default branch
+  prefetch?: ContentPrefetchOptions
 }
 
 export class GitHubSyncService {
-  private githubService: GitHubService
+  private githubService: CodeHostService
   private onProgress?: (progress: SyncProgress) => void
 
-  constructor(token: string, onProgress?: (progress: SyncProgress) => void) {
-    this.githubService = new GitHubService(token)
+  constructor(auth: CodeHostAuth, onProgress?: (progress: SyncProgress) => void, baseUrl?: string) {
+    this.githubService = createCodeHostService(auth, baseUrl)
     this.onProgress = onProgress
   }
 
-  // Sync entire repository to IndexedDB
-  async syncRepository(repo: GitHubRepository): Promise<void> {
+  /**
+   * Sync the selected branches of a repository to IndexedDB, only touching paths whose
+   * SHA changed, then optionally prefetch file contents so code search has something to
+   * read. Returns the changes summed over all branches.
+   */
+  async syncRepository(repo: GitHubRepository, options: SyncRepositoryOptions = {}): Promise<SyncChangeSummary> {
     const repoId = repo.id.toString()
     
     try {
-      // Update repo status to syncing
+      // Update repo status to syncing, keeping the counts from the last sync
+      const existingRepo = await githubDB.getRepoSyncStatus(repoId)
       await githubDB.saveRepo({
         id: repoId,
         name: repo.name,
         fullName: repo.full_name,
         defaultBranch: repo.default_branch,
-        lastSynced: new Date(),
-        totalFiles: 0,
-        syncStatus: 'syncing'
+        lastSynced: existingRepo?.lastSynced ?? new Date(),
+        totalFiles: existingRepo?.totalFiles ?? 0,
+        syncStatus: 'syncing',
+        host: repo.host
       })
 
-      // Get repository tree
-      const tree = await this.githubService.getRepositoryTree(repo.full_name, repo.default_branch)
-      
-      if (!tree) {
-        throw new Error('Failed to fetch repository tree')
-      }
-
-      const files: GitHubFile[] = []
-      let completed = 0
-      const total = tree.length
+      const branches = await this.resolveBranches(repo, options.branches)
+      const changes: SyncChangeSummary = { added: 0, modified: 0, deleted: 0, unchanged: 0 }
+      let prefetchSummary: ContentPrefetchSummary | undefined
+      let totalFiles: number | undefined
 
-      this.onProgress?.({
-        total,
-        completed,
-        currentFile: 'Starting sync...',
-        status: 'syncing'
-      })
+      for (const branch of branches) {
+        const branchChanges = await this.syncBranch(repo, branch)
+        changes.added += branchChanges.added
+        changes.modified += branchChanges.modified
+        changes.deleted += branchChanges.deleted
+        changes.unchanged += branchChanges.unchanged
+        if (branch === repo.default_branch) {
+          totalFiles = branchChanges.added + branchChanges.modified + branchChanges.unchanged
+        }
 
-      // Process each file/directory in the tree
-      for (const item of tree) {
-        try {
-          const file: GitHubFile = {
-            repoId,
-            path: item.path,
-            name: this.getFileName(item.path),
-            type: item.type === 'tree' ? 'dir' : 'file',
-            sha: item.sha,
-            size: item.size,
-            downloadUrl: item.type === 'blob' ? item.url : undefined,
-            parentPath: this.getParentPath(item.path),
-            lastSynced: new Date()
+        if (options.prefetch) {
+          const branchPrefetch = await this.prefetchContent(repoId, branch, options.prefetch, branchChanges)
+          prefetchSummary = {
+            fetched: (prefetchSummary?.fetched ?? 0) + branchPrefetch.fetched,
+            notModified: (prefetchSummary?.notModified ?? 0) + branchPrefetch.notModified,
+            failed: (prefetchSummary?.failed ?? 0) + branchPrefetch.failed
           }
-
-          files.push(file)
-          completed++
-
-          this.onProgress?.({
-            total,
-            completed,
-            currentFile: item.path,
-            status: 'syncing'
-          })
-
-        } catch (error) {
-          console.warn(`Failed to process file ${item.path}:`, error)
-          // Continue with other files
         }
       }
 
-      // Save all files to database
-      await githubDB.saveFiles(repoId, files)
-      
-      // Update repo status to completed
-      await githubDB.updateRepoSyncStatus(repoId, 'completed', files.length)
+      await githubDB.updateRepoSyncStatus(repoId, 'completed', totalFiles)
 
+      const total = changes.added + changes.modified + changes.deleted
       this.onProgress?.({
         total,
         completed: total,
-        currentFile: 'Sync completed!',
-        status: 'completed'
+        currentFile: total > 0 ? 'Sync completed!' : 'Already up to date',
+        status: 'completed',
+        changes,
+        prefetch: prefetchSummary
       })
 
+      return changes
     } catch (error) {
       console.error('Sync failed:', error)
       
@@ -115,6 +125,237 @@ export class GitHubSyncService {
     }
   }
 
+  // Expand branch names and patterns into the repository's matching branches
+  private async resolveBranches(repo: GitHubRepository, selected?: string[]): Promise<string[]> {
+    const names = selected && selected.length > 0 ? selected : [repo.default_branch]
+    if (!names.some(name => name.includes('*'))) {
+      return [...new Set(names)]
+    }
+
+    const available = await this.githubService.getBranches(repo.full_name)
+    const matches = available.filter(branch => names.some(name => matchesBranchPattern(branch, name)))
+    return [...new Set(matches)]
+  }
+
+  // Sync one branch's tree against its stored rows
+  private async syncBranch(repo: GitHubRepository, branch: string): Promise<SyncChangeSummary> {
+    const repoId = repo.id.toString()
+
+    try {
+      const existingBranch = await githubDB.getBranch(repoId, branch)
+      await githubDB.saveBranch({
+        ...existingBranch,
+        repoId,
+        name: branch,
+        lastSynced: existingBranch?.lastSynced ?? new Date(),
+        totalFiles: existingBranch?.totalFiles ?? 0,
+        syncStatus: 'syncing'
+      })
+
+      this.onProgress?.({
+        total: 0,
+        completed: 0,
+        currentFile: 'Checking for changes...',
+        status: 'syncing',
+        stage: 'tree',
+        branch
+      })
+
+      const [treeSha, storedFiles] = await Promise.all([
+        this.githubService.getBranchTreeSha(repo.full_name, branch),
+        githubDB.getFiles(repoId, branch)
+      ])
+
+      // Same root tree as the last sync: nothing under it changed
+      if (existingBranch?.treeSha === treeSha && storedFiles.length > 0) {
+        const changes = { added: 0, modified: 0, deleted: 0, unchanged: storedFiles.length }
+        await githubDB.updateBranchSyncStatus(repoId, branch, 'completed', storedFiles.length, treeSha)
+        return changes
+      }
+
+      // Get the branch's tree
+      const tree = await this.githubService.getRepositoryTree(repo.full_name, branch)
+      
+      if (!tree) {
+        throw new Error('Failed to fetch repository tree')
+      }
+
+      // Compare tree entries with the stored rows by path and SHA
+      const storedByPath = new Map(storedFiles.map(file => [file.path, file]))
+      const added: GitHubFile[] = []
+      const modified: GitHubFile[] = []
+      let unchanged = 0
+
+      for (const item of tree) {
+        const stored = storedByPath.get(item.path)
+        storedByPath.delete(item.path)
+
+        const type = item.type === 'tree' ? 'dir' : 'file'
+        if (stored && stored.sha === item.sha && stored.type === type) {
+          unchanged++
+          continue
+        }
+
+        const file: GitHubFile = {
+          repoId,
+          branch,
+          path: item.path,
+          name: this.getFileName(item.path),
+          type,
+          sha: item.sha,
+          size: item.size,
+          downloadUrl: item.type === 'blob' ? item.url : undefined,
+          parentPath: this.getParentPath(item.path),
+          lastSynced: new Date()
+        }
+        if (stored) {
+          modified.push(file)
+        } else {
+          added.push(file)
+        }
+      }
+
+      // Whatever was not seen in the tree has been deleted
+      const deleted = [...storedByPath.keys()]
+      const changes = { added: added.length, modified: modified.length, deleted: deleted.length, unchanged }
+      const total = added.length + modified.length + deleted.length
+
+      this.onProgress?.({
+        total,
+        completed: 0,
+        currentFile: `${total} changed paths`,
+        status: 'syncing',
+        stage: 'tree',
+        branch,
+        changes
+      })
+
+      await githubDB.applyFileChanges(repoId, branch, { added, modified, deleted })
+      await githubDB.updateBranchSyncStatus(repoId, branch, 'completed', tree.length, treeSha)
+      return changes
+    } catch (error) {
+      await githubDB.updateBranchSyncStatus(repoId, branch, 'error')
+      throw error
+    }
+  }
+
+  /**
+   * Download the content of a branch's synced files that have none cached yet, a few at
+   * a time. Progress is stored on the branch, so a prefetch interrupted by a reload can be
+   * picked up again with resumeContentPrefetch; files fetched before are skipped.
+   */
+  async prefetchContent(
+    repoId: string,
+    branch: string,
+    options: ContentPrefetchOptions = {},
+    changes?: SyncChangeSummary
+  ): Promise<ContentPrefetchSummary> {
+    const repo = await githubDB.getRepoSyncStatus(repoId)
+    if (!repo) {
+      throw new Error('Repository has not been synced')
+    }
+
+    const maxFileSize = options.maxFileSize ?? DEFAULT_PREFETCH_MAX_FILE_SIZE
+    const extensions = options.extensions?.map(extension => extension.toLowerCase())
+    const matchesType = (path: string) => extensions
+      ? extensions.some(extension => path.toLowerCase().endsWith(extension))
+      : isSearchableCodePath(path)
+
+    const queue = (await githubDB.getFiles(repoId, branch))
+      .filter(file =>
+        file.type === 'file' &&
+        (file.size ?? 0) <= maxFileSize &&
+        matchesType(file.path) &&
+        (!file.content || (options.revalidate && file.etag))
+      )
+      .slice(0, options.maxFiles ?? DEFAULT_PREFETCH_MAX_FILES)
+
+    const summary: ContentPrefetchSummary = { fetched: 0, notModified: 0, failed: 0 }
+    const total = queue.length
+    let completed = 0
+
+    await githubDB.updatePrefetchState(repoId, branch, { status: 'running', options, updatedAt: new Date() })
+
+    const reportProgress = (currentFile: string) => {
+      this.onProgress?.({
+        total,
+        completed,
+        currentFile,
+        status: 'syncing',
+        stage: 'content',
+        branch,
+        changes,
+        prefetch: { ...summary }
+      })
+    }
+    reportProgress(total > 0 ? 'Fetching file contents...' : 'File contents up to date')
+
+    // A fixed pool of workers drains the queue, bounding parallel requests
+    const worker = async () => {
+      for (let file = queue.shift(); file; file = queue.shift()) {
+        try {
+          const result = await this.githubService.getFileContentIfChanged(
+            repo.fullName,
+            file.path,
+            branch,
+            file.content ? file.etag : undefined
+          )
+          if (result.status === 'modified') {
+            await githubDB.saveFileContent(repoId, branch, file.path, result.content, result.etag)
+            summary.fetched++
+          } else {
+            summary.notModified++
+          }
+        } catch (error) {
+          console.warn(`Failed to prefetch ${file.path}:`, error)
+          summary.failed++
+        }
+
+        completed++
+        if (completed % PREFETCH_PROGRESS_INTERVAL === 0 || completed === total) {
+          reportProgress(file.path)
+        }
+      }
+    }
+
+    try {
+      const concurrency = Math.max(1, options.concurrency ?? DEFAULT_PREFETCH_CONCURRENCY)
+      await Promise.all(Array.from({ length: Math.min(concurrency, total) }, worker))
+      await githubDB.updatePrefetchState(repoId, branch, { status: 'completed', options, updatedAt: new Date() })
+    } catch (error) {
+      await githubDB.updatePrefetchState(repoId, branch, { status: 'error', options, updatedAt: new Date() })
+      throw error
+    }
+
+    return summary
+  }
+
+  // Continue content prefetches that were still running when the page was closed
+  async resumeContentPrefetch(repoId: string): Promise<ContentPrefetchSummary | null> {
+    const branches = (await githubDB.getBranches(repoId)).filter(branch => branch.prefetch?.status === 'running')
+    if (branches.length === 0) {
+      return null
+    }
+
+    const summary: ContentPrefetchSummary = { fetched: 0, notModified: 0, failed: 0 }
+    for (const branch of branches) {
+      const branchSummary = await this.prefetchContent(repoId, branch.name, branch.prefetch?.options)
+      summary.fetched += branchSummary.fetched
+      summary.notModified += branchSummary.notModified
+      summary.failed += branchSummary.failed
+    }
+
+    this.onProgress?.({
+      total: 0,
+      completed: 0,
+      currentFile: 'File contents up to date',
+      status: 'completed',
+      stage: 'content',
+      prefetch: summary
+    })
+    return summary
+  }
+
   // Get file content from GitHub API
   async getFileContent(repoFullName: string, filePath: string, sha: string): Promise<string> {
     try {
@@ -127,8 +368,8 @@ export class GitHubSyncService {
   }
 
   // Get cached file tree from IndexedDB
-  async getCachedFileTree(repoId: string): Promise<FileTreeNode[]> {
-    return await githubDB.getFileTree(repoId)
+  async getCachedFileTree(repoId: string, branch: string): Promise<FileTreeNode[]> {
+    return await githubDB.getFileTree(repoId, branch)
   }
 
   // Get repository sync status
@@ -148,13 +389,13 @@ export class GitHubSyncService {
   }
 
   // Get cached file content
-  async getCachedFileContent(repoId: string, filePath: string): Promise<string | undefined> {
-    return await githubDB.getFileContent(repoId, filePath)
+  async getCachedFileContent(repoId: string, branch: string, filePath: string): Promise<string | undefined> {
+    return await githubDB.getFileContent(repoId, branch, filePath)
   }
 
   // Cache file content after fetching from API
-  async cacheFileContent(repoId: string, filePath: string, content: string): Promise<void> {
-    await githubDB.saveFileContent(repoId, filePath, content)
+  async cacheFileContent(repoId: string, branch: string, filePath: string, content: string): Promise<void> {
+    await githubDB.saveFileContent(repoId, branch, filePath, content)
   }
 
   // Helper methods
@@ -179,6 +420,18 @@ export function formatFileSize(bytes?: number): string {
   return `${(bytes / Math.pow(1024, i)).toFixed(1)} ${sizes[i]}`
 }
 
+// Whether a branch name matches a selected name or pattern, where * matches any characters
+export function matchesBranchPattern(branch: string, pattern: string): boolean {
+  const source = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')
+  return new RegExp(`^${source}$`).test(branch)
+}
+
+// Utility function to describe a sync's changes, e.g. "+3 ~2 -1"
+export function formatSyncChanges(changes: SyncChangeSummary): string {
+  if (changes.added + changes.modified + changes.deleted === 0) return 'No changes'
+  return `+${changes.added} ~${changes.modified} -${changes.deleted}`
+}
+
 // Utility function to get file extension
 export function getFileExtension(filename: string): string {
   return filename.split('.').pop()?.toLowerCase() || ''
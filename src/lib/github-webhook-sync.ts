@@ -0,0 +1,189 @@
+import { githubDB, GitHubCommitDB } from './github-db'
+import { toDBIssue } from './github-issues-sync'
+import { GitHubPushCommit, GitHubSyncConfig, GitHubWebhookEvent, RepoSyncConfig } from './types'
+
+const POLL_INTERVAL = 30 * 1000
+
+/**
+ * Apply a webhook event to the data synced for a repository. Changes the event carries in
+ * full are stored directly; the rest make the matching scheduled sync due now. Events of
+ * repositories or data the integration does not sync are ignored.
+ */
+export async function applyWebhookEvent(event: GitHubWebhookEvent, config: GitHubSyncConfig): Promise<void> {
+  const repoId = event.repository.id
+  const repoConfig = config.selectedRepos.includes(repoId) ? config.repoConfigs[repoId] : undefined
+  if (!repoConfig?.enabled) return
+
+  switch (event.event) {
+    case 'push':
+      await applyPush(repoConfig, event.branch, event.commits)
+      break
+    case 'issues':
+      if (!repoConfig.syncIssues) return
+      if (event.action === 'deleted' || event.action === 'transferred') {
+        await githubDB.deleteIssue(repoId, event.issue.id)
+      } else {
+        await githubDB.saveIssues(repoId, [toDBIssue(event.issue, repoId)])
+      }
+      break
+    case 'issue_comment':
+      if (!repoConfig.syncIssues || !event.issue) return // Comments on pull requests are not synced
+      await githubDB.saveIssues(repoId, [toDBIssue(event.issue, repoId)])
+      if (event.action === 'deleted') {
+        await githubDB.deleteIssueComment(repoId, event.comment.id)
+      } else {
+        await githubDB.saveIssueComment({
+          commentId: event.comment.id,
+          repoId,
+          issueNumber: event.issueNumber,
+          authorLogin: event.comment.author,
+          body: event.comment.body,
+          htmlUrl: event.comment.html_url,
+          createdAt: new Date(event.comment.created_at),
+          updatedAt: new Date(event.comment.updated_at),
+          lastSynced: new Date()
+        })
+      }
+      break
+    case 'pull_request': {
+      if (!repoConfig.syncPRs) return
+      const { pullRequest } = event
+      // The stored update time is kept, so the next sync sees the change and refetches files and reviews
+      const updated = await githubDB.updatePullRequest(repoId, pullRequest.number, {
+        title: pullRequest.title,
+        body: pullRequest.body,
+        state: pullRequest.state,
+        draft: pullRequest.draft ?? false,
+        headRef: pullRequest.head.ref,
+        baseRef: pullRequest.base.ref,
+        mergedAt: pullRequest.merged_at ? new Date(pullRequest.merged_at) : null,
+        closedAt: pullRequest.closed_at ? new Date(pullRequest.closed_at) : null
+      })
+      if (updated === 0 || event.action === 'synchronize') {
+        await githubDB.requestSync(repoId, 'pullRequests')
+      }
+      break
+    }
+    case 'release': {
+      if (!repoConfig.syncReleases) return
+      const { release } = event
+      if (event.action === 'deleted' || event.action === 'unpublished') {
+        await githubDB.deleteRelease(repoId, release.tag_name)
+        return
+      }
+      const updated = await githubDB.updateRelease(repoId, release.tag_name, {
+        name: release.name || release.tag_name,
+        notes: release.body || '',
+        isTagOnly: false,
+        prerelease: release.prerelease,
+        htmlUrl: release.html_url
+      })
+      // A new release's commit range is only known after comparing it with the one before
+      if (updated === 0) {
+        await githubDB.requestSync(repoId, 'releases')
+      }
+      break
+    }
+  }
+}
+
+async function applyPush(repoConfig: RepoSyncConfig, branch: string, commits: GitHubPushCommit[]): Promise<void> {
+  const { repoId } = repoConfig
+  if (!await githubDB.getBranch(repoId, branch)) return // Branch not synced
+
+  if (repoConfig.syncCommits && commits.length > 0) {
+    await githubDB.saveCommits(repoId, branch, commits.map((commit): GitHubCommitDB => ({
+      repoId,
+      sha: commit.sha,
+      branches: [branch],
+      message: commit.message,
+      authorName: commit.author.name,
+      authorLogin: commit.author.login,
+      date: new Date(commit.date),
+      htmlUrl: commit.html_url,
+      filesChanged: commit.files,
+      additions: 0, // Push events carry no line counts
+      deletions: 0,
+      lastSynced: new Date()
+    })))
+  }
+
+  // The tree sync fetches only what changed since the stored tree
+  await githubDB.requestSync(repoId, 'tree')
+}
+
+/**
+ * Polls the server for webhook events received since the last one applied, applies them
+ * in order and reports them with the new cursor. Starting without a cursor skips events
+ * received before, which the scheduled syncs already cover.
+ */
+export class GitHubWebhookPoller {
+  private config: GitHubSyncConfig
+  private cursor?: number
+  private onEvents: (events: GitHubWebhookEvent[], cursor: number) => void
+  private timer?: ReturnType<typeof setInterval>
+  private polling = false
+
+  constructor(config: GitHubSyncConfig, cursor: number | undefined, onEvents: (events: GitHubWebhookEvent[], cursor: number) => void) {
+    this.config = config
+    this.cursor = cursor
+    this.onEvents = onEvents
+  }
+
+  start(): void {
+    if (this.timer) return
+
+    this.timer = setInterval(() => this.poll(), POLL_INTERVAL)
+    this.poll()
+  }
+
+  stop(): void {
+    clearInterval(this.timer)
+    this.timer = undefined
+  }
+
+  private async poll(): Promise<void> {
+    if (this.polling) return
+    this.polling = true
+
+    try {
+      const query = this.cursor === undefined ? '' : `?after=${this.cursor}`
+      const response = await fetch(`/api/webhooks/github${query}`, {
+        headers: { Authorization: `Bearer ${this.config.globalSettings.webhookReadToken || ''}` }
+      })
+      if (!response.ok) {
+        throw new Error(`Failed to fetch webhook events: ${response.status}`)
+      }
+      const { events, cursor }: { events: GitHubWebhookEvent[]; cursor: number } = await response.json()
+      if (!this.timer) return // Stopped while fetching
+
+      // A server that lost its log numbers events from the start again
+      if (this.cursor !== undefined && cursor < this.cursor) {
+        this.cursor = cursor
+        this.onEvents([], cursor)
+        return
+      }
+
+      const applied: GitHubWebhookEvent[] = []
+      for (const event of events) {
+        try {
+          await applyWebhookEvent(event, this.config)
+        } catch (error) {
+          console.warn(`Failed to apply webhook event ${event.deliveryId}:`, error)
+        }
+        if (this.config.selectedRepos.includes(event.repository.id)) {
+          applied.push(event)
+        }
+      }
+
+      if (cursor !== this.cursor) {
+        this.cursor = cursor
+        this.onEvents(applied, cursor)
+      }
+    } catch (error) {
+      console.warn('Webhook polling failed:', error)
+    } finally {
+      this.polling = false
+    }
+  }
+}
@@ -0,0 +1,364 @@
+import crypto from 'crypto'
+import fs from 'fs/promises'
+import path from 'path'
+import { writeJsonAtomic } from './server-utils'
+import { GitHubIssue, GitHubPullRequest, GitHubRelease, GitHubWebhookChange, GitHubWebhookDelivery, GitHubWebhookEvent } from './types'
+
+const LOG_VERSION = 1
+const MAX_LOGGED_EVENTS = 500
+
+export const SUPPORTED_WEBHOOK_EVENTS = ['push', 'issues', 'issue_comment', 'pull_request', 'release'] as const
+
+// An event before the log numbers it
+export type UnloggedWebhookEvent = GitHubWebhookDelivery & GitHubWebhookChange
+
+// The fields of webhook payloads that are applied, as GitHub sends them
+interface IssuePayload {
+  id: number
+  number: number
+  title: string
+  body: string | null
+  state: 'open' | 'closed'
+  html_url: string
+  created_at: string
+  updated_at: string
+  closed_at: string | null
+  comments: number
+  user: { login: string; avatar_url: string } | null
+  labels?: Array<{ name?: string; color?: string; description?: string | null }>
+  assignees?: Array<{ login: string }>
+  milestone: { title: string; description: string | null; due_on: string | null } | null
+  pull_request?: unknown // Set when the issue is a pull request
+}
+
+interface PullRequestPayload {
+  id: number
+  number: number
+  title: string
+  body: string | null
+  state: 'open' | 'closed'
+  html_url: string
+  created_at: string
+  updated_at: string
+  head: { ref: string; sha: string }
+  base: { ref: string; sha: string }
+  user: { login: string } | null
+  draft?: boolean
+  merged_at: string | null
+  closed_at: string | null
+}
+
+interface ReleasePayload {
+  id: number
+  tag_name: string
+  name: string | null
+  body: string | null
+  draft: boolean
+  prerelease: boolean
+  created_at: string
+  published_at: string | null
+  html_url: string
+}
+
+interface PushCommitPayload {
+  id: string
+  message: string
+  timestamp: string
+  url: string
+  author?: { name?: string; email?: string; username?: string }
+  added?: string[]
+  removed?: string[]
+  modified?: string[]
+}
+
+interface WebhookPayload {
+  action?: string
+  repository?: { id: number; full_name: string }
+  sender?: { login: string }
+  // push
+  ref?: string
+  deleted?: boolean
+  commits?: PushCommitPayload[]
+  // issues, issue_comment
+  issue?: IssuePayload
+  comment?: { id: number; body: string | null; html_url: string; created_at: string; updated_at: string; user: { login: string } | null }
+  pull_request?: PullRequestPayload
+  release?: ReleasePayload
+}
+
+interface PersistedEventLog {
+  version: number
+  lastSequence: number
+  events: GitHubWebhookEvent[]
+}
+
+// Whether X-Hub-Signature-256 is the HMAC of the raw payload under the webhook secret
+export function verifyWebhookSignature(payload: string, signature: string | null, secret: string): boolean {
+  if (!signature?.startsWith('sha256=')) return false
+
+  const expected = Buffer.from(`sha256=${crypto.createHmac('sha256', secret).update(payload).digest('hex')}`)
+  const received = Buffer.from(signature)
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received)
+}
+
+/**
+ * The parts of a webhook payload the browser applies to its synced data, or null for
+ * events and actions that change nothing it stores
+ */
+export function normalizeWebhookEvent(
+  event: string,
+  deliveryId: string,
+  payload: WebhookPayload
+): UnloggedWebhookEvent | null {
+  if (!payload.repository) return null
+
+  const change = getChange(event, payload)
+  if (!change) return null
+
+  return {
+    ...change,
+    deliveryId,
+    repository: {
+      id: String(payload.repository.id),
+      fullName: payload.repository.full_name,
+    },
+    sender: payload.sender?.login || 'unknown',
+    receivedAt: new Date().toISOString(),
+  }
+}
+
+function getChange(event: string, payload: WebhookPayload): GitHubWebhookChange | null {
+  const sender = payload.sender?.login || 'someone'
+  const action = payload.action || ''
+  const described = action.replace(/_/g, ' ')
+
+  switch (event) {
+    case 'push': {
+      // Tag pushes and branch deletions carry no commits to apply
+      if (!payload.ref?.startsWith('refs/heads/') || payload.deleted) return null
+      const branch = payload.ref.slice('refs/heads/'.length)
+      const commits = (payload.commits || []).map(commit => ({
+        sha: commit.id,
+        message: commit.message,
+        author: {
+          name: commit.author?.name || commit.author?.username || 'unknown',
+          email: commit.author?.email ?? null,
+          login: commit.author?.username ?? null,
+        },
+        date: commit.timestamp,
+        html_url: commit.url,
+        files: [...new Set([...(commit.added || []), ...(commit.removed || []), ...(commit.modified || [])])],
+      }))
+      return {
+        event: 'push',
+        branch,
+        commits,
+        summary: `${commits.length} commit${commits.length === 1 ? '' : 's'} pushed to ${branch} by ${sender}`,
+        isNew: commits.length > 0,
+      }
+    }
+    case 'issues': {
+      if (!payload.issue) return null
+      const issue = toIssue(payload.issue)
+      return {
+        event: 'issues',
+        action,
+        issue,
+        summary: action === 'opened'
+          ? `New issue #${issue.number}: ${issue.title}`
+          : `Issue #${issue.number} ${described} by ${sender}`,
+        isNew: action === 'opened',
+      }
+    }
+    case 'issue_comment': {
+      if (!payload.issue || !payload.comment) return null
+      const isPullRequest = Boolean(payload.issue.pull_request)
+      return {
+        event: 'issue_comment',
+        action,
+        issue: isPullRequest ? null : toIssue(payload.issue),
+        issueNumber: payload.issue.number,
+        comment: {
+          id: payload.comment.id,
+          author: payload.comment.user?.login || 'ghost',
+          body: payload.comment.body || '',
+          html_url: payload.comment.html_url,
+          created_at: payload.comment.created_at,
+          updated_at: payload.comment.updated_at,
+        },
+        summary: `${sender} ${action === 'created' ? 'commented on' : `${described} a comment on`} ${isPullRequest ? 'PR' : 'issue'} #${payload.issue.number}`,
+        isNew: action === 'created',
+      }
+    }
+    case 'pull_request': {
+      if (!payload.pull_request) return null
+      const pullRequest = toPullRequest(payload.pull_request)
+      if (action === 'closed' && pullRequest.merged_at) {
+        return {
+          event: 'pull_request',
+          action: 'merged',
+          pullRequest,
+          summary: `PR #${pullRequest.number} merged to ${pullRequest.base.ref}`,
+          isNew: false,
+        }
+      }
+      return {
+        event: 'pull_request',
+        action,
+        pullRequest,
+        summary: action === 'opened'
+          ? `New PR #${pullRequest.number}: ${pullRequest.title}`
+          : `PR #${pullRequest.number} ${described} by ${sender}`,
+        isNew: action === 'opened',
+      }
+    }
+    case 'release': {
+      if (!payload.release) return null
+      const release = toRelease(payload.release)
+      return {
+        event: 'release',
+        action,
+        release,
+        summary: `Release ${release.name || release.tag_name} ${described}`,
+        isNew: action === 'published',
+      }
+    }
+    default:
+      return null
+  }
+}
+
+function toIssue(issue: IssuePayload): GitHubIssue {
+  return {
+    id: issue.id,
+    number: issue.number,
+    title: issue.title,
+    body: issue.body || null,
+    state: issue.state,
+    html_url: issue.html_url,
+    created_at: issue.created_at,
+    updated_at: issue.updated_at,
+    labels: (issue.labels || []).map(label => ({
+      name: label.name || '',
+      color: label.color || '',
+      description: label.description ?? null,
+    })),
+    author: issue.user ? { login: issue.user.login, avatar_url: issue.user.avatar_url } : undefined,
+    assignees: (issue.assignees || []).map(assignee => assignee.login),
+    milestone: issue.milestone
+      ? { title: issue.milestone.title, description: issue.milestone.description, due_on: issue.milestone.due_on }
+      : null,
+    closed_at: issue.closed_at,
+    comments: issue.comments,
+  }
+}
+
+function toPullRequest(pr: PullRequestPayload): GitHubPullRequest {
+  return {
+    id: pr.id,
+    number: pr.number,
+    title: pr.title,
+    body: pr.body || null,
+    state: pr.merged_at ? 'merged' : pr.state,
+    html_url: pr.html_url,
+    created_at: pr.created_at,
+    updated_at: pr.updated_at,
+    head: { ref: pr.head.ref, sha: pr.head.sha },
+    base: { ref: pr.base.ref, sha: pr.base.sha },
+    author: pr.user?.login,
+    draft: pr.draft,
+    merged_at: pr.merged_at,
+    closed_at: pr.closed_at,
+  }
+}
+
+function toRelease(release: ReleasePayload): GitHubRelease {
+  return {
+    id: release.id,
+    tag_name: release.tag_name,
+    name: release.name,
+    body: release.body ?? null,
+    draft: release.draft,
+    prerelease: release.prerelease,
+    created_at: release.created_at,
+    published_at: release.published_at,
+    html_url: release.html_url,
+  }
+}
+
+/**
+ * The latest webhook events, persisted to disk so the browser can catch up on deliveries
+ * received while it was closed. Events are numbered in order of arrival.
+ */
+export class WebhookEventLog {
+  readonly logPath: string
+  private data: Promise<PersistedEventLog> | null = null
+  private pendingWrite: Promise<void> = Promise.resolve()
+
+  constructor(cacheDir?: string) {
+    const directory = cacheDir || process.env.GITHUB_WEBHOOK_CACHE_DIR || path.join(process.cwd(), '.next', 'cache', 'github-webhooks')
+    this.logPath = path.join(directory, 'events.json')
+  }
+
+  // Record an event; a delivery GitHub retries is recorded once
+  async append(event: UnloggedWebhookEvent): Promise<GitHubWebhookEvent> {
+    const data = await this.getData()
+    const existing = data.events.find(logged => logged.deliveryId === event.deliveryId)
+    if (existing) return existing
+
+    const logged: GitHubWebhookEvent = { ...event, sequence: ++data.lastSequence }
+    data.events = [...data.events, logged].slice(-MAX_LOGGED_EVENTS)
+    await this.save(data)
+    return logged
+  }
+
+  // Events after a sequence number, oldest first, and the latest sequence number
+  async list(after: number): Promise<{ events: GitHubWebhookEvent[]; cursor: number }> {
+    const data = await this.getData()
+    return {
+      events: data.events.filter(event => event.sequence > after),
+      cursor: data.lastSequence,
+    }
+  }
+
+  // Concurrent requests share one load, so no delivery is appended to a copy that gets replaced
+  private getData(): Promise<PersistedEventLog> {
+    this.data ||= this.load()
+    return this.data
+  }
+
+  private async load(): Promise<PersistedEventLog> {
+    try {
+      const persisted = JSON.parse(await fs.readFile(this.logPath, 'utf-8')) as PersistedEventLog
+      if (persisted.version === LOG_VERSION) {
+        return persisted
+      }
+    } catch {
+      // No events received yet
+    }
+
+    return { version: LOG_VERSION, lastSequence: 0, events: [] }
+  }
+
+  // Writes are chained so concurrent deliveries never interleave
+  private save(data: PersistedEventLog): Promise<void> {
+    this.pendingWrite = this.pendingWrite.then(async () => {
+      try {
+        await writeJsonAtomic(this.logPath, data)
+      } catch (error) {
+        console.error('Error saving webhook event log:', error)
+      }
+    })
+    return this.pendingWrite
+  }
+}
+
+// One log per server process, shared across requests
+let eventLog: WebhookEventLog | null = null
+
+export function getWebhookEventLog(): WebhookEventLog {
+  if (!eventLog) {
+    eventLog = new WebhookEventLog()
+  }
+  return eventLog
+}
@@ -0,0 +1,211 @@
+import { HttpMetrics } from './types'
+
+const DEFAULT_TIMEOUT = 30 * 1000
+const DEFAULT_MAX_RETRIES = 3
+const BASE_RETRY_DELAY = 500
+const MAX_RETRY_DELAY = 60 * 1000 // Longer waits fail instead, so callers are not left hanging
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']
+const RETRYABLE_STATUSES = [429, 502, 503, 504]
+
+export interface HttpClientOptions {
+  key: string // Identifies the integration in reported metrics, see getIntegrationMetricsKey
+  timeout?: number
+  maxRetries?: number
+  usageResource?: string // Only this X-RateLimit-Resource counts as API usage, e.g. GitHub's "core"
+}
+
+type MetricsListener = (metrics: HttpMetrics) => void
+
+const listeners = new Set<MetricsListener>()
+
+// When each integration's quota resets after running out; requests wait for it rather than fail
+const exhaustedUntil = new Map<string, number>()
+
+/**
+ * fetch with a timeout, retries and rate limit handling, shared by the GitHub, GitLab, JIRA,
+ * Azure DevOps, ServiceNow and Zendesk services. Idempotent requests are retried on network errors, timeouts and
+ * 502/503/504 with jittered exponential backoff; any request is retried on 429, which the
+ * server rejected unprocessed. Retry-After, X-RateLimit-Reset and Azure DevOps'
+ * X-RateLimit-Delay set the wait when present. Every response reports its latency and the
+ * X-RateLimit-* quota to metrics listeners.
+ */
+export class HttpClient {
+  private options: Required<Omit<HttpClientOptions, 'usageResource'>> & Pick<HttpClientOptions, 'usageResource'>
+
+  constructor(options: HttpClientOptions) {
+    this.options = {
+      timeout: DEFAULT_TIMEOUT,
+      maxRetries: DEFAULT_MAX_RETRIES,
+      ...options,
+    }
+  }
+
+  // Same signature as the global fetch, so it can be handed to Octokit
+  fetch = async (input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> => {
+    const method = (init.method || (input instanceof Request ? input.method : 'GET')).toUpperCase()
+    const idempotent = IDEMPOTENT_METHODS.includes(method)
+
+    for (let attempt = 0; ; attempt++) {
+      await this.waitForQuota()
+
+      const startedAt = Date.now()
+      let response: Response
+      try {
+        response = await this.fetchWithTimeout(input, init)
+      } catch (error) {
+        // Aborted by the caller, not by the timeout
+        if (init.signal?.aborted) throw error
+        if (!idempotent || attempt >= this.options.maxRetries) throw error
+
+        await sleep(getBackoff(attempt))
+        continue
+      }
+
+      this.report(response, Date.now() - startedAt)
+
+      const delay = this.getRetryDelay(response, attempt, idempotent)
+      if (delay === null) return response
+
+      // Release the connection of the response that is thrown away
+      await response.body?.cancel().catch(() => undefined)
+      await sleep(delay)
+    }
+  }
+
+  private async fetchWithTimeout(input: RequestInfo | URL, init: RequestInit): Promise<Response> {
+    const controller = new AbortController()
+    const abort = () => controller.abort()
+    const timer = setTimeout(abort, this.options.timeout)
+    init.signal?.addEventListener('abort', abort)
+
+    try {
+      return await fetch(input, { ...init, signal: controller.signal })
+    } finally {
+      clearTimeout(timer)
+      init.signal?.removeEventListener('abort', abort)
+    }
+  }
+
+  // How long to wait before retrying a response, or null to return it
+  private getRetryDelay(response: Response, attempt: number, idempotent: boolean): number | null {
+    if (attempt >= this.options.maxRetries) return null
+
+    // GitHub answers an exhausted quota with 403 rather than 429
+    const quotaExhausted = response.status === 403 && response.headers.get('x-ratelimit-remaining') === '0'
+    const retryable = response.status === 429 || quotaExhausted || (idempotent && RETRYABLE_STATUSES.includes(response.status))
+    if (!retryable) return null
+
+    const requested = getRequestedDelay(response.headers)
+    const delay = requested ?? getBackoff(attempt)
+    return delay <= MAX_RETRY_DELAY ? delay : null
+  }
+
+  private async waitForQuota(): Promise<void> {
+    const until = exhaustedUntil.get(this.options.key)
+    if (!until) return
+
+    const wait = until - Date.now()
+    if (wait <= 0 || wait > MAX_RETRY_DELAY) {
+      exhaustedUntil.delete(this.options.key)
+      return
+    }
+    await sleep(wait)
+  }
+
+  private report(response: Response, responseTime: number): void {
+    const { headers } = response
+    const limit = Number(getRateLimitHeader(headers, 'limit'))
+    const remaining = getRateLimitHeader(headers, 'remaining')
+    const resource = headers.get('x-ratelimit-resource')
+    const resetTime = parseResetTime(getRateLimitHeader(headers, 'reset'))
+    const countsAsUsage = !this.options.usageResource || !resource || resource === this.options.usageResource
+
+    let apiUsage: HttpMetrics['apiUsage']
+    if (countsAsUsage && limit > 0 && remaining !== null) {
+      const used = Number(headers.get('x-ratelimit-used') ?? limit - Number(remaining))
+      apiUsage = { used, limit, resetTime }
+
+      if (Number(remaining) === 0 && resetTime) {
+        exhaustedUntil.set(this.options.key, resetTime.getTime())
+      }
+    }
+
+    const metrics: HttpMetrics = { key: this.options.key, responseTime, apiUsage }
+    listeners.forEach(listener => listener(metrics))
+  }
+}
+
+/**
+ * Listen to the metrics of every request, combined per integration over each interval:
+ * the mean response time and the latest quota seen. Returns a function that stops listening.
+ */
+export function watchHttpMetrics(onMetrics: MetricsListener, interval: number): () => void {
+  const pending = new Map<string, { totalTime: number; count: number; apiUsage?: HttpMetrics['apiUsage'] }>()
+
+  const listener: MetricsListener = metrics => {
+    const entry = pending.get(metrics.key) || { totalTime: 0, count: 0 }
+    entry.totalTime += metrics.responseTime
+    entry.count++
+    entry.apiUsage = metrics.apiUsage ?? entry.apiUsage
+    pending.set(metrics.key, entry)
+  }
+
+  const flush = () => {
+    pending.forEach((entry, key) => onMetrics({
+      key,
+      responseTime: Math.round(entry.totalTime / entry.count),
+      apiUsage: entry.apiUsage,
+    }))
+    pending.clear()
+  }
+
+  listeners.add(listener)
+  const timer = setInterval(flush, interval)
+
+  return () => {
+    listeners.delete(listener)
+    clearInterval(timer)
+  }
+}
+
+// Retry-After in seconds or as an HTTP date, then the quota reset, then Azure DevOps' delay in seconds
+function getRequestedDelay(headers: Headers): number | null {
+  const retryAfter = headers.get('retry-after')
+  if (retryAfter) {
+    const seconds = Number(retryAfter)
+    const delay = Number.isNaN(seconds) ? Date.parse(retryAfter) - Date.now() : seconds * 1000
+    if (!Number.isNaN(delay)) return Math.max(0, delay)
+  }
+
+  if (getRateLimitHeader(headers, 'remaining') === '0') {
+    const resetTime = parseResetTime(getRateLimitHeader(headers, 'reset'))
+    if (resetTime) return Math.max(0, resetTime.getTime() - Date.now())
+  }
+
+  const adoDelay = Number(headers.get('x-ratelimit-delay'))
+  return adoDelay > 0 ? adoDelay * 1000 : null
+}
+
+// GitLab leaves the X- prefix off its RateLimit-* headers
+function getRateLimitHeader(headers: Headers, name: 'limit' | 'remaining' | 'reset'): string | null {
+  return headers.get(`x-ratelimit-${name}`) ?? headers.get(`ratelimit-${name}`)
+}
+
+// GitHub, GitLab and Azure DevOps send epoch seconds; JIRA sends an ISO date
+function parseResetTime(value: string | null): Date | undefined {
+  if (!value) return undefined
+
+  const seconds = Number(value)
+  const time = Number.isNaN(seconds) ? Date.parse(value) : seconds * 1000
+  return Number.isNaN(time) ? undefined : new Date(time)
+}
+
+// Exponential backoff with full jitter
+function getBackoff(attempt: number): number {
+  return Math.random() * BASE_RETRY_DELAY * 2 ** attempt
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
@@ -0,0 +1,125 @@
+import { BM25Field, BM25Index } from './bm25'
+import { EmbeddingProvider, getEmbeddingProvider } from './embeddings'
+import { EmbeddingCache, VectorIndex } from './vector-index'
+
+export interface HybridRankerOptions<T> {
+  fields: BM25Field<T>[] // Keyword fields and their weights
+  getText: (document: T) => string // Text that gets embedded for vector search
+  embeddings?: EmbeddingProvider // Defaults to the environment's embedding provider
+  keywordWeight?: number // Share of the final score from BM25 (the rest is vector similarity)
+  minVectorScore?: number // Vector-only matches below this similarity are ignored
+  embeddingCache?: EmbeddingCache // Where vectors are kept between searches; defaults to process memory
+  maxNewEmbeddings?: number // Documents without a cached vector embedded per search; the rest wait for later searches
+}
+
+export interface HybridMatch<T> {
+  document: T
+  score: number // Combined score in [0, 1]
+  keywordScore: number // BM25 score scaled against the best keyword match
+  vectorScore: number // Cosine similarity, clamped to [0, 1]
+  matchedTerms: string[]
+}
+
+/**
+ * Ranks documents by a weighted blend of BM25 keyword relevance and embedding similarity.
+ * Keywords catch exact identifiers and error codes; vectors catch paraphrases such as
+ * "login hangs" vs "authentication timeout". If embedding fails the ranker falls back
+ * to keywords alone. Vectors are cached by content, so each document is embedded once and
+ * every document with a vector takes part in vector search, whether or not it shares a
+ * term with the query. With maxNewEmbeddings, a large uncached set is embedded over several
+ * searches, the best keyword matches first.
+ */
+export class HybridRanker<T> {
+  private keywordIndex: BM25Index<T>
+  private embeddings: EmbeddingProvider
+  private getText: (document: T) => string
+  private documents: T[] = []
+  private vectorsAvailable = true
+  private keywordWeight: number
+  private minVectorScore: number
+  private embeddingCache?: EmbeddingCache
+  private maxNewEmbeddings?: number
+
+  constructor(options: HybridRankerOptions<T>) {
+    this.keywordIndex = new BM25Index(options.fields)
+    this.embeddings = options.embeddings || getEmbeddingProvider()
+    this.getText = options.getText
+    this.keywordWeight = options.keywordWeight ?? 0.5
+    this.minVectorScore = options.minVectorScore ?? 0.3
+    this.embeddingCache = options.embeddingCache
+    this.maxNewEmbeddings = options.maxNewEmbeddings
+  }
+
+  // Documents are embedded at search time, once it is known which of them to embed first
+  async add(documents: T[]): Promise<void> {
+    this.keywordIndex.add(documents)
+    this.documents.push(...documents)
+  }
+
+  async search(query: string, limit: number = 10): Promise<HybridMatch<T>[]> {
+    const candidateLimit = limit * 4
+    const keywordMatches = this.keywordIndex.search(query, candidateLimit)
+
+    let vectorMatches: Array<{ document: T; score: number }> = []
+    if (this.vectorsAvailable) {
+      try {
+        vectorMatches = await this.searchVectors(query, candidateLimit)
+      } catch (error) {
+        console.warn('Vector search failed, ranking by keywords only:', error)
+        this.vectorsAvailable = false
+      }
+    }
+
+    const topKeywordScore = keywordMatches[0]?.score || 1
+    const vectorWeight = vectorMatches.length > 0 ? 1 - this.keywordWeight : 0
+    const keywordWeight = 1 - vectorWeight
+
+    const combined = new Map<T, HybridMatch<T>>()
+    for (const match of keywordMatches) {
+      combined.set(match.document, {
+        document: match.document,
+        score: 0,
+        keywordScore: match.score / topKeywordScore,
+        vectorScore: 0,
+        matchedTerms: match.matchedTerms,
+      })
+    }
+
+    for (const match of vectorMatches) {
+      const existing = combined.get(match.document)
+      const vectorScore = Math.max(0, Math.min(1, match.score))
+      if (existing) {
+        existing.vectorScore = vectorScore
+      } else if (vectorScore >= this.minVectorScore) {
+        combined.set(match.document, {
+          document: match.document,
+          score: 0,
+          keywordScore: 0,
+          vectorScore,
+          matchedTerms: [],
+        })
+      }
+    }
+
+    return [...combined.values()]
+      .map(match => ({
+        ...match,
+        score: keywordWeight * match.keywordScore + vectorWeight * match.vectorScore,
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+  }
+
+  private async searchVectors(query: string, limit: number): Promise<Array<{ document: T; score: number }>> {
+    let documents = this.documents
+    if (this.maxNewEmbeddings !== undefined) {
+      // Uncached documents that match the query's keywords are embedded first
+      const keywordMatches = new Set(this.keywordIndex.search(query, this.maxNewEmbeddings).map(match => match.document))
+      documents = [...keywordMatches, ...this.documents.filter(document => !keywordMatches.has(document))]
+    }
+
+    const vectorIndex = new VectorIndex(this.embeddings, this.getText, this.embeddingCache)
+    await vectorIndex.add(documents, this.maxNewEmbeddings)
+    return vectorIndex.search(query, limit)
+  }
+}
@@ -26,14 +26,9 @@ export function createSampleIntegrations(): Integration[] {
           resetTime: new Date(now.getTime() + 45 * 60 * 1000), // 45 minutes from now
         },
       },
+      // Filled in by webhook deliveries
       activity: {
-        newItems: 3,
-        lastActivity: new Date(now.getTime() - 15 * 60 * 1000), // 15 minutes ago
-        recentActions: [
-          'New PR #142: Fix authentication bug',
-          'Issue #89 updated by john.doe',
-          'PR #140 merged to main branch',
-        ],
+        newItems: 0,
       },
     },
     {
@@ -105,7 +100,6 @@ export function createSampleIntegrations(): Integration[] {
       },
       activity: {
         newItems: 0,
-        lastActivity: new Date(now.getTime() - 45 * 60 * 1000), // 45 minutes ago
       },
     },
   ]
@@ -149,3 +143,66 @@ export function updateIntegrationHealth(integration: Integration): Integration {
       : integration.lastSync,
   }
 }
+
+// Azure DevOps base URLs look like https://dev.azure.com/{organization}/{project}
+export function getAdoOrganization(baseUrl?: string): string | null {
+  const orgMatch = baseUrl?.match(/dev\.azure\.com\/([^\/]+)/)
+  return orgMatch ? orgMatch[1] : null
+}
+
+export function getAdoProject(baseUrl?: string): string | null {
+  const projectMatch = baseUrl?.match(/dev\.azure\.com\/[^\/]+\/([^\/?#]+)/)
+  return projectMatch ? decodeURIComponent(projectMatch[1]) : null
+}
+
+// github.com, or a GitHub Enterprise Server given by any URL on its host
+function getGitHubHost(baseUrl?: string): URL | null {
+  if (!baseUrl?.trim()) return null
+
+  try {
+    const url = new URL(baseUrl.includes('://') ? baseUrl : `https://${baseUrl}`)
+    return ['github.com', 'www.github.com', 'api.github.com'].includes(url.hostname) ? null : url
+  } catch {
+    return null
+  }
+}
+
+// GitHub Enterprise Server serves the REST API under /api/v3 of its host
+export function getGitHubApiUrl(baseUrl?: string): string {
+  const host = getGitHubHost(baseUrl)
+  return host ? `${host.origin}/api/v3` : 'https://api.github.com'
+}
+
+// Where repositories are browsed and cloned
+export function getGitHubWebUrl(baseUrl?: string): string {
+  const host = getGitHubHost(baseUrl)
+  return host ? host.origin : 'https://github.com'
+}
+
+// gitlab.com, or a self-managed GitLab instance given by any URL on its host
+function getGitLabHost(baseUrl?: string): URL | null {
+  if (!baseUrl?.trim()) return null
+
+  try {
+    const url = new URL(baseUrl.includes('://') ? baseUrl : `https://${baseUrl}`)
+    return ['gitlab.com', 'www.gitlab.com'].includes(url.hostname) ? null : url
+  } catch {
+    return null
+  }
+}
+
+export function getGitLabApiUrl(baseUrl?: string): string {
+  const host = getGitLabHost(baseUrl)
+  return `${host ? host.origin : 'https://gitlab.com'}/api/v4`
+}
+
+export function getGitLabWebUrl(baseUrl?: string): string {
+  const host = getGitLabHost(baseUrl)
+  return host ? host.origin : 'https://gitlab.com'
+}
+
+// Owner and name of a repository; GitLab owners can be nested groups such as group/subgroup
+export function splitRepositoryName(fullName: string): { owner: string; repo: string } {
+  const separator = fullName.lastIndexOf('/')
+  return { owner: fullName.slice(0, separator), repo: fullName.slice(separator + 1) }
+}
@@ -1,22 +1,46 @@
 import { Octokit } from '@octokit/rest'
-import { GitHubRepository, GitHubIssue, GitHubPullRequest, GitHubTreeItem, JiraIssue, AdoWorkItem } from './types'
+import { GitHubRepository, GitHubIssue, GitHubIssueComment, GitHubCommit, GitHubCommitDetails, GitHubComparison, GitHubPullRequest, GitHubPullRequestFile, GitHubPullRequestReview, GitHubRelease, GitHubTag, GitHubTreeItem, JiraIssue, AdoWorkItem, ServiceNowIncident, ServiceNowJournalEntry, ZendeskComment, ZendeskTicket, Integration, GitHubAuth, Ticket, TicketCommentOptions, TicketDraft, TicketLinkType, TicketProvider, TicketSearchOptions } from './types'
+import { HttpClient } from './http-client'
+import { fnv1a } from './utils'
+import { getAdoOrganization, getAdoProject, getGitHubApiUrl, getGitLabApiUrl, getGitLabWebUrl, splitRepositoryName } from './integration-utils'
+
+// Page number of the rel="next" link in a GitHub Link header, or null on the last page
+function getNextPage(link: string | undefined): number | null {
+  const next = link?.split(',').find(part => /rel="next"/.test(part))
+  const page = next?.match(/[?&]page=(\d+)/)
+  return page ? Number(page[1]) : null
+}
 
 // GitHub Integration Service
 export class GitHubService {
   private octokit: Octokit
+  private isApp: boolean
 
-  constructor(token: string) {
+  // baseUrl selects a GitHub Enterprise Server; defaults to github.com
+  constructor(auth: GitHubAuth, baseUrl?: string) {
+    this.isApp = typeof auth !== 'string'
+    const http = new HttpClient({ key: typeof auth === 'string' ? getTokenMetricsKey('github', auth) : 'github:app', usageResource: 'core' })
     this.octokit = new Octokit({
-      auth: token,
+      auth: typeof auth === 'string' ? auth : undefined,
+      baseUrl: getGitHubApiUrl(baseUrl),
+      request: { fetch: http.fetch },
     })
+
+    // GitHub App installations differ per repository, so each request gets the token of its own
+    if (typeof auth !== 'string') {
+      this.octokit.hook.before('request', async options => {
+        const { owner, repo } = options as { owner?: string; repo?: string }
+        options.headers.authorization = `token ${await auth(owner && repo ? `${owner}/${repo}` : undefined)}`
+      })
+    }
   }
 
   async getRepositories(): Promise<GitHubRepository[]> {
     try {
-      const { data } = await this.octokit.rest.repos.listForAuthenticatedUser({
-        sort: 'updated',
-        per_page: 50,
-      })
+      // An installation has no user; it lists the repositories it was granted instead
+      const data = this.isApp
+        ? (await this.octokit.rest.apps.listReposAccessibleToInstallation({ per_page: 50 })).data.repositories
+        : (await this.octokit.rest.repos.listForAuthenticatedUser({ sort: 'updated', per_page: 50 })).data
       
       return data.map(repo => ({
         id: repo.id,
@@ -34,6 +58,22 @@ export class GitHubService {
     }
   }
 
+  // Core REST API quota; checking it does not count against it
+  async getRateLimit(): Promise<{ limit: number; remaining: number; resetTime: Date }> {
+    try {
+      const { data } = await this.octokit.rest.rateLimit.get()
+
+      return {
+        limit: data.resources.core.limit,
+        remaining: data.resources.core.remaining,
+        resetTime: new Date(data.resources.core.reset * 1000),
+      }
+    } catch (error) {
+      console.error('Error fetching rate limit:', error)
+      throw new Error('Failed to fetch rate limit')
+    }
+  }
+
   async getRepository(owner: string, repo: string): Promise<GitHubRepository | null> {
     try {
       const { data } = await this.octokit.rest.repos.get({
@@ -58,15 +98,132 @@ export class GitHubService {
   }
 
   async getIssues(owner: string, repo: string, state: 'open' | 'closed' | 'all' = 'open'): Promise<GitHubIssue[]> {
+    const { issues } = await this.getIssuesPage(owner, repo, { state, perPage: 50 })
+    return issues
+  }
+
+  /**
+   * One page of a repository's issues, pull requests excluded. With since, only issues
+   * updated after it are listed, least recently updated first, so a capped sync resumes
+   * where it stopped. nextPage comes from the Link header: pages can come back short once
+   * pull requests are filtered out, so their length does not tell whether more follow.
+   */
+  async getIssuesPage(
+    owner: string,
+    repo: string,
+    options: { state?: 'open' | 'closed' | 'all'; since?: Date; page?: number; perPage?: number } = {}
+  ): Promise<{ issues: GitHubIssue[]; nextPage: number | null }> {
     try {
-      const { data } = await this.octokit.rest.issues.listForRepo({
+      const { data, headers } = await this.octokit.rest.issues.listForRepo({
         owner,
         repo,
-        state,
+        state: options.state ?? 'open',
+        since: options.since?.toISOString(),
+        sort: options.since ? 'updated' : 'created',
+        direction: options.since ? 'asc' : 'desc',
+        page: options.page ?? 1,
+        per_page: options.perPage ?? 100,
+      })
+
+      const issues = data
+        .filter(issue => !issue.pull_request)
+        .map(issue => ({
+          id: issue.id,
+          number: issue.number,
+          title: issue.title,
+          body: issue.body || null,
+          state: issue.state as 'open' | 'closed',
+          html_url: issue.html_url,
+          created_at: issue.created_at,
+          updated_at: issue.updated_at,
+          labels: issue.labels.map(label => ({
+            name: typeof label === 'string' ? label : label.name || '',
+            color: typeof label === 'string' ? '' : label.color || '',
+            description: typeof label === 'string' ? null : label.description ?? null,
+          })),
+          author: issue.user ? { login: issue.user.login, avatar_url: issue.user.avatar_url } : undefined,
+          assignees: (issue.assignees || []).map(assignee => assignee.login),
+          milestone: issue.milestone
+            ? { title: issue.milestone.title, description: issue.milestone.description, due_on: issue.milestone.due_on }
+            : null,
+          closed_at: issue.closed_at,
+          comments: issue.comments,
+        }))
+
+      return { issues, nextPage: getNextPage(headers.link) }
+    } catch (error) {
+      console.error('Error fetching issues:', error)
+      throw new Error('Failed to fetch issues')
+    }
+  }
+
+  // Comments on an issue, oldest first
+  async getIssueComments(owner: string, repo: string, issueNumber: number): Promise<GitHubIssueComment[]> {
+    try {
+      const comments = await this.octokit.paginate(this.octokit.rest.issues.listComments, {
+        owner,
+        repo,
+        issue_number: issueNumber,
+        per_page: 100,
+      })
+
+      return comments.map(comment => ({
+        id: comment.id,
+        author: comment.user?.login || 'ghost',
+        body: comment.body || '',
+        html_url: comment.html_url,
+        created_at: comment.created_at,
+        updated_at: comment.updated_at,
+      }))
+    } catch (error) {
+      console.error('Error fetching issue comments:', error)
+      throw new Error('Failed to fetch issue comments')
+    }
+  }
+
+  async getIssue(owner: string, repo: string, issueNumber: number): Promise<GitHubIssue | null> {
+    try {
+      const { data } = await this.octokit.rest.issues.get({
+        owner,
+        repo,
+        issue_number: issueNumber,
+      })
+
+      return {
+        id: data.id,
+        number: data.number,
+        title: data.title,
+        body: data.body || null,
+        state: data.state as 'open' | 'closed',
+        html_url: data.html_url,
+        created_at: data.created_at,
+        updated_at: data.updated_at,
+        labels: data.labels.map(label => ({
+          name: typeof label === 'string' ? label : label.name || '',
+          color: typeof label === 'string' ? '' : label.color || '',
+        })),
+        author: data.user ? { login: data.user.login, avatar_url: data.user.avatar_url } : undefined,
+        assignees: (data.assignees || []).map(assignee => assignee.login),
+        milestone: data.milestone
+          ? { title: data.milestone.title, description: data.milestone.description, due_on: data.milestone.due_on }
+          : null,
+        closed_at: data.closed_at,
+        comments: data.comments,
+      }
+    } catch (error) {
+      console.error('Error fetching issue:', error)
+      return null
+    }
+  }
+
+  async searchIssues(query: string): Promise<Array<GitHubIssue & { repository: string }>> {
+    try {
+      const { data } = await this.octokit.rest.search.issuesAndPullRequests({
+        q: `${query} is:issue`,
         per_page: 50,
       })
 
-      return data.map(issue => ({
+      return data.items.map(issue => ({
         id: issue.id,
         number: issue.number,
         title: issue.title,
@@ -79,20 +236,27 @@ export class GitHubService {
           name: typeof label === 'string' ? label : label.name || '',
           color: typeof label === 'string' ? '' : label.color || '',
         })),
+        repository: issue.repository_url.replace(/^.*\/repos\//, ''),
       }))
     } catch (error) {
-      console.error('Error fetching issues:', error)
-      throw new Error('Failed to fetch issues')
+      console.error('Error searching issues:', error)
+      throw new Error('Failed to search issues')
     }
   }
 
-  async getPullRequests(owner: string, repo: string, state: 'open' | 'closed' | 'all' = 'open'): Promise<GitHubPullRequest[]> {
+  async getPullRequests(
+    owner: string,
+    repo: string,
+    state: 'open' | 'closed' | 'all' = 'open',
+    options: { perPage?: number; sort?: 'created' | 'updated' } = {}
+  ): Promise<GitHubPullRequest[]> {
     try {
       const { data } = await this.octokit.rest.pulls.list({
         owner,
         repo,
         state,
-        per_page: 50,
+        per_page: options.perPage ?? 50,
+        ...(options.sort && { sort: options.sort, direction: 'desc' as const }),
       })
 
       return data.map(pr => ({
@@ -100,7 +264,7 @@ export class GitHubService {
         number: pr.number,
         title: pr.title,
         body: pr.body || null,
-        state: pr.state as 'open' | 'closed' | 'merged',
+        state: pr.merged_at ? 'merged' : pr.state as 'open' | 'closed',
         html_url: pr.html_url,
         created_at: pr.created_at,
         updated_at: pr.updated_at,
@@ -112,6 +276,10 @@ export class GitHubService {
           ref: pr.base.ref,
           sha: pr.base.sha,
         },
+        author: pr.user?.login,
+        draft: pr.draft,
+        merged_at: pr.merged_at,
+        closed_at: pr.closed_at,
       }))
     } catch (error) {
       console.error('Error fetching pull requests:', error)
@@ -119,6 +287,49 @@ export class GitHubService {
     }
   }
 
+  // Files changed by a pull request; GitHub lists at most 3000
+  async getPullRequestFiles(owner: string, repo: string, pullNumber: number): Promise<GitHubPullRequestFile[]> {
+    try {
+      const files = await this.octokit.paginate(this.octokit.rest.pulls.listFiles, {
+        owner,
+        repo,
+        pull_number: pullNumber,
+        per_page: 100,
+      })
+
+      return files.map(file => ({
+        path: file.filename,
+        status: file.status,
+        additions: file.additions,
+        deletions: file.deletions,
+        previousPath: file.previous_filename,
+      }))
+    } catch (error) {
+      console.error('Error fetching pull request files:', error)
+      throw new Error('Failed to fetch pull request files')
+    }
+  }
+
+  async getPullRequestReviews(owner: string, repo: string, pullNumber: number): Promise<GitHubPullRequestReview[]> {
+    try {
+      const reviews = await this.octokit.paginate(this.octokit.rest.pulls.listReviews, {
+        owner,
+        repo,
+        pull_number: pullNumber,
+        per_page: 100,
+      })
+
+      return reviews.map(review => ({
+        reviewer: review.user?.login || 'ghost',
+        state: review.state as GitHubPullRequestReview['state'],
+        submittedAt: review.submitted_at ?? null,
+      }))
+    } catch (error) {
+      console.error('Error fetching pull request reviews:', error)
+      throw new Error('Failed to fetch pull request reviews')
+    }
+  }
+
   async createIssue(owner: string, repo: string, title: string, body: string, labels?: string[]): Promise<GitHubIssue> {
     try {
       const { data } = await this.octokit.rest.issues.create({
@@ -149,6 +360,61 @@ export class GitHubService {
     }
   }
 
+  async createIssueComment(owner: string, repo: string, issueNumber: number, body: string): Promise<GitHubIssueComment> {
+    try {
+      const { data } = await this.octokit.rest.issues.createComment({
+        owner,
+        repo,
+        issue_number: issueNumber,
+        body,
+      })
+
+      return {
+        id: data.id,
+        author: data.user?.login || 'ghost',
+        body: data.body || '',
+        html_url: data.html_url,
+        created_at: data.created_at,
+        updated_at: data.updated_at,
+      }
+    } catch (error) {
+      console.error('Error creating issue comment:', error)
+      throw new Error('Failed to create issue comment')
+    }
+  }
+
+  async updateIssueState(owner: string, repo: string, issueNumber: number, state: 'open' | 'closed'): Promise<GitHubIssue> {
+    try {
+      const { data } = await this.octokit.rest.issues.update({
+        owner,
+        repo,
+        issue_number: issueNumber,
+        state,
+      })
+
+      return {
+        id: data.id,
+        number: data.number,
+        title: data.title,
+        body: data.body || null,
+        state: data.state as 'open' | 'closed',
+        html_url: data.html_url,
+        created_at: data.created_at,
+        updated_at: data.updated_at,
+        labels: data.labels.map(label => ({
+          name: typeof label === 'string' ? label : label.name || '',
+          color: typeof label === 'string' ? '' : label.color || '',
+        })),
+        author: data.user ? { login: data.user.login, avatar_url: data.user.avatar_url } : undefined,
+        assignees: (data.assignees || []).map(assignee => assignee.login),
+        comments: data.comments,
+      }
+    } catch (error) {
+      console.error('Error updating issue state:', error)
+      throw new Error('Failed to update issue state')
+    }
+  }
+
   async getFileContent(ownerOrFullName: string, repoOrPath: string, pathOrRef?: string, ref?: string): Promise<string> {
     let owner: string, repo: string, path: string, refToUse: string | undefined
     
@@ -236,227 +502,2352 @@ export class GitHubService {
       throw new Error('Failed to fetch repository tree')
     }
   }
-}
 
-// JIRA Integration Service
-export class JiraService {
-  private baseUrl: string
-  private auth: string
+  // File content at a ref, or not_modified when it still matches a previously returned ETag
+  async getFileContentIfChanged(
+    repoFullName: string,
+    path: string,
+    ref: string,
+    etag?: string
+  ): Promise<{ status: 'modified'; content: string; etag?: string } | { status: 'not_modified' }> {
+    try {
+      const [owner, repo] = repoFullName.split('/')
 
-  constructor(baseUrl: string, email: string, apiToken: string) {
-    this.baseUrl = baseUrl.replace(/\/$/, '')
-    this.auth = Buffer.from(`${email}:${apiToken}`).toString('base64')
-  }
+      const response = await this.octokit.rest.repos.getContent({
+        owner,
+        repo,
+        path,
+        ref,
+        headers: etag ? { 'if-none-match': etag } : undefined,
+      })
 
-  private async request(endpoint: string, options: RequestInit = {}): Promise<any> {
-    const url = `${this.baseUrl}/rest/api/3${endpoint}`
-    
-    const response = await fetch(url, {
-      ...options,
-      headers: {
-        'Authorization': `Basic ${this.auth}`,
-        'Accept': 'application/json',
-        'Content-Type': 'application/json',
-        ...options.headers,
-      },
-    })
+      if (!('content' in response.data) || typeof response.data.content !== 'string') {
+        throw new Error('File content not found')
+      }
 
-    if (!response.ok) {
-      throw new Error(`JIRA API error: ${response.status} ${response.statusText}`)
+      return {
+        status: 'modified',
+        content: Buffer.from(response.data.content, 'base64').toString('utf-8'),
+        etag: response.headers.etag,
+      }
+    } catch (error) {
+      // Octokit surfaces 304 Not Modified as an error
+      if ((error as { status?: number }).status === 304) {
+        return { status: 'not_modified' }
+      }
+      console.error('Error fetching file content:', error)
+      throw new Error('Failed to fetch file content')
     }
+  }
 
-    return response.json()
+  // SHA of the root tree at the head of a branch, to detect whether anything changed
+  async getBranchTreeSha(repoFullName: string, branch: string): Promise<string> {
+    try {
+      const [owner, repo] = repoFullName.split('/')
+
+      const { data } = await this.octokit.rest.repos.getBranch({
+        owner,
+        repo,
+        branch,
+      })
+
+      return data.commit.commit.tree.sha
+    } catch (error) {
+      console.error('Error fetching branch:', error)
+      throw new Error('Failed to fetch branch')
+    }
   }
 
-  async getIssues(jql: string = 'assignee = currentUser() ORDER BY updated DESC'): Promise<JiraIssue[]> {
+  // Commits reachable from a branch, newest first
+  async getCommits(
+    repoFullName: string,
+    branch: string,
+    options: { since?: Date; perPage?: number; page?: number } = {}
+  ): Promise<GitHubCommit[]> {
     try {
-      const data = await this.request(`/search?jql=${encodeURIComponent(jql)}&maxResults=50`)
-      
-      return data.issues.map((issue: any) => ({
-        id: issue.id,
-        key: issue.key,
-        summary: issue.fields.summary,
-        description: issue.fields.description || '',
-        status: issue.fields.status.name,
-        priority: issue.fields.priority?.name || 'None',
-        assignee: issue.fields.assignee ? {
-          displayName: issue.fields.assignee.displayName,
-          emailAddress: issue.fields.assignee.emailAddress,
-        } : undefined,
-        created: issue.fields.created,
-        updated: issue.fields.updated,
+      const [owner, repo] = repoFullName.split('/')
+
+      const { data } = await this.octokit.rest.repos.listCommits({
+        owner,
+        repo,
+        sha: branch,
+        since: options.since?.toISOString(),
+        per_page: options.perPage ?? 100,
+        page: options.page ?? 1,
+      })
+
+      return data.map(commit => ({
+        sha: commit.sha,
+        message: commit.commit.message,
+        author: {
+          name: commit.commit.author?.name || commit.author?.login || 'unknown',
+          email: commit.commit.author?.email ?? null,
+          login: commit.author?.login ?? null,
+        },
+        date: commit.commit.author?.date || commit.commit.committer?.date || new Date(0).toISOString(),
+        html_url: commit.html_url,
       }))
     } catch (error) {
-      console.error('Error fetching JIRA issues:', error)
-      throw new Error('Failed to fetch JIRA issues')
+      console.error('Error fetching commits:', error)
+      throw new Error('Failed to fetch commits')
     }
   }
 
-  async createIssue(projectKey: string, summary: string, description: string, issueType: string = 'Task'): Promise<JiraIssue> {
+  // A commit with the files it changed
+  async getCommit(repoFullName: string, sha: string): Promise<GitHubCommitDetails> {
     try {
-      const data = await this.request('/issue', {
-        method: 'POST',
-        body: JSON.stringify({
-          fields: {
-            project: { key: projectKey },
-            summary,
-            description: {
-              type: 'doc',
-              version: 1,
-              content: [
-                {
-                  type: 'paragraph',
-                  content: [{ type: 'text', text: description }],
-                },
-              ],
-            },
-            issuetype: { name: issueType },
-          },
-        }),
+      const [owner, repo] = repoFullName.split('/')
+
+      const { data } = await this.octokit.rest.repos.getCommit({
+        owner,
+        repo,
+        ref: sha,
       })
 
-      // Fetch the created issue to get full details
-      const issueData = await this.request(`/issue/${data.key}`)
-      
       return {
-        id: issueData.id,
-        key: issueData.key,
-        summary: issueData.fields.summary,
-        description: issueData.fields.description || '',
-        status: issueData.fields.status.name,
-        priority: issueData.fields.priority?.name || 'None',
-        assignee: issueData.fields.assignee ? {
-          displayName: issueData.fields.assignee.displayName,
-          emailAddress: issueData.fields.assignee.emailAddress,
-        } : undefined,
-        created: issueData.fields.created,
-        updated: issueData.fields.updated,
+        sha: data.sha,
+        message: data.commit.message,
+        author: {
+          name: data.commit.author?.name || data.author?.login || 'unknown',
+          email: data.commit.author?.email ?? null,
+          login: data.author?.login ?? null,
+        },
+        date: data.commit.author?.date || data.commit.committer?.date || new Date(0).toISOString(),
+        html_url: data.html_url,
+        files: (data.files || []).map(file => ({
+          path: file.filename,
+          status: file.status,
+          additions: file.additions,
+          deletions: file.deletions,
+          previousPath: file.previous_filename,
+        })),
+        additions: data.stats?.additions ?? 0,
+        deletions: data.stats?.deletions ?? 0,
       }
     } catch (error) {
-      console.error('Error creating JIRA issue:', error)
-      throw new Error('Failed to create JIRA issue')
+      console.error('Error fetching commit:', error)
+      throw new Error('Failed to fetch commit')
     }
   }
-}
-
-// Azure DevOps Integration Service
-export class AdoService {
-  private baseUrl: string
-  private auth: string
 
-  constructor(organization: string, personalAccessToken: string) {
-    this.baseUrl = `https://dev.azure.com/${organization}`
-    this.auth = Buffer.from(`:${personalAccessToken}`).toString('base64')
-  }
+  // Published and draft releases, newest first
+  async getReleases(repoFullName: string, options: { perPage?: number } = {}): Promise<GitHubRelease[]> {
+    try {
+      const [owner, repo] = repoFullName.split('/')
 
-  private async request(endpoint: string, options: RequestInit = {}): Promise<any> {
-    const url = `${this.baseUrl}${endpoint}`
-    
-    const response = await fetch(url, {
-      ...options,
-      headers: {
-        'Authorization': `Basic ${this.auth}`,
-        'Accept': 'application/json',
-        'Content-Type': 'application/json',
-        ...options.headers,
-      },
-    })
+      const { data } = await this.octokit.rest.repos.listReleases({
+        owner,
+        repo,
+        per_page: options.perPage ?? 30,
+      })
 
-    if (!response.ok) {
-      throw new Error(`ADO API error: ${response.status} ${response.statusText}`)
+      return data.map(release => ({
+        id: release.id,
+        tag_name: release.tag_name,
+        name: release.name,
+        body: release.body ?? null,
+        draft: release.draft,
+        prerelease: release.prerelease,
+        created_at: release.created_at,
+        published_at: release.published_at,
+        html_url: release.html_url,
+      }))
+    } catch (error) {
+      console.error('Error fetching releases:', error)
+      throw new Error('Failed to fetch releases')
+    }
+  }
+
+  async getTags(repoFullName: string, options: { perPage?: number } = {}): Promise<GitHubTag[]> {
+    try {
+      const [owner, repo] = repoFullName.split('/')
+
+      const { data } = await this.octokit.rest.repos.listTags({
+        owner,
+        repo,
+        per_page: options.perPage ?? 100,
+      })
+
+      return data.map(tag => ({
+        name: tag.name,
+        sha: tag.commit.sha,
+      }))
+    } catch (error) {
+      console.error('Error fetching tags:', error)
+      throw new Error('Failed to fetch tags')
+    }
+  }
+
+  // Commits reachable from head but not from base, with the files they changed
+  async compareCommits(repoFullName: string, base: string, head: string): Promise<GitHubComparison> {
+    try {
+      const [owner, repo] = repoFullName.split('/')
+
+      const { data } = await this.octokit.rest.repos.compareCommitsWithBasehead({
+        owner,
+        repo,
+        basehead: `${base}...${head}`,
+      })
+
+      return {
+        commits: data.commits.map(commit => ({
+          sha: commit.sha,
+          message: commit.commit.message,
+          author: {
+            name: commit.commit.author?.name || commit.author?.login || 'unknown',
+            email: commit.commit.author?.email ?? null,
+            login: commit.author?.login ?? null,
+          },
+          date: commit.commit.author?.date || commit.commit.committer?.date || new Date(0).toISOString(),
+          html_url: commit.html_url,
+        })),
+        files: (data.files || []).map(file => ({
+          path: file.filename,
+          status: file.status,
+          additions: file.additions,
+          deletions: file.deletions,
+          previousPath: file.previous_filename,
+        })),
+        totalCommits: data.total_commits,
+      }
+    } catch (error) {
+      console.error('Error comparing commits:', error)
+      throw new Error('Failed to compare commits')
+    }
+  }
+
+  // Names of all branches, to resolve branch patterns such as "release/*"
+  async getBranches(repoFullName: string): Promise<string[]> {
+    try {
+      const [owner, repo] = repoFullName.split('/')
+
+      const branches = await this.octokit.paginate(this.octokit.rest.repos.listBranches, {
+        owner,
+        repo,
+        per_page: 100,
+      })
+
+      return branches.map(branch => branch.name)
+    } catch (error) {
+      console.error('Error fetching branches:', error)
+      throw new Error('Failed to fetch branches')
+    }
+  }
+
+  // Blob content by SHA, as listed in a repository tree
+  async getBlobContent(repoFullName: string, sha: string): Promise<string> {
+    try {
+      const [owner, repo] = repoFullName.split('/')
+
+      const { data } = await this.octokit.rest.git.getBlob({
+        owner,
+        repo,
+        file_sha: sha,
+      })
+
+      return Buffer.from(data.content, data.encoding === 'base64' ? 'base64' : 'utf-8').toString('utf-8')
+    } catch (error) {
+      console.error('Error fetching blob content:', error)
+      throw new Error('Failed to fetch blob content')
+    }
+  }
+}
+
+// GitLab API payloads, as far as they are mapped
+interface GitLabProject {
+  id: number
+  path: string
+  path_with_namespace: string
+  description: string | null
+  web_url: string
+  http_url_to_repo: string
+  default_branch?: string | null // Unset on empty projects
+  visibility?: 'private' | 'internal' | 'public'
+  star_count?: number
+  forks_count?: number
+}
+
+interface GitLabUser {
+  username: string
+  avatar_url?: string | null
+}
+
+interface GitLabIssue {
+  id: number
+  iid: number
+  title: string
+  description: string | null
+  state: 'opened' | 'closed'
+  web_url: string
+  created_at: string
+  updated_at: string
+  closed_at?: string | null
+  labels: Array<string | { name: string; color: string; description?: string | null }> // Objects with with_labels_details
+  author?: GitLabUser
+  assignees?: GitLabUser[]
+  milestone?: { title: string; description: string | null; due_date: string | null } | null
+  user_notes_count?: number
+  references?: { full: string } // group/project#iid
+}
+
+interface GitLabNote {
+  id: number
+  body: string
+  system: boolean // Activity such as label changes, not a comment
+  author?: GitLabUser
+  created_at: string
+  updated_at: string
+}
+
+interface GitLabMergeRequest {
+  id: number
+  iid: number
+  title: string
+  description: string | null
+  state: 'opened' | 'closed' | 'merged' | 'locked'
+  web_url: string
+  created_at: string
+  updated_at: string
+  source_branch: string
+  target_branch: string
+  sha: string
+  diff_refs?: { base_sha: string } | null
+  author?: GitLabUser
+  draft?: boolean
+  merged_at?: string | null
+  closed_at?: string | null
+}
+
+interface GitLabDiff {
+  old_path: string
+  new_path: string
+  new_file: boolean
+  renamed_file: boolean
+  deleted_file: boolean
+  diff: string
+}
+
+interface GitLabCommit {
+  id: string
+  message: string
+  author_name: string
+  author_email: string | null
+  authored_date: string
+  web_url: string
+  stats?: { additions: number; deletions: number }
+}
+
+interface GitLabRelease {
+  tag_name: string
+  name: string | null
+  description: string | null
+  created_at: string
+  released_at: string | null
+  upcoming_release?: boolean
+  _links?: { self?: string }
+}
+
+interface GitLabTreeEntry {
+  id: string
+  path: string
+  mode: string
+  type: 'blob' | 'tree' | 'commit' // commit is a submodule
+}
+
+// Added and removed lines of a GitLab diff, which starts at the first hunk rather than the file headers
+function countDiffLines(diff: string): { additions: number; deletions: number } {
+  const lines = diff.split('\n')
+  return {
+    additions: lines.filter(line => line.startsWith('+')).length,
+    deletions: lines.filter(line => line.startsWith('-')).length,
+  }
+}
+
+function gitlabDiffToFile(diff: GitLabDiff): GitHubPullRequestFile {
+  return {
+    path: diff.new_path,
+    status: diff.new_file ? 'added' : diff.deleted_file ? 'removed' : diff.renamed_file ? 'renamed' : 'modified',
+    ...countDiffLines(diff.diff),
+    previousPath: diff.renamed_file ? diff.old_path : undefined,
+  }
+}
+
+function gitlabProjectToRepository(project: GitLabProject): GitHubRepository {
+  return {
+    id: -project.id,
+    name: project.path,
+    full_name: project.path_with_namespace,
+    description: project.description,
+    html_url: project.web_url,
+    clone_url: project.http_url_to_repo,
+    default_branch: project.default_branch || 'main',
+    private: project.visibility !== 'public',
+    stargazers_count: project.star_count,
+    forks_count: project.forks_count,
+    host: 'gitlab',
+  }
+}
+
+function gitlabIssueToIssue(issue: GitLabIssue): GitHubIssue {
+  return {
+    id: issue.id,
+    number: issue.iid,
+    title: issue.title,
+    body: issue.description || null,
+    state: issue.state === 'opened' ? 'open' : 'closed',
+    html_url: issue.web_url,
+    created_at: issue.created_at,
+    updated_at: issue.updated_at,
+    labels: issue.labels.map(label => typeof label === 'string'
+      ? { name: label, color: '' }
+      : { name: label.name, color: label.color.replace(/^#/, ''), description: label.description ?? null }),
+    author: issue.author ? { login: issue.author.username, avatar_url: issue.author.avatar_url || '' } : undefined,
+    assignees: (issue.assignees || []).map(assignee => assignee.username),
+    milestone: issue.milestone
+      ? { title: issue.milestone.title, description: issue.milestone.description, due_on: issue.milestone.due_date }
+      : null,
+    closed_at: issue.closed_at,
+    comments: issue.user_notes_count,
+  }
+}
+
+function gitlabMergeRequestToPullRequest(mr: GitLabMergeRequest): GitHubPullRequest {
+  return {
+    id: mr.id,
+    number: mr.iid,
+    title: mr.title,
+    body: mr.description || null,
+    state: mr.state === 'merged' ? 'merged' : mr.state === 'opened' ? 'open' : 'closed',
+    html_url: mr.web_url,
+    created_at: mr.created_at,
+    updated_at: mr.updated_at,
+    head: {
+      ref: mr.source_branch,
+      sha: mr.sha,
+    },
+    base: {
+      ref: mr.target_branch,
+      sha: mr.diff_refs?.base_sha || '',
+    },
+    author: mr.author?.username,
+    draft: mr.draft,
+    merged_at: mr.merged_at,
+    closed_at: mr.closed_at,
+  }
+}
+
+function gitlabCommitToCommit(commit: GitLabCommit): GitHubCommit {
+  return {
+    sha: commit.id,
+    message: commit.message,
+    author: {
+      name: commit.author_name || 'unknown',
+      email: commit.author_email || null,
+      login: null, // GitLab commits are not linked to accounts
+    },
+    date: commit.authored_date,
+    html_url: commit.web_url,
+  }
+}
+
+// The GitHubService methods the sync layer, code search and ticket providers rely on
+export type CodeHostService = Pick<GitHubService, keyof GitHubService>
+
+// GitHub credentials, or the service of another code host
+export type CodeHostAuth = GitHubAuth | CodeHostService
+
+export function createCodeHostService(auth: CodeHostAuth, baseUrl?: string): CodeHostService {
+  return typeof auth === 'object' ? auth : new GitHubService(auth, baseUrl)
+}
+
+/**
+ * GitLab Integration Service, with the methods of GitHubService and GitHub-shaped results, so
+ * GitLab projects sync into the same tables and are searched the same way. Merge requests
+ * are pull requests and project paths may include nested groups: owner is then the full
+ * group path. Project IDs are negated, see GitHubRepository.
+ */
+export class GitLabService implements CodeHostService {
+  private apiUrl: string
+  private webUrl: string
+  private http: HttpClient
+  private rateLimit: { limit: number; remaining: number; resetTime: Date } | null = null
+
+  // baseUrl selects a self-managed instance; defaults to gitlab.com
+  constructor(private token: string, baseUrl?: string) {
+    this.apiUrl = getGitLabApiUrl(baseUrl)
+    this.webUrl = getGitLabWebUrl(baseUrl)
+    this.http = new HttpClient({ key: getTokenMetricsKey('gitlab', token) })
+  }
+
+  private async send(endpoint: string, options: RequestInit = {}): Promise<Response> {
+    const response = await this.http.fetch(`${this.apiUrl}${endpoint}`, {
+      ...options,
+      headers: {
+        'PRIVATE-TOKEN': this.token,
+        'Content-Type': 'application/json',
+        ...options.headers,
+      },
+    })
+
+    const limit = Number(response.headers.get('ratelimit-limit'))
+    const remaining = response.headers.get('ratelimit-remaining')
+    if (limit > 0 && remaining !== null) {
+      const reset = Number(response.headers.get('ratelimit-reset'))
+      this.rateLimit = { limit, remaining: Number(remaining), resetTime: new Date(reset > 0 ? reset * 1000 : Date.now()) }
+    }
+
+    if (!response.ok) {
+      throw Object.assign(new Error(`GitLab API error: ${response.status} ${response.statusText}`), { status: response.status })
+    }
+    return response
+  }
+
+  // JSON response and the page after it, from the X-Next-Page header
+  private async request<T>(endpoint: string, options: RequestInit = {}): Promise<{ data: T; nextPage: number | null }> {
+    const response = await this.send(endpoint, options)
+    return { data: await response.json(), nextPage: Number(response.headers.get('x-next-page')) || null }
+  }
+
+  private async paginate<T>(endpoint: string): Promise<T[]> {
+    const items: T[] = []
+    const separator = endpoint.includes('?') ? '&' : '?'
+    for (let page: number | null = 1; page; ) {
+      const { data, nextPage }: { data: T[]; nextPage: number | null } = await this.request<T[]>(`${endpoint}${separator}per_page=100&page=${page}`)
+      items.push(...data)
+      page = nextPage
+    }
+    return items
+  }
+
+  // Projects are addressed by their URL-encoded path
+  private project(owner: string, repo?: string): string {
+    return `/projects/${encodeURIComponent(repo === undefined ? owner : `${owner}/${repo}`)}`
+  }
+
+  async getRepositories(): Promise<GitHubRepository[]> {
+    try {
+      const { data } = await this.request<GitLabProject[]>('/projects?membership=true&order_by=last_activity_at&per_page=50')
+      return data.map(gitlabProjectToRepository)
+    } catch (error) {
+      console.error('Error fetching repositories:', error)
+      throw new Error('Failed to fetch repositories')
+    }
+  }
+
+  // GitLab has no quota endpoint; this is the quota of the latest response, if it reported one
+  async getRateLimit(): Promise<{ limit: number; remaining: number; resetTime: Date }> {
+    return this.rateLimit ?? { limit: Infinity, remaining: Infinity, resetTime: new Date() }
+  }
+
+  async getRepository(owner: string, repo: string): Promise<GitHubRepository | null> {
+    try {
+      const { data } = await this.request<GitLabProject>(this.project(owner, repo))
+      return gitlabProjectToRepository(data)
+    } catch (error) {
+      console.error('Error fetching repository:', error)
+      return null
+    }
+  }
+
+  async getIssues(owner: string, repo: string, state: 'open' | 'closed' | 'all' = 'open'): Promise<GitHubIssue[]> {
+    const { issues } = await this.getIssuesPage(owner, repo, { state, perPage: 50 })
+    return issues
+  }
+
+  // One page of a project's issues; with since, only those updated after it, least recently updated first
+  async getIssuesPage(
+    owner: string,
+    repo: string,
+    options: { state?: 'open' | 'closed' | 'all'; since?: Date; page?: number; perPage?: number } = {}
+  ): Promise<{ issues: GitHubIssue[]; nextPage: number | null }> {
+    try {
+      const state = options.state ?? 'open'
+      const params = new URLSearchParams({
+        state: state === 'open' ? 'opened' : state,
+        order_by: options.since ? 'updated_at' : 'created_at',
+        sort: options.since ? 'asc' : 'desc',
+        with_labels_details: 'true',
+        page: String(options.page ?? 1),
+        per_page: String(options.perPage ?? 100),
+      })
+      if (options.since) params.set('updated_after', options.since.toISOString())
+
+      const { data, nextPage } = await this.request<GitLabIssue[]>(`${this.project(owner, repo)}/issues?${params}`)
+      return { issues: data.map(gitlabIssueToIssue), nextPage }
+    } catch (error) {
+      console.error('Error fetching issues:', error)
+      throw new Error('Failed to fetch issues')
+    }
+  }
+
+  // Comments on an issue, oldest first, without system notes
+  async getIssueComments(owner: string, repo: string, issueNumber: number): Promise<GitHubIssueComment[]> {
+    try {
+      const notes = await this.paginate<GitLabNote>(`${this.project(owner, repo)}/issues/${issueNumber}/notes?sort=asc&order_by=created_at`)
+
+      return notes
+        .filter(note => !note.system)
+        .map(note => ({
+          id: note.id,
+          author: note.author?.username || 'ghost',
+          body: note.body,
+          html_url: `${this.webUrl}/${owner}/${repo}/-/issues/${issueNumber}#note_${note.id}`,
+          created_at: note.created_at,
+          updated_at: note.updated_at,
+        }))
+    } catch (error) {
+      console.error('Error fetching issue comments:', error)
+      throw new Error('Failed to fetch issue comments')
+    }
+  }
+
+  async getIssue(owner: string, repo: string, issueNumber: number): Promise<GitHubIssue | null> {
+    try {
+      const { data } = await this.request<GitLabIssue>(`${this.project(owner, repo)}/issues/${issueNumber}?with_labels_details=true`)
+      return gitlabIssueToIssue(data)
+    } catch (error) {
+      console.error('Error fetching issue:', error)
+      return null
+    }
+  }
+
+  // Issues whose title or description contains query, in a project or group when given, or anywhere the token can see
+  async searchIssues(query: string, options: { project?: string; group?: string } = {}): Promise<Array<GitHubIssue & { repository: string }>> {
+    try {
+      const { project, group } = options
+      const params = new URLSearchParams({ scope: 'all', order_by: 'updated_at', with_labels_details: 'true', per_page: '50' })
+      if (query) params.set('search', query)
+      const scope = project ? this.project(project) : group ? `/groups/${encodeURIComponent(group)}` : ''
+      const { data } = await this.request<GitLabIssue[]>(`${scope}/issues?${params}`)
+
+      return data.map(issue => ({
+        ...gitlabIssueToIssue(issue),
+        repository: issue.references?.full.replace(/#\d+$/, '') || project || '',
+      }))
+    } catch (error) {
+      console.error('Error searching issues:', error)
+      throw new Error('Failed to search issues')
+    }
+  }
+
+  // Merge requests; closed includes merged ones, as on GitHub
+  async getPullRequests(
+    owner: string,
+    repo: string,
+    state: 'open' | 'closed' | 'all' = 'open',
+    options: { perPage?: number; sort?: 'created' | 'updated' } = {}
+  ): Promise<GitHubPullRequest[]> {
+    try {
+      const params = new URLSearchParams({
+        state: state === 'open' ? 'opened' : 'all',
+        order_by: options.sort === 'updated' ? 'updated_at' : 'created_at',
+        sort: 'desc',
+        per_page: String(options.perPage ?? 50),
+      })
+      const { data } = await this.request<GitLabMergeRequest[]>(`${this.project(owner, repo)}/merge_requests?${params}`)
+
+      const pullRequests = data.map(gitlabMergeRequestToPullRequest)
+      return state === 'closed' ? pullRequests.filter(pr => pr.state !== 'open') : pullRequests
+    } catch (error) {
+      console.error('Error fetching pull requests:', error)
+      throw new Error('Failed to fetch pull requests')
+    }
+  }
+
+  async getPullRequestFiles(owner: string, repo: string, pullNumber: number): Promise<GitHubPullRequestFile[]> {
+    try {
+      const diffs = await this.paginate<GitLabDiff>(`${this.project(owner, repo)}/merge_requests/${pullNumber}/diffs`)
+      return diffs.map(gitlabDiffToFile)
+    } catch (error) {
+      console.error('Error fetching pull request files:', error)
+      throw new Error('Failed to fetch pull request files')
+    }
+  }
+
+  // GitLab merge requests are approved rather than reviewed; approvals are the reviews
+  async getPullRequestReviews(owner: string, repo: string, pullNumber: number): Promise<GitHubPullRequestReview[]> {
+    try {
+      const { data } = await this.request<{ approved_by?: Array<{ user: GitLabUser }> }>(
+        `${this.project(owner, repo)}/merge_requests/${pullNumber}/approvals`
+      )
+
+      return (data.approved_by || []).map(approval => ({
+        reviewer: approval.user.username,
+        state: 'APPROVED',
+        submittedAt: null,
+      }))
+    } catch (error) {
+      console.error('Error fetching pull request reviews:', error)
+      throw new Error('Failed to fetch pull request reviews')
+    }
+  }
+
+  async createIssue(owner: string, repo: string, title: string, body: string, labels?: string[]): Promise<GitHubIssue> {
+    try {
+      const { data } = await this.request<GitLabIssue>(`${this.project(owner, repo)}/issues`, {
+        method: 'POST',
+        body: JSON.stringify({ title, description: body, labels: labels?.join(',') }),
+      })
+      return gitlabIssueToIssue(data)
+    } catch (error) {
+      console.error('Error creating issue:', error)
+      throw new Error('Failed to create issue')
+    }
+  }
+
+  async createIssueComment(owner: string, repo: string, issueNumber: number, body: string): Promise<GitHubIssueComment> {
+    try {
+      const { data } = await this.request<GitLabNote>(`${this.project(owner, repo)}/issues/${issueNumber}/notes`, {
+        method: 'POST',
+        body: JSON.stringify({ body }),
+      })
+
+      return {
+        id: data.id,
+        author: data.author?.username || 'ghost',
+        body: data.body,
+        html_url: `${this.webUrl}/${owner}/${repo}/-/issues/${issueNumber}#note_${data.id}`,
+        created_at: data.created_at,
+        updated_at: data.updated_at,
+      }
+    } catch (error) {
+      console.error('Error creating issue comment:', error)
+      throw new Error('Failed to create issue comment')
+    }
+  }
+
+  async updateIssueState(owner: string, repo: string, issueNumber: number, state: 'open' | 'closed'): Promise<GitHubIssue> {
+    try {
+      const { data } = await this.request<GitLabIssue>(`${this.project(owner, repo)}/issues/${issueNumber}`, {
+        method: 'PUT',
+        body: JSON.stringify({ state_event: state === 'open' ? 'reopen' : 'close' }),
+      })
+      return gitlabIssueToIssue(data)
+    } catch (error) {
+      console.error('Error updating issue state:', error)
+      throw new Error('Failed to update issue state')
+    }
+  }
+
+  // Links two issues; blocks needs GitLab Premium
+  async linkIssues(fullName: string, issueNumber: number, targetFullName: string, targetNumber: number, linkType: 'relates_to' | 'blocks'): Promise<void> {
+    try {
+      const params = new URLSearchParams({
+        target_project_id: targetFullName,
+        target_issue_iid: String(targetNumber),
+        link_type: linkType,
+      })
+      await this.send(`${this.project(fullName)}/issues/${issueNumber}/links?${params}`, { method: 'POST' })
+    } catch (error) {
+      console.error('Error linking issues:', error)
+      throw new Error('Failed to link issues')
+    }
+  }
+
+  async getFileContent(ownerOrFullName: string, repoOrPath: string, pathOrRef?: string, ref?: string): Promise<string> {
+    // Called with (owner, repo, path, ref) or (repoFullName, path, ref)
+    const [project, path, refToUse] = pathOrRef && ref !== undefined
+      ? [this.project(ownerOrFullName, repoOrPath), pathOrRef, ref]
+      : [this.project(ownerOrFullName), repoOrPath, pathOrRef]
+
+    const fetchContent = async (ref: string | undefined) => {
+      const query = ref ? `?ref=${encodeURIComponent(ref)}` : ''
+      const response = await this.send(`${project}/repository/files/${encodeURIComponent(path)}/raw${query}`)
+      return response.text()
+    }
+
+    try {
+      // Without a ref, or when the file is not at it, GitLab reads the default branch
+      if (refToUse) {
+        try {
+          return await fetchContent(refToUse)
+        } catch (error) {
+          if ((error as { status?: number }).status !== 404) throw error
+        }
+      }
+      return await fetchContent(undefined)
+    } catch (error) {
+      console.error('Error fetching file content:', error)
+      if ((error as { status?: number }).status === 404) {
+        throw new Error(`File not found at path: ${path}${refToUse ? ` (ref: ${refToUse})` : ''}`)
+      }
+      throw new Error(`Failed to fetch file content: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  // Blobs and directories of a branch; GitLab lists no sizes, and submodules are left out
+  async getRepositoryTree(repoFullName: string, branch: string = 'main'): Promise<GitHubTreeItem[]> {
+    try {
+      const entries = await this.paginate<GitLabTreeEntry>(`${this.project(repoFullName)}/repository/tree?recursive=true&ref=${encodeURIComponent(branch)}`)
+
+      return entries
+        .filter(entry => entry.type !== 'commit')
+        .map(entry => ({
+          path: entry.path,
+          mode: entry.mode,
+          type: entry.type as 'blob' | 'tree',
+          sha: entry.id,
+          url: `${this.apiUrl}${this.project(repoFullName)}/repository/blobs/${entry.id}/raw`,
+        }))
+    } catch (error) {
+      console.error('Error fetching repository tree:', error)
+      throw new Error('Failed to fetch repository tree')
+    }
+  }
+
+  // File content at a ref, or not_modified when its blob is still the one returned as the ETag before
+  async getFileContentIfChanged(
+    repoFullName: string,
+    path: string,
+    ref: string,
+    etag?: string
+  ): Promise<{ status: 'modified'; content: string; etag?: string } | { status: 'not_modified' }> {
+    try {
+      const file = `${this.project(repoFullName)}/repository/files/${encodeURIComponent(path)}`
+      const query = `?ref=${encodeURIComponent(ref)}`
+
+      // A HEAD request reports the blob without its content
+      const head = await this.send(`${file}${query}`, { method: 'HEAD' })
+      const blobId = head.headers.get('x-gitlab-blob-id') || undefined
+      if (etag && blobId === etag) {
+        return { status: 'not_modified' }
+      }
+
+      const response = await this.send(`${file}/raw${query}`)
+      return { status: 'modified', content: await response.text(), etag: blobId }
+    } catch (error) {
+      console.error('Error fetching file content:', error)
+      throw new Error('Failed to fetch file content')
+    }
+  }
+
+  // GitLab exposes no tree SHAs; the head commit of the branch changes whenever its tree does
+  async getBranchTreeSha(repoFullName: string, branch: string): Promise<string> {
+    try {
+      const { data } = await this.request<{ commit: { id: string } }>(`${this.project(repoFullName)}/repository/branches/${encodeURIComponent(branch)}`)
+      return data.commit.id
+    } catch (error) {
+      console.error('Error fetching branch:', error)
+      throw new Error('Failed to fetch branch')
+    }
+  }
+
+  async getCommits(
+    repoFullName: string,
+    branch: string,
+    options: { since?: Date; perPage?: number; page?: number } = {}
+  ): Promise<GitHubCommit[]> {
+    try {
+      const params = new URLSearchParams({
+        ref_name: branch,
+        per_page: String(options.perPage ?? 100),
+        page: String(options.page ?? 1),
+      })
+      if (options.since) params.set('since', options.since.toISOString())
+
+      const { data } = await this.request<GitLabCommit[]>(`${this.project(repoFullName)}/repository/commits?${params}`)
+      return data.map(gitlabCommitToCommit)
+    } catch (error) {
+      console.error('Error fetching commits:', error)
+      throw new Error('Failed to fetch commits')
+    }
+  }
+
+  async getCommit(repoFullName: string, sha: string): Promise<GitHubCommitDetails> {
+    try {
+      const commitPath = `${this.project(repoFullName)}/repository/commits/${encodeURIComponent(sha)}`
+      const [{ data }, diffs] = await Promise.all([
+        this.request<GitLabCommit>(commitPath),
+        this.paginate<GitLabDiff>(`${commitPath}/diff`),
+      ])
+
+      return {
+        ...gitlabCommitToCommit(data),
+        files: diffs.map(gitlabDiffToFile),
+        additions: data.stats?.additions ?? 0,
+        deletions: data.stats?.deletions ?? 0,
+      }
+    } catch (error) {
+      console.error('Error fetching commit:', error)
+      throw new Error('Failed to fetch commit')
+    }
+  }
+
+  // Releases, newest first; GitLab has no drafts, and lists upcoming releases as prereleases
+  async getReleases(repoFullName: string, options: { perPage?: number } = {}): Promise<GitHubRelease[]> {
+    try {
+      const { data } = await this.request<GitLabRelease[]>(`${this.project(repoFullName)}/releases?per_page=${options.perPage ?? 30}`)
+
+      return data.map(release => ({
+        id: 0, // GitLab identifies releases by their tag alone
+        tag_name: release.tag_name,
+        name: release.name,
+        body: release.description,
+        draft: false,
+        prerelease: release.upcoming_release ?? false,
+        created_at: release.created_at,
+        published_at: release.released_at,
+        html_url: release._links?.self || `${this.webUrl}/${repoFullName}/-/releases/${encodeURIComponent(release.tag_name)}`,
+      }))
+    } catch (error) {
+      console.error('Error fetching releases:', error)
+      throw new Error('Failed to fetch releases')
+    }
+  }
+
+  async getTags(repoFullName: string, options: { perPage?: number } = {}): Promise<GitHubTag[]> {
+    try {
+      const { data } = await this.request<Array<{ name: string; commit: { id: string } }>>(
+        `${this.project(repoFullName)}/repository/tags?per_page=${options.perPage ?? 100}`
+      )
+      return data.map(tag => ({ name: tag.name, sha: tag.commit.id }))
+    } catch (error) {
+      console.error('Error fetching tags:', error)
+      throw new Error('Failed to fetch tags')
+    }
+  }
+
+  async compareCommits(repoFullName: string, base: string, head: string): Promise<GitHubComparison> {
+    try {
+      const params = new URLSearchParams({ from: base, to: head })
+      const { data } = await this.request<{ commits: GitLabCommit[]; diffs: GitLabDiff[] }>(`${this.project(repoFullName)}/repository/compare?${params}`)
+
+      return {
+        commits: data.commits.map(gitlabCommitToCommit),
+        files: data.diffs.map(gitlabDiffToFile),
+        totalCommits: data.commits.length,
+      }
+    } catch (error) {
+      console.error('Error comparing commits:', error)
+      throw new Error('Failed to compare commits')
+    }
+  }
+
+  async getBranches(repoFullName: string): Promise<string[]> {
+    try {
+      const branches = await this.paginate<{ name: string }>(`${this.project(repoFullName)}/repository/branches`)
+      return branches.map(branch => branch.name)
+    } catch (error) {
+      console.error('Error fetching branches:', error)
+      throw new Error('Failed to fetch branches')
+    }
+  }
+
+  async getBlobContent(repoFullName: string, sha: string): Promise<string> {
+    try {
+      const response = await this.send(`${this.project(repoFullName)}/repository/blobs/${encodeURIComponent(sha)}/raw`)
+      return response.text()
+    } catch (error) {
+      console.error('Error fetching blob content:', error)
+      throw new Error('Failed to fetch blob content')
+    }
+  }
+}
+
+// Fields mapped into JiraIssue; search only returns the fields it is asked for
+const JIRA_ISSUE_FIELDS = 'summary,description,status,priority,issuetype,assignee,created,updated,labels,comment'
+
+// API v3 returns rich text as Atlassian Document Format; flatten it to plain text
+interface AdfNode {
+  type?: string
+  text?: string
+  content?: AdfNode[]
+}
+
+function adfToText(node: AdfNode | string | null | undefined): string {
+  if (!node) return ''
+  if (typeof node === 'string') return node
+  if (node.type === 'text') return node.text || ''
+  const children = Array.isArray(node.content) ? node.content.map(adfToText) : []
+  return children.join(node.type === 'doc' ? '\n' : node.type === 'paragraph' ? '' : ' ').trim()
+}
+
+// Plain text as an Atlassian Document Format document, one paragraph per line
+function textToAdf(text: string): AdfNode & { version: number } {
+  return {
+    type: 'doc',
+    version: 1,
+    content: text.split('\n').map(line => ({
+      type: 'paragraph',
+      content: line ? [{ type: 'text', text: line }] : [],
+    })),
+  }
+}
+
+// JIRA Integration Service
+export class JiraService {
+  private baseUrl: string
+  private auth: string
+  private http: HttpClient
+
+  constructor(baseUrl: string, email: string, apiToken: string) {
+    this.baseUrl = baseUrl.replace(/\/$/, '')
+    this.auth = Buffer.from(`${email}:${apiToken}`).toString('base64')
+    this.http = new HttpClient({ key: `jira:${this.baseUrl}` })
+  }
+
+  private async request(endpoint: string, options: RequestInit = {}): Promise<any> {
+    const url = `${this.baseUrl}/rest/api/3${endpoint}`
+    
+    const response = await this.http.fetch(url, {
+      ...options,
+      headers: {
+        'Authorization': `Basic ${this.auth}`,
+        'Accept': 'application/json',
+        'Content-Type': 'application/json',
+        ...options.headers,
+      },
+    })
+
+    if (!response.ok) {
+      throw new Error(`JIRA API error: ${response.status} ${response.statusText}`)
+    }
+
+    // Transitions and issue links answer with no content
+    const text = await response.text()
+    return text ? JSON.parse(text) : null
+  }
+
+  async getIssues(jql: string = 'assignee = currentUser() ORDER BY updated DESC'): Promise<JiraIssue[]> {
+    try {
+      const data = await this.request(`/search?jql=${encodeURIComponent(jql)}&maxResults=50&fields=${JIRA_ISSUE_FIELDS}`)
+      
+      return data.issues.map((issue: any) => ({
+        id: issue.id,
+        key: issue.key,
+        summary: issue.fields.summary,
+        description: adfToText(issue.fields.description),
+        status: issue.fields.status.name,
+        priority: issue.fields.priority?.name || 'None',
+        issueType: issue.fields.issuetype?.name,
+        assignee: issue.fields.assignee ? {
+          displayName: issue.fields.assignee.displayName,
+          emailAddress: issue.fields.assignee.emailAddress,
+        } : undefined,
+        created: issue.fields.created,
+        updated: issue.fields.updated,
+        labels: issue.fields.labels || [],
+        comments: (issue.fields.comment?.comments || []).map((comment: { body: AdfNode }) => adfToText(comment.body)),
+      }))
+    } catch (error) {
+      console.error('Error fetching JIRA issues:', error)
+      throw new Error('Failed to fetch JIRA issues')
+    }
+  }
+
+  async getIssue(issueKey: string): Promise<JiraIssue | null> {
+    try {
+      const issueData = await this.request(`/issue/${encodeURIComponent(issueKey)}`)
+
+      return {
+        id: issueData.id,
+        key: issueData.key,
+        summary: issueData.fields.summary,
+        description: adfToText(issueData.fields.description),
+        status: issueData.fields.status.name,
+        priority: issueData.fields.priority?.name || 'None',
+        issueType: issueData.fields.issuetype?.name,
+        assignee: issueData.fields.assignee ? {
+          displayName: issueData.fields.assignee.displayName,
+          emailAddress: issueData.fields.assignee.emailAddress,
+        } : undefined,
+        created: issueData.fields.created,
+        updated: issueData.fields.updated,
+        labels: issueData.fields.labels || [],
+        comments: (issueData.fields.comment?.comments || []).map((comment: { body: AdfNode }) => adfToText(comment.body)),
+      }
+    } catch (error) {
+      console.error('Error fetching JIRA issue:', error)
+      return null
+    }
+  }
+
+  async createIssue(projectKey: string, summary: string, description: string, issueType: string = 'Task', labels?: string[]): Promise<JiraIssue> {
+    try {
+      const data = await this.request('/issue', {
+        method: 'POST',
+        body: JSON.stringify({
+          fields: {
+            project: { key: projectKey },
+            summary,
+            description: textToAdf(description),
+            issuetype: { name: issueType },
+            ...(labels?.length && { labels }),
+          },
+        }),
+      })
+
+      // Fetch the created issue to get full details
+      const issueData = await this.request(`/issue/${data.key}`)
+      
+      return {
+        id: issueData.id,
+        key: issueData.key,
+        summary: issueData.fields.summary,
+        description: adfToText(issueData.fields.description),
+        status: issueData.fields.status.name,
+        priority: issueData.fields.priority?.name || 'None',
+        issueType: issueData.fields.issuetype?.name,
+        assignee: issueData.fields.assignee ? {
+          displayName: issueData.fields.assignee.displayName,
+          emailAddress: issueData.fields.assignee.emailAddress,
+        } : undefined,
+        created: issueData.fields.created,
+        updated: issueData.fields.updated,
+        labels: issueData.fields.labels || [],
+        comments: (issueData.fields.comment?.comments || []).map((comment: { body: AdfNode }) => adfToText(comment.body)),
+      }
+    } catch (error) {
+      console.error('Error creating JIRA issue:', error)
+      throw new Error('Failed to create JIRA issue')
+    }
+  }
+
+  async addComment(issueKey: string, body: string): Promise<void> {
+    try {
+      await this.request(`/issue/${encodeURIComponent(issueKey)}/comment`, {
+        method: 'POST',
+        body: JSON.stringify({ body: textToAdf(body) }),
+      })
+    } catch (error) {
+      console.error('Error adding JIRA comment:', error)
+      throw new Error('Failed to add JIRA comment')
+    }
+  }
+
+  // Transitions the issue's workflow allows from its current status, with the status each leads to
+  async getTransitions(issueKey: string): Promise<Array<{ id: string; name: string; to: string }>> {
+    try {
+      const data = await this.request(`/issue/${encodeURIComponent(issueKey)}/transitions`)
+
+      return data.transitions.map((transition: { id: string; name: string; to: { name: string } }) => ({
+        id: transition.id,
+        name: transition.name,
+        to: transition.to.name,
+      }))
+    } catch (error) {
+      console.error('Error fetching JIRA transitions:', error)
+      throw new Error('Failed to fetch JIRA transitions')
+    }
+  }
+
+  async transitionIssue(issueKey: string, transitionId: string): Promise<void> {
+    try {
+      await this.request(`/issue/${encodeURIComponent(issueKey)}/transitions`, {
+        method: 'POST',
+        body: JSON.stringify({ transition: { id: transitionId } }),
+      })
+    } catch (error) {
+      console.error('Error transitioning JIRA issue:', error)
+      throw new Error('Failed to transition JIRA issue')
+    }
+  }
+
+  // linkType is the name of an issue link type, e.g. Relates; the inward issue takes its outward description ("blocks")
+  async linkIssues(inwardKey: string, outwardKey: string, linkType: string): Promise<void> {
+    try {
+      await this.request('/issueLink', {
+        method: 'POST',
+        body: JSON.stringify({
+          type: { name: linkType },
+          inwardIssue: { key: inwardKey },
+          outwardIssue: { key: outwardKey },
+        }),
+      })
+    } catch (error) {
+      console.error('Error linking JIRA issues:', error)
+      throw new Error('Failed to link JIRA issues')
+    }
+  }
+}
+
+// Azure DevOps Integration Service
+export class AdoService {
+  private baseUrl: string
+  private auth: string
+  private http: HttpClient
+
+  constructor(organization: string, personalAccessToken: string) {
+    this.baseUrl = `https://dev.azure.com/${organization}`
+    this.auth = Buffer.from(`:${personalAccessToken}`).toString('base64')
+    this.http = new HttpClient({ key: `ado:${organization}` })
+  }
+
+  private async request(endpoint: string, options: RequestInit = {}): Promise<any> {
+    const url = `${this.baseUrl}${endpoint}`
+    
+    const response = await this.http.fetch(url, {
+      ...options,
+      headers: {
+        'Authorization': `Basic ${this.auth}`,
+        'Accept': 'application/json',
+        'Content-Type': 'application/json',
+        ...options.headers,
+      },
+    })
+
+    if (!response.ok) {
+      throw new Error(`ADO API error: ${response.status} ${response.statusText}`)
+    }
+
+    return response.json()
+  }
+
+  async getWorkItems(project: string, wiql?: string): Promise<AdoWorkItem[]> {
+    try {
+      // Default query to get recent work items
+      const defaultWiql = `SELECT [System.Id], [System.Title], [System.State], [System.WorkItemType], [System.AssignedTo], [System.CreatedDate], [System.ChangedDate] FROM WorkItems WHERE [System.TeamProject] = '${project}' ORDER BY [System.ChangedDate] DESC`
+      
+      const queryData = await this.request(`/${project}/_apis/wit/wiql?api-version=7.0`, {
+        method: 'POST',
+        body: JSON.stringify({
+          query: wiql || defaultWiql,
+        }),
+      })
+
+      if (!queryData.workItems || queryData.workItems.length === 0) {
+        return []
+      }
+
+      const workItemIds = queryData.workItems.map((wi: any) => wi.id).slice(0, 50)
+      const workItemsData = await this.request(`/${project}/_apis/wit/workitems?ids=${workItemIds.join(',')}&api-version=7.0`)
+
+      return workItemsData.value.map((item: any) => ({
+        id: item.id,
+        title: item.fields['System.Title'],
+        description: item.fields['System.Description'] || '',
+        state: item.fields['System.State'],
+        workItemType: item.fields['System.WorkItemType'],
+        assignedTo: item.fields['System.AssignedTo'] ? {
+          displayName: item.fields['System.AssignedTo'].displayName,
+          uniqueName: item.fields['System.AssignedTo'].uniqueName,
+        } : undefined,
+        createdDate: item.fields['System.CreatedDate'],
+        changedDate: item.fields['System.ChangedDate'],
+        project: item.fields['System.TeamProject'],
+      }))
+    } catch (error) {
+      console.error('Error fetching ADO work items:', error)
+      throw new Error('Failed to fetch ADO work items')
+    }
+  }
+
+  // IDs are unique across the organization, so the project may be left out
+  async getWorkItem(project: string | undefined, id: number): Promise<AdoWorkItem | null> {
+    try {
+      const item = await this.request(`${project ? `/${project}` : ''}/_apis/wit/workitems/${id}?api-version=7.0`)
+
+      return {
+        id: item.id,
+        title: item.fields['System.Title'],
+        description: item.fields['System.Description'] || '',
+        state: item.fields['System.State'],
+        workItemType: item.fields['System.WorkItemType'],
+        assignedTo: item.fields['System.AssignedTo'] ? {
+          displayName: item.fields['System.AssignedTo'].displayName,
+          uniqueName: item.fields['System.AssignedTo'].uniqueName,
+        } : undefined,
+        createdDate: item.fields['System.CreatedDate'],
+        changedDate: item.fields['System.ChangedDate'],
+        project: item.fields['System.TeamProject'],
+      }
+    } catch (error) {
+      console.error('Error fetching ADO work item:', error)
+      return null
+    }
+  }
+
+  async createWorkItem(project: string, workItemType: string, title: string, description?: string, tags?: string[]): Promise<AdoWorkItem> {
+    try {
+      const operations = [
+        {
+          op: 'add',
+          path: '/fields/System.Title',
+          value: title,
+        },
+      ]
+
+      if (description) {
+        operations.push({
+          op: 'add',
+          path: '/fields/System.Description',
+          value: description,
+        })
+      }
+
+      if (tags?.length) {
+        operations.push({
+          op: 'add',
+          path: '/fields/System.Tags',
+          value: tags.join('; '),
+        })
+      }
+
+      const data = await this.request(`/${project}/_apis/wit/workitems/$${workItemType}?api-version=7.0`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json-patch+json',
+        },
+        body: JSON.stringify(operations),
+      })
+
+      return {
+        id: data.id,
+        title: data.fields['System.Title'],
+        description: data.fields['System.Description'] || '',
+        state: data.fields['System.State'],
+        workItemType: data.fields['System.WorkItemType'],
+        assignedTo: data.fields['System.AssignedTo'] ? {
+          displayName: data.fields['System.AssignedTo'].displayName,
+          uniqueName: data.fields['System.AssignedTo'].uniqueName,
+        } : undefined,
+        createdDate: data.fields['System.CreatedDate'],
+        changedDate: data.fields['System.ChangedDate'],
+        project: data.fields['System.TeamProject'],
+      }
+    } catch (error) {
+      console.error('Error creating ADO work item:', error)
+      throw new Error('Failed to create ADO work item')
+    }
+  }
+
+  // Apply JSON Patch operations to a work item's fields and relations
+  async updateWorkItem(id: number, operations: Array<{ op: 'add' | 'replace' | 'remove'; path: string; value?: unknown }>): Promise<AdoWorkItem> {
+    try {
+      const data = await this.request(`/_apis/wit/workitems/${id}?api-version=7.0`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json-patch+json',
+        },
+        body: JSON.stringify(operations),
+      })
+
+      return {
+        id: data.id,
+        title: data.fields['System.Title'],
+        description: data.fields['System.Description'] || '',
+        state: data.fields['System.State'],
+        workItemType: data.fields['System.WorkItemType'],
+        assignedTo: data.fields['System.AssignedTo'] ? {
+          displayName: data.fields['System.AssignedTo'].displayName,
+          uniqueName: data.fields['System.AssignedTo'].uniqueName,
+        } : undefined,
+        createdDate: data.fields['System.CreatedDate'],
+        changedDate: data.fields['System.ChangedDate'],
+        project: data.fields['System.TeamProject'],
+      }
+    } catch (error) {
+      console.error('Error updating ADO work item:', error)
+      throw new Error('Failed to update ADO work item')
+    }
+  }
+
+  async addWorkItemComment(project: string, id: number, text: string): Promise<void> {
+    try {
+      await this.request(`/${project}/_apis/wit/workItems/${id}/comments?api-version=7.0-preview.3`, {
+        method: 'POST',
+        body: JSON.stringify({ text }),
+      })
+    } catch (error) {
+      console.error('Error adding ADO work item comment:', error)
+      throw new Error('Failed to add ADO work item comment')
+    }
+  }
+
+  // URL identifying a work item in relations
+  getWorkItemUrl(id: number): string {
+    return `${this.baseUrl}/_apis/wit/workItems/${id}`
+  }
+}
+
+const SERVICENOW_INCIDENT_FIELDS = 'sys_id,number,short_description,description,state,priority,category,assignment_group,assigned_to,caller_id,opened_at,sys_updated_on'
+
+// Incident state codes of the default workflow, by display value
+const SERVICENOW_INCIDENT_STATES: Record<string, string> = {
+  'new': '1',
+  'in progress': '2',
+  'on hold': '3',
+  'resolved': '6',
+  'closed': '7',
+  'canceled': '8',
+}
+
+// A field read with sysparm_display_value=all
+interface ServiceNowField {
+  value: string
+  display_value: string
+}
+
+type ServiceNowIncidentRecord = Record<'sys_id' | 'number' | 'short_description' | 'description' | 'state' | 'priority' | 'category' | 'assignment_group' | 'assigned_to' | 'caller_id' | 'opened_at' | 'sys_updated_on', ServiceNowField>
+
+// Stored date-times are UTC, as "2024-01-05 10:12:33"
+function parseServiceNowDate(value: string): string {
+  return value ? new Date(`${value.replace(' ', 'T')}Z`).toISOString() : ''
+}
+
+function serviceNowRecordToIncident(record: ServiceNowIncidentRecord): ServiceNowIncident {
+  return {
+    sysId: record.sys_id.value,
+    number: record.number.value,
+    shortDescription: record.short_description.value,
+    description: record.description.value,
+    state: record.state.display_value,
+    priority: record.priority.display_value,
+    category: record.category.display_value || undefined,
+    assignmentGroup: record.assignment_group.display_value || undefined,
+    assignedTo: record.assigned_to.display_value || undefined,
+    caller: record.caller_id.display_value || undefined,
+    openedAt: parseServiceNowDate(record.opened_at.value),
+    updatedAt: parseServiceNowDate(record.sys_updated_on.value),
+  }
+}
+
+// ServiceNow Integration Service, on the Table API of an instance
+export class ServiceNowService {
+  private instanceUrl: string
+  private auth: string
+  private http: HttpClient
+
+  constructor(instanceUrl: string, username: string, password: string) {
+    this.instanceUrl = instanceUrl.replace(/\/$/, '')
+    this.auth = Buffer.from(`${username}:${password}`).toString('base64')
+    this.http = new HttpClient({ key: `servicenow:${this.instanceUrl}` })
+  }
+
+  // The result of a Table API call
+  private async request<T>(table: string, path: string = '', params: Record<string, string> = {}, options: RequestInit = {}): Promise<T> {
+    const query = new URLSearchParams(params).toString()
+    const url = `${this.instanceUrl}/api/now/table/${table}${path}${query ? `?${query}` : ''}`
+
+    const response = await this.http.fetch(url, {
+      ...options,
+      headers: {
+        'Authorization': `Basic ${this.auth}`,
+        'Accept': 'application/json',
+        'Content-Type': 'application/json',
+        ...options.headers,
+      },
+    })
+
+    if (!response.ok) {
+      throw new Error(`ServiceNow API error: ${response.status} ${response.statusText}`)
+    }
+
+    const data = await response.json()
+    return data.result
+  }
+
+  // byDisplayValue sets reference fields by display value, e.g. a group by its name
+  private async updateIncident(sysId: string, fields: Record<string, string>, byDisplayValue = false): Promise<ServiceNowIncident> {
+    const record = await this.request<ServiceNowIncidentRecord>('incident', `/${sysId}`, {
+      sysparm_display_value: 'all',
+      sysparm_input_display_value: String(byDisplayValue),
+      sysparm_exclude_reference_link: 'true',
+      sysparm_fields: SERVICENOW_INCIDENT_FIELDS,
+    }, {
+      method: 'PATCH',
+      body: JSON.stringify(fields),
+    })
+    return serviceNowRecordToIncident(record)
+  }
+
+  // query is an encoded query, e.g. "active=true^ORDERBYDESCsys_updated_on"
+  async getIncidents(query: string = 'active=true^ORDERBYDESCsys_updated_on', limit: number = 50): Promise<ServiceNowIncident[]> {
+    try {
+      const records = await this.request<ServiceNowIncidentRecord[]>('incident', '', {
+        sysparm_query: query,
+        sysparm_limit: String(limit),
+        sysparm_display_value: 'all',
+        sysparm_exclude_reference_link: 'true',
+        sysparm_fields: SERVICENOW_INCIDENT_FIELDS,
+      })
+      return records.map(serviceNowRecordToIncident)
+    } catch (error) {
+      console.error('Error fetching ServiceNow incidents:', error)
+      throw new Error('Failed to fetch ServiceNow incidents')
+    }
+  }
+
+  async getIncident(number: string): Promise<ServiceNowIncident | null> {
+    try {
+      const [incident] = await this.getIncidents(`number=${number.replace(/\^/g, '')}`, 1)
+      return incident ?? null
+    } catch (error) {
+      console.error('Error fetching ServiceNow incident:', error)
+      return null
+    }
+  }
+
+  // Work notes and additional comments of a record, oldest first
+  async getJournal(sysId: string): Promise<ServiceNowJournalEntry[]> {
+    try {
+      const entries = await this.request<Array<{ element: string; value: string; sys_created_by: string; sys_created_on: string }>>('sys_journal_field', '', {
+        sysparm_query: `element_id=${sysId}^elementINwork_notes,comments^ORDERBYsys_created_on`,
+        sysparm_fields: 'element,value,sys_created_by,sys_created_on',
+      })
+      return entries.map(entry => ({
+        type: entry.element === 'work_notes' ? 'work_notes' : 'comments',
+        text: entry.value,
+        author: entry.sys_created_by,
+        createdAt: parseServiceNowDate(entry.sys_created_on),
+      }))
+    } catch (error) {
+      console.error('Error fetching ServiceNow journal:', error)
+      throw new Error('Failed to fetch ServiceNow journal')
+    }
+  }
+
+  async createIncident(shortDescription: string, description: string, assignmentGroup?: string): Promise<ServiceNowIncident> {
+    try {
+      const record = await this.request<ServiceNowIncidentRecord>('incident', '', {
+        sysparm_display_value: 'all',
+        sysparm_input_display_value: 'true',
+        sysparm_exclude_reference_link: 'true',
+        sysparm_fields: SERVICENOW_INCIDENT_FIELDS,
+      }, {
+        method: 'POST',
+        body: JSON.stringify({
+          short_description: shortDescription,
+          description,
+          ...(assignmentGroup && { assignment_group: assignmentGroup }),
+        }),
+      })
+      return serviceNowRecordToIncident(record)
+    } catch (error) {
+      console.error('Error creating ServiceNow incident:', error)
+      throw new Error('Failed to create ServiceNow incident')
+    }
+  }
+
+  // Work notes are internal; only the support team sees them
+  async addWorkNote(sysId: string, text: string): Promise<void> {
+    try {
+      await this.updateIncident(sysId, { work_notes: text })
+    } catch (error) {
+      console.error('Error adding ServiceNow work note:', error)
+      throw new Error('Failed to add ServiceNow work note')
+    }
+  }
+
+  // Additional comments are visible to the caller
+  async addCallerComment(sysId: string, text: string): Promise<void> {
+    try {
+      await this.updateIncident(sysId, { comments: text })
+    } catch (error) {
+      console.error('Error adding ServiceNow comment:', error)
+      throw new Error('Failed to add ServiceNow comment')
+    }
+  }
+
+  async getAssignmentGroups(query?: string): Promise<Array<{ sysId: string; name: string; description: string }>> {
+    try {
+      const groups = await this.request<Array<{ sys_id: string; name: string; description: string }>>('sys_user_group', '', {
+        sysparm_query: `active=true${query ? `^nameLIKE${query.replace(/\^/g, '')}` : ''}^ORDERBYname`,
+        sysparm_fields: 'sys_id,name,description',
+        sysparm_limit: '100',
+      })
+      return groups.map(group => ({ sysId: group.sys_id, name: group.name, description: group.description }))
+    } catch (error) {
+      console.error('Error fetching ServiceNow assignment groups:', error)
+      throw new Error('Failed to fetch ServiceNow assignment groups')
+    }
+  }
+
+  // Clears the assignee, who may not be a member of the new group
+  async assignToGroup(sysId: string, groupName: string): Promise<ServiceNowIncident> {
+    try {
+      return await this.updateIncident(sysId, { assignment_group: groupName, assigned_to: '' }, true)
+    } catch (error) {
+      console.error('Error assigning ServiceNow incident:', error)
+      throw new Error('Failed to assign ServiceNow incident')
+    }
+  }
+
+  // state is a state name, e.g. "In Progress", or its code; resolving needs close notes
+  async updateIncidentState(sysId: string, state: string, closeNotes: string = 'Resolved by the support team'): Promise<ServiceNowIncident> {
+    const code = /^\d+$/.test(state) ? state : SERVICENOW_INCIDENT_STATES[state.toLowerCase()]
+    if (!code) {
+      throw new Error(`Unknown incident state "${state}"; expected one of ${Object.keys(SERVICENOW_INCIDENT_STATES).join(', ')}`)
+    }
+
+    try {
+      const closing = code === SERVICENOW_INCIDENT_STATES.resolved || code === SERVICENOW_INCIDENT_STATES.closed
+      return await this.updateIncident(sysId, {
+        state: code,
+        ...(closing && { close_code: 'Solution provided', close_notes: closeNotes }),
+      })
+    } catch (error) {
+      console.error('Error updating ServiceNow incident state:', error)
+      throw new Error('Failed to update ServiceNow incident state')
+    }
+  }
+
+  // Marks the incident as a child of another, e.g. the one it duplicates
+  async setParentIncident(sysId: string, parentNumber: string): Promise<void> {
+    try {
+      await this.updateIncident(sysId, { parent_incident: parentNumber }, true)
+    } catch (error) {
+      console.error('Error linking ServiceNow incidents:', error)
+      throw new Error('Failed to link ServiceNow incidents')
+    }
+  }
+
+  getIncidentUrl(sysId: string): string {
+    return `${this.instanceUrl}/incident.do?sys_id=${sysId}`
+  }
+}
+
+// Zendesk payloads, before their users, groups and organizations are resolved to names
+interface ZendeskTicketRecord {
+  id: number
+  subject: string | null
+  description: string | null
+  status: string
+  priority: string | null
+  type: string | null
+  tags: string[]
+  requester_id: number | null
+  assignee_id: number | null
+  group_id: number | null
+  created_at: string
+  updated_at: string
+}
+
+interface ZendeskUserRecord {
+  id: number
+  name: string
+  email?: string | null
+  organization_id?: number | null
+}
+
+interface ZendeskCommentRecord {
+  id: number
+  body: string
+  public: boolean
+  author_id: number
+  created_at: string
+}
+
+// Records sideloaded with include=users,groups,organizations
+interface ZendeskSideloads {
+  users?: ZendeskUserRecord[]
+  groups?: Array<{ id: number; name: string }>
+  organizations?: Array<{ id: number; name: string }>
+}
+
+function zendeskRecordToTicket(record: ZendeskTicketRecord, sideloads: ZendeskSideloads, comments?: ZendeskComment[]): ZendeskTicket {
+  const user = (id: number | null) => sideloads.users?.find(candidate => candidate.id === id)
+  const requester = user(record.requester_id)
+  const organization = sideloads.organizations?.find(candidate => candidate.id === requester?.organization_id)
+
+  return {
+    id: record.id,
+    subject: record.subject || '',
+    description: record.description || '',
+    status: record.status,
+    priority: record.priority || undefined,
+    type: record.type || undefined,
+    tags: record.tags || [],
+    requester: requester && {
+      id: requester.id,
+      name: requester.name,
+      email: requester.email || undefined,
+      organization: organization?.name,
+    },
+    assignee: user(record.assignee_id)?.name,
+    group: sideloads.groups?.find(candidate => candidate.id === record.group_id)?.name,
+    createdAt: record.created_at,
+    updatedAt: record.updated_at,
+    comments,
+  }
+}
+
+// Zendesk Integration Service, authenticated with an agent's email and API token
+export class ZendeskService {
+  private baseUrl: string
+  private auth: string
+  private http: HttpClient
+
+  constructor(baseUrl: string, email: string, apiToken: string) {
+    this.baseUrl = baseUrl.replace(/\/$/, '')
+    this.auth = Buffer.from(`${email}/token:${apiToken}`).toString('base64')
+    this.http = new HttpClient({ key: `zendesk:${this.baseUrl}` })
+  }
+
+  private async request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+    const url = `${this.baseUrl}/api/v2${endpoint}`
+
+    const response = await this.http.fetch(url, {
+      ...options,
+      headers: {
+        'Authorization': `Basic ${this.auth}`,
+        'Accept': 'application/json',
+        'Content-Type': 'application/json',
+        ...options.headers,
+      },
+    })
+
+    if (!response.ok) {
+      throw new Error(`Zendesk API error: ${response.status} ${response.statusText}`)
     }
 
     return response.json()
   }
 
-  async getWorkItems(project: string, wiql?: string): Promise<AdoWorkItem[]> {
+  // query uses Zendesk search syntax, e.g. status<solved "login"; results are tickets, newest first
+  async getTickets(query: string = 'status<solved', limit: number = 50): Promise<ZendeskTicket[]> {
+    try {
+      const params = new URLSearchParams({
+        query: `type:ticket ${query}`.trim(),
+        sort_by: 'updated_at',
+        sort_order: 'desc',
+        per_page: String(Math.min(limit, 100)),
+        include: 'tickets(users,groups,organizations)',
+      })
+      const data = await this.request<ZendeskSideloads & { results: ZendeskTicketRecord[] }>(`/search.json?${params}`)
+      return data.results.map(record => zendeskRecordToTicket(record, data))
+    } catch (error) {
+      console.error('Error fetching Zendesk tickets:', error)
+      throw new Error('Failed to fetch Zendesk tickets')
+    }
+  }
+
+  // With its comments and the requester's contact details
+  async getTicket(id: number): Promise<ZendeskTicket | null> {
     try {
-      // Default query to get recent work items
-      const defaultWiql = `SELECT [System.Id], [System.Title], [System.State], [System.WorkItemType], [System.AssignedTo], [System.CreatedDate], [System.ChangedDate] FROM WorkItems WHERE [System.TeamProject] = '${project}' ORDER BY [System.ChangedDate] DESC`
-      
-      const queryData = await this.request(`/${project}/_apis/wit/wiql?api-version=7.0`, {
+      const data = await this.request<ZendeskSideloads & { ticket: ZendeskTicketRecord }>(`/tickets/${id}.json?include=users,groups,organizations`)
+      const comments = await this.getComments(id)
+      return zendeskRecordToTicket(data.ticket, data, comments)
+    } catch (error) {
+      console.error('Error fetching Zendesk ticket:', error)
+      return null
+    }
+  }
+
+  async getComments(id: number): Promise<ZendeskComment[]> {
+    try {
+      const data = await this.request<{ comments: ZendeskCommentRecord[]; users?: ZendeskUserRecord[] }>(`/tickets/${id}/comments.json?include=users&sort_order=asc`)
+      const users = data.users || []
+      return data.comments.map(comment => ({
+        id: comment.id,
+        body: comment.body,
+        public: comment.public,
+        author: users.find(user => user.id === comment.author_id)?.name || String(comment.author_id),
+        createdAt: comment.created_at,
+      }))
+    } catch (error) {
+      console.error('Error fetching Zendesk comments:', error)
+      throw new Error('Failed to fetch Zendesk comments')
+    }
+  }
+
+  // The ID of the group with this name, matched case-insensitively, or null if there is none
+  async findGroupId(name: string): Promise<number | null> {
+    try {
+      const data = await this.request<{ groups: Array<{ id: number; name: string }> }>(`/groups/autocomplete.json?${new URLSearchParams({ name })}`)
+      return data.groups.find(group => group.name.toLowerCase() === name.toLowerCase())?.id ?? null
+    } catch (error) {
+      console.error('Error finding Zendesk group:', error)
+      throw new Error('Failed to find Zendesk group')
+    }
+  }
+
+  async createTicket(subject: string, body: string, tags?: string[], groupId?: number): Promise<ZendeskTicket> {
+    try {
+      const data = await this.request<{ ticket: ZendeskTicketRecord }>('/tickets.json', {
         method: 'POST',
         body: JSON.stringify({
-          query: wiql || defaultWiql,
+          ticket: { subject, comment: { body }, ...(tags?.length && { tags }), ...(groupId !== undefined && { group_id: groupId }) },
         }),
       })
+      return zendeskRecordToTicket(data.ticket, {})
+    } catch (error) {
+      console.error('Error creating Zendesk ticket:', error)
+      throw new Error('Failed to create Zendesk ticket')
+    }
+  }
 
-      if (!queryData.workItems || queryData.workItems.length === 0) {
-        return []
-      }
-
-      const workItemIds = queryData.workItems.map((wi: any) => wi.id).slice(0, 50)
-      const workItemsData = await this.request(`/${project}/_apis/wit/workitems?ids=${workItemIds.join(',')}&api-version=7.0`)
-
-      return workItemsData.value.map((item: any) => ({
-        id: item.id,
-        title: item.fields['System.Title'],
-        description: item.fields['System.Description'] || '',
-        state: item.fields['System.State'],
-        workItemType: item.fields['System.WorkItemType'],
-        assignedTo: item.fields['System.AssignedTo'] ? {
-          displayName: item.fields['System.AssignedTo'].displayName,
-          uniqueName: item.fields['System.AssignedTo'].uniqueName,
-        } : undefined,
-        createdDate: item.fields['System.CreatedDate'],
-        changedDate: item.fields['System.ChangedDate'],
-      }))
+  // Public comments are emailed to the requester; private ones are internal notes
+  async addComment(id: number, body: string, isPublic: boolean): Promise<void> {
+    try {
+      await this.request<{ ticket: ZendeskTicketRecord }>(`/tickets/${id}.json`, {
+        method: 'PUT',
+        body: JSON.stringify({ ticket: { comment: { body, public: isPublic } } }),
+      })
     } catch (error) {
-      console.error('Error fetching ADO work items:', error)
-      throw new Error('Failed to fetch ADO work items')
+      console.error('Error adding Zendesk comment:', error)
+      throw new Error('Failed to add Zendesk comment')
     }
   }
 
-  async createWorkItem(project: string, workItemType: string, title: string, description?: string): Promise<AdoWorkItem> {
+  async updateStatus(id: number, status: string): Promise<ZendeskTicket> {
     try {
-      const operations = [
-        {
-          op: 'add',
-          path: '/fields/System.Title',
-          value: title,
-        },
-      ]
+      const data = await this.request<{ ticket: ZendeskTicketRecord }>(`/tickets/${id}.json`, {
+        method: 'PUT',
+        body: JSON.stringify({ ticket: { status } }),
+      })
+      return zendeskRecordToTicket(data.ticket, {})
+    } catch (error) {
+      console.error('Error updating Zendesk ticket status:', error)
+      throw new Error('Failed to update Zendesk ticket status')
+    }
+  }
 
-      if (description) {
-        operations.push({
-          op: 'add',
-          path: '/fields/System.Description',
-          value: description,
-        })
-      }
+  getTicketUrl(id: number): string {
+    return `${this.baseUrl}/agent/tickets/${id}`
+  }
+}
 
-      const data = await this.request(`/${project}/_apis/wit/workitems/$${workItemType}?api-version=7.0`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json-patch+json',
-        },
-        body: JSON.stringify(operations),
-      })
+// Statuses that count as closed on trackers with custom workflows
+const CLOSED_STATES = ['closed', 'done', 'resolved', 'removed', 'cancelled', 'canceled', 'solved']
 
-      return {
-        id: data.id,
-        title: data.fields['System.Title'],
-        description: data.fields['System.Description'] || '',
-        state: data.fields['System.State'],
-        workItemType: data.fields['System.WorkItemType'],
-        assignedTo: data.fields['System.AssignedTo'] ? {
-          displayName: data.fields['System.AssignedTo'].displayName,
-          uniqueName: data.fields['System.AssignedTo'].uniqueName,
-        } : undefined,
-        createdDate: data.fields['System.CreatedDate'],
-        changedDate: data.fields['System.ChangedDate'],
-      }
-    } catch (error) {
-      console.error('Error creating ADO work item:', error)
-      throw new Error('Failed to create ADO work item')
+function parseGitHubReference(reference: string): { owner: string; repo: string; number: number } {
+  const match = reference.match(/^([\w.-]+)\/([\w.-]+)#(\d+)$/)
+  if (!match) {
+    throw new Error(`Invalid GitHub issue reference "${reference}", expected owner/repo#number`)
+  }
+  return { owner: match[1], repo: match[2], number: Number(match[3]) }
+}
+
+function githubIssueToTicket(issue: GitHubIssue, repository: string, source: 'github' | 'gitlab' = 'github'): Ticket {
+  return {
+    source,
+    reference: `${repository}#${issue.number}`,
+    title: issue.title,
+    body: issue.body || '',
+    state: issue.state,
+    status: issue.state,
+    labels: issue.labels.map(label => ({ name: label.name, color: label.color || undefined })),
+    author: issue.author?.login,
+    assignees: issue.assignees || [],
+    milestone: issue.milestone?.title,
+    project: repository,
+    url: issue.html_url,
+    createdAt: issue.created_at,
+    updatedAt: issue.updated_at,
+    commentCount: issue.comments,
+  }
+}
+
+// GitHub issues as tickets. scope limits searches without a project to a user or organization
+export class GitHubTicketProvider implements TicketProvider {
+  readonly source = 'github'
+
+  constructor(private github: GitHubService, private scope?: string) {}
+
+  async searchTickets(terms: string[], options: TicketSearchOptions = {}): Promise<Ticket[]> {
+    // A project with a slash is a repository, otherwise a user or organization
+    const project = options.project || this.scope
+    const qualifier = project ? `${project.includes('/') ? 'repo' : 'user'}:${project}` : ''
+    const issues = await this.github.searchIssues([terms.join(' OR '), qualifier].filter(Boolean).join(' '))
+    return issues.slice(0, options.limit).map(issue => githubIssueToTicket(issue, issue.repository))
+  }
+
+  async getTicket(reference: string): Promise<Ticket | null> {
+    const { owner, repo, number } = parseGitHubReference(reference)
+    const issue = await this.github.getIssue(owner, repo, number)
+    return issue && githubIssueToTicket(issue, `${owner}/${repo}`)
+  }
+
+  async createTicket(draft: TicketDraft): Promise<Ticket> {
+    const [owner, repo] = draft.project.split('/')
+    if (!owner || !repo) {
+      throw new Error(`GitHub issues are created in a repository, got "${draft.project}"`)
+    }
+    const issue = await this.github.createIssue(owner, repo, draft.title, draft.body, draft.labels)
+    return githubIssueToTicket(issue, `${owner}/${repo}`)
+  }
+
+  async addComment(reference: string, body: string): Promise<void> {
+    const { owner, repo, number } = parseGitHubReference(reference)
+    await this.github.createIssueComment(owner, repo, number, body)
+  }
+
+  async transitionTicket(reference: string, state: string): Promise<Ticket> {
+    const target = state.toLowerCase()
+    if (target !== 'open' && target !== 'closed') {
+      throw new Error(`GitHub issues are open or closed, not "${state}"`)
+    }
+    const { owner, repo, number } = parseGitHubReference(reference)
+    const issue = await this.github.updateIssueState(owner, repo, number, target)
+    return githubIssueToTicket(issue, `${owner}/${repo}`)
+  }
+
+  // GitHub has no issue links; a comment with the reference shows up on both issues
+  async linkTickets(reference: string, target: string, type: TicketLinkType): Promise<void> {
+    const phrases: Record<TicketLinkType, string> = { relates: 'Related to', duplicates: 'Duplicate of', blocks: 'Blocks' }
+    await this.addComment(reference, `${phrases[type]} ${target}`)
+  }
+}
+
+function parseGitLabReference(reference: string): { project: string; number: number } {
+  const match = reference.match(/^([\w.-]+(?:\/[\w.-]+)+)#(\d+)$/)
+  if (!match) {
+    throw new Error(`Invalid GitLab issue reference "${reference}", expected group/project#number`)
+  }
+  return { project: match[1], number: Number(match[2]) }
+}
+
+// GitLab issues as tickets. group limits searches without a project
+export class GitLabTicketProvider implements TicketProvider {
+  readonly source = 'gitlab'
+
+  constructor(private gitlab: GitLabService, private group?: string) {}
+
+  // GitLab searches for a whole phrase, so each term is searched on its own
+  async searchTickets(terms: string[], options: TicketSearchOptions = {}): Promise<Ticket[]> {
+    const scope = { project: options.project, group: options.project ? undefined : this.group }
+    const results = await Promise.all((terms.length > 0 ? terms : ['']).map(term => this.gitlab.searchIssues(term, scope)))
+
+    const tickets = new Map<string, Ticket>()
+    results.flat().forEach(issue => {
+      const ticket = githubIssueToTicket(issue, issue.repository, 'gitlab')
+      tickets.set(ticket.reference, ticket)
+    })
+    return [...tickets.values()]
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+      .slice(0, options.limit)
+  }
+
+  async getTicket(reference: string): Promise<Ticket | null> {
+    const { project, number } = parseGitLabReference(reference)
+    const { owner, repo } = splitRepositoryName(project)
+    const issue = await this.gitlab.getIssue(owner, repo, number)
+    return issue && githubIssueToTicket(issue, project, 'gitlab')
+  }
+
+  async createTicket(draft: TicketDraft): Promise<Ticket> {
+    const { owner, repo } = splitRepositoryName(draft.project)
+    if (!owner || !repo) {
+      throw new Error(`GitLab issues are created in a project, got "${draft.project}"`)
+    }
+    const issue = await this.gitlab.createIssue(owner, repo, draft.title, draft.body, draft.labels)
+    return githubIssueToTicket(issue, draft.project, 'gitlab')
+  }
+
+  async addComment(reference: string, body: string): Promise<void> {
+    const { project, number } = parseGitLabReference(reference)
+    const { owner, repo } = splitRepositoryName(project)
+    await this.gitlab.createIssueComment(owner, repo, number, body)
+  }
+
+  async transitionTicket(reference: string, state: string): Promise<Ticket> {
+    const target = state.toLowerCase()
+    if (target !== 'open' && target !== 'closed') {
+      throw new Error(`GitLab issues are open or closed, not "${state}"`)
+    }
+    const { project, number } = parseGitLabReference(reference)
+    const { owner, repo } = splitRepositoryName(project)
+    const issue = await this.gitlab.updateIssueState(owner, repo, number, target)
+    return githubIssueToTicket(issue, project, 'gitlab')
+  }
+
+  // Duplicates have no link type; the /duplicate quick action closes the issue and records it
+  async linkTickets(reference: string, target: string, type: TicketLinkType): Promise<void> {
+    if (type === 'duplicates') {
+      await this.addComment(reference, `/duplicate ${target}`)
+      return
+    }
+    const source = parseGitLabReference(reference)
+    const linked = parseGitLabReference(target)
+    await this.gitlab.linkIssues(source.project, source.number, linked.project, linked.number, type === 'blocks' ? 'blocks' : 'relates_to')
+  }
+}
+
+function jiraIssueToTicket(issue: JiraIssue, baseUrl: string): Ticket {
+  return {
+    source: 'jira',
+    reference: issue.key,
+    title: issue.summary,
+    body: issue.description,
+    state: CLOSED_STATES.includes(issue.status.toLowerCase()) ? 'closed' : 'open',
+    status: issue.status,
+    type: issue.issueType,
+    priority: issue.priority !== 'None' ? issue.priority : undefined,
+    labels: (issue.labels || []).map(name => ({ name })),
+    assignees: issue.assignee ? [issue.assignee.displayName] : [],
+    project: issue.key.split('-')[0],
+    url: `${baseUrl}/browse/${issue.key}`,
+    createdAt: issue.created,
+    updatedAt: issue.updated,
+    commentCount: issue.comments?.length,
+    comments: issue.comments,
+  }
+}
+
+export class JiraTicketProvider implements TicketProvider {
+  readonly source = 'jira'
+  private baseUrl: string
+
+  constructor(private jira: JiraService, baseUrl: string) {
+    this.baseUrl = baseUrl.replace(/\/$/, '')
+  }
+
+  async searchTickets(terms: string[], options: TicketSearchOptions = {}): Promise<Ticket[]> {
+    const quote = (value: string) => `"${value.replace(/["\\]/g, '\\$&')}"`
+    const clauses = [
+      options.project ? `project = ${quote(options.project)}` : '',
+      terms.length > 0 ? `(${terms.map(term => `text ~ ${quote(term)}`).join(' OR ')})` : '',
+    ].filter(Boolean)
+    const issues = await this.jira.getIssues(`${clauses.join(' AND ')} ORDER BY updated DESC`.trim())
+    return issues.slice(0, options.limit).map(issue => jiraIssueToTicket(issue, this.baseUrl))
+  }
+
+  async getTicket(reference: string): Promise<Ticket | null> {
+    const issue = await this.jira.getIssue(reference)
+    return issue && jiraIssueToTicket(issue, this.baseUrl)
+  }
+
+  async createTicket(draft: TicketDraft): Promise<Ticket> {
+    const issue = await this.jira.createIssue(draft.project, draft.title, draft.body, draft.type, draft.labels)
+    return jiraIssueToTicket(issue, this.baseUrl)
+  }
+
+  async addComment(reference: string, body: string): Promise<void> {
+    await this.jira.addComment(reference, body)
+  }
+
+  // Takes a transition by its own name or the status it leads to
+  async transitionTicket(reference: string, state: string): Promise<Ticket> {
+    const transitions = await this.jira.getTransitions(reference)
+    const target = state.toLowerCase()
+    const transition = transitions.find(candidate =>
+      candidate.name.toLowerCase() === target || candidate.to.toLowerCase() === target
+    )
+    if (!transition) {
+      throw new Error(`${reference} cannot move to "${state}"; it can move to ${transitions.map(candidate => candidate.to).join(', ') || 'nothing'}`)
+    }
+
+    await this.jira.transitionIssue(reference, transition.id)
+    const ticket = await this.getTicket(reference)
+    if (!ticket) {
+      throw new Error(`JIRA issue ${reference} not found`)
+    }
+    return ticket
+  }
+
+  async linkTickets(reference: string, target: string, type: TicketLinkType): Promise<void> {
+    const linkTypes: Record<TicketLinkType, string> = { relates: 'Relates', duplicates: 'Duplicate', blocks: 'Blocks' }
+    await this.jira.linkIssues(reference, target, linkTypes[type])
+  }
+}
+
+function adoWorkItemToTicket(item: AdoWorkItem, organization: string, defaultProject = ''): Ticket {
+  const project = item.project || defaultProject
+  return {
+    source: 'ado',
+    reference: String(item.id),
+    title: item.title,
+    // Descriptions are stored as HTML
+    body: item.description.replace(/<[^>]+>/g, ' ').replace(/&nbsp;/g, ' '),
+    state: CLOSED_STATES.includes(item.state.toLowerCase()) ? 'closed' : 'open',
+    status: item.state,
+    type: item.workItemType,
+    labels: [],
+    assignees: item.assignedTo ? [item.assignedTo.displayName] : [],
+    project,
+    url: `https://dev.azure.com/${organization}/${encodeURIComponent(project)}/_workitems/edit/${item.id}`,
+    createdAt: item.createdDate,
+    updatedAt: item.changedDate,
+  }
+}
+
+// Azure DevOps work items as tickets; project is searched when a search names none
+export class AdoTicketProvider implements TicketProvider {
+  readonly source = 'ado'
+
+  constructor(private ado: AdoService, private organization: string, private project?: string) {}
+
+  async searchTickets(terms: string[], options: TicketSearchOptions = {}): Promise<Ticket[]> {
+    const project = options.project || this.project
+    if (!project) {
+      throw new Error('Searching Azure DevOps work items needs a project')
+    }
+
+    const escape = (value: string) => value.replace(/'/g, "''")
+    const conditions = terms
+      .map(term => `[System.Title] CONTAINS '${escape(term)}' OR [System.Description] CONTAINS '${escape(term)}'`)
+      .join(' OR ')
+    const wiql = `SELECT [System.Id] FROM WorkItems WHERE [System.TeamProject] = '${escape(project)}'${conditions ? ` AND (${conditions})` : ''} ORDER BY [System.ChangedDate] DESC`
+    const workItems = await this.ado.getWorkItems(project, wiql)
+    return workItems.slice(0, options.limit).map(item => adoWorkItemToTicket(item, this.organization, project))
+  }
+
+  async getTicket(reference: string): Promise<Ticket | null> {
+    const item = await this.ado.getWorkItem(undefined, this.parseId(reference))
+    return item && adoWorkItemToTicket(item, this.organization, this.project)
+  }
+
+  async createTicket(draft: TicketDraft): Promise<Ticket> {
+    const item = await this.ado.createWorkItem(draft.project, draft.type || 'Task', draft.title, draft.body, draft.labels)
+    return adoWorkItemToTicket(item, this.organization, draft.project)
+  }
+
+  async addComment(reference: string, body: string): Promise<void> {
+    // Comments are posted to the project the work item belongs to
+    const ticket = await this.getTicket(reference)
+    if (!ticket?.project) {
+      throw new Error(`Work item ${reference} not found`)
+    }
+    await this.ado.addWorkItemComment(ticket.project, this.parseId(reference), body)
+  }
+
+  async transitionTicket(reference: string, state: string): Promise<Ticket> {
+    const item = await this.ado.updateWorkItem(this.parseId(reference), [
+      { op: 'add', path: '/fields/System.State', value: state },
+    ])
+    return adoWorkItemToTicket(item, this.organization, this.project)
+  }
+
+  async linkTickets(reference: string, target: string, type: TicketLinkType): Promise<void> {
+    // Relations read from this work item: it is a duplicate of the target, or the target's predecessor
+    const relations: Record<TicketLinkType, string> = {
+      relates: 'System.LinkTypes.Related',
+      duplicates: 'System.LinkTypes.Duplicate-Reverse',
+      blocks: 'System.LinkTypes.Dependency-Forward',
+    }
+    await this.ado.updateWorkItem(this.parseId(reference), [
+      { op: 'add', path: '/relations/-', value: { rel: relations[type], url: this.ado.getWorkItemUrl(this.parseId(target)) } },
+    ])
+  }
+
+  private parseId(reference: string): number {
+    const id = Number(reference.replace(/^#/, ''))
+    if (!Number.isInteger(id) || id <= 0) {
+      throw new Error(`Invalid work item reference "${reference}", expected its ID`)
+    }
+    return id
+  }
+}
+
+function serviceNowIncidentToTicket(incident: ServiceNowIncident, url: string, journal?: ServiceNowJournalEntry[]): Ticket {
+  return {
+    source: 'servicenow',
+    reference: incident.number,
+    title: incident.shortDescription,
+    body: incident.description,
+    state: CLOSED_STATES.includes(incident.state.toLowerCase()) ? 'closed' : 'open',
+    status: incident.state,
+    type: 'Incident',
+    priority: incident.priority,
+    labels: incident.category ? [{ name: incident.category }] : [],
+    author: incident.caller,
+    assignees: incident.assignedTo ? [incident.assignedTo] : [],
+    project: incident.assignmentGroup || '',
+    url,
+    createdAt: incident.openedAt,
+    updatedAt: incident.updatedAt,
+    commentCount: journal?.length,
+    comments: journal?.map(entry => `${entry.type === 'work_notes' ? 'Work note' : 'Comment'} by ${entry.author} on ${entry.createdAt}:\n${entry.text}`),
+  }
+}
+
+// ServiceNow incidents as tickets, by incident number; projects are assignment groups
+export class ServiceNowTicketProvider implements TicketProvider {
+  readonly source = 'servicenow'
+
+  constructor(private servicenow: ServiceNowService) {}
+
+  async searchTickets(terms: string[], options: TicketSearchOptions = {}): Promise<Ticket[]> {
+    // ^ separates the conditions of an encoded query
+    const escape = (value: string) => value.replace(/\^/g, '')
+    const conditions = [
+      options.project ? `assignment_group.name=${escape(options.project)}` : '',
+      terms.map(term => `short_descriptionLIKE${escape(term)}^ORdescriptionLIKE${escape(term)}`).join('^OR'),
+    ].filter(Boolean)
+    const incidents = await this.servicenow.getIncidents([...conditions, 'ORDERBYDESCsys_updated_on'].join('^'), options.limit)
+    return incidents.map(incident => serviceNowIncidentToTicket(incident, this.servicenow.getIncidentUrl(incident.sysId)))
+  }
+
+  // With the incident's work notes and comments
+  async getTicket(reference: string): Promise<Ticket | null> {
+    const incident = await this.servicenow.getIncident(reference)
+    if (!incident) return null
+
+    const journal = await this.servicenow.getJournal(incident.sysId)
+    return serviceNowIncidentToTicket(incident, this.servicenow.getIncidentUrl(incident.sysId), journal)
+  }
+
+  async createTicket(draft: TicketDraft): Promise<Ticket> {
+    const incident = await this.servicenow.createIncident(draft.title, draft.body, draft.project || undefined)
+    return serviceNowIncidentToTicket(incident, this.servicenow.getIncidentUrl(incident.sysId))
+  }
+
+  // Posted as a work note, which the caller does not see, or as an additional comment when public
+  async addComment(reference: string, body: string, options: TicketCommentOptions = {}): Promise<void> {
+    const incident = await this.findIncident(reference)
+    if (options.public) {
+      await this.servicenow.addCallerComment(incident.sysId, body)
+    } else {
+      await this.servicenow.addWorkNote(incident.sysId, body)
+    }
+  }
+
+  async transitionTicket(reference: string, state: string): Promise<Ticket> {
+    const incident = await this.findIncident(reference)
+    const updated = await this.servicenow.updateIncidentState(incident.sysId, state)
+    return serviceNowIncidentToTicket(updated, this.servicenow.getIncidentUrl(updated.sysId))
+  }
+
+  // Duplicates become child incidents of the target; other links are recorded as work notes
+  async linkTickets(reference: string, target: string, type: TicketLinkType): Promise<void> {
+    const incident = await this.findIncident(reference)
+    if (type === 'duplicates') {
+      await this.servicenow.setParentIncident(incident.sysId, target)
+    }
+    const notes: Record<TicketLinkType, string> = { relates: 'Related to', duplicates: 'Duplicate of', blocks: 'Blocks' }
+    await this.servicenow.addWorkNote(incident.sysId, `${notes[type]} ${target}`)
+  }
+
+  private async findIncident(reference: string): Promise<ServiceNowIncident> {
+    const incident = await this.servicenow.getIncident(reference)
+    if (!incident) {
+      throw new Error(`ServiceNow incident ${reference} not found`)
+    }
+    return incident
+  }
+}
+
+function zendeskTicketToTicket(ticket: ZendeskTicket, url: string): Ticket {
+  return {
+    source: 'zendesk',
+    reference: String(ticket.id),
+    title: ticket.subject,
+    body: ticket.description,
+    state: CLOSED_STATES.includes(ticket.status) ? 'closed' : 'open',
+    status: ticket.status,
+    type: ticket.type,
+    priority: ticket.priority,
+    labels: ticket.tags.map(tag => ({ name: tag })),
+    author: ticket.requester?.name,
+    requester: ticket.requester && {
+      name: ticket.requester.name,
+      email: ticket.requester.email,
+      organization: ticket.requester.organization,
+    },
+    assignees: ticket.assignee ? [ticket.assignee] : [],
+    project: ticket.group || '',
+    url,
+    createdAt: ticket.createdAt,
+    updatedAt: ticket.updatedAt,
+    commentCount: ticket.comments?.length,
+    comments: ticket.comments?.map(comment => `${comment.public ? 'Public reply' : 'Internal note'} by ${comment.author} on ${comment.createdAt}:\n${comment.body}`),
+  }
+}
+
+// Zendesk tickets as tickets, by ticket ID; projects are groups
+export class ZendeskTicketProvider implements TicketProvider {
+  readonly source = 'zendesk'
+
+  constructor(private zendesk: ZendeskService) {}
+
+  // Zendesk search ANDs its terms, so each term is searched on its own
+  async searchTickets(terms: string[], options: TicketSearchOptions = {}): Promise<Ticket[]> {
+    const quote = (value: string) => `"${value.replace(/"/g, '')}"`
+    const group = options.project ? `group:${quote(options.project)}` : ''
+    const queries = terms.length > 0 ? terms.map(term => `${group} ${quote(term)}`) : [`${group} status<solved`]
+
+    const found = new Map<number, ZendeskTicket>()
+    for (const query of queries) {
+      const tickets = await this.zendesk.getTickets(query.trim(), options.limit)
+      tickets.forEach(ticket => found.set(ticket.id, ticket))
+    }
+
+    return [...found.values()]
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+      .slice(0, options.limit)
+      .map(ticket => zendeskTicketToTicket(ticket, this.zendesk.getTicketUrl(ticket.id)))
+  }
+
+  // With its public replies and internal notes
+  async getTicket(reference: string): Promise<Ticket | null> {
+    const ticket = await this.zendesk.getTicket(this.parseId(reference))
+    return ticket && zendeskTicketToTicket(ticket, this.zendesk.getTicketUrl(ticket.id))
+  }
+
+  // The draft's project names the group the ticket is assigned to
+  async createTicket(draft: TicketDraft): Promise<Ticket> {
+    const groupName = draft.project.trim()
+    const groupId = groupName ? await this.zendesk.findGroupId(groupName) : null
+    if (groupName && groupId === null) {
+      throw new Error(`Zendesk group ${groupName} not found`)
+    }
+
+    const ticket = await this.zendesk.createTicket(draft.title, draft.body, draft.labels, groupId ?? undefined)
+    return zendeskTicketToTicket(ticket, this.zendesk.getTicketUrl(ticket.id))
+  }
+
+  async addComment(reference: string, body: string, options: TicketCommentOptions = {}): Promise<void> {
+    await this.zendesk.addComment(this.parseId(reference), body, options.public ?? false)
+  }
+
+  // state is a Zendesk status: new, open, pending, hold, solved or closed
+  async transitionTicket(reference: string, state: string): Promise<Ticket> {
+    const ticket = await this.zendesk.updateStatus(this.parseId(reference), state.toLowerCase())
+    return zendeskTicketToTicket(ticket, this.zendesk.getTicketUrl(ticket.id))
+  }
+
+  // Zendesk links incidents to problems only, so other links are recorded as internal notes
+  async linkTickets(reference: string, target: string, type: TicketLinkType): Promise<void> {
+    const notes: Record<TicketLinkType, string> = { relates: 'Related to', duplicates: 'Duplicate of', blocks: 'Blocks' }
+    await this.zendesk.addComment(this.parseId(reference), `${notes[type]} #${this.parseId(target)}`, false)
+  }
+
+  private parseId(reference: string): number {
+    const id = Number(reference.replace(/^#/, ''))
+    if (!Number.isInteger(id) || id <= 0) {
+      throw new Error(`Invalid Zendesk ticket reference "${reference}", expected its ID`)
     }
+    return id
   }
 }
 
+// Credentials a ticket provider cannot take from the integration itself
+export interface TicketProviderOptions {
+  githubAuth?: GitHubAuth | null // GitHub App tokens, which the server and the browser get differently
+}
+
+// The ticket provider of an integration, or null when its credentials are incomplete
+export type TicketProviderFactory = (integration: Integration, options: TicketProviderOptions) => TicketProvider | null
+
 // Integration Factory
 export class IntegrationFactory {
-  static createGitHubService(token: string): GitHubService {
-    return new GitHubService(token)
+  private static ticketProviders = new Map<Integration['type'], TicketProviderFactory>([
+    ['github', (integration, { githubAuth }) => {
+      const auth = githubAuth ?? integration.config.token
+      return auth
+        ? new GitHubTicketProvider(new GitHubService(auth, integration.config.baseUrl), integration.config.username)
+        : null
+    }],
+    ['gitlab', integration => integration.config.token
+      ? new GitLabTicketProvider(new GitLabService(integration.config.token, integration.config.baseUrl), integration.config.username)
+      : null],
+    ['jira', integration => {
+      const { baseUrl, username, apiKey } = integration.config
+      return baseUrl && username && apiKey ? new JiraTicketProvider(new JiraService(baseUrl, username, apiKey), baseUrl) : null
+    }],
+    ['ado', integration => {
+      const organization = getAdoOrganization(integration.config.baseUrl)
+      return organization && integration.config.token
+        ? new AdoTicketProvider(new AdoService(organization, integration.config.token), organization, getAdoProject(integration.config.baseUrl) ?? undefined)
+        : null
+    }],
+    ['servicenow', integration => {
+      const { baseUrl, username, apiKey } = integration.config
+      return baseUrl && username && apiKey ? new ServiceNowTicketProvider(new ServiceNowService(baseUrl, username, apiKey)) : null
+    }],
+    ['zendesk', integration => {
+      const { baseUrl, username, apiKey } = integration.config
+      return baseUrl && username && apiKey ? new ZendeskTicketProvider(new ZendeskService(baseUrl, username, apiKey)) : null
+    }],
+  ])
+
+  static createGitHubService(auth: GitHubAuth, baseUrl?: string): GitHubService {
+    return new GitHubService(auth, baseUrl)
+  }
+
+  static createGitLabService(token: string, baseUrl?: string): GitLabService {
+    return new GitLabService(token, baseUrl)
   }
 
   static createJiraService(baseUrl: string, email: string, apiToken: string): JiraService {
@@ -466,4 +2857,50 @@ export class IntegrationFactory {
   static createAdoService(organization: string, personalAccessToken: string): AdoService {
     return new AdoService(organization, personalAccessToken)
   }
+
+  static createServiceNowService(instanceUrl: string, username: string, password: string): ServiceNowService {
+    return new ServiceNowService(instanceUrl, username, password)
+  }
+
+  static createZendeskService(baseUrl: string, email: string, apiToken: string): ZendeskService {
+    return new ZendeskService(baseUrl, email, apiToken)
+  }
+
+  // Adds a tracker, or replaces the provider of a built-in one
+  static registerTicketProvider(type: Integration['type'], factory: TicketProviderFactory): void {
+    IntegrationFactory.ticketProviders.set(type, factory)
+  }
+
+  static createTicketProvider(integration: Integration, options: TicketProviderOptions = {}): TicketProvider | null {
+    const factory = IntegrationFactory.ticketProviders.get(integration.type)
+    return factory ? factory(integration, options) : null
+  }
+}
+
+// Every metrics listener sees the key, so services authenticated by a token are keyed by its hash
+function getTokenMetricsKey(host: 'github' | 'gitlab', token: string): string {
+  return `${host}:${fnv1a(token).toString(16)}`
+}
+
+// The key the services of an integration report HTTP metrics under
+export function getIntegrationMetricsKey(integration: Integration): string | null {
+  switch (integration.type) {
+    case 'github':
+      if (integration.config.authType === 'app') return 'github:app'
+      return integration.config.token ? getTokenMetricsKey('github', integration.config.token) : null
+    case 'gitlab':
+      return integration.config.token ? getTokenMetricsKey('gitlab', integration.config.token) : null
+    case 'jira':
+      return integration.config.baseUrl ? `jira:${integration.config.baseUrl.replace(/\/$/, '')}` : null
+    case 'ado': {
+      const organization = getAdoOrganization(integration.config.baseUrl)
+      return organization ? `ado:${organization}` : null
+    }
+    case 'servicenow':
+      return integration.config.baseUrl ? `servicenow:${integration.config.baseUrl.replace(/\/$/, '')}` : null
+    case 'zendesk':
+      return integration.config.baseUrl ? `zendesk:${integration.config.baseUrl.replace(/\/$/, '')}` : null
+    default:
+      return null
+  }
 }
@@ -1,6 +1,11 @@
-import { GitHubService } from './integrations'
-import { createSampleIntegrations } from './integration-utils'
-import { ServerCodeContextService, CodeContext } from './server-code-context-service'
+import { IntegrationFactory } from './integrations'
+import { getServerGitHubAuth } from './github-app'
+import { CodeContextService, CodeContext } from './code-context-service'
+import { CodeStorageAdapter } from './code-storage'
+import { BM25Field, tokenize } from './bm25'
+import { HybridRanker } from './hybrid-ranker'
+import { Integration, SyncedCommitRef, SyncedIssueRef, SyncedPullRequestRef, SyncedReleaseRef, Ticket } from './types'
+import { EmbeddingCache } from './vector-index'
 
 export interface IssueMatch {
   id: string
@@ -10,10 +15,36 @@ export interface IssueMatch {
   state: 'open' | 'closed'
   repository: string
   url: string
+  source: Ticket['source']
   relevanceScore: number
   suggestedActions: string[]
 }
 
+// A ticket from any tracker, normalized for ranking
+interface IssueCandidate extends Omit<IssueMatch, 'relevanceScore' | 'suggestedActions'> {
+  reference: string // Human-readable ID such as owner/repo#12 or PROJ-456
+  comments: string[]
+}
+
+const ISSUE_FIELDS: BM25Field<IssueCandidate>[] = [
+  { name: 'title', weight: 3, get: issue => issue.title },
+  { name: 'labels', weight: 2, get: issue => issue.labels.join(' ') },
+  { name: 'body', weight: 1, get: issue => issue.body },
+  { name: 'comments', weight: 1, get: issue => issue.comments.join('\n') },
+]
+
+const MAX_RELEVANT_ISSUES = 5
+const MIN_ISSUE_RELEVANCE = 0.2
+const MAX_REMOTE_SEARCH_TERMS = 5 // GitHub search allows at most five boolean operators
+const MAX_RELATED_PULL_REQUESTS = 5
+const MAX_RECENT_CHANGES = 5
+const RECENT_CHANGE_WINDOW_DAYS = 30 // How far before an issue was reported commits count as recent
+const MAX_LATER_RELEASES = 3
+
+// "version 2.3.1", "release: 1.4", "v2.0.0-beta.1"
+const VERSION_MENTION = /\b(?:version|release)\s*:?\s*v?(\d+(?:\.\d+)+(?:-[0-9a-z.]+)?)|\bv(\d+(?:\.\d+)+(?:-[0-9a-z.]+)?)\b/i
+const FIX_MESSAGE = /\b(?:fix(?:e[sd])?|bug|resolve[sd]?|regression|patch)\b/i
+
 export interface CodeSuggestion {
   id: string
   title: string
@@ -26,31 +57,151 @@ export interface CodeSuggestion {
   category: 'bug_fix' | 'performance' | 'security' | 'best_practice' | 'feature'
 }
 
+// A synced pull request that changed files the code search surfaced
+export interface PullRequestMatch {
+  reference: string // e.g. owner/repo#42
+  title: string
+  url: string
+  state: 'open' | 'closed' | 'merged'
+  updatedAt: Date
+  mergedAt?: Date | null
+  files: string[] // Changed paths that are among the code contexts
+  linkedIssues: number[]
+}
+
+// A synced commit that changed files the code search surfaced shortly before the issue was reported
+export interface RecentChange {
+  repository: string
+  sha: string
+  message: string
+  author: string
+  date: Date
+  url: string
+  files: string[] // Changed paths that are among the code contexts
+}
+
+// A synced release cited in version triage
+export interface ReleaseMatch {
+  repository: string
+  tag: string
+  name: string
+  url: string
+  publishedAt: Date
+}
+
+// A release after the reported version that changed files the code search surfaced
+export interface LaterRelease extends ReleaseMatch {
+  files: string[] // Changed paths that are among the code contexts
+  fixes: string[] // Pull requests and commit subjects in its range that look like fixes to those files
+}
+
+// The most recent synced release that changed a file the code search surfaced
+export interface FileReleaseOrigin {
+  repository: string
+  filePath: string
+  release: ReleaseMatch
+  unreleasedCommits: number // Synced commits to the file since that release
+}
+
+export interface VersionTriage {
+  reportedVersion?: string
+  reportedReleases: ReleaseMatch[] // Per repository, the releases the reported version names
+  laterReleases: LaterRelease[]
+  fileOrigins: FileReleaseOrigin[]
+}
+
+// Data synced in the browser and sent along with a request
+export interface SyncedActivity {
+  issues?: SyncedIssueRef[]
+  pullRequests?: SyncedPullRequestRef[]
+  commits?: SyncedCommitRef[]
+  releases?: SyncedReleaseRef[]
+}
+
 export interface AnalysisResult {
   relevantIssues: IssueMatch[]
   codeSuggestions: CodeSuggestion[]
   codeContexts: CodeContext[]
+  relatedPullRequests: PullRequestMatch[]
+  recentChanges: RecentChange[]
+  versionTriage: VersionTriage
   summary: string
   confidence: number
 }
 
+// Type and priority rank like labels, so "bug" or "critical" match either
+function toIssueCandidate(ticket: Ticket): IssueCandidate {
+  return {
+    id: `${ticket.source}-${ticket.reference}`,
+    reference: ticket.reference,
+    title: ticket.title,
+    body: ticket.body,
+    labels: [...ticket.labels.map(label => label.name), ticket.type, ticket.priority].filter((label): label is string => !!label),
+    state: ticket.state,
+    repository: ticket.project,
+    url: ticket.url,
+    source: ticket.source,
+    comments: ticket.comments || [],
+  }
+}
+
+function toSyncedIssueCandidate(issue: SyncedIssueRef): IssueCandidate {
+  const reference = `${issue.repository}#${issue.number}`
+  const source = issue.host ?? 'github'
+  return {
+    id: `${source}-${reference}`,
+    reference,
+    title: issue.title,
+    body: issue.body,
+    labels: issue.labels,
+    state: issue.state,
+    repository: issue.repository,
+    url: issue.url,
+    source,
+    comments: issue.comments,
+  }
+}
+
 export class IssueAnalysisService {
-  private integrations = createSampleIntegrations()
-  private codeContextService = new ServerCodeContextService()
+  private integrations: Integration[]
+  private codeContextService: CodeContextService
+  private synced: SyncedActivity
+  private embeddingCache?: EmbeddingCache
+
+  constructor(
+    integrations: Integration[] = [],
+    codeStorage: CodeStorageAdapter[] = [],
+    synced: SyncedActivity = {},
+    embeddingCache?: EmbeddingCache // Where issue and code vectors are kept between requests
+  ) {
+    this.integrations = integrations.filter(integration => integration.isActive)
+    this.codeContextService = new CodeContextService(codeStorage, embeddingCache)
+    this.synced = synced
+    this.embeddingCache = embeddingCache
+  }
 
   /**
-   * Analyze user statement to find relevant issues and generate code suggestions
+   * Analyze user statement to find relevant issues and generate code suggestions.
+   * reportedAt is when the issue was first seen, to find the changes that preceded it.
+   * reportedVersion is the release the customer runs, to find fixes shipped after it;
+   * when omitted, a version mentioned in the statement is used.
    */
-  async analyzeUserStatement(statement: string): Promise<AnalysisResult> {
+  async analyzeUserStatement(
+    statement: string,
+    options: { reportedAt?: Date; reportedVersion?: string } = {}
+  ): Promise<AnalysisResult> {
     const keywords = this.extractKeywords(statement)
     const context = this.determineContext(statement)
     
-    // Find relevant issues from GitHub integrations
-    const relevantIssues = await this.findRelevantIssues(keywords, context)
+    // Find relevant issues from synced GitHub issues and connected trackers
+    const relevantIssues = await this.findRelevantIssues(statement, keywords, context)
     
     // Search for relevant code context from synced repositories
     const codeSearchResult = await this.codeContextService.searchCodeContext(statement, 5)
     const codeContexts = codeSearchResult.contexts
+    const relatedPullRequests = this.findRelatedPullRequests(codeContexts)
+    const recentChanges = this.findRecentChanges(codeContexts, options.reportedAt ?? new Date())
+    const versionTriage = this.triageVersion(codeContexts, options.reportedVersion || extractReportedVersion(statement))
     
     // Generate code suggestions based on the analysis
     const codeSuggestions = await this.generateCodeSuggestions(statement, keywords, context, relevantIssues)
@@ -59,17 +210,158 @@ export class IssueAnalysisService {
     const confidence = this.calculateConfidence(relevantIssues, codeSuggestions, keywords, codeContexts)
     
     // Generate summary
-    const summary = this.generateSummary(statement, relevantIssues, codeSuggestions, codeContexts)
+    const summary = this.generateSummary(statement, relevantIssues, codeSuggestions, codeContexts, relatedPullRequests, recentChanges, versionTriage)
     
     return {
       relevantIssues,
       codeSuggestions,
       codeContexts,
+      relatedPullRequests,
+      recentChanges,
+      versionTriage,
       summary,
       confidence
     }
   }
 
+  /**
+   * Synced pull requests that changed the files found by code search, those touching
+   * the most of them first, then the most recently updated
+   */
+  private findRelatedPullRequests(codeContexts: CodeContext[]): PullRequestMatch[] {
+    return (this.synced.pullRequests || [])
+      .map(pr => {
+        const changed = new Set(pr.files)
+        const files = [...new Set(codeContexts
+          .filter(context => context.repository === pr.repository && changed.has(context.filePath))
+          .map(context => context.filePath))]
+        return { pr, files }
+      })
+      .filter(match => match.files.length > 0)
+      .sort((a, b) => b.files.length - a.files.length || b.pr.updatedAt.getTime() - a.pr.updatedAt.getTime())
+      .slice(0, MAX_RELATED_PULL_REQUESTS)
+      .map(({ pr, files }) => ({
+        reference: `${pr.repository}#${pr.number}`,
+        title: pr.title,
+        url: pr.url,
+        state: pr.state,
+        updatedAt: pr.updatedAt,
+        mergedAt: pr.mergedAt,
+        files,
+        linkedIssues: pr.linkedIssues ?? [],
+      }))
+  }
+
+  /**
+   * Synced commits that changed the files found by code search in the weeks before the
+   * issue was reported, the latest first: what changed in this area recently
+   */
+  private findRecentChanges(codeContexts: CodeContext[], reportedAt: Date): RecentChange[] {
+    const windowStart = reportedAt.getTime() - RECENT_CHANGE_WINDOW_DAYS * 24 * 60 * 60 * 1000
+
+    return (this.synced.commits || [])
+      .filter(commit => commit.date.getTime() >= windowStart && commit.date.getTime() <= reportedAt.getTime())
+      .map(commit => {
+        const changed = new Set(commit.files)
+        const files = [...new Set(codeContexts
+          .filter(context => context.repository === commit.repository && changed.has(context.filePath))
+          .map(context => context.filePath))]
+        return { ...commit, files }
+      })
+      .filter(commit => commit.files.length > 0)
+      .sort((a, b) => b.date.getTime() - a.date.getTime())
+      .slice(0, MAX_RECENT_CHANGES)
+  }
+
+  /**
+   * Place the files found by code search in the synced release history: the release that
+   * last changed each of them and, given the version the customer runs, the later
+   * releases that changed them again and may already ship a fix
+   */
+  private triageVersion(codeContexts: CodeContext[], reportedVersion?: string): VersionTriage {
+    const releases = this.synced.releases || []
+    const contextFiles = (repository: string, changed: Set<string>) => [...new Set(codeContexts
+      .filter(context => context.repository === repository && changed.has(context.filePath))
+      .map(context => context.filePath))]
+
+    const fileOrigins: FileReleaseOrigin[] = []
+    for (const context of codeContexts) {
+      if (fileOrigins.some(origin => origin.repository === context.repository && origin.filePath === context.filePath)) continue
+
+      const release = releases
+        .filter(release => release.repository === context.repository && release.files.includes(context.filePath))
+        .sort((a, b) => b.publishedAt.getTime() - a.publishedAt.getTime())[0]
+      if (!release) continue
+
+      fileOrigins.push({
+        repository: context.repository,
+        filePath: context.filePath,
+        release: toReleaseMatch(release),
+        unreleasedCommits: (this.synced.commits || []).filter(commit =>
+          commit.repository === context.repository &&
+          commit.files.includes(context.filePath) &&
+          commit.date > release.publishedAt &&
+          !releases.some(other => other.repository === commit.repository && other.commits.includes(commit.sha))
+        ).length,
+      })
+    }
+
+    const reported = reportedVersion
+      ? releases.filter(release => matchesVersion(release, reportedVersion))
+      : []
+
+    const laterReleases = reported.flatMap(reportedRelease => releases
+      .filter(release =>
+        release.repository === reportedRelease.repository &&
+        release.publishedAt > reportedRelease.publishedAt
+      )
+      .map(release => {
+        const files = contextFiles(release.repository, new Set(release.files))
+        return { release, files, fixes: this.findFixes(release, reportedRelease, files) }
+      })
+      .filter(match => match.files.length > 0)
+    )
+      // Releases with evidence of a fix first, then the earliest: the first version worth upgrading to
+      .sort((a, b) => Number(b.fixes.length > 0) - Number(a.fixes.length > 0) || a.release.publishedAt.getTime() - b.release.publishedAt.getTime())
+      .slice(0, MAX_LATER_RELEASES)
+      .map(({ release, files, fixes }) => ({ ...toReleaseMatch(release), files, fixes }))
+
+    return {
+      reportedVersion,
+      reportedReleases: reported.map(toReleaseMatch),
+      laterReleases,
+      fileOrigins,
+    }
+  }
+
+  // Fix-like pull requests merged, and commits made, between two releases that touched the given files
+  private findFixes(release: SyncedReleaseRef, since: SyncedReleaseRef, files: string[]): string[] {
+    const touches = (changed: string[]) => files.some(file => changed.includes(file))
+
+    const pullRequests = (this.synced.pullRequests || [])
+      .filter(pr =>
+        pr.repository === release.repository &&
+        pr.mergedAt &&
+        pr.mergedAt > since.publishedAt &&
+        pr.mergedAt <= release.publishedAt &&
+        touches(pr.files) &&
+        (FIX_MESSAGE.test(pr.title) || (pr.linkedIssues ?? []).length > 0)
+      )
+      .map(pr => `${pr.repository}#${pr.number} ${pr.title}`)
+
+    const inRange = new Set(release.commits)
+    const commits = (this.synced.commits || [])
+      .filter(commit =>
+        commit.repository === release.repository &&
+        inRange.has(commit.sha) &&
+        touches(commit.files) &&
+        FIX_MESSAGE.test(commit.message)
+      )
+      .map(commit => `${commit.sha.slice(0, 7)} ${commit.message}`)
+
+    return [...pullRequests, ...commits]
+  }
+
   /**
    * Extract relevant keywords from user statement
    */
@@ -142,67 +434,116 @@ export class IssueAnalysisService {
   }
 
   /**
-   * Find relevant GitHub issues based on keywords and context
+   * Rank synced GitHub issues and Jira/ADO tickets against the user's statement with
+   * hybrid BM25 and embedding search
    */
-  private async findRelevantIssues(keywords: string[], context: string[]): Promise<IssueMatch[]> {
-    // Mock GitHub issues data - in a real implementation, this would query GitHub API
-    const mockIssues: IssueMatch[] = [
-      {
-        id: 'issue-1',
-        title: 'Authentication timeout in production',
-        body: 'Users experiencing timeout errors when logging in during peak hours. JWT tokens seem to expire unexpectedly.',
-        labels: ['bug', 'authentication', 'production'],
-        state: 'open',
-        repository: 'main-app',
-        url: 'https://github.com/company/main-app/issues/142',
-        relevanceScore: 0.9,
-        suggestedActions: [
-          'Check JWT token expiration settings',
-          'Review authentication middleware',
-          'Add timeout handling in login flow'
-        ]
-      },
-      {
-        id: 'issue-2',
-        title: 'React component re-rendering performance issue',
-        body: 'Dashboard components are re-rendering too frequently, causing UI lag. Need to optimize with React.memo and useMemo.',
-        labels: ['performance', 'react', 'frontend'],
-        state: 'open',
-        repository: 'frontend-app',
-        url: 'https://github.com/company/frontend-app/issues/89',
-        relevanceScore: 0.8,
-        suggestedActions: [
-          'Implement React.memo for expensive components',
-          'Use useMemo for heavy calculations',
-          'Add React DevTools profiler analysis'
-        ]
-      },
-      {
-        id: 'issue-3',
-        title: 'Database connection pool exhaustion',
-        body: 'API endpoints failing with connection pool errors during high traffic. Need to optimize database connections.',
-        labels: ['database', 'performance', 'backend'],
-        state: 'open',
-        repository: 'api-service',
-        url: 'https://github.com/company/api-service/issues/156',
-        relevanceScore: 0.85,
-        suggestedActions: [
-          'Increase database connection pool size',
-          'Implement connection pooling best practices',
-          'Add database monitoring and alerts'
-        ]
+  private async findRelevantIssues(statement: string, keywords: string[], context: string[]): Promise<IssueMatch[]> {
+    const searchTerms = [...new Set(tokenize(statement))]
+    if (searchTerms.length === 0) {
+      return []
+    }
+
+    const candidates = await this.collectIssueCandidates(searchTerms)
+    if (candidates.length === 0) {
+      return []
+    }
+
+    const ranker = new HybridRanker({
+      fields: ISSUE_FIELDS,
+      getText: issue => `${issue.title}\n${issue.labels.join(', ')}\n${issue.body}`,
+      embeddingCache: this.embeddingCache,
+    })
+    await ranker.add(candidates)
+
+    // Detected keywords and contexts widen the query so categories like "performance" also match labels
+    const matches = await ranker.search([statement, ...keywords, ...context].join(' '), MAX_RELEVANT_ISSUES * 2)
+
+    return matches
+      .map(match => {
+        // Discount matches that share few of the user's own terms, unless they are semantically close
+        const coverage = match.matchedTerms.filter(term => searchTerms.includes(term)).length /
+          Math.min(searchTerms.length, 3)
+        const relevanceScore = match.score * (0.5 + 0.5 * Math.max(Math.min(coverage, 1), match.vectorScore))
+        const { id, title, body, labels, state, repository, url, source } = match.document
+
+        return {
+          id,
+          title,
+          body,
+          labels,
+          state,
+          repository,
+          url,
+          source,
+          relevanceScore,
+          suggestedActions: this.suggestIssueActions(match.document, match.matchedTerms),
+        }
+      })
+      .filter(issue => issue.relevanceScore >= MIN_ISSUE_RELEVANCE)
+      .slice(0, MAX_RELEVANT_ISSUES)
+  }
+
+  /**
+   * Gather candidate tickets from every available source. A failing source is skipped
+   * so one misconfigured integration doesn't hide results from the others.
+   */
+  private async collectIssueCandidates(searchTerms: string[]): Promise<IssueCandidate[]> {
+    const remoteTerms = searchTerms.slice(0, MAX_REMOTE_SEARCH_TERMS)
+    const syncedIssues = (this.synced.issues || []).map(issue => toSyncedIssueCandidate(issue))
+
+    const sources: Array<Promise<IssueCandidate[]>> = this.integrations.map(async integration => {
+      // Synced issues already cover GitHub and GitLab; search the API only when nothing is synced from it
+      if (syncedIssues.some(issue => issue.source === integration.type)) {
+        return []
       }
-    ]
-    
-    // Filter and score issues based on relevance
-    return mockIssues
-      .filter(issue => {
-        const issueText = `${issue.title} ${issue.body} ${issue.labels.join(' ')}`.toLowerCase()
-        return keywords.some(keyword => issueText.includes(keyword)) ||
-               context.some(ctx => issue.labels.some(label => label.includes(ctx)))
+
+      const provider = IntegrationFactory.createTicketProvider(integration, { githubAuth: getServerGitHubAuth(integration) })
+      const tickets = provider ? await provider.searchTickets(remoteTerms) : []
+      return tickets.map(ticket => toIssueCandidate(ticket))
+    })
+
+    const results = await Promise.all(sources.map(source =>
+      source.catch(error => {
+        console.warn('Issue source failed during analysis:', error)
+        return [] as IssueCandidate[]
       })
-      .sort((a, b) => b.relevanceScore - a.relevanceScore)
-      .slice(0, 5) // Return top 5 most relevant issues
+    ))
+
+    // The same ticket can arrive from several integrations; keep one copy per URL
+    const byUrl = new Map<string, IssueCandidate>()
+    for (const candidate of [...syncedIssues, ...results.flat()]) {
+      if (!byUrl.has(candidate.url)) {
+        byUrl.set(candidate.url, candidate)
+      }
+    }
+    return [...byUrl.values()]
+  }
+
+  /**
+   * Suggest next steps for a matched ticket based on its state, labels and matched terms
+   */
+  private suggestIssueActions(issue: IssueCandidate, matchedTerms: string[]): string[] {
+    const actions: string[] = []
+
+    if (issue.state === 'closed') {
+      actions.push(`Review how ${issue.reference} was resolved and whether the fix applies here`)
+    } else {
+      actions.push(`Check progress on ${issue.reference} and add findings from this investigation`)
+    }
+
+    const labels = issue.labels.map(label => label.toLowerCase())
+    if (labels.some(label => label.includes('bug'))) {
+      actions.push('Compare the reported reproduction steps with the current symptoms')
+    }
+    if (labels.some(label => label.includes('regression'))) {
+      actions.push('Identify recent changes that could have reintroduced the problem')
+    }
+
+    if (matchedTerms.length > 0) {
+      actions.push(`Search the codebase for: ${matchedTerms.slice(0, 3).join(', ')}`)
+    }
+
+    return actions
   }
 
   /**
@@ -406,7 +747,15 @@ process.on('SIGINT', async () => {
   /**
    * Generate a summary of the analysis
    */
-  private generateSummary(statement: string, issues: IssueMatch[], suggestions: CodeSuggestion[], codeContexts?: CodeContext[]): string {
+  private generateSummary(
+    statement: string,
+    issues: IssueMatch[],
+    suggestions: CodeSuggestion[],
+    codeContexts?: CodeContext[],
+    pullRequests: PullRequestMatch[] = [],
+    recentChanges: RecentChange[] = [],
+    versionTriage?: VersionTriage
+  ): string {
     if (issues.length === 0 && suggestions.length === 0 && (!codeContexts || codeContexts.length === 0)) {
       return "I couldn't find specific relevant issues, code suggestions, or repository context for your request. Try providing more technical details or specific error messages."
     }
@@ -420,6 +769,32 @@ process.on('SIGINT', async () => {
       })
       summary += '\n'
     }
+
+    if (pullRequests.length > 0) {
+      summary += `🔀 **Found ${pullRequests.length} recent pull request${pullRequests.length > 1 ? 's' : ''} touching these files:**\n`
+      pullRequests.slice(0, 3).forEach(pr => {
+        summary += `• ${pr.reference} ${pr.title} (${pr.state})\n`
+      })
+      summary += '\n'
+    }
+
+    if (recentChanges.length > 0) {
+      summary += `🕒 **Found ${recentChanges.length} recent commit${recentChanges.length > 1 ? 's' : ''} touching these files:**\n`
+      recentChanges.slice(0, 3).forEach(change => {
+        summary += `• ${change.sha.slice(0, 7)} ${change.message} (${change.author}, ${change.date.toISOString().slice(0, 10)})\n`
+      })
+      summary += '\n'
+    }
+
+    if (versionTriage?.reportedVersion && versionTriage.reportedReleases.length === 0) {
+      summary += `🏷️ **Version ${versionTriage.reportedVersion} matches no synced release.**\n\n`
+    } else if (versionTriage && versionTriage.laterReleases.length > 0) {
+      summary += `🏷️ **Found ${versionTriage.laterReleases.length} release${versionTriage.laterReleases.length > 1 ? 's' : ''} after ${versionTriage.reportedVersion} changing these files:**\n`
+      versionTriage.laterReleases.forEach(release => {
+        summary += `• ${release.name} (${release.publishedAt.toISOString().slice(0, 10)})${release.fixes.length > 0 ? ` - likely fix: ${release.fixes[0]}` : ''}\n`
+      })
+      summary += '\n'
+    }
     
     if (issues.length > 0) {
       summary += `🔍 **Found ${issues.length} relevant issue${issues.length > 1 ? 's' : ''}:**\n`
@@ -442,3 +817,27 @@ process.on('SIGINT', async () => {
     return summary
   }
 }
+
+// A version named in a statement, without a leading "v"
+export function extractReportedVersion(statement: string): string | undefined {
+  const match = statement.match(VERSION_MENTION)
+  return match ? match[1] || match[2] : undefined
+}
+
+// Whether a release is the given version; tags such as "v1.2.0" or "pkg@1.2.0" match "1.2.0"
+function matchesVersion(release: SyncedReleaseRef, version: string): boolean {
+  const normalize = (value: string) => value.trim().toLowerCase().replace(/^v(?=\d)/, '')
+  const wanted = normalize(version)
+  const tag = normalize(release.tag)
+  return tag === wanted || tag.endsWith(`@${wanted}`) || tag.endsWith(`/${wanted}`) || tag.endsWith(`/v${wanted}`) || normalize(release.name) === wanted
+}
+
+function toReleaseMatch(release: SyncedReleaseRef): ReleaseMatch {
+  return {
+    repository: release.repository,
+    tag: release.tag,
+    name: release.name,
+    url: release.url,
+    publishedAt: release.publishedAt,
+  }
+}
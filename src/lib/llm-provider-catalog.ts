@@ -0,0 +1,42 @@
+import { LLMProviderId } from './types'
+
+export interface LLMProviderDefinition {
+  id: LLMProviderId
+  label: string
+  defaultModel: string
+  models: string[] // Suggested models for pickers; any model ID the provider accepts works
+  requiresNetwork: boolean
+}
+
+// Provider metadata for model pickers. Kept apart from llm-providers.ts, which imports the
+// provider SDKs, so client components can use it without bundling them
+export const LLM_PROVIDERS: Record<LLMProviderId, LLMProviderDefinition> = {
+  'openai': {
+    id: 'openai',
+    label: 'OpenAI',
+    defaultModel: 'gpt-4-turbo-preview',
+    models: ['gpt-4-turbo-preview', 'gpt-4o', 'gpt-4o-mini'],
+    requiresNetwork: true,
+  },
+  'anthropic': {
+    id: 'anthropic',
+    label: 'Anthropic',
+    defaultModel: 'claude-3-5-sonnet-latest',
+    models: ['claude-3-5-sonnet-latest', 'claude-3-5-haiku-latest'],
+    requiresNetwork: true,
+  },
+  'openai-compatible': {
+    id: 'openai-compatible',
+    label: 'Local (OpenAI-compatible)',
+    defaultModel: 'llama3.1',
+    models: ['llama3.1', 'qwen2.5-coder', 'mistral'],
+    requiresNetwork: false,
+  },
+  'mock': {
+    id: 'mock',
+    label: 'Offline Mock',
+    defaultModel: 'scripted',
+    models: ['scripted'],
+    requiresNetwork: false,
+  },
+}
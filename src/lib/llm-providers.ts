@@ -0,0 +1,111 @@
+import { LanguageModel } from 'ai'
+import { createOpenAI } from '@ai-sdk/openai'
+import { createAnthropic } from '@ai-sdk/anthropic'
+import { createOpenAICompatible } from '@ai-sdk/openai-compatible'
+import { LLMProviderId, LLMProviderIdSchema, LLMSettings } from './types'
+import { DEFAULT_MOCK_SCRIPT, MockLanguageModel, MockScriptStep } from './mock-language-model'
+import { LLM_PROVIDERS } from './llm-provider-catalog'
+
+/**
+ * Workspace-wide defaults from the server environment:
+ * - LLM_PROVIDER / LLM_MODEL select the provider and model
+ * - without LLM_PROVIDER, the first provider with credentials wins, falling back to the mock
+ */
+export function getDefaultLLMSettings(): LLMSettings {
+  const configured = LLMProviderIdSchema.safeParse(process.env.LLM_PROVIDER)
+  if (configured.success) {
+    return { provider: configured.data, model: process.env.LLM_MODEL || undefined }
+  }
+
+  if (process.env.OPENAI_API_KEY) {
+    return { provider: 'openai', model: process.env.LLM_MODEL || undefined }
+  }
+  if (process.env.ANTHROPIC_API_KEY) {
+    return { provider: 'anthropic', model: process.env.LLM_MODEL || undefined }
+  }
+  if (process.env.LLM_BASE_URL) {
+    return { provider: 'openai-compatible', model: process.env.LLM_MODEL || undefined }
+  }
+
+  return { provider: 'mock' }
+}
+
+/**
+ * Merge LLM settings in increasing order of precedence (e.g. server, workspace, session)
+ */
+export function resolveLLMSettings(...layers: Array<Partial<LLMSettings> | null | undefined>): LLMSettings {
+  let resolved = getDefaultLLMSettings()
+
+  for (const layer of layers) {
+    if (!layer?.provider) continue
+    const provider = LLMProviderIdSchema.safeParse(layer.provider)
+    if (!provider.success) continue
+
+    resolved = {
+      provider: provider.data,
+      // A model only carries over when the provider stays the same
+      model: layer.model || (provider.data === resolved.provider ? resolved.model : undefined),
+    }
+  }
+
+  return resolved
+}
+
+/**
+ * Check whether the server has what the provider needs, returning a reason if not
+ */
+export function getProviderConfigError(provider: LLMProviderId, apiKey?: string): string | null {
+  switch (provider) {
+    case 'openai':
+      return apiKey || process.env.OPENAI_API_KEY ? null : 'OpenAI API key not configured (set OPENAI_API_KEY)'
+    case 'anthropic':
+      return apiKey || process.env.ANTHROPIC_API_KEY ? null : 'Anthropic API key not configured (set ANTHROPIC_API_KEY)'
+    case 'openai-compatible':
+      return process.env.LLM_BASE_URL ? null : 'Local model endpoint not configured (set LLM_BASE_URL)'
+    case 'mock':
+      return null
+  }
+}
+
+/**
+ * Create the language model for the given settings. Server-side only: credentials and
+ * endpoints always come from the environment, never from client-supplied settings.
+ */
+export function getLanguageModel(settings: LLMSettings, options: { apiKey?: string } = {}): LanguageModel {
+  const configError = getProviderConfigError(settings.provider, options.apiKey)
+  if (configError) {
+    throw new Error(configError)
+  }
+
+  const model = settings.model || LLM_PROVIDERS[settings.provider].defaultModel
+
+  switch (settings.provider) {
+    case 'openai':
+      return createOpenAI({ apiKey: options.apiKey || process.env.OPENAI_API_KEY })(model)
+    case 'anthropic':
+      return createAnthropic({ apiKey: options.apiKey || process.env.ANTHROPIC_API_KEY })(model)
+    case 'openai-compatible':
+      return createOpenAICompatible({
+        name: 'local',
+        baseURL: process.env.LLM_BASE_URL!,
+        apiKey: options.apiKey || process.env.LLM_API_KEY,
+      })(model)
+    case 'mock':
+      return new MockLanguageModel(model, loadMockScript())
+  }
+}
+
+// MOCK_LLM_SCRIPT may hold a JSON array of MockScriptStep to replace the built-in script
+function loadMockScript(): MockScriptStep[] {
+  if (!process.env.MOCK_LLM_SCRIPT) {
+    return DEFAULT_MOCK_SCRIPT
+  }
+
+  try {
+    const script = JSON.parse(process.env.MOCK_LLM_SCRIPT)
+    return Array.isArray(script) ? script : DEFAULT_MOCK_SCRIPT
+  } catch (error) {
+    console.warn('Invalid MOCK_LLM_SCRIPT, using the default mock script:', error)
+    return DEFAULT_MOCK_SCRIPT
+  }
+}
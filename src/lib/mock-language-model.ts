@@ -0,0 +1,170 @@
+import {
+  LanguageModelV2,
+  LanguageModelV2CallOptions,
+  LanguageModelV2Content,
+  LanguageModelV2Prompt,
+  LanguageModelV2StreamPart,
+  LanguageModelV2Usage,
+} from '@ai-sdk/provider'
+
+// A single scripted reply. The first step whose `match` pattern matches the latest
+// user message is used; a step without `match` acts as the fallback.
+export interface MockScriptStep {
+  match?: string
+  text: string
+  toolCalls?: Array<{
+    toolName: string
+    input: Record<string, unknown>
+  }>
+}
+
+export const DEFAULT_MOCK_SCRIPT: MockScriptStep[] = [
+  {
+    match: '\\b(hello|hi|hey)\\b',
+    text: 'Hello! I am the offline mock assistant. Describe the issue you are investigating and I will walk through it with you.',
+  },
+  {
+    match: '\\b(list|show)\\b.*\\brepo(s|sitories)?\\b',
+    text: 'Let me look up the repositories available to this workspace.',
+    toolCalls: [{ toolName: 'github_list_repositories', input: {} }],
+  },
+  {
+    text: [
+      '## Mock Response',
+      '',
+      'This reply was produced by the offline mock provider, so no model was called.',
+      '',
+      '- Your message was received and the analysis context was built as usual',
+      '- Switch the LLM provider to OpenAI, Anthropic or a local endpoint for real answers',
+    ].join('\n'),
+  },
+]
+
+const MOCK_CHUNK_SIZE = 3 // words per streamed text delta
+
+/**
+ * Deterministic, network-free language model used for demos, tests and offline development.
+ */
+export class MockLanguageModel implements LanguageModelV2 {
+  readonly specificationVersion = 'v2'
+  readonly provider = 'mock'
+  readonly modelId: string
+  readonly supportedUrls = {}
+
+  private script: MockScriptStep[]
+
+  constructor(modelId: string = 'scripted', script: MockScriptStep[] = DEFAULT_MOCK_SCRIPT) {
+    this.modelId = modelId
+    this.script = script
+  }
+
+  async doGenerate(options: LanguageModelV2CallOptions) {
+    const content = this.buildContent(options)
+    const text = this.getText(content)
+
+    return {
+      content,
+      finishReason: content.some(part => part.type === 'tool-call') ? 'tool-calls' as const : 'stop' as const,
+      usage: this.estimateUsage(options.prompt, text),
+      warnings: [],
+    }
+  }
+
+  async doStream(options: LanguageModelV2CallOptions) {
+    const content = this.buildContent(options)
+    const text = this.getText(content)
+    const usage = this.estimateUsage(options.prompt, text)
+    const parts: LanguageModelV2StreamPart[] = [{ type: 'stream-start', warnings: [] }]
+
+    if (text) {
+      parts.push({ type: 'text-start', id: 'mock-text-0' })
+      const words = text.split(/(?<=\s)/)
+      for (let i = 0; i < words.length; i += MOCK_CHUNK_SIZE) {
+        parts.push({ type: 'text-delta', id: 'mock-text-0', delta: words.slice(i, i + MOCK_CHUNK_SIZE).join('') })
+      }
+      parts.push({ type: 'text-end', id: 'mock-text-0' })
+    }
+
+    for (const part of content) {
+      if (part.type === 'tool-call') {
+        parts.push(part)
+      }
+    }
+
+    parts.push({
+      type: 'finish',
+      finishReason: content.some(part => part.type === 'tool-call') ? 'tool-calls' : 'stop',
+      usage,
+    })
+
+    return {
+      stream: new ReadableStream<LanguageModelV2StreamPart>({
+        start(controller) {
+          parts.forEach(part => controller.enqueue(part))
+          controller.close()
+        },
+      }),
+    }
+  }
+
+  private buildContent(options: LanguageModelV2CallOptions): LanguageModelV2Content[] {
+    const lastMessage = options.prompt[options.prompt.length - 1]
+
+    // After a tool round trip, summarize the results instead of calling tools again
+    if (lastMessage?.role === 'tool') {
+      const summaries = lastMessage.content.map(result => {
+        const output = result.output
+        const detail = output.type === 'json' && Array.isArray(output.value)
+          ? `${output.value.length} result${output.value.length !== 1 ? 's' : ''}`
+          : output.type.startsWith('error') ? 'an error' : 'a result'
+        return `- \`${result.toolName}\` returned ${detail}`
+      })
+      return [{ type: 'text', text: `Here is what the integration tools returned:\n\n${summaries.join('\n')}` }]
+    }
+
+    const step = this.selectStep(this.getLastUserText(options.prompt))
+    const availableTools = new Set((options.tools || []).map(tool => tool.name))
+    const content: LanguageModelV2Content[] = [{ type: 'text', text: step.text }]
+
+    step.toolCalls
+      ?.filter(call => availableTools.has(call.toolName))
+      .forEach((call, index) => {
+        content.push({
+          type: 'tool-call',
+          toolCallId: `mock-call-${index}`,
+          toolName: call.toolName,
+          input: JSON.stringify(call.input),
+        })
+      })
+
+    return content
+  }
+
+  private selectStep(userText: string): MockScriptStep {
+    const matched = this.script.find(step => step.match && new RegExp(step.match, 'i').test(userText))
+    return matched || this.script.find(step => !step.match) || { text: 'Mock response.' }
+  }
+
+  private getLastUserText(prompt: LanguageModelV2Prompt): string {
+    for (let i = prompt.length - 1; i >= 0; i--) {
+      const message = prompt[i]
+      if (message.role === 'user') {
+        return message.content
+          .map(part => part.type === 'text' ? part.text : '')
+          .join(' ')
+      }
+    }
+    return ''
+  }
+
+  private getText(content: LanguageModelV2Content[]): string {
+    return content.map(part => part.type === 'text' ? part.text : '').join('')
+  }
+
+  private estimateUsage(prompt: LanguageModelV2Prompt, text: string): LanguageModelV2Usage {
+    // Rough 4-characters-per-token estimate keeps usage stable across runs
+    const inputTokens = Math.ceil(JSON.stringify(prompt).length / 4)
+    const outputTokens = Math.ceil(text.length / 4)
+    return { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens }
+  }
+}
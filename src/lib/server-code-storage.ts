@@ -0,0 +1,360 @@
+import fs from 'fs/promises'
+import path from 'path'
+import { getCodeIndex } from './code-index'
+import { isSearchableCodePath } from './code-search'
+import { CodeCandidate, CodeStorageAdapter, InMemoryCodeStorage, StoredCodeFile } from './code-storage'
+import { getServerGitHubAuth } from './github-app'
+import { getGitHubApiUrl, getGitLabApiUrl, splitRepositoryName } from './integration-utils'
+import { CodeHostAuth, CodeHostService, createCodeHostService, GitLabService } from './integrations'
+import { writeJsonAtomic } from './server-utils'
+import { createSymbolGraph, SymbolGraph } from './symbol-graph'
+import { Integration, SyncedRepositoryRef } from './types'
+import { fnv1a } from './utils'
+
+const CACHE_VERSION = 1
+const TREE_REFRESH_MS = 5 * 60 * 1000 // How long a fetched tree is trusted before checking for new commits
+const MAX_CACHED_FILE_SIZE = 256 * 1024
+const MAX_CACHED_FILES = 2000
+const MAX_FETCHES_PER_REFRESH = 150 // Keeps a chat request fast; the rest is fetched on later searches
+const FETCH_CONCURRENCY = 8
+
+type CodeHost = NonNullable<SyncedRepositoryRef['host']>
+
+// Symbol graphs for local projects, kept for the life of the process and updated by mtime
+const projectGraphs = new Map<string, Promise<SymbolGraph | null>>()
+const pendingGraphUpdates = new Map<string, Promise<SymbolGraph | null>>()
+
+/**
+ * A local checkout, chunked through the persisted code index
+ */
+export class FileSystemCodeStorage implements CodeStorageAdapter {
+  readonly repository = 'current-project'
+  private fileContents = new Map<string, Promise<string | null>>()
+
+  constructor(private projectPath: string = process.cwd()) {}
+
+  async findCandidates(): Promise<CodeCandidate[]> {
+    // Chunk line ranges come from the persisted index, so files are read but not re-chunked
+    const index = getCodeIndex(this.projectPath)
+    await index.ensureFresh()
+
+    const candidates: CodeCandidate[] = []
+    for (const file of index.listFiles()) {
+      // A file that changed since it was indexed is skipped, as its line ranges no longer
+      // fit; the next refresh picks it up
+      if (!await this.isUnchanged(file)) continue
+      const content = await this.readFile(file.filePath)
+      if (!content) continue
+
+      const lines = content.split('\n')
+      for (const chunk of index.getChunks(file.filePath)) {
+        candidates.push({
+          filePath: chunk.filePath,
+          content: lines.slice(chunk.startLine - 1, chunk.endLine).join('\n'),
+          startLine: chunk.startLine,
+          endLine: chunk.endLine,
+          kind: chunk.kind,
+          symbolName: chunk.symbolName,
+        })
+      }
+    }
+    return candidates
+  }
+
+  private async isUnchanged(indexed: { filePath: string; mtimeMs: number; size: number }): Promise<boolean> {
+    try {
+      const stats = await fs.stat(path.join(this.projectPath, indexed.filePath))
+      return stats.mtimeMs === indexed.mtimeMs && stats.size === indexed.size
+    } catch {
+      return false
+    }
+  }
+
+  readFile(filePath: string): Promise<string | null> {
+    let content = this.fileContents.get(filePath)
+    if (!content) {
+      content = fs.readFile(path.join(this.projectPath, filePath), 'utf-8').catch(error => {
+        console.warn(`Could not read file ${filePath}:`, error)
+        return null
+      })
+      this.fileContents.set(filePath, content)
+    }
+    return content
+  }
+
+  /**
+   * Cross-reference graph of the project's TypeScript/JavaScript symbols, re-parsing only
+   * files whose mtime changed since the last call. Null if the compiler is unavailable.
+   */
+  async getSymbolGraph(): Promise<SymbolGraph | null> {
+    const pending = pendingGraphUpdates.get(this.projectPath)
+    if (pending) return pending
+
+    const update = this.updateSymbolGraph().finally(() => {
+      pendingGraphUpdates.delete(this.projectPath)
+    })
+    pendingGraphUpdates.set(this.projectPath, update)
+    return update
+  }
+
+  private async updateSymbolGraph(): Promise<SymbolGraph | null> {
+    if (!projectGraphs.has(this.projectPath)) {
+      projectGraphs.set(this.projectPath, createSymbolGraph())
+    }
+    const graph = await projectGraphs.get(this.projectPath)
+    if (!graph) return null
+
+    const index = getCodeIndex(this.projectPath)
+    await index.ensureFresh()
+
+    const sourceFiles = index.listFiles().filter(file => SymbolGraph.isSourceFile(file.filePath))
+    for (const file of sourceFiles) {
+      const version = `${file.mtimeMs}:${file.size}`
+      if (graph.getVersion(file.filePath) === version) continue
+
+      const content = await this.readFile(file.filePath)
+      if (content !== null) {
+        graph.setFile(file.filePath, content, version)
+      }
+    }
+    graph.retainFiles(new Set(sourceFiles.map(file => file.filePath)))
+
+    return graph
+  }
+}
+
+interface PersistedRepoCache {
+  version: number
+  fullName: string
+  branch: string
+  treeFetchedAt: number
+  tree: Record<string, string> // Searchable path -> blob SHA at the last tree fetch
+  files: Record<string, { sha: string; content: string }>
+}
+
+/**
+ * Server-side copy of one branch of a GitHub or GitLab repository's searchable files, persisted
+ * to disk and kept current by blob SHA: only files whose SHA changed since the last tree
+ * fetch are downloaded again, a bounded number per refresh. Blobs already cached for
+ * another branch of the same repository are reused rather than downloaded.
+ */
+export class SyncedRepoCache {
+  readonly cachePath: string
+  readonly apiUrl: string
+  private data: PersistedRepoCache | null = null
+  private pendingRefresh: Promise<StoredCodeFile[]> | null = null
+
+  // baseUrl selects a GitHub Enterprise Server or self-managed GitLab instance
+  constructor(
+    readonly fullName: string,
+    readonly branch: string,
+    cacheDir?: string,
+    readonly host: CodeHost = 'github',
+    private baseUrl?: string
+  ) {
+    const directory = cacheDir || process.env.SYNCED_REPO_CACHE_DIR || path.join(process.cwd(), '.next', 'cache', 'synced-repos')
+    this.apiUrl = getApiUrl(host, baseUrl)
+    this.cachePath = path.join(directory, `${fnv1a(getCacheKey(fullName, branch, host, this.apiUrl)).toString(16)}.json`)
+  }
+
+  /**
+   * Bring the cache up to date and return the files downloaded so far. Concurrent
+   * callers share one refresh, but each must be able to read the repository with its
+   * own credentials, since the cache is shared by every user of the server.
+   */
+  async refresh(auth: CodeHostAuth): Promise<StoredCodeFile[]> {
+    const service = createCodeHostService(auth, this.baseUrl)
+    const { owner, repo } = splitRepositoryName(this.fullName)
+    if (!await service.getRepository(owner, repo)) {
+      throw new Error(`Failed to access repository ${this.fullName}`)
+    }
+
+    if (!this.pendingRefresh) {
+      this.pendingRefresh = this.refreshFiles(service).finally(() => {
+        this.pendingRefresh = null
+      })
+    }
+    return this.pendingRefresh
+  }
+
+  // Distrust the fetched tree after a push, so the next refresh fetches the files it changed
+  async markStale(): Promise<void> {
+    const data = this.data || await this.load()
+    if (data.treeFetchedAt === 0) return
+
+    data.treeFetchedAt = 0
+    await this.save()
+  }
+
+  // Downloaded files of this branch, as loaded so far
+  getCachedFiles(): { sha: string; content: string }[] {
+    return Object.values(this.data?.files ?? {})
+  }
+
+  private async refreshFiles(github: CodeHostService): Promise<StoredCodeFile[]> {
+    const data = this.data || await this.load()
+    let changed = false
+
+    if (Date.now() - data.treeFetchedAt > TREE_REFRESH_MS) {
+      const tree = await github.getRepositoryTree(this.fullName, this.branch)
+      data.tree = {}
+      tree
+        .filter(item => item.type === 'blob' && (item.size ?? 0) <= MAX_CACHED_FILE_SIZE && isSearchableCodePath(item.path))
+        .slice(0, MAX_CACHED_FILES)
+        .forEach(item => {
+          data.tree[item.path] = item.sha
+        })
+      data.treeFetchedAt = Date.now()
+
+      for (const filePath of Object.keys(data.files)) {
+        if (!data.tree[filePath]) delete data.files[filePath]
+      }
+      changed = true
+    }
+
+    const outdated = Object.entries(data.tree).filter(([filePath, sha]) => data.files[filePath]?.sha !== sha)
+    const siblingBlobs = outdated.length > 0 ? getCachedBlobs(this.fullName, this.apiUrl) : new Map<string, string>()
+    const toFetch: [string, string][] = []
+    for (const [filePath, sha] of outdated) {
+      const content = siblingBlobs.get(sha)
+      if (content !== undefined) {
+        data.files[filePath] = { sha, content }
+        changed = true
+      } else if (toFetch.length < MAX_FETCHES_PER_REFRESH) {
+        toFetch.push([filePath, sha])
+      }
+    }
+
+    for (let i = 0; i < toFetch.length; i += FETCH_CONCURRENCY) {
+      await Promise.all(toFetch.slice(i, i + FETCH_CONCURRENCY).map(async ([filePath, sha]) => {
+        try {
+          data.files[filePath] = { sha, content: await github.getBlobContent(this.fullName, sha) }
+          changed = true
+        } catch (error) {
+          console.warn(`Could not fetch ${this.fullName}/${filePath}:`, error)
+        }
+      }))
+    }
+
+    if (changed) {
+      await this.save()
+    }
+
+    return Object.entries(data.files).map(([filePath, file]) => ({
+      path: filePath,
+      content: file.content,
+      version: file.sha,
+    }))
+  }
+
+  private async load(): Promise<PersistedRepoCache> {
+    try {
+      const persisted = JSON.parse(await fs.readFile(this.cachePath, 'utf-8')) as PersistedRepoCache
+      if (persisted.version === CACHE_VERSION && persisted.fullName === this.fullName && persisted.branch === this.branch) {
+        this.data = persisted
+        return persisted
+      }
+    } catch {
+      // Nothing cached yet; the first refresh fetches the tree
+    }
+
+    this.data = {
+      version: CACHE_VERSION,
+      fullName: this.fullName,
+      branch: this.branch,
+      treeFetchedAt: 0,
+      tree: {},
+      files: {},
+    }
+    return this.data
+  }
+
+  private async save(): Promise<void> {
+    try {
+      await writeJsonAtomic(this.cachePath, this.data)
+    } catch (error) {
+      console.error('Error saving synced repository cache:', error)
+    }
+  }
+}
+
+function getApiUrl(host: CodeHost, baseUrl?: string): string {
+  return host === 'gitlab' ? getGitLabApiUrl(baseUrl) : getGitHubApiUrl(baseUrl)
+}
+
+// Repositories of the same name on different servers are cached apart. Keys of github.com and
+// gitlab.com carry no API URL, so caches written before other servers were told apart stay valid.
+function getCacheKey(fullName: string, branch: string, host: CodeHost, apiUrl: string): string {
+  if (apiUrl !== getApiUrl(host)) {
+    return `${apiUrl}:${fullName}@${branch}`
+  }
+  return host === 'github' ? `${fullName}@${branch}` : `${host}:${fullName}@${branch}`
+}
+
+// One cache per repository branch and server process, shared across requests
+const repoCaches = new Map<string, SyncedRepoCache>()
+
+export function getSyncedRepoCache(fullName: string, branch: string, host: CodeHost = 'github', baseUrl?: string): SyncedRepoCache {
+  const key = getCacheKey(fullName, branch, host, getApiUrl(host, baseUrl))
+  let cache = repoCaches.get(key)
+  if (!cache) {
+    cache = new SyncedRepoCache(fullName, branch, undefined, host, baseUrl)
+    repoCaches.set(key, cache)
+  }
+  return cache
+}
+
+// Blob SHA -> content across every loaded branch of a repository on one server
+function getCachedBlobs(fullName: string, apiUrl: string): Map<string, string> {
+  const blobs = new Map<string, string>()
+  for (const cache of repoCaches.values()) {
+    if (cache.fullName !== fullName || cache.apiUrl !== apiUrl) continue
+    cache.getCachedFiles().forEach(file => blobs.set(file.sha, file.content))
+  }
+  return blobs
+}
+
+/**
+ * A branch of a repository the user synced from GitHub or GitLab, searched through the
+ * server-side cache
+ */
+export class SyncedRepoCodeStorage extends InMemoryCodeStorage {
+  constructor(private repo: SyncedRepositoryRef, private auth: CodeHostAuth, private baseUrl?: string) {
+    super(repo.fullName, `${getApiUrl(repo.host ?? 'github', baseUrl)}:${repo.fullName}@${repo.branch}`)
+  }
+
+  protected async loadFiles(): Promise<StoredCodeFile[]> {
+    return getSyncedRepoCache(this.repo.fullName, this.repo.branch, this.repo.host, this.baseUrl).refresh(this.auth)
+  }
+}
+
+/**
+ * Storage for server-side code search: the local project, plus each synced repository
+ * when a GitHub or GitLab integration with credentials is active for its host
+ */
+export function createServerCodeStorage(
+  repositories: SyncedRepositoryRef[] = [],
+  integrations: Integration[] = []
+): CodeStorageAdapter[] {
+  const adapters: CodeStorageAdapter[] = [new FileSystemCodeStorage()]
+
+  const github = integrations.find(integration =>
+    integration.isActive && integration.type === 'github' && getServerGitHubAuth(integration)
+  )
+  const githubAuth = github && getServerGitHubAuth(github)
+  const gitlab = integrations.find(integration =>
+    integration.isActive && integration.type === 'gitlab' && integration.config.token
+  )
+
+  for (const repo of repositories) {
+    if (repo.host === 'gitlab') {
+      if (gitlab) {
+        adapters.push(new SyncedRepoCodeStorage(repo, new GitLabService(gitlab.config.token!, gitlab.config.baseUrl)))
+      }
+    } else if (github && githubAuth) {
+      adapters.push(new SyncedRepoCodeStorage(repo, githubAuth, github.config.baseUrl))
+    }
+  }
+
+  return adapters
+}
@@ -0,0 +1,27 @@
+import crypto from 'crypto'
+import fs from 'fs/promises'
+import path from 'path'
+
+// Helpers for API routes and server-side caches; they use Node modules, so the browser never imports them
+
+// Whether a value a client presented is the secret
+export function verifySecret(received: string, secret: string): boolean {
+  // Hashing first makes both sides the same length, so the comparison leaks nothing about the secret
+  const expectedHash = crypto.createHash('sha256').update(secret).digest()
+  const receivedHash = crypto.createHash('sha256').update(received).digest()
+  return crypto.timingSafeEqual(expectedHash, receivedHash)
+}
+
+// Whether an Authorization header carries the secret as a bearer token
+export function verifyBearerSecret(authorization: string | null, secret: string): boolean {
+  if (!authorization?.startsWith('Bearer ')) return false
+  return verifySecret(authorization.slice('Bearer '.length), secret)
+}
+
+// Write then rename so a crash never leaves a truncated file behind
+export async function writeJsonAtomic(filePath: string, data: unknown): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true })
+  const tempPath = `${filePath}.tmp`
+  await fs.writeFile(tempPath, JSON.stringify(data))
+  await fs.rename(tempPath, filePath)
+}
@@ -1,8 +1,13 @@
 import { create } from 'zustand'
 import { devtools, persist } from 'zustand/middleware'
-import { AppState, ChatSession, Message, Integration, File } from './types'
+import { AppState, ChatSession, Message, Integration, File, LLMSettings, SyncRun, GitHubWebhookEvent, HttpMetrics, Ticket } from './types'
 import { generateId } from './utils'
 import { createSampleIntegrations } from './integration-utils'
+import { getIntegrationMetricsKey } from './integrations'
+import { formatTicketMessage, getSessionPriority } from './ticket-sessions'
+
+const MAX_SYNC_HISTORY = 20
+const MAX_RECENT_ACTIONS = 10
 
 export const useAppStore = create<AppState>()(
   devtools(
@@ -12,9 +17,11 @@ export const useAppStore = create<AppState>()(
         currentSession: null,
         sessions: [],
         isLoading: false,
+        llmSettings: null,
         integrations: createSampleIntegrations(),
         activeIntegration: null,
         selectedRepo: null, // Add selected repository state
+        selectedBranches: {},
         openFiles: [],
         activeFile: null,
         sidebarOpen: true,
@@ -42,6 +49,36 @@ export const useAppStore = create<AppState>()(
           }))
         },
 
+        createTicketSession: (ticket: Ticket) => {
+          const newSession: ChatSession = {
+            id: generateId(),
+            title: `${ticket.reference}: ${ticket.title}`,
+            messages: [{
+              id: generateId(),
+              role: 'user',
+              content: formatTicketMessage(ticket),
+              timestamp: new Date(),
+              metadata: { source: ticket.source, ticketId: ticket.reference },
+            }],
+            createdAt: new Date(),
+            updatedAt: new Date(),
+            metadata: {
+              ticketType: 'L2',
+              priority: getSessionPriority(ticket.priority),
+              status: ticket.state === 'closed' ? 'closed' : 'open',
+              assignee: ticket.assignees[0],
+              tags: [ticket.source, ...ticket.labels.map(label => label.name)],
+              ticketId: ticket.reference,
+              ticketSource: ticket.source,
+            },
+          }
+
+          set((state) => ({
+            sessions: [newSession, ...state.sessions],
+            currentSession: newSession,
+          }))
+        },
+
         updateSession: (sessionId: string, updates: Partial<ChatSession>) => {
           set((state) => ({
             sessions: state.sessions.map((session) =>
@@ -103,6 +140,11 @@ export const useAppStore = create<AppState>()(
           })
         },
 
+        // LLM actions
+        setLLMSettings: (settings: LLMSettings | null) => {
+          set({ llmSettings: settings })
+        },
+
         // Integration actions
         setActiveIntegration: (integration: Integration | null) => {
           set({ activeIntegration: integration })
@@ -135,6 +177,67 @@ export const useAppStore = create<AppState>()(
           }))
         },
 
+        // Keeps the latest runs and reflects the outcome in the integration's health
+        recordSyncRun: (integrationId: string, run: SyncRun) => {
+          set((state) => ({
+            integrations: state.integrations.map((integration) =>
+              integration.id === integrationId
+                ? {
+                    ...integration,
+                    lastSync: run.status === 'success' ? run.finishedAt : integration.lastSync,
+                    health: {
+                      ...integration.health,
+                      status: run.status === 'success' ? 'connected' : run.status,
+                      lastChecked: run.finishedAt,
+                      errorMessage: run.error,
+                    },
+                    syncHistory: [run, ...(integration.syncHistory || [])].slice(0, MAX_SYNC_HISTORY),
+                  }
+                : integration
+            ),
+          }))
+        },
+
+        recordWebhookActivity: (integrationId: string, events: GitHubWebhookEvent[], cursor: number) => {
+          set((state) => ({
+            integrations: state.integrations.map((integration) => {
+              if (integration.id !== integrationId) return integration
+
+              const activity = integration.activity || { newItems: 0 }
+              // Events arrive oldest first; recent actions list the newest first
+              const actions = events.map((event) => `${event.summary} (${event.repository.fullName})`).reverse()
+              return {
+                ...integration,
+                activity: {
+                  ...activity,
+                  newItems: activity.newItems + events.filter((event) => event.isNew).length,
+                  lastActivity: events.length > 0 ? new Date(events[events.length - 1].receivedAt) : activity.lastActivity,
+                  recentActions: [...actions, ...(activity.recentActions || [])].slice(0, MAX_RECENT_ACTIONS),
+                  webhookCursor: cursor,
+                },
+              }
+            }),
+          }))
+        },
+
+        recordApiMetrics: (metrics: HttpMetrics) => {
+          set((state) => ({
+            integrations: state.integrations.map((integration) =>
+              getIntegrationMetricsKey(integration) === metrics.key
+                ? {
+                    ...integration,
+                    health: {
+                      ...integration.health,
+                      lastChecked: new Date(),
+                      responseTime: metrics.responseTime,
+                      apiUsage: metrics.apiUsage ?? integration.health.apiUsage,
+                    },
+                  }
+                : integration
+            ),
+          }))
+        },
+
         // File actions
         openFile: (file: File) => {
           set((state) => {
@@ -199,14 +302,22 @@ export const useAppStore = create<AppState>()(
         setSelectedRepo(repoId: string | null) {
           set({ selectedRepo: repoId })
         },
+
+        setSelectedBranch(repoId: string, branch: string) {
+          set((state) => ({
+            selectedBranches: { ...state.selectedBranches, [repoId]: branch },
+          }))
+        },
       }),
       {
         name: 'agentic-support-storage',
         partialize: (state) => ({
           sessions: state.sessions,
           integrations: state.integrations,
+          llmSettings: state.llmSettings,
           theme: state.theme,
           sidebarOpen: state.sidebarOpen,
+          selectedBranches: state.selectedBranches,
         }),
       }
     ),
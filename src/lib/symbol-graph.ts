@@ -0,0 +1,404 @@
+import type * as TS from 'typescript'
+import { CodeSymbolKind, loadTypeScript } from './code-chunker'
+
+export interface SymbolDefinition {
+  id: string // `${filePath}#${name}`
+  name: string // Methods are qualified with their class, e.g. "GitHubDatabase.saveFiles"
+  shortName: string
+  kind: CodeSymbolKind
+  filePath: string
+  startLine: number // 1-based, inclusive
+  endLine: number
+  exported: boolean
+}
+
+export type SymbolReferenceKind = 'call' | 'new' | 'type' | 'jsx' | 'import'
+
+export interface SymbolReference {
+  name: string
+  qualifier?: string // Receiver of a method call, e.g. "githubDB" in githubDB.saveFiles()
+  kind: SymbolReferenceKind
+  filePath: string
+  line: number
+  enclosingSymbol?: string // ID of the innermost definition containing the reference
+}
+
+export interface RelatedSymbol {
+  relation: 'caller' | 'callee'
+  symbol: SymbolDefinition
+  via: string // The symbol whose caller or callee this is
+}
+
+interface ImportBinding {
+  localName: string
+  importedName: string // 'default', '*' for namespace imports, or the exported name
+  resolvedPath: string | null // null for package imports
+}
+
+interface FileSymbols {
+  version?: string // mtime, blob SHA or similar, so unchanged files are not re-parsed
+  definitions: SymbolDefinition[]
+  references: SymbolReference[]
+  imports: Map<string, ImportBinding>
+}
+
+const RESOLVABLE_EXTENSIONS = ['', '.ts', '.tsx', '.js', '.jsx', '/index.ts', '/index.tsx', '/index.js']
+const SOURCE_FILE_PATTERN = /\.(tsx?|jsx?|mjs|cjs)$/i
+const MAX_METHOD_CANDIDATES = 3 // Unqualified method names matching more definitions are too ambiguous
+
+/**
+ * Cross-reference graph of TypeScript/JavaScript symbols: definitions, imports, call
+ * sites and type references. Files can be added, replaced and removed individually;
+ * reference resolution is recomputed lazily after changes.
+ */
+export class SymbolGraph {
+  private files = new Map<string, FileSymbols>()
+  private referencesByTarget: Map<string, SymbolReference[]> | null = null
+  private resolvedByReference = new Map<SymbolReference, SymbolDefinition[]>()
+
+  constructor(private ts: typeof TS) {}
+
+  get fileCount(): number {
+    return this.files.size
+  }
+
+  static isSourceFile(filePath: string): boolean {
+    return SOURCE_FILE_PATTERN.test(filePath)
+  }
+
+  setFile(filePath: string, content: string, version?: string): void {
+    if (!SymbolGraph.isSourceFile(filePath)) return
+    this.files.set(filePath, { ...this.extract(filePath, content), version })
+    this.invalidate()
+  }
+
+  removeFile(filePath: string): void {
+    if (this.files.delete(filePath)) {
+      this.invalidate()
+    }
+  }
+
+  getVersion(filePath: string): string | undefined {
+    return this.files.get(filePath)?.version
+  }
+
+  /**
+   * Drop files that no longer exist in the source being mirrored
+   */
+  retainFiles(filePaths: Set<string>): void {
+    for (const filePath of [...this.files.keys()]) {
+      if (!filePaths.has(filePath)) this.removeFile(filePath)
+    }
+  }
+
+  /**
+   * Definitions matching a name, either qualified ("Class.method") or short ("method")
+   */
+  findDefinitions(name: string, filePath?: string): SymbolDefinition[] {
+    const definitions: SymbolDefinition[] = []
+    this.files.forEach((symbols, path) => {
+      if (filePath && path !== filePath) return
+      definitions.push(...symbols.definitions.filter(definition =>
+        definition.name === name || definition.shortName === name
+      ))
+    })
+    return definitions
+  }
+
+  /**
+   * References that resolve to any definition matching the name
+   */
+  findReferences(name: string, filePath?: string): SymbolReference[] {
+    const index = this.getReferenceIndex()
+    const references = this.findDefinitions(name, filePath).flatMap(definition => index.get(definition.id) || [])
+    return [...new Set(references)] // Ambiguous method calls resolve to several definitions
+  }
+
+  /**
+   * Callers and callees of the symbols defined within a line range, for pulling
+   * related code into a prompt alongside a search hit
+   */
+  getRelated(filePath: string, startLine: number, endLine: number, limit: number = 6): RelatedSymbol[] {
+    const symbols = this.files.get(filePath)
+    if (!symbols) return []
+
+    // Symbols inside the range, or else the innermost one around it (a chunk of a long function)
+    let inRange = symbols.definitions.filter(definition =>
+      definition.startLine >= startLine && definition.endLine <= endLine
+    )
+    if (inRange.length === 0) {
+      inRange = symbols.definitions
+        .filter(definition => definition.startLine <= startLine && definition.endLine >= endLine)
+        .sort((a, b) => (a.endLine - a.startLine) - (b.endLine - b.startLine))
+        .slice(0, 1)
+    }
+    const inRangeIds = new Set(inRange.map(definition => definition.id))
+    const index = this.getReferenceIndex()
+    const related = new Map<string, RelatedSymbol>()
+
+    for (const definition of inRange) {
+      // Callers: definitions elsewhere that contain a reference to this symbol
+      for (const reference of index.get(definition.id) || []) {
+        if (reference.kind === 'import' || !reference.enclosingSymbol) continue
+        const caller = this.getDefinition(reference.enclosingSymbol)
+        if (caller && !inRangeIds.has(caller.id) && !related.has(caller.id)) {
+          related.set(caller.id, { relation: 'caller', symbol: caller, via: definition.name })
+        }
+      }
+
+      // Callees: what this symbol's own references resolve to
+      for (const reference of symbols.references) {
+        if (reference.enclosingSymbol !== definition.id || reference.kind === 'import') continue
+        for (const callee of this.resolve(reference)) {
+          if (!inRangeIds.has(callee.id) && !related.has(callee.id)) {
+            related.set(callee.id, { relation: 'callee', symbol: callee, via: definition.name })
+          }
+        }
+      }
+    }
+
+    // Callers first: "who calls this" is usually the more useful context
+    return [...related.values()]
+      .sort((a, b) => (a.relation === b.relation ? 0 : a.relation === 'caller' ? -1 : 1))
+      .slice(0, limit)
+  }
+
+  getDefinition(id: string): SymbolDefinition | undefined {
+    const filePath = id.substring(0, id.lastIndexOf('#'))
+    return this.files.get(filePath)?.definitions.find(definition => definition.id === id)
+  }
+
+  private invalidate(): void {
+    this.referencesByTarget = null
+    this.resolvedByReference.clear()
+  }
+
+  private getReferenceIndex(): Map<string, SymbolReference[]> {
+    if (!this.referencesByTarget) {
+      const index = new Map<string, SymbolReference[]>()
+      this.files.forEach(symbols => {
+        for (const reference of symbols.references) {
+          for (const target of this.resolve(reference)) {
+            const references = index.get(target.id) || []
+            references.push(reference)
+            index.set(target.id, references)
+          }
+        }
+      })
+      this.referencesByTarget = index
+    }
+    return this.referencesByTarget
+  }
+
+  /**
+   * Resolve a reference to its definitions: local declarations first, then imports
+   * followed to the exporting file, then (for method calls) methods with that name
+   */
+  private resolve(reference: SymbolReference): SymbolDefinition[] {
+    const cached = this.resolvedByReference.get(reference)
+    if (cached) return cached
+
+    const symbols = this.files.get(reference.filePath)
+    let resolved: SymbolDefinition[] = []
+
+    if (symbols && !reference.qualifier) {
+      const local = symbols.definitions.find(definition => definition.name === reference.name)
+      if (local) {
+        resolved = [local]
+      } else {
+        const binding = symbols.imports.get(reference.name)
+        if (binding?.resolvedPath) {
+          resolved = this.findExport(binding.resolvedPath, binding.importedName)
+        }
+      }
+    } else if (symbols && reference.qualifier) {
+      const binding = symbols.imports.get(reference.qualifier)
+      if (binding?.resolvedPath && binding.importedName === '*') {
+        // namespace.member()
+        resolved = this.findExport(binding.resolvedPath, reference.name)
+      } else {
+        // instance.method(): prefer methods defined in the module the receiver came from,
+        // or in this file for this.method()
+        const methods = this.findDefinitions(reference.name).filter(definition => definition.name.includes('.'))
+        const modulePath = reference.qualifier === 'this' ? reference.filePath : binding?.resolvedPath
+        const fromModule = modulePath ? methods.filter(method => method.filePath === modulePath) : []
+        resolved = fromModule.length > 0 ? fromModule
+          : methods.length <= MAX_METHOD_CANDIDATES ? methods
+          : []
+      }
+    }
+
+    this.resolvedByReference.set(reference, resolved)
+    return resolved
+  }
+
+  private findExport(filePath: string, exportedName: string): SymbolDefinition[] {
+    const symbols = this.files.get(filePath)
+    if (!symbols) return []
+
+    if (exportedName === 'default') {
+      return symbols.definitions.filter(definition => definition.exported && definition.name === 'default').slice(0, 1)
+    }
+    return symbols.definitions.filter(definition => definition.name === exportedName)
+  }
+
+  private extract(filePath: string, content: string): FileSymbols {
+    const ts = this.ts
+    const sourceFile = ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true)
+    const lineOf = (position: number) => sourceFile.getLineAndCharacterOfPosition(position).line + 1
+    const definitions: SymbolDefinition[] = []
+    const references: SymbolReference[] = []
+    const imports = new Map<string, ImportBinding>()
+
+    const isExported = (node: TS.Node) =>
+      ts.canHaveModifiers(node) &&
+      (ts.getModifiers(node) || []).some(modifier => modifier.kind === ts.SyntaxKind.ExportKeyword)
+
+    const define = (name: string, kind: CodeSymbolKind, node: TS.Node, exported: boolean) => {
+      definitions.push({
+        id: `${filePath}#${name}`,
+        name,
+        shortName: name.includes('.') ? name.substring(name.lastIndexOf('.') + 1) : name,
+        kind,
+        filePath,
+        startLine: lineOf(node.getStart(sourceFile)),
+        endLine: lineOf(node.getEnd()),
+        exported,
+      })
+    }
+
+    const refer = (name: string, kind: SymbolReferenceKind, node: TS.Node, qualifier?: string) => {
+      references.push({ name, qualifier, kind, filePath, line: lineOf(node.getStart(sourceFile)) })
+    }
+
+    for (const statement of sourceFile.statements) {
+      const exported = isExported(statement)
+
+      if (ts.isImportDeclaration(statement) && ts.isStringLiteral(statement.moduleSpecifier)) {
+        const resolvedPath = this.resolveModule(filePath, statement.moduleSpecifier.text)
+        const clause = statement.importClause
+        if (clause?.name) {
+          imports.set(clause.name.text, { localName: clause.name.text, importedName: 'default', resolvedPath })
+          refer(clause.name.text, 'import', clause.name)
+        }
+        if (clause?.namedBindings && ts.isNamespaceImport(clause.namedBindings)) {
+          const localName = clause.namedBindings.name.text
+          imports.set(localName, { localName, importedName: '*', resolvedPath })
+        } else if (clause?.namedBindings && ts.isNamedImports(clause.namedBindings)) {
+          for (const element of clause.namedBindings.elements) {
+            const importedName = element.propertyName?.text || element.name.text
+            imports.set(element.name.text, { localName: element.name.text, importedName, resolvedPath })
+            refer(element.name.text, 'import', element)
+          }
+        }
+      } else if (ts.isFunctionDeclaration(statement)) {
+        define(statement.name?.text || 'default', 'function', statement, exported)
+      } else if (ts.isClassDeclaration(statement)) {
+        const className = statement.name?.text || 'default'
+        define(className, 'class', statement, exported)
+        for (const member of statement.members) {
+          if ((ts.isMethodDeclaration(member) || ts.isPropertyDeclaration(member) ||
+            ts.isGetAccessorDeclaration(member) || ts.isSetAccessorDeclaration(member)) &&
+            member.name && (ts.isIdentifier(member.name) || ts.isPrivateIdentifier(member.name))) {
+            define(`${className}.${member.name.text}`, 'function', member, exported)
+          }
+        }
+      } else if (ts.isInterfaceDeclaration(statement)) {
+        define(statement.name.text, 'interface', statement, exported)
+      } else if (ts.isTypeAliasDeclaration(statement)) {
+        define(statement.name.text, 'type', statement, exported)
+      } else if (ts.isEnumDeclaration(statement)) {
+        define(statement.name.text, 'enum', statement, exported)
+      } else if (ts.isVariableStatement(statement)) {
+        for (const declaration of statement.declarationList.declarations) {
+          if (!ts.isIdentifier(declaration.name)) continue
+          const initializer = declaration.initializer
+          const isFunction = !!initializer && (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer))
+          define(declaration.name.text, isFunction ? 'function' : 'variable', declaration, exported)
+        }
+      } else if (ts.isExportAssignment(statement)) {
+        define('default', 'variable', statement, true)
+      }
+    }
+
+    const visit = (node: TS.Node) => {
+      if (ts.isCallExpression(node) || ts.isNewExpression(node)) {
+        const kind = ts.isNewExpression(node) ? 'new' : 'call'
+        const callee = node.expression
+        if (ts.isIdentifier(callee)) {
+          refer(callee.text, kind, callee)
+        } else if (ts.isPropertyAccessExpression(callee) && ts.isIdentifier(callee.name)) {
+          const receiver = callee.expression
+          const qualifier = ts.isIdentifier(receiver) ? receiver.text
+            : receiver.kind === ts.SyntaxKind.ThisKeyword ? 'this'
+            : '?'
+          refer(callee.name.text, kind, callee.name, qualifier)
+        }
+      } else if (ts.isTypeReferenceNode(node)) {
+        const typeName = ts.isIdentifier(node.typeName) ? node.typeName.text : node.typeName.right.text
+        refer(typeName, 'type', node)
+      } else if (ts.isExpressionWithTypeArguments(node) && ts.isIdentifier(node.expression)) {
+        refer(node.expression.text, 'type', node)
+      } else if ((ts.isJsxOpeningElement(node) || ts.isJsxSelfClosingElement(node)) &&
+        ts.isIdentifier(node.tagName) && /^[A-Z]/.test(node.tagName.text)) {
+        refer(node.tagName.text, 'jsx', node)
+      }
+      ts.forEachChild(node, visit)
+    }
+    visit(sourceFile)
+
+    // Attribute each reference to the innermost definition around it
+    for (const reference of references) {
+      let innermost: SymbolDefinition | undefined
+      for (const definition of definitions) {
+        if (definition.startLine <= reference.line && definition.endLine >= reference.line &&
+          (!innermost || definition.endLine - definition.startLine < innermost.endLine - innermost.startLine)) {
+          innermost = definition
+        }
+      }
+      reference.enclosingSymbol = innermost?.id
+    }
+
+    return { definitions, references, imports }
+  }
+
+  private resolveModule(fromPath: string, specifier: string): string | null {
+    let base: string
+    if (specifier.startsWith('@/')) {
+      base = `src/${specifier.substring(2)}`
+    } else if (specifier.startsWith('.')) {
+      const directory = fromPath.includes('/') ? fromPath.substring(0, fromPath.lastIndexOf('/')) : ''
+      base = normalizePath(`${directory}/${specifier}`)
+    } else {
+      return null // Package import
+    }
+
+    for (const extension of RESOLVABLE_EXTENSIONS) {
+      const candidate = `${base}${extension}`
+      if (this.files.has(candidate)) return candidate
+    }
+    // The target may not be loaded yet; keep the most likely path so it resolves later
+    return `${base}.ts`
+  }
+}
+
+/**
+ * Create an empty graph, or null if the TypeScript compiler cannot be loaded
+ */
+export async function createSymbolGraph(): Promise<SymbolGraph | null> {
+  const ts = await loadTypeScript()
+  return ts ? new SymbolGraph(ts) : null
+}
+
+function normalizePath(filePath: string): string {
+  const segments: string[] = []
+  for (const segment of filePath.split('/')) {
+    if (segment === '' || segment === '.') continue
+    if (segment === '..') {
+      segments.pop()
+    } else {
+      segments.push(segment)
+    }
+  }
+  return segments.join('/')
+}
@@ -0,0 +1,74 @@
+import { Integration, Ticket, TicketCommentOptions } from './types'
+
+// Trackers whose tickets are looked up on the server; issues of synced repositories are in the database
+export function isTicketTracker(integration: Integration): boolean {
+  return integration.isActive && integration.type !== 'github' && integration.type !== 'gitlab'
+}
+
+// A ticket by its reference, e.g. INC0012345 or PROJ-456, from the first tracker that has it
+export async function fetchTicket(integrations: Integration[], reference: string): Promise<Ticket> {
+  const response = await fetch('/api/tickets/get', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ integrations, reference }),
+  })
+  const data = await response.json().catch(() => ({}))
+
+  if (!response.ok) {
+    console.error('Error fetching ticket:', data.error)
+    throw new Error(data.error || `Failed to fetch ticket ${reference}`)
+  }
+
+  return data.ticket
+}
+
+// Posts to the ticket the session was opened from; service desks take it as an internal note unless public
+export async function postTicketComment(integration: Integration, reference: string, body: string, options: TicketCommentOptions = {}): Promise<void> {
+  const response = await fetch('/api/tickets/comment', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ integration, reference, body, public: options.public }),
+  })
+  const data = await response.json().catch(() => ({}))
+
+  if (!response.ok) {
+    console.error('Error commenting on ticket:', data.error)
+    throw new Error(data.error || `Failed to comment on ticket ${reference}`)
+  }
+}
+
+// Session priority for a tracker's priority, e.g. "1 - Critical" on ServiceNow or "Highest" on JIRA
+export function getSessionPriority(priority?: string): 'low' | 'medium' | 'high' | 'critical' {
+  const value = priority?.toLowerCase() || ''
+  if (/critical|highest|blocker|urgent|^1\b/.test(value)) return 'critical'
+  if (/high|^2\b/.test(value)) return 'high'
+  if (/low|planning|^[45]\b/.test(value)) return 'low'
+  return 'medium'
+}
+
+// The first message of a session opened from a ticket: its description and history
+export function formatTicketMessage(ticket: Ticket): string {
+  const details = [
+    `Status: ${ticket.status}`,
+    ticket.priority && `Priority: ${ticket.priority}`,
+    ticket.project && `Assignment: ${ticket.project}`,
+    ticket.requester
+      ? `Requester: ${ticket.requester.name}${ticket.requester.email ? ` <${ticket.requester.email}>` : ''}${ticket.requester.organization ? `, ${ticket.requester.organization}` : ''}`
+      : ticket.author && `Reported by: ${ticket.author}`,
+    `Opened: ${ticket.createdAt}`,
+  ].filter(Boolean)
+
+  const sections = [
+    `Investigate ${ticket.reference}: ${ticket.title}`,
+    details.join('\n'),
+    `Description:\n${ticket.body || '(none)'}`,
+  ]
+  if (ticket.comments?.length) {
+    sections.push(`History:\n${ticket.comments.join('\n\n')}`)
+  }
+  sections.push(`Find the likely cause in the synced code and suggest next steps. ${ticket.url}`)
+  if (ticket.source === 'zendesk') {
+    sections.push('Then draft a reply to the requester and an internal note with zendesk_draft_reply, for an agent to review.')
+  }
+  return sections.join('\n\n')
+}
@@ -8,7 +8,7 @@ export const MessageSchema = z.object({
   timestamp: z.date(),
   isStreaming: z.boolean().optional(),
   metadata: z.object({
-    source: z.enum(['github', 'jira', 'ado', 'manual']).optional(),
+    source: z.enum(['github', 'gitlab', 'jira', 'ado', 'servicenow', 'zendesk', 'manual']).optional(),
     ticketId: z.string().optional(),
     repositoryUrl: z.string().optional(),
     fileReferences: z.array(z.string()).optional(),
@@ -19,16 +19,75 @@ export const MessageSchema = z.object({
 
 export type Message = z.infer<typeof MessageSchema>
 
+// Per-repository sync settings of a GitHub integration
+export const RepoSyncConfigSchema = z.object({
+  repoId: z.string(),
+  fullName: z.string().optional(), // owner/repo, so scheduled syncs can reach repositories not synced yet
+  enabled: z.boolean(),
+  syncBranches: z.array(z.string()),
+  syncIssues: z.boolean(),
+  syncPRs: z.boolean(),
+  syncCommits: z.boolean(),
+  syncReleases: z.boolean(),
+  prefetchContent: z.boolean(), // Download file contents after the tree so code search can read them
+  syncInterval: z.enum(['realtime', '5min', '15min', '1hour', '6hour', '24hour']),
+  lastSync: z.date().optional(),
+})
+
+export type RepoSyncConfig = z.infer<typeof RepoSyncConfigSchema>
+
+export const GitHubSyncConfigSchema = z.object({
+  selectedRepos: z.array(z.string()),
+  repoConfigs: z.record(z.string(), RepoSyncConfigSchema),
+  globalSettings: z.object({
+    autoSync: z.boolean(),
+    defaultSyncInterval: z.string(),
+    maxRepos: z.number(),
+    webhookEnabled: z.boolean(),
+    webhookReadToken: z.string().optional(), // GITHUB_WEBHOOK_READ_TOKEN, presented to read the recorded deliveries
+  }),
+})
+
+export type GitHubSyncConfig = z.infer<typeof GitHubSyncConfigSchema>
+
+// Outcome of one scheduled sync of a repository
+export const SyncRunSchema = z.object({
+  id: z.string(),
+  repoId: z.string(),
+  repoName: z.string(),
+  kind: z.enum(['tree', 'issues', 'pullRequests', 'commits', 'releases']),
+  startedAt: z.date(),
+  finishedAt: z.date(),
+  status: z.enum(['success', 'error', 'rate_limited']),
+  error: z.string().optional(),
+})
+
+export type SyncRun = z.infer<typeof SyncRunSchema>
+
+// Latency and quota observed on integration API responses
+export interface HttpMetrics {
+  key: string // See getIntegrationMetricsKey
+  responseTime: number // in milliseconds
+  apiUsage?: {
+    used: number
+    limit: number
+    resetTime?: Date
+  }
+}
+
 // Integration types
 export const IntegrationSchema = z.object({
   id: z.string(),
-  type: z.enum(['github', 'jira', 'ado']),
+  type: z.enum(['github', 'gitlab', 'jira', 'ado', 'servicenow', 'zendesk']),
   name: z.string(),
   config: z.object({
     apiKey: z.string().optional(),
     baseUrl: z.string().optional(),
     username: z.string().optional(),
     token: z.string().optional(),
+    authType: z.enum(['token', 'app']).optional(), // GitHub: personal access token, or the server's GitHub App
+    appTokenSecret: z.string().optional(), // GitHub App: GITHUB_APP_TOKEN_SECRET, presented to get installation tokens
+    githubConfig: GitHubSyncConfigSchema.optional(), // Repositories to sync and how often
   }),
   isActive: z.boolean(),
   lastSync: z.date().optional(),
@@ -48,11 +107,36 @@ export const IntegrationSchema = z.object({
     newItems: z.number().default(0), // New PRs, issues, tickets since last check
     lastActivity: z.date().optional(),
     recentActions: z.array(z.string()).optional(), // Recent activity descriptions
+    webhookCursor: z.number().optional(), // Sequence of the last webhook event applied
   }).optional(),
+  syncHistory: z.array(SyncRunSchema).optional(), // Latest scheduled sync runs, newest first
 })
 
 export type Integration = z.infer<typeof IntegrationSchema>
 
+// LLM provider selection types
+export const LLMProviderIdSchema = z.enum(['openai', 'anthropic', 'openai-compatible', 'mock'])
+
+export type LLMProviderId = z.infer<typeof LLMProviderIdSchema>
+
+export const LLMSettingsSchema = z.object({
+  provider: LLMProviderIdSchema,
+  model: z.string().optional(), // Falls back to the provider's default model
+})
+
+export type LLMSettings = z.infer<typeof LLMSettingsSchema>
+
+// Rolling summary of chat turns that no longer fit in the model's context window
+export const ConversationSummarySchema = z.object({
+  text: z.string(),
+  summarizedThroughId: z.string(), // ID of the newest message folded into the summary
+  messageCount: z.number(),
+  tokenCount: z.number(),
+  updatedAt: z.coerce.date(),
+})
+
+export type ConversationSummary = z.infer<typeof ConversationSummarySchema>
+
 // Chat session types
 export const ChatSessionSchema = z.object({
   id: z.string(),
@@ -66,6 +150,10 @@ export const ChatSessionSchema = z.object({
     status: z.enum(['open', 'in-progress', 'resolved', 'closed']).optional(),
     assignee: z.string().optional(),
     tags: z.array(z.string()).optional(),
+    llm: LLMSettingsSchema.optional(), // Overrides the workspace LLM settings for this session
+    conversationSummary: ConversationSummarySchema.optional(),
+    ticketId: z.string().optional(), // Reference of the ticket the session was opened from
+    ticketSource: IntegrationSchema.shape.type.optional(),
   }).optional(),
 })
 
@@ -85,8 +173,15 @@ export const FileSchema = z.object({
 export type File = z.infer<typeof FileSchema>
 
 // GitHub specific types
+
+// Installation token for the repository a request is about, or for the default installation
+export type GitHubTokenProvider = (repository?: string) => Promise<string>
+
+// A personal access token, or GitHub App installation tokens
+export type GitHubAuth = string | GitHubTokenProvider
+
 export interface GitHubRepository {
-  id: number
+  id: number // Negated on GitLab, so projects never collide with GitHub repositories in the synced data
   name: string
   full_name: string
   description: string | null
@@ -96,6 +191,7 @@ export interface GitHubRepository {
   private?: boolean
   stargazers_count?: number
   forks_count?: number
+  host?: 'gitlab' // Unset on GitHub
 }
 
 export interface GitHubIssue {
@@ -110,7 +206,29 @@ export interface GitHubIssue {
   labels: Array<{
     name: string
     color: string
+    description?: string | null
   }>
+  author?: {
+    login: string
+    avatar_url: string
+  }
+  assignees?: string[] // Logins
+  milestone?: {
+    title: string
+    description: string | null
+    due_on: string | null
+  } | null
+  closed_at?: string | null
+  comments?: number
+}
+
+export interface GitHubIssueComment {
+  id: number
+  author: string
+  body: string
+  html_url: string
+  created_at: string
+  updated_at: string
 }
 
 export interface GitHubPullRequest {
@@ -130,6 +248,98 @@ export interface GitHubPullRequest {
     ref: string
     sha: string
   }
+  author?: string
+  draft?: boolean
+  merged_at?: string | null
+  closed_at?: string | null
+}
+
+export interface GitHubPullRequestFile {
+  path: string
+  status: 'added' | 'removed' | 'modified' | 'renamed' | 'copied' | 'changed' | 'unchanged'
+  additions: number
+  deletions: number
+  previousPath?: string // Set for renames
+}
+
+export interface GitHubPullRequestReview {
+  reviewer: string
+  state: 'APPROVED' | 'CHANGES_REQUESTED' | 'COMMENTED' | 'DISMISSED' | 'PENDING'
+  submittedAt: string | null
+}
+
+export interface GitHubCommit {
+  sha: string
+  message: string
+  author: {
+    name: string
+    email: string | null
+    login: string | null
+  }
+  date: string // Author date
+  html_url: string
+}
+
+export interface GitHubCommitDetails extends GitHubCommit {
+  files: GitHubPullRequestFile[] // GitHub lists at most 300
+  additions: number
+  deletions: number
+}
+
+export interface GitHubRelease {
+  id: number
+  tag_name: string
+  name: string | null
+  body: string | null
+  draft: boolean
+  prerelease: boolean
+  created_at: string
+  published_at: string | null
+  html_url: string
+}
+
+export interface GitHubTag {
+  name: string
+  sha: string // Commit the tag points at
+}
+
+// Commits and files between two refs
+export interface GitHubComparison {
+  commits: GitHubCommit[] // GitHub lists at most 250
+  files: GitHubPullRequestFile[] // GitHub lists at most 300
+  totalCommits: number
+}
+
+// A commit as listed in a push event, with every path it added, removed or modified
+export interface GitHubPushCommit extends GitHubCommit {
+  files: string[]
+}
+
+// What a webhook event changed, by event type
+export type GitHubWebhookChange = {
+  summary: string // One line for the integration's recent activity
+  isNew: boolean // Opens or publishes something
+} & (
+  | { event: 'push'; branch: string; commits: GitHubPushCommit[] }
+  | { event: 'issues'; action: string; issue: GitHubIssue }
+  | { event: 'issue_comment'; action: string; issue: GitHubIssue | null; issueNumber: number; comment: GitHubIssueComment } // issue is null on pull requests
+  | { event: 'pull_request'; action: string; pullRequest: GitHubPullRequest }
+  | { event: 'release'; action: string; release: GitHubRelease }
+)
+
+export interface GitHubWebhookDelivery {
+  deliveryId: string
+  repository: {
+    id: string
+    fullName: string
+  }
+  sender: string
+  receivedAt: string // ISO date
+}
+
+// A GitHub webhook delivery, recorded by the server for the browser to apply to its synced data
+export type GitHubWebhookEvent = GitHubWebhookDelivery & GitHubWebhookChange & {
+  sequence: number // Position in the server's event log
 }
 
 export interface GitHubTreeItem {
@@ -141,6 +351,74 @@ export interface GitHubTreeItem {
   url: string
 }
 
+// A repository synced in the browser, sent with chat requests so the server can search it
+export const SyncedRepositoryRefSchema = z.object({
+  id: z.string(),
+  fullName: z.string(),
+  branch: z.string(),
+  host: z.enum(['github', 'gitlab']).optional(), // Defaults to GitHub
+})
+
+export type SyncedRepositoryRef = z.infer<typeof SyncedRepositoryRefSchema>
+
+// A synced pull request, sent with chat requests so answers can cite recent changes to the files involved
+export const SyncedPullRequestRefSchema = z.object({
+  repository: z.string(), // owner/repo
+  number: z.number(),
+  title: z.string(),
+  url: z.string(),
+  state: z.enum(['open', 'closed', 'merged']),
+  updatedAt: z.coerce.date(),
+  mergedAt: z.coerce.date().nullable().optional(),
+  files: z.array(z.string()),
+  linkedIssues: z.array(z.number()).optional(),
+})
+
+export type SyncedPullRequestRef = z.infer<typeof SyncedPullRequestRefSchema>
+
+// A synced commit, sent with chat requests so answers can tell what changed recently in the files involved
+export const SyncedCommitRefSchema = z.object({
+  repository: z.string(), // owner/repo
+  sha: z.string(),
+  message: z.string(), // Subject line
+  author: z.string(),
+  date: z.coerce.date(),
+  url: z.string(),
+  files: z.array(z.string()),
+})
+
+export type SyncedCommitRef = z.infer<typeof SyncedCommitRefSchema>
+
+// A synced release, sent with chat requests so answers can tell which versions shipped changes to the files involved
+export const SyncedReleaseRefSchema = z.object({
+  repository: z.string(), // owner/repo
+  tag: z.string(),
+  name: z.string(),
+  url: z.string(),
+  publishedAt: z.coerce.date(),
+  prerelease: z.boolean(),
+  notes: z.string(), // Truncated
+  commits: z.array(z.string()), // SHAs since the previous synced release
+  files: z.array(z.string()), // Paths changed since the previous synced release
+})
+
+export type SyncedReleaseRef = z.infer<typeof SyncedReleaseRefSchema>
+
+// A synced issue with its comments, sent with chat requests so the server can rank it against the statement
+export const SyncedIssueRefSchema = z.object({
+  repository: z.string(), // owner/repo
+  host: z.enum(['github', 'gitlab']).optional(), // Defaults to GitHub
+  number: z.number(),
+  title: z.string(),
+  body: z.string(), // Truncated
+  state: z.enum(['open', 'closed']),
+  labels: z.array(z.string()),
+  url: z.string(),
+  comments: z.array(z.string()), // Truncated
+})
+
+export type SyncedIssueRef = z.infer<typeof SyncedIssueRefSchema>
+
 // JIRA types
 export interface JiraIssue {
   id: string
@@ -149,12 +427,15 @@ export interface JiraIssue {
   description: string
   status: string
   priority: string
+  issueType?: string
   assignee?: {
     displayName: string
     emailAddress: string
   }
   created: string
   updated: string
+  labels?: string[]
+  comments?: string[] // Plain-text comment bodies
 }
 
 // Azure DevOps types
@@ -170,6 +451,124 @@ export interface AdoWorkItem {
   }
   createdDate: string
   changedDate: string
+  project?: string // Team project the work item belongs to
+}
+
+// ServiceNow types
+export interface ServiceNowIncident {
+  sysId: string
+  number: string // INC0012345
+  shortDescription: string
+  description: string
+  state: string // Display value, e.g. In Progress
+  priority: string
+  category?: string
+  assignmentGroup?: string
+  assignedTo?: string
+  caller?: string
+  openedAt: string
+  updatedAt: string
+}
+
+// A work note or additional comment on a ServiceNow record
+export interface ServiceNowJournalEntry {
+  type: 'work_notes' | 'comments'
+  text: string
+  author: string
+  createdAt: string
+}
+
+// Zendesk types
+export interface ZendeskUser {
+  id: number
+  name: string
+  email?: string
+  organization?: string
+}
+
+export interface ZendeskComment {
+  id: number
+  body: string
+  public: boolean // Public replies reach the requester; the rest are internal notes
+  author: string
+  createdAt: string
+}
+
+export interface ZendeskTicket {
+  id: number
+  subject: string
+  description: string
+  status: string // new, open, pending, hold, solved or closed
+  priority?: string
+  type?: string // question, incident, problem or task
+  tags: string[]
+  requester?: ZendeskUser
+  assignee?: string
+  group?: string
+  createdAt: string
+  updatedAt: string
+  comments?: ZendeskComment[] // Oldest first, when fetched with the ticket
+}
+
+// Ticket types, shared by every issue tracker
+
+// A GitHub or GitLab issue, JIRA issue, Azure DevOps work item, ServiceNow incident or Zendesk ticket
+export interface Ticket {
+  source: Integration['type']
+  reference: string // owner/repo#12, PROJ-456, the work item or Zendesk ticket ID or INC0012345, as TicketProvider methods take it
+  title: string
+  body: string // Plain text
+  state: 'open' | 'closed'
+  status: string // The tracker's own status, e.g. "In Review"
+  type?: string // JIRA issue type or work item type
+  priority?: string
+  labels: Array<{ name: string; color?: string }>
+  author?: string
+  requester?: { name: string; email?: string; organization?: string } // Customer who raised it, on service desks
+  assignees: string[]
+  milestone?: string
+  project: string // Repository, JIRA project key, Azure DevOps project, ServiceNow assignment group or Zendesk group
+  url: string
+  createdAt: string
+  updatedAt: string
+  commentCount?: number
+  comments?: string[] // Plain-text bodies, when the tracker returns them
+}
+
+export interface TicketDraft {
+  project: string
+  title: string
+  body: string
+  type?: string // JIRA issue type or work item type; Task by default
+  labels?: string[]
+}
+
+export type TicketLinkType = 'relates' | 'duplicates' | 'blocks'
+
+// Service desks tell internal notes from replies to the requester; comments are internal unless public is set
+export interface TicketCommentOptions {
+  public?: boolean
+}
+
+export interface TicketSearchOptions {
+  project?: string // Narrows the search; see Ticket.project
+  limit?: number
+}
+
+/**
+ * Issue tracker operations on tickets, implemented for GitHub, GitLab, JIRA, Azure DevOps, ServiceNow and Zendesk.
+ * Another tracker plugs in with IntegrationFactory.registerTicketProvider.
+ */
+export interface TicketProvider {
+  readonly source: Integration['type']
+  // Tickets matching any of the terms, or recently updated ones without terms
+  searchTickets(terms: string[], options?: TicketSearchOptions): Promise<Ticket[]>
+  getTicket(reference: string): Promise<Ticket | null>
+  createTicket(draft: TicketDraft): Promise<Ticket>
+  addComment(reference: string, body: string, options?: TicketCommentOptions): Promise<void>
+  // Moves a ticket to a state: open or closed on GitHub, a status or transition name elsewhere
+  transitionTicket(reference: string, state: string): Promise<Ticket>
+  linkTickets(reference: string, target: string, type: TicketLinkType): Promise<void>
 }
 
 // UI Component types
@@ -186,10 +585,14 @@ export interface AppState {
   sessions: ChatSession[]
   isLoading: boolean
   
+  // LLM state
+  llmSettings: LLMSettings | null // Workspace default; null uses the server configuration
+  
   // Integration state
   integrations: Integration[]
   activeIntegration: Integration | null
   selectedRepo: string | null
+  selectedBranches: Record<string, string> // Repository ID -> branch browsed and searched; default branch when unset
   
   // File state
   openFiles: File[]
@@ -201,17 +604,24 @@ export interface AppState {
   
   // Actions
   createSession: (title: string) => void
+  createTicketSession: (ticket: Ticket) => void // Seeded with the ticket's description and history
   updateSession: (sessionId: string, updates: Partial<ChatSession>) => void
   deleteSession: (sessionId: string) => void
   setCurrentSession: (sessionId: string) => void
   addMessage: (sessionId: string, message: Omit<Message, 'id' | 'timestamp'>) => void
   
+  setLLMSettings: (settings: LLMSettings | null) => void
+  
   setActiveIntegration: (integration: Integration | null) => void
   addIntegration: (integration: Omit<Integration, 'id'>) => void
   updateIntegration: (id: string, updates: Partial<Integration>) => void
   removeIntegration: (id: string) => void
+  recordSyncRun: (integrationId: string, run: SyncRun) => void
+  recordWebhookActivity: (integrationId: string, events: GitHubWebhookEvent[], cursor: number) => void
+  recordApiMetrics: (metrics: HttpMetrics) => void
   
   setSelectedRepo: (repoId: string | null) => void
+  setSelectedBranch: (repoId: string, branch: string) => void
   
   openFile: (file: File) => void
   closeFile: (fileId: string) => void
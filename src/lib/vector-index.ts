@@ -0,0 +1,125 @@
+import { EmbeddingProvider, cosineSimilarity } from './embeddings'
+import { fnv1a } from './utils'
+
+export interface VectorMatch<T> {
+  document: T
+  score: number // Cosine similarity to the query
+}
+
+/**
+ * Where embeddings are kept between searches, by provider and content, so unchanged
+ * issues and code chunks are only embedded once
+ */
+export interface EmbeddingCache {
+  get(keys: string[]): Promise<Array<number[] | undefined>>
+  set(entries: Array<[string, number[]]>): Promise<void>
+}
+
+const EMBEDDING_BATCH_SIZE = 64
+const MAX_CACHED_EMBEDDINGS = 20000
+
+/**
+ * Embeddings kept for the life of the process (or browser tab), shared by every index
+ * that is not given a persistent cache
+ */
+export class MemoryEmbeddingCache implements EmbeddingCache {
+  private vectors = new Map<string, number[]>()
+
+  constructor(private maxEntries: number = MAX_CACHED_EMBEDDINGS) {}
+
+  async get(keys: string[]): Promise<Array<number[] | undefined>> {
+    return keys.map(key => this.vectors.get(key))
+  }
+
+  async set(entries: Array<[string, number[]]>): Promise<void> {
+    for (const [key, vector] of entries) {
+      if (this.vectors.size >= this.maxEntries) {
+        // Maps iterate in insertion order, so this evicts the oldest entry
+        this.vectors.delete(this.vectors.keys().next().value!)
+      }
+      this.vectors.set(key, vector)
+    }
+  }
+}
+
+const memoryCache = new MemoryEmbeddingCache()
+
+export function getEmbeddingCacheKey(providerId: string, text: string): string {
+  return `${providerId}:${fnv1a(text)}:${text.length}`
+}
+
+/**
+ * In-memory vector index over arbitrary documents using a pluggable embedding provider
+ */
+export class VectorIndex<T> {
+  private documents: Array<{ document: T; vector: number[] }> = []
+
+  constructor(
+    private provider: EmbeddingProvider,
+    private getText: (document: T) => string,
+    private cache: EmbeddingCache = memoryCache
+  ) {}
+
+  get size(): number {
+    return this.documents.length
+  }
+
+  /**
+   * Add documents with their embeddings. At most maxNewEmbeddings documents without a
+   * cached vector are embedded, in the order given; the rest are left out until a later
+   * call embeds them.
+   */
+  async add(documents: T[], maxNewEmbeddings: number = Infinity): Promise<void> {
+    const vectors = await this.embedAll(documents.map(document => this.getText(document)), maxNewEmbeddings)
+    documents.forEach((document, index) => {
+      if (vectors[index]) {
+        this.documents.push({ document, vector: vectors[index] })
+      }
+    })
+  }
+
+  async search(query: string, limit: number = 10): Promise<VectorMatch<T>[]> {
+    if (this.documents.length === 0) {
+      return []
+    }
+
+    // Queries are rarely repeated, so they are not cached
+    const [queryVector] = await this.provider.embed([query])
+    return this.documents
+      .map(({ document, vector }) => ({ document, score: cosineSimilarity(queryVector, vector) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+  }
+
+  private async embedAll(texts: string[], maxNewEmbeddings: number): Promise<Array<number[] | undefined>> {
+    const keys = texts.map(text => getEmbeddingCacheKey(this.provider.id, text))
+    const results = await this.cache.get(keys)
+
+    // The same text may appear more than once; it is embedded once
+    const missing = new Map<string, number[]>()
+    results.forEach((vector, index) => {
+      if (vector) return
+      const indexes = missing.get(keys[index])
+      if (indexes) {
+        indexes.push(index)
+      } else if (missing.size < maxNewEmbeddings) {
+        missing.set(keys[index], [index])
+      }
+    })
+
+    const pending = [...missing.values()]
+    for (let i = 0; i < pending.length; i += EMBEDDING_BATCH_SIZE) {
+      const batch = pending.slice(i, i + EMBEDDING_BATCH_SIZE)
+      const vectors = await this.provider.embed(batch.map(([index]) => texts[index]))
+
+      batch.forEach((indexes, j) => {
+        indexes.forEach(index => {
+          results[index] = vectors[j]
+        })
+      })
+      await this.cache.set(batch.map(([index], j) => [keys[index], vectors[j]]))
+    }
+
+    return results
+  }
+}